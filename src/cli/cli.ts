@@ -3,15 +3,30 @@ import chalk from 'chalk';
 import Table from 'cli-table3';
 import path from 'node:path';
 import fs from 'node:fs/promises';
+import { execa } from 'execa';
 import { detectTools } from '../tools/registry.js';
-import { TOOL_DEFINITIONS } from '../tools/tool-definitions.js';
+import { listToolAdapters } from '../tools/adapters.js';
 import { runCoordinator, runValidationOnly } from '../orchestration/run.js';
 import { loadSpecs, orderSpecs } from '../specs/discovery.js';
-import { RunContext, RunOptions, Session } from '../types.js';
-import { PROJECT_SESSION_FILE, SPECS_DIR, getProjectLogsDir, getProjectReportsDir, getProjectSessionsDir, getProjectStateDir } from '../config/paths.js';
-import { loadSession } from '../orchestration/session.js';
-import { readGlobalConfig, writeGlobalConfig } from '../config/global-config.js';
-import { ensureDir, pathExists, removePath } from '../utils/fs.js';
+import { Finding, FindingSeverity, RunContext, RunOptions, Session } from '../types.js';
+import { PROJECT_SESSION_FILE, SPECS_DIR, getConfigFile, getProjectLogsDir, getProjectPromptsDir, getProjectReportsDir, getProjectSessionsDir, getProjectStateDir } from '../config/paths.js';
+import { findSession, loadLatestSession, loadSession, loadSessionById, loadSessionHistory } from '../orchestration/session.js';
+import { REPORT_EXTENSIONS, parseReportFormat, renderReport } from '../orchestration/report.js';
+import { rollbackSpec } from '../orchestration/checkpoints.js';
+import { formatFileChange, summarizeFileChanges } from '../orchestration/changes.js';
+import { FINDING_SEVERITIES, filterFindingsBySeverity, formatFindingDetail, formatFindingSummary, getFindings, parseSeverityList, sortFindings } from '../orchestration/findings.js';
+import { GLOBAL_CONFIG_KEYS, GLOBAL_CONFIG_SCHEMA, assertGlobalConfigKey, loadGlobalConfig, parseGlobalConfigValue, readGlobalConfig, writeGlobalConfig } from '../config/global-config.js';
+import { PROJECT_CONFIG_FILES, PROJECT_CONFIG_KEYS, PROJECT_CONFIG_SCHEMA, ProjectConfig, parseSettingValue } from '../config/project-config.js';
+import { RUN_SETTING_DEFAULTS, ResolvedSettings, resolveSettings } from '../config/settings.js';
+import { ensureDir, pathExists, removePath, writeTextFile } from '../utils/fs.js';
+import { formatUnifiedDiff } from '../utils/diff.js';
+import { CoordinatorEventEmitter, EventSink, followEventLog, openEventSink } from '../orchestration/events.js';
+import { DEFAULT_SERVE_PORT, StatusServer, startStatusServer } from '../orchestration/status-server.js';
+import { RunDashboard, isTerminal } from './dashboard.js';
+import { ciFailureExitCode } from '../orchestration/ci.js';
+import { buildSpecsDocument, buildStatusDocument, buildToolsDocument, formatJson } from '../orchestration/json-output.js';
+import { formatCost, formatUsageLimits, formatUsageTotals, resolvePriceTable, sessionCycles, sumSessionUsage, sumSpecUsage, summarizeToolUsage } from '../orchestration/cost.js';
+import { DEFAULT_PROMPT_TEMPLATES, PROMPT_TEMPLATE_NAMES, getPromptTemplatePath, loadPromptTemplates, parsePromptTemplateName } from '../orchestration/prompts.js';
 
 export interface CliRunOptions {
   argv: string[];
@@ -33,37 +48,95 @@ export async function runCli(options: CliRunOptions): Promise<void> {
     writeErr: (str) => stderr.write(str)
   });
 
+  const jsonOutput = () => Boolean(program.opts().json);
+
   program.hook('preAction', (command) => {
     if (command.parent) {
       command.parent.configureHelp({ sortSubcommands: true });
     }
   });
 
-  async function handleRun(cmd: RunOptions) {
+  // With `--events -` stdout carries only events, so console text moves to stderr.
+  // CI runs tell a missing or unusable tool apart from other failures by exit code.
+  async function withEvents(target: string | undefined, run: (context: RunContext, events: CoordinatorEventEmitter) => Promise<void>, ci = false) {
+    const events = new CoordinatorEventEmitter();
     const context: RunContext = {
       cwd,
-      output: stdout,
+      output: target === '-' ? stderr : stdout,
       errorOutput: stderr,
       env
     };
+    let sink: EventSink | undefined;
     try {
-      await runCoordinator(cmd, context);
+      sink = target ? openEventSink(target, cwd, stdout) : undefined;
+      if (sink) {
+        events.onAny(sink.write);
+      }
+      await run(context, events);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
+      events.emit('RunFailed', { sessionId: events.sessionId, message });
       stderr.write(chalk.red(`${message}\n`));
-      process.exitCode = 1;
+      process.exitCode = ci ? ciFailureExitCode(error) : 1;
+    } finally {
+      sink?.close();
+    }
+  }
+
+  // The dashboard streams tool output itself, so verbose streaming is turned off under it.
+  function openDashboard(cmd: RunOptions, options: RunOptions): RunDashboard | undefined {
+    if (cmd.interactive || cmd.events === '-') {
+      throw new Error('--tui cannot be combined with --interactive or --events -.');
+    }
+    if (!isTerminal(stdout)) {
+      stderr.write('stdout is not a terminal; --tui falls back to plain output.\n');
+      return undefined;
     }
+    return new RunDashboard({ stdout, stdin: process.stdin }, resolvePriceTable(options.prices));
+  }
+
+  async function handleRun(cmd: RunOptions, command: Command) {
+    await withEvents(cmd.events, async (context, events) => {
+      if (jsonOutput() && !cmd.dryRun) {
+        throw new Error('--json is only supported with --dry-run for aic run; use --events - for progress as JSON lines.');
+      }
+      const settings = await resolveSettings({ cwd, env, flags: explicitSettings(command) });
+      const options: RunOptions = { ...withSettings(cmd, settings.values), json: jsonOutput() };
+      // The dashboard checks its flag combinations, so it is opened before anything needs closing.
+      const dashboard = cmd.tui && !cmd.dryRun ? openDashboard(cmd, options) : undefined;
+      let server: StatusServer | undefined;
+      try {
+        server = cmd.serve !== undefined && !cmd.dryRun
+          ? await startStatusServer({ cwd, env, port: cmd.serve, sessionId: () => events.sessionId })
+          : undefined;
+        if (server) {
+          events.onAny(server.publish);
+          context.output.write(`Serving session status on ${server.url}\n`);
+        }
+        if (dashboard) {
+          dashboard.attach(events);
+        }
+        await runCoordinator(
+          dashboard ? { ...options, verbose: false } : options,
+          dashboard ? { ...context, output: dashboard.output, errorOutput: dashboard.output } : context,
+          { events, onToolOutput: dashboard?.toolOutput }
+        );
+      } finally {
+        dashboard?.stop();
+        await server?.close();
+      }
+    }, Boolean(cmd.ci));
   }
 
   program.command('run')
     .description('Build specs in the current directory')
     .option('--specs <files>', 'Comma-separated list or glob of specs to include')
     .option('--exclude <files>', 'Comma-separated list or glob of specs to exclude')
-    .option('--lead <tool>', 'Force lead tool (claude|codex|gemini)')
+    .option('--lead <tool>', 'Force lead tool (claude|codex|gemini or a registered adapter)')
     .option('--validators <tools>', 'Comma-separated list of validator tools')
-    .option('--max-iterations <n>', 'Total max cycles per spec across all runs', Number, 15)
-    .option('--max-iterations-per-run <n>', 'Max cycles per spec per run', Number, 5)
-    .option('--timeout <minutes>', 'Per-cycle timeout in minutes', Number, 10)
+    .option('--max-iterations <n>', 'Total max cycles per spec across all runs', Number, RUN_SETTING_DEFAULTS.maxIterations)
+    .option('--max-iterations-per-run <n>', 'Max cycles per spec per run', Number, RUN_SETTING_DEFAULTS.maxIterationsPerRun)
+    .option('--timeout <minutes>', 'Per-cycle timeout in minutes', Number, RUN_SETTING_DEFAULTS.timeout)
     .option('--preflight-threshold <n>', 'Preflight completeness threshold (0-100)', Number, 70)
     .option('--preflight-iterations <n>', 'Max validation cycles in preflight mode', Number, 2)
     .option('--resume', 'Resume last session')
@@ -77,22 +150,49 @@ export async function runCli(options: CliRunOptions): Promise<void> {
     .option('--dry-run', 'List specs and exit')
     .option('--start-over', 'Ignore previous session state and start fresh')
     .option('--no-preflight', 'Disable preflight validation on existing code')
+    .option('--checkpoint', 'Record a git checkpoint after each cycle (enables aic rollback)')
+    .option('--validator-concurrency <n>', 'Max validators running at once (default: all)', Number)
+    .option('--parallel <n>', 'Build up to n independent specs at once in separate git worktrees', Number)
+    .option('--consensus <policy>', 'Consensus policy: default, unanimous, majority, quorum-<n>, weighted[:tool=w,...], completeness-threshold[:pct], no-critical-findings')
+    .option('--check <name=command>', 'Run a shell command as a validator after each cycle (repeatable)', collectValues, [])
+    .option('--gate <name=command>', 'Like --check, but a failure blocks consensus (repeatable)', collectValues, [])
+    .option('--prompt-mode <mode>', 'reference: prompts point at files; inline: embed spec, context docs and relevant sources')
+    .option('--prompt-budget <tokens>', 'Token budget for files inlined with --prompt-mode inline', Number)
+    .option('--max-tokens <n>', 'Stop the run once the session has used n tokens', Number)
+    .option('--max-cost <usd>', 'Stop the run once the session has cost this many USD', Number)
+    .option('--max-spec-tokens <n>', 'Skip a spec once it has used n tokens', Number)
+    .option('--max-spec-cost <usd>', 'Skip a spec once it has cost this many USD', Number)
+    .option('--events <file|->', 'Write progress events as JSON lines to a file, or to stdout with -')
+    .option('--tui', 'Full-screen dashboard (plain output when stdout is not a terminal)')
+    .option('--serve <port>', 'Serve session status and live events on localhost while the run lasts', Number)
+    .option('--ci', 'Never prompt or count down; exit 0 passed, 1 failed, 2 skipped for review, 3 tool unavailable, 4 budget exceeded')
+    .option('--low-maturity <policy>', 'Specs below maturity 3: proceed, skip (for review) or abort (default: ask; skip with --ci)')
+    .option('--report-dir <dir>', 'Directory for the end-of-run session reports (default: .ai-coord/reports)')
+    .option('--report-formats <list>', 'Session report formats written after the run: html, md, json, junit, sarif (default: md)')
     .action(handleRun);
 
   program.command('tools')
     .description('List available AI tools')
     .action(async () => {
-      const registry = await detectTools(env);
-      const table = new Table({ head: ['Tool', 'Version', 'Status'] });
-      for (const definition of TOOL_DEFINITIONS) {
-        const tool = registry.available.get(definition.name);
-        if (tool) {
-          table.push([tool.name, tool.version, '✓ Ready']);
-        } else {
-          table.push([definition.name, '-', '✗ Not found']);
+      try {
+        const registry = await detectTools(env, cwd);
+        if (jsonOutput()) {
+          stdout.write(formatJson(buildToolsDocument(listToolAdapters(), registry)));
+          return;
         }
+        const table = new Table({ head: ['Tool', 'Version', 'Status'] });
+        for (const adapter of listToolAdapters()) {
+          const tool = registry.available.get(adapter.name);
+          if (tool) {
+            table.push([tool.name, tool.version, '✓ Ready']);
+          } else {
+            table.push([adapter.name, '-', '✗ Not found']);
+          }
+        }
+        stdout.write(`${table.toString()}\n`);
+      } catch (error) {
+        reportFailure(error);
       }
-      stdout.write(`${table.toString()}\n`);
     });
 
   program.command('validate')
@@ -100,22 +200,44 @@ export async function runCli(options: CliRunOptions): Promise<void> {
     .option('--specs <files>', 'Comma-separated list or glob of specs to include')
     .option('--exclude <files>', 'Comma-separated list or glob of specs to exclude')
     .option('--validators <tools>', 'Comma-separated list of validator tools')
-    .option('--timeout <minutes>', 'Per-cycle timeout in minutes', Number, 10)
+    .option('--timeout <minutes>', 'Per-cycle timeout in minutes', Number, RUN_SETTING_DEFAULTS.timeout)
     .option('--verbose', 'Verbose output')
     .option('--heartbeat <seconds>', 'Verbose heartbeat interval in seconds (0 to disable)', Number, 0)
     .option('--quiet', 'Quiet output')
+    .option('--validator-concurrency <n>', 'Max validators running at once (default: all)', Number)
+    .option('--consensus <policy>', 'Consensus policy (see aic run --help)')
+    .option('--check <name=command>', 'Run a shell command as a validator (repeatable)', collectValues, [])
+    .option('--gate <name=command>', 'Like --check, but a failure blocks consensus (repeatable)', collectValues, [])
+    .option('--prompt-mode <mode>', 'reference or inline (see aic run --help)')
+    .option('--prompt-budget <tokens>', 'Token budget for inlined files', Number)
+    .option('--events <file|->', 'Write progress events as JSON lines (see aic run --help)')
+    .action(async (cmd, command: Command) => {
+      if (refuseJson('validate', '; use --events - for progress as JSON lines.')) {
+        return;
+      }
+      await withEvents(cmd.events, async (context, events) => {
+        const settings = await resolveSettings({ cwd, env, flags: explicitSettings(command) });
+        await runValidationOnly(withSettings(cmd, settings.values), context, { events });
+      });
+    });
+
+  program.command('serve')
+    .description('Serve read-only session status over HTTP and live events over WebSocket on localhost')
+    .option('--port <n>', 'Port to listen on', Number, DEFAULT_SERVE_PORT)
+    .option('--events <file>', 'Follow an events file written by aic run --events <file> and forward it to WebSocket clients')
     .action(async (cmd) => {
-      const context: RunContext = {
-        cwd,
-        output: stdout,
-        errorOutput: stderr,
-        env
-      };
+      if (refuseJson('serve', '; its /api endpoints serve the JSON documents.')) {
+        return;
+      }
       try {
-        await runValidationOnly(cmd, context);
+        const server = await startStatusServer({ cwd, env, port: cmd.port });
+        const stopFollowing = cmd.events ? followEventLog(path.resolve(cwd, cmd.events), server.publish) : undefined;
+        stdout.write(`Serving session status on ${server.url} (Ctrl+C to stop)\n`);
+        await waitForShutdown();
+        stopFollowing?.();
+        await server.close();
       } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        stderr.write(chalk.red(`${message}\n`));
+        stderr.write(chalk.red(`${error instanceof Error ? error.message : String(error)}\n`));
         process.exitCode = 1;
       }
     });
@@ -124,6 +246,9 @@ export async function runCli(options: CliRunOptions): Promise<void> {
     .description('Initialize a new project with specs directory')
     .option('--force', 'Overwrite specs directory if it exists')
     .action(async (cmd) => {
+      if (refuseJson('init')) {
+        return;
+      }
       const specsDir = path.join(cwd, SPECS_DIR);
       if (await pathExists(specsDir)) {
         if (!cmd.force) {
@@ -143,139 +268,432 @@ export async function runCli(options: CliRunOptions): Promise<void> {
     .description('List specs in the specs directory')
     .option('--status', 'Show per-spec status details')
     .option('--detailed', 'Show full gap details (requires --status)')
+    .option('--severity <levels>', 'Only show findings with these severities (critical,major,minor,info)')
     .action(async (cmd) => {
-      const specsDir = path.join(cwd, SPECS_DIR);
-      const loaded = await loadSpecs(specsDir);
-      const ordered = orderSpecs(loaded.map((spec) => spec.entry));
-      if (ordered.length === 0) {
-        stdout.write('No specs found.\n');
-        return;
-      }
-      if (cmd.detailed && !cmd.status) {
-        stderr.write('--detailed requires --status\n');
-        process.exitCode = 1;
-        return;
-      }
-      const session = await loadSession(cwd, env);
-      const statusByPath = new Map<string, string>();
-      const sessionByPath = new Map<string, Session['specs'][number]>();
-      if (session) {
-        for (const spec of session.specs) {
-          statusByPath.set(spec.path, spec.status);
-          sessionByPath.set(spec.path, spec);
+      try {
+        const specsDir = path.join(cwd, SPECS_DIR);
+        const loaded = await loadSpecs(specsDir);
+        const ordered = orderSpecs(loaded.map((spec) => spec.entry));
+        if (ordered.length === 0 && !jsonOutput()) {
+          stdout.write('No specs found.\n');
+          return;
         }
-      }
-      ordered.forEach((spec) => {
-        const status = statusByPath.get(spec.path);
-        const suffix = status ? ` - ${status}` : '';
-        stdout.write(`${spec.file} (${spec.meta.complexity}, Level ${spec.meta.maturity})${suffix}\n`);
-        if (!cmd.status) {
+        if (cmd.detailed && !cmd.status) {
+          stderr.write('--detailed requires --status\n');
+          process.exitCode = 1;
           return;
         }
-        const entry = sessionByPath.get(spec.path);
-        if (!entry) {
-          stdout.write('  cycles: 0\n');
-          stdout.write('  gaps: none (no session data)\n');
+        let severities: FindingSeverity[] | undefined;
+        try {
+          severities = cmd.severity ? parseSeverityList(cmd.severity) : undefined;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          stderr.write(`${message}\n`);
+          process.exitCode = 1;
           return;
         }
-        const cycles = entry.cycles?.length ?? 0;
-        const lastCycle = cycles > 0 ? entry.cycles[cycles - 1] : undefined;
-        const lastCompleteness = lastCycle
-          ? Math.round(
-            lastCycle.validations.reduce((sum, validation) => sum + validation.parsed.completeness, 0)
-              / Math.max(lastCycle.validations.length, 1)
-          )
-          : 0;
-        stdout.write(`  cycles: ${cycles}\n`);
-        stdout.write(`  last completeness: ${lastCompleteness}%\n`);
-        if (!lastCycle || lastCycle.validations.length === 0) {
-          stdout.write('  gaps: none\n');
+        const session = await loadSession(cwd, env);
+        if (jsonOutput()) {
+          stdout.write(formatJson(buildSpecsDocument(ordered, session, severities)));
           return;
         }
-        const gapLines: string[] = [];
-        const gapLinesFull: string[] = [];
-        lastCycle.validations.forEach((validation) => {
-          if (validation.parsed.gaps.length === 0) {
+        const statusByPath = new Map<string, string>();
+        const sessionByPath = new Map<string, Session['specs'][number]>();
+        if (session) {
+          for (const spec of session.specs) {
+            statusByPath.set(spec.path, spec.status);
+            sessionByPath.set(spec.path, spec);
+          }
+        }
+        ordered.forEach((spec) => {
+          const status = statusByPath.get(spec.path);
+          const suffix = status ? ` - ${status}` : '';
+          stdout.write(`${spec.file} (${spec.meta.complexity}, Level ${spec.meta.maturity})${suffix}\n`);
+          if (!cmd.status) {
+            return;
+          }
+          const entry = sessionByPath.get(spec.path);
+          if (!entry) {
+            stdout.write('  cycles: 0\n');
+            stdout.write('  gaps: none (no session data)\n');
             return;
           }
-          validation.parsed.gaps.forEach((gap) => {
-            gapLines.push(`${validation.tool}: ${summarizeGap(gap)}`);
-            gapLinesFull.push(`${validation.tool}: ${gap}`);
+          const cycles = entry.cycles?.length ?? 0;
+          const lastCycle = cycles > 0 ? entry.cycles[cycles - 1] : undefined;
+          const lastCompleteness = lastCycle
+            ? Math.round(
+              lastCycle.validations.reduce((sum, validation) => sum + validation.parsed.completeness, 0)
+                / Math.max(lastCycle.validations.length, 1)
+            )
+            : 0;
+          stdout.write(`  cycles: ${cycles}\n`);
+          stdout.write(`  last completeness: ${lastCompleteness}%\n`);
+          if (!lastCycle || lastCycle.validations.length === 0) {
+            stdout.write('  gaps: none\n');
+            return;
+          }
+          const findings = filterFindingsBySeverity(sortFindings(lastCycle.validations.flatMap((validation) => (
+            getFindings(validation.parsed).map((finding) => ({ tool: validation.tool, finding }))
+          ))), severities);
+          if (findings.length === 0) {
+            stdout.write('  gaps: none\n');
+            return;
+          }
+          stdout.write(`  severity: ${summarizeSeverities(findings.map((item) => item.finding))}\n`);
+          stdout.write(`  gaps (${findings.length}):\n`);
+          if (cmd.detailed) {
+            findings.forEach(({ tool, finding }) => {
+              formatFindingDetail(finding).forEach((line, index) => {
+                stdout.write(index === 0 ? `  - ${tool}: ${line}\n` : `    ${line.trim()}\n`);
+              });
+            });
+            return;
+          }
+          findings.slice(0, 5).forEach(({ tool, finding }) => {
+            stdout.write(`  - ${tool}: ${summarizeGap(formatFindingSummary(finding))}\n`);
           });
+          if (findings.length > 5) {
+            stdout.write(`  - ...and ${findings.length - 5} more\n`);
+          }
         });
-        if (gapLines.length === 0) {
-          stdout.write('  gaps: none\n');
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  program.command('status')
+    .description('Show current session status for this directory')
+    .option('--full', 'Show full session details')
+    .action(async (cmd) => {
+      try {
+        const session = await loadSession(cwd, env);
+        const sessionsDir = getProjectSessionsDir(cwd);
+        if (jsonOutput()) {
+          stdout.write(formatJson(buildStatusDocument(session, await loadSessionHistory(cwd, session?.id))));
+          return;
+        }
+        if (!session && !(await pathExists(sessionsDir))) {
+          stdout.write('No session found.\n');
           return;
         }
-        stdout.write(`  gaps (${gapLines.length}):\n`);
-        if (cmd.detailed) {
-          gapLinesFull.forEach((gap) => {
-            stdout.write(`  - ${gap}\n`);
+        if (session) {
+          if (cmd.full) {
+            stdout.write(formatSessionStatus(session));
+          } else {
+            stdout.write(formatSessionSummary(session));
+          }
+        }
+        const history = await loadSessionHistory(cwd, session?.id);
+        if (history.length > 0) {
+          stdout.write('Previous sessions:\n');
+          history.forEach((entry) => {
+            const counts = entry.specs;
+            stdout.write(`- ${entry.id}: ${entry.status} (${entry.updatedAt}) - ${counts.completed}/${counts.total} completed, ${counts.failed} failed, ${counts.inProgress} in progress\n`);
+            stdout.write(`  Project: ${entry.workingDirectory}\n`);
+            stdout.write(`  Active Spec: ${entry.activeSpec ?? 'None'}\n`);
           });
+        }
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  program.command('report [session]')
+    .description('Write a session report with cycle timeline, findings, usage and file changes')
+    .option('--format <format>', 'Report format: html, md, json, junit or sarif', 'html')
+    .option('--output <file|->', 'Write to this file, or - for stdout (default: .ai-coord/reports/<session>-report.<ext>)')
+    .action(async (ref: string | undefined, cmd) => {
+      try {
+        // --json prints the JSON document, like the other commands.
+        const format = jsonOutput() ? 'json' : parseReportFormat(cmd.format);
+        const session = ref ? await findSession(cwd, ref, env) : await loadLatestSession(cwd, env);
+        if (!session) {
+          throw new Error('No session found.');
+        }
+        const content = await renderReport(session, format);
+        const target = jsonOutput() ? '-' : cmd.output ?? path.join(getProjectReportsDir(cwd), `${session.id}-report.${REPORT_EXTENSIONS[format]}`);
+        if (target === '-') {
+          stdout.write(content);
           return;
         }
-        gapLines.slice(0, 5).forEach((gap) => {
-          stdout.write(`  - ${gap}\n`);
-        });
-        if (gapLines.length > 5) {
-          stdout.write(`  - ...and ${gapLines.length - 5} more\n`);
+        const reportPath = path.resolve(cwd, target);
+        await writeTextFile(reportPath, content);
+        stdout.write(`Wrote ${format} report to ${path.relative(cwd, reportPath)}\n`);
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  program.command('rollback <spec>')
+    .description('Restore the working tree to a spec checkpoint and trim later cycles')
+    .option('--cycle <n>', 'Checkpoint cycle to restore (0 = before the first cycle; default: previous cycle)', Number)
+    .option('--session <id>', 'Session id (default: current session)')
+    .option('--force', 'Roll back even when the working tree has changes no checkpoint recorded')
+    .action(async (spec: string, cmd) => {
+      if (refuseJson('rollback')) {
+        return;
+      }
+      const session = cmd.session
+        ? await loadSessionById(cwd, cmd.session, env)
+        : await loadSession(cwd, env);
+      if (!session) {
+        stderr.write('No session found.\n');
+        process.exitCode = 1;
+        return;
+      }
+      try {
+        const result = await rollbackSpec(session, spec, cmd.cycle, env, Boolean(cmd.force));
+        stdout.write(`Restored ${result.spec.file} to cycle ${result.checkpoint.cycle} (${result.checkpoint.commit.slice(0, 12)}).\n`);
+        if (result.resetSpecs.length > 0) {
+          stdout.write(`Reset to pending (worked on after the checkpoint): ${result.resetSpecs.map((entry) => entry.file).join(', ')}.\n`);
         }
-      });
+        stdout.write(`Removed ${result.removedCycles} cycle(s). Run aic run to resume.\n`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        stderr.write(chalk.red(`${message}\n`));
+        process.exitCode = 1;
+      }
     });
 
-  program.command('status')
-    .description('Show current session status for this directory')
-    .option('--full', 'Show full session details')
-    .action(async (cmd) => {
-      const session = await loadSession(cwd, env);
-      const sessionsDir = getProjectSessionsDir(cwd);
-      if (!session && !(await pathExists(sessionsDir))) {
-        stdout.write('No session found.\n');
+  // Commands without a JSON document refuse --json rather than print text a script would misread.
+  function refuseJson(command: string, hint = ''): boolean {
+    if (!jsonOutput()) {
+      return false;
+    }
+    reportFailure(new Error(`--json is not supported for aic ${command}${hint || '.'}`));
+    return true;
+  }
+
+  function reportFailure(error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    stderr.write(chalk.red(`${message}\n`));
+    process.exitCode = 1;
+  }
+
+  async function setGlobalConfigValue(key: string, value: string) {
+    const { config } = await loadGlobalConfig(env);
+    await writeGlobalConfig({ ...config, [key]: parseGlobalConfigValue(key, value) }, env);
+    stdout.write('Updated config.\n');
+  }
+
+  const configCommand = program.command('config')
+    .description('View or change global configuration')
+    .argument('[pair]', 'key=value to set (same as aic config set)')
+    .option('--project', 'Show the effective settings for this project and where each comes from')
+    .action(async (pair: string | undefined, cmd) => {
+      if (refuseJson('config')) {
         return;
       }
-      if (session) {
-        if (cmd.full) {
-          stdout.write(formatSessionStatus(session));
-        } else {
-          stdout.write(formatSessionSummary(session));
+      try {
+        if (cmd.project) {
+          const settings = await resolveSettings({ cwd, env });
+          stdout.write(formatSettings(settings, cwd));
+          return;
+        }
+        if (!pair) {
+          const config = await readGlobalConfig(env);
+          stdout.write(`${JSON.stringify(config, null, 2)}\n`);
+          return;
+        }
+        const separator = pair.indexOf('=');
+        if (separator <= 0) {
+          throw new Error('Invalid format. Use key=value or aic config set <key> <value>.');
         }
+        await setGlobalConfigValue(pair.slice(0, separator).trim(), pair.slice(separator + 1));
+      } catch (error) {
+        reportFailure(error);
       }
-      const history = await loadSessionHistory(cwd, session?.id);
-      if (history.length > 0) {
-        stdout.write('Previous sessions:\n');
-        history.forEach((entry) => {
-          stdout.write(`- ${entry.id}: ${entry.status} (${entry.updatedAt}) - ${entry.specsSummary}\n`);
-          stdout.write(`  Project: ${entry.workingDirectory}\n`);
-          stdout.write(`  Active Spec: ${entry.activeSpec}\n`);
-        });
+    });
+
+  configCommand.command('get <key>')
+    .description('Print a global config value')
+    .action(async (key: string) => {
+      if (refuseJson('config get')) {
+        return;
+      }
+      try {
+        assertGlobalConfigKey(key);
+        const value = (await readGlobalConfig(env))[key];
+        if (value === undefined) {
+          stderr.write(`${key} is not set\n`);
+          process.exitCode = 1;
+          return;
+        }
+        stdout.write(`${typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)}\n`);
+      } catch (error) {
+        reportFailure(error);
       }
     });
 
-  program.command('config [pair]')
-    .description('View or set global configuration')
-    .action(async (pair?: string) => {
-      if (!pair) {
-        const config = await readGlobalConfig(env);
-        stdout.write(`${JSON.stringify(config, null, 2)}\n`);
+  configCommand.command('set <key> <value>')
+    .description('Set a global config value (lists and objects as JSON or comma-separated)')
+    .action(async (key: string, value: string) => {
+      if (refuseJson('config set')) {
         return;
       }
-      const [key, value] = pair.split('=');
-      if (!key || value === undefined) {
-        stderr.write('Invalid format. Use key=value.\n');
-        process.exitCode = 1;
+      try {
+        await setGlobalConfigValue(key, value);
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  configCommand.command('unset <key>')
+    .description('Remove a global config value')
+    .action(async (key: string) => {
+      if (refuseJson('config unset')) {
+        return;
+      }
+      try {
+        assertGlobalConfigKey(key);
+        const { config } = await loadGlobalConfig(env);
+        delete config[key];
+        await writeGlobalConfig(config, env);
+        stdout.write('Updated config.\n');
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  configCommand.command('list')
+    .description('List every global config key with its value')
+    .action(async () => {
+      if (refuseJson('config list')) {
+        return;
+      }
+      try {
+        const loaded = await loadGlobalConfig(env);
+        const table = new Table({ head: ['Key', 'Value', 'Description'] });
+        for (const key of GLOBAL_CONFIG_KEYS) {
+          const value = loaded.config[key];
+          table.push([key, value === undefined ? '-' : formatSettingValue(value), GLOBAL_CONFIG_SCHEMA[key].description]);
+        }
+        stdout.write(`Config file: ${loaded.path}${loaded.exists ? '' : ' (not created yet)'}\n${table.toString()}\n`);
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  configCommand.command('edit')
+    .description('Open the global config in $VISUAL or $EDITOR and validate it afterwards')
+    .action(async () => {
+      if (refuseJson('config edit')) {
+        return;
+      }
+      try {
+        const configPath = getConfigFile(env);
+        if (!(await pathExists(configPath))) {
+          await writeGlobalConfig({}, env);
+        }
+        const editor = env.VISUAL || env.EDITOR || 'vi';
+        const result = await execa(`${editor} ${JSON.stringify(configPath)}`, { shell: true, stdio: 'inherit', env, reject: false });
+        if (result.exitCode !== 0) {
+          throw new Error(`Editor exited with code ${result.exitCode}`);
+        }
+        await loadGlobalConfig(env);
+        stdout.write('Config is valid.\n');
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  configCommand.command('validate')
+    .description('Check the global config against its schema')
+    .action(async () => {
+      if (refuseJson('config validate')) {
+        return;
+      }
+      try {
+        const loaded = await loadGlobalConfig(env);
+        if (!loaded.exists) {
+          stdout.write(`No global config at ${loaded.path}; defaults apply.\n`);
+          return;
+        }
+        stdout.write(`Config is valid: ${loaded.path}\n`);
+        if (loaded.migrated.length > 0) {
+          stdout.write('Migrated from an older format (saved by the next aic config set or unset):\n');
+          loaded.migrated.forEach((note) => stdout.write(`- ${note}\n`));
+        }
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  const promptsCommand = program.command('prompts')
+    .description('Export, show or compare the prompt templates');
+
+  promptsCommand.command('export [names...]')
+    .description('Copy built-in templates to .ai-coord/prompts for editing')
+    .option('--force', 'Overwrite templates that already exist')
+    .action(async (names: string[], cmd) => {
+      if (refuseJson('prompts export')) {
+        return;
+      }
+      try {
+        const selected = names.length > 0 ? names.map(parsePromptTemplateName) : PROMPT_TEMPLATE_NAMES;
+        for (const name of selected) {
+          const templatePath = getPromptTemplatePath(cwd, name);
+          const relative = path.relative(cwd, templatePath);
+          if (!cmd.force && (await pathExists(templatePath))) {
+            stdout.write(`Skipped ${relative} (exists; use --force to overwrite)\n`);
+            continue;
+          }
+          await writeTextFile(templatePath, `${DEFAULT_PROMPT_TEMPLATES[name]}\n`);
+          stdout.write(`Wrote ${relative}\n`);
+        }
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  promptsCommand.command('show <name>')
+    .description('Print the template a run would use')
+    .option('--default', 'Print the built-in template even when the project overrides it')
+    .action(async (value: string, cmd) => {
+      if (refuseJson('prompts show')) {
+        return;
+      }
+      try {
+        const name = parsePromptTemplateName(value);
+        const content = cmd.default ? DEFAULT_PROMPT_TEMPLATES[name] : (await loadPromptTemplates(cwd))[name].content;
+        stdout.write(`${content}\n`);
+      } catch (error) {
+        reportFailure(error);
+      }
+    });
+
+  promptsCommand.command('diff [name]')
+    .description('Show how project templates differ from the built-in ones')
+    .action(async (value: string | undefined) => {
+      if (refuseJson('prompts diff')) {
         return;
       }
-      const config = await readGlobalConfig(env);
-      const numericValue = Number(value);
-      const storedValue = Number.isNaN(numericValue) ? value : numericValue;
-      config[key as keyof typeof config] = storedValue as never;
-      await writeGlobalConfig(config, env);
-      stdout.write('Updated config.\n');
+      try {
+        const templates = await loadPromptTemplates(cwd);
+        const selected = value ? [parsePromptTemplateName(value)] : PROMPT_TEMPLATE_NAMES;
+        const overrides = selected.map((name) => templates[name]).filter((template) => template.source === 'project');
+        if (overrides.length === 0) {
+          stdout.write('No prompt overrides.\n');
+          return;
+        }
+        for (const template of overrides) {
+          const diff = formatUnifiedDiff(DEFAULT_PROMPT_TEMPLATES[template.name], template.content, {
+            from: `builtin/${template.name}.md`,
+            to: path.relative(cwd, template.path ?? getPromptTemplatePath(cwd, template.name))
+          });
+          stdout.write(diff || `${template.name}: same as built-in\n`);
+        }
+      } catch (error) {
+        reportFailure(error);
+      }
     });
 
   program.command('clean')
     .description('Remove old sessions and logs')
     .action(async () => {
+      if (refuseJson('clean')) {
+        return;
+      }
       const reportsDir = getProjectReportsDir(cwd);
       const logsDir = getProjectLogsDir(cwd);
       const sessionsDir = getProjectSessionsDir(cwd);
@@ -283,7 +701,17 @@ export async function runCli(options: CliRunOptions): Promise<void> {
       const removed = await removeOldFiles([sessionsDir, reportsDir, logsDir], threshold);
       const projectDir = getProjectStateDir(cwd);
       if (await pathExists(projectDir)) {
-        await fs.rm(projectDir, { recursive: true, force: true });
+        // A project config and prompt templates kept in the state directory are not state; leave them in place.
+        const keep = new Set([...PROJECT_CONFIG_FILES.map((file) => path.join(cwd, file)), getProjectPromptsDir(cwd)]);
+        for (const entry of await fs.readdir(projectDir)) {
+          const entryPath = path.join(projectDir, entry);
+          if (!keep.has(entryPath)) {
+            await fs.rm(entryPath, { recursive: true, force: true });
+          }
+        }
+        if ((await fs.readdir(projectDir)).length === 0) {
+          await fs.rm(projectDir, { recursive: true, force: true });
+        }
       }
       if (removed === 0) {
         stdout.write('No sessions to clean.\n');
@@ -300,10 +728,80 @@ export function createProgram(): Command {
   program
     .name('aic')
     .description('AI Spec Coordinator')
-    .version('0.9.0');
+    .version('0.9.0')
+    .option('--json', 'Print a versioned JSON document (tools, specs, status, report, run --dry-run)');
   return program;
 }
 
+function waitForShutdown(): Promise<void> {
+  return new Promise((resolve) => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+}
+
+function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Settings typed on the command line; commander defaults are left to the settings resolver.
+function explicitSettings(command: Command): ProjectConfig {
+  const flags: Record<string, unknown> = {};
+  for (const key of PROJECT_CONFIG_KEYS) {
+    if (command.getOptionValueSource(key) !== 'cli') {
+      continue;
+    }
+    const value: unknown = command.getOptionValue(key);
+    flags[key] = typeof value === 'string' && PROJECT_CONFIG_SCHEMA[key].type === 'string-list'
+      ? parseSettingValue(key, value)
+      : value;
+  }
+  return flags as ProjectConfig;
+}
+
+function withSettings<T extends object>(cmd: T, values: ProjectConfig): T {
+  const merged = { ...cmd } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(values)) {
+    // Tool adapters are registered by tool detection, not passed on as run options.
+    if (key === 'tools' || key === 'toolModules') {
+      continue;
+    }
+    // Run options keep spec and tool lists in their comma-separated flag form.
+    merged[key] = key !== 'commandValidators' && Array.isArray(value) ? value.join(',') : value;
+  }
+  return merged as T;
+}
+
+function formatSettings(settings: ResolvedSettings, cwd: string): string {
+  const table = new Table({ head: ['Key', 'Value', 'Source'] });
+  for (const key of PROJECT_CONFIG_KEYS) {
+    const value = settings.values[key];
+    table.push([key, value === undefined ? '-' : formatSettingValue(value), settings.sources[key] ?? '-']);
+  }
+  const file = settings.projectFile ? path.relative(cwd, settings.projectFile) : 'none';
+  return `Project config: ${file}\nPrecedence: flags > env > project > global > defaults\n${table.toString()}\n`;
+}
+
+function formatSettingValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === 'object' && item ? [item.name, item.command].filter(Boolean).join('=') : String(item))).join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function summarizeSeverities(findings: Finding[]): string {
+  return FINDING_SEVERITIES
+    .map((severity) => ({ severity, count: findings.filter((finding) => finding.severity === severity).length }))
+    .filter((entry) => entry.count > 0)
+    .map((entry) => `${entry.count} ${entry.severity}`)
+    .join(', ');
+}
+
 function summarizeGap(gap: string, limit = 160): string {
   const trimmed = gap.trim();
   if (trimmed.length <= limit) {
@@ -321,8 +819,16 @@ function formatSessionStatus(session: Session): string {
     `Active Spec: ${activeSpec}`,
     `Lead: ${session.lead}`,
     `Validators: ${session.validators.join(', ')}`,
+    ...formatSessionUsage(session),
     ''
   ];
+  const prices = resolvePriceTable(session.config.prices);
+  const tools = summarizeToolUsage(sessionCycles(session), prices);
+  if (tools.length > 0) {
+    const table = new Table({ head: ['Tool', 'Tokens', 'Cost'] });
+    tools.forEach((tool) => table.push([tool.tool, tool.tokens.toLocaleString(), prices[tool.tool] ? formatCost(tool.cost) : 'no price']));
+    lines.push('Cost by tool:', table.toString(), '');
+  }
   lines.push('Specs:');
   session.specs.forEach((spec, index) => {
     const cycles = spec.cycles.length;
@@ -332,17 +838,39 @@ function formatSessionStatus(session: Session): string {
         lastCycle.validations.reduce((sum, validation) => sum + validation.parsed.completeness, 0) / Math.max(lastCycle.validations.length, 1)
       )
       : 0;
+    const usage = sumSpecUsage(spec, prices);
+    const cost = usage.tokens > 0 ? `, ${formatUsageTotals(usage)}` : '';
     lines.push(
-      `${index + 1}. ${spec.file} - ${spec.status} (cycles: ${cycles}, completeness: ${completeness}%)`
+      `${index + 1}. ${spec.file} - ${spec.status} (cycles: ${cycles}, completeness: ${completeness}%${cost})`
     );
     if (spec.lastError) {
       lines.push(`   Last error: ${spec.lastError}`);
     }
+    spec.cycles.forEach((cycle) => {
+      const changes = cycle.leadExecution.fileChanges;
+      if (!changes || changes.length === 0) {
+        return;
+      }
+      lines.push(`   Cycle ${cycle.number} changes: ${summarizeFileChanges(changes)}`);
+      changes.forEach((change) => lines.push(`     - ${formatFileChange(change)}`));
+    });
   });
   lines.push('');
   return `${lines.join('\n')}\n`;
 }
 
+function formatSessionUsage(session: Session): string[] {
+  const usage = sumSessionUsage(session, resolvePriceTable(session.config.prices));
+  const lines = usage.tokens > 0 ? [`Usage: ${formatUsageTotals(usage)}`] : [];
+  if (session.config.limits) {
+    lines.push(`Limits: ${formatUsageLimits(session.config.limits)}`);
+  }
+  if (session.stopReason) {
+    lines.push(`Stopped: ${session.stopReason}`);
+  }
+  return lines;
+}
+
 function formatSessionSummary(session: Session): string {
   const total = session.specs.length;
   const completed = session.specs.filter((spec) => spec.status === 'completed').length;
@@ -361,6 +889,7 @@ function formatSessionSummary(session: Session): string {
     `Lead: ${session.lead}`,
     `Validators: ${session.validators.join(', ')}`,
     `Specs: ${completed}/${total} completed, ${failed} failed, ${inProgress} in progress`,
+    ...formatSessionUsage(session),
     ''
   ];
   if (lastError) {
@@ -399,61 +928,3 @@ async function removeOldFiles(dirs: string[], threshold: number): Promise<number
   return removed;
 }
 
-async function loadSessionHistory(
-  cwd: string,
-  excludeId?: string
-): Promise<Array<{
-  id: string;
-  status: string;
-  updatedAt: string;
-  specsSummary: string;
-  workingDirectory: string;
-  activeSpec: string;
-}>> {
-  const sessionsDir = getProjectSessionsDir(cwd);
-  if (!(await pathExists(sessionsDir))) {
-    return [];
-  }
-  const entries = await fs.readdir(sessionsDir, { withFileTypes: true });
-  const sessions: Array<{
-    id: string;
-    status: string;
-    updatedAt: string;
-    specsSummary: string;
-    workingDirectory: string;
-    activeSpec: string;
-  }> = [];
-  for (const entry of entries) {
-    if (!entry.isFile() || !entry.name.endsWith('.json')) {
-      continue;
-    }
-    const sessionId = entry.name.replace(/\\.json$/, '');
-    if (excludeId && sessionId === excludeId) {
-      continue;
-    }
-    const content = await fs.readFile(path.join(sessionsDir, entry.name), 'utf8');
-    const parsed = JSON.parse(content) as {
-      id: string;
-      status: string;
-      updatedAt: string;
-      workingDirectory?: string;
-      specs: Array<{ status: string; file?: string }>;
-    };
-    const total = parsed.specs?.length ?? 0;
-    const completed = parsed.specs?.filter((spec) => spec.status === 'completed').length ?? 0;
-    const failed = parsed.specs?.filter((spec) => spec.status === 'failed').length ?? 0;
-    const inProgress = parsed.specs?.filter((spec) => spec.status === 'in_progress').length ?? 0;
-    const specsSummary = `${completed}/${total} completed, ${failed} failed, ${inProgress} in progress`;
-    const activeSpec = parsed.specs?.find((spec) => spec.status === 'in_progress')?.file ?? 'None';
-    sessions.push({
-      id: parsed.id,
-      status: parsed.status,
-      updatedAt: parsed.updatedAt,
-      specsSummary,
-      workingDirectory: parsed.workingDirectory ?? cwd,
-      activeSpec
-    });
-  }
-  sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
-  return sessions;
-}
@@ -0,0 +1,528 @@
+import { Writable } from 'node:stream';
+import chalk from 'chalk';
+import { CoordinatorEvent, CoordinatorEventEmitter } from '../orchestration/events.js';
+import { countTokens, executionCost, formatCost } from '../orchestration/cost.js';
+import { PriceTable, SpecStatus, TokenUsage, ToolName } from '../types.js';
+
+// Lines of tool output and console text kept for scrolling.
+const OUTPUT_HISTORY = 2000;
+const LOG_HISTORY = 200;
+const LOG_ROWS = 3;
+const BAR_WIDTH = 20;
+
+export type DashboardPhase = 'starting' | 'lead' | 'validating' | 'consensus';
+
+export interface DashboardSpec {
+  file: string;
+  specId?: string;
+  status: SpecStatus;
+  cycles: number;
+  completeness?: number;
+}
+
+export interface DashboardValidator {
+  tool: string;
+  status?: 'PASS' | 'FAIL';
+  completeness?: number;
+  durationMs?: number;
+}
+
+export interface DashboardTool {
+  elapsedMs: number;
+  runningSince?: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface DashboardCycle {
+  specId: string;
+  file: string;
+  cycleNumber: number;
+  phase: DashboardPhase;
+  phaseStartedAt: number;
+  lead?: { tool: string; durationMs?: number; tokens?: number };
+  validators: DashboardValidator[];
+  consensus?: string;
+}
+
+export interface DashboardState {
+  mode: 'run' | 'validate';
+  sessionId?: string;
+  startedAt?: number;
+  validators: string[];
+  specs: DashboardSpec[];
+  // One entry per spec in flight, in start order; several at once under --parallel.
+  active: DashboardCycle[];
+  tools: Map<string, DashboardTool>;
+  tokens: number;
+  cost: number;
+  outputTool?: string;
+  output: string[];
+  log: string[];
+  // Lines scrolled back from the newest output; 0 follows the stream.
+  scroll: number;
+}
+
+export function createDashboardState(): DashboardState {
+  return { mode: 'run', validators: [], specs: [], active: [], tools: new Map(), tokens: 0, cost: 0, output: [], log: [], scroll: 0 };
+}
+
+// Folds one coordinator event into the dashboard. Times come from event timestamps, so a
+// replayed event log renders the same as a live run.
+export function applyDashboardEvent(state: DashboardState, event: CoordinatorEvent, prices: PriceTable): void {
+  const at = Date.parse(event.timestamp);
+  switch (event.type) {
+    case 'SessionStarted':
+      state.mode = event.mode;
+      state.sessionId = event.sessionId;
+      state.startedAt = at;
+      state.validators = event.validators;
+      state.specs = event.specs.map((file) => ({ file, status: 'pending', cycles: 0 }));
+      break;
+    case 'SpecStarted': {
+      const spec = findSpec(state, event.file);
+      spec.specId = event.specId;
+      spec.status = 'in_progress';
+      spec.cycles = event.previousCycles;
+      const cycle: DashboardCycle = { specId: event.specId, file: event.file, cycleNumber: event.previousCycles, phase: 'starting', phaseStartedAt: at, validators: [] };
+      state.active = [...state.active.filter((entry) => entry.specId !== event.specId), cycle];
+      if (state.mode === 'validate') {
+        startValidation(state, at, event.previousCycles + 1, cycle);
+      }
+      break;
+    }
+    case 'LeadStarted': {
+      const cycle = activeCycle(state, event.specId);
+      if (cycle) {
+        Object.assign(cycle, { cycleNumber: event.cycleNumber, phase: 'lead', phaseStartedAt: at, lead: { tool: event.tool }, validators: [], consensus: undefined });
+      }
+      toolEntry(state, event.tool).runningSince = at;
+      break;
+    }
+    case 'LeadFinished': {
+      const tokens = recordUsage(state, event.tool, event.durationMs, event.tokenUsage, prices);
+      const cycle = activeCycle(state, event.specId);
+      if (cycle) {
+        cycle.lead = { tool: event.tool, durationMs: event.durationMs, tokens };
+      }
+      startValidation(state, at, event.cycleNumber, cycle);
+      break;
+    }
+    case 'ValidatorResult': {
+      recordUsage(state, event.tool, event.durationMs, event.tokenUsage, prices);
+      const cycle = activeCycle(state, event.specId);
+      if (cycle && cycle.phase !== 'validating') {
+        startValidation(state, at, event.cycleNumber, cycle);
+      }
+      const validator = { tool: event.tool, status: event.status, completeness: event.completeness, durationMs: event.durationMs };
+      const validators = cycle?.validators ?? [];
+      const index = validators.findIndex((entry) => entry.tool === event.tool);
+      if (index === -1) {
+        validators.push(validator);
+      } else {
+        validators[index] = validator;
+      }
+      break;
+    }
+    case 'ConsensusEvaluated': {
+      const cycle = activeCycle(state, event.specId);
+      if (cycle) {
+        cycle.phase = 'consensus';
+        cycle.phaseStartedAt = at;
+        cycle.consensus = event.reached ? `reached (${event.reason})` : `not reached (${event.reason})`;
+      }
+      break;
+    }
+    case 'CycleCompleted': {
+      const spec = state.specs.find((entry) => entry.specId === event.specId);
+      if (spec) {
+        spec.cycles = Math.max(spec.cycles, event.cycleNumber);
+        spec.completeness = averageCompleteness(event.validationResults.map((result) => result.completeness));
+      }
+      break;
+    }
+    case 'SpecCompleted': {
+      const spec = findSpec(state, event.file);
+      spec.status = event.status;
+      spec.cycles = event.totalCycles;
+      state.active = state.active.filter((entry) => entry.file !== event.file);
+      break;
+    }
+    case 'Interrupted':
+    case 'SessionCompleted':
+      stopClocks(state);
+      state.active = [];
+      break;
+  }
+}
+
+export function appendDashboardOutput(state: DashboardState, tool: string, text: string): void {
+  if (state.outputTool !== tool) {
+    state.outputTool = tool;
+    state.output.push(`── ${tool} ──\n`);
+  }
+  appendLines(state.output, text, OUTPUT_HISTORY);
+}
+
+export function appendDashboardLog(state: DashboardState, text: string): void {
+  appendLines(state.log, text, LOG_HISTORY);
+}
+
+// Lays the dashboard out in `height` rows of at most `width` columns: header, spec queue,
+// the current cycle of each spec in flight, per-tool totals, then the output pane and the last
+// console lines.
+export function renderDashboard(state: DashboardState, size: { width: number; height: number }, now: number): string[] {
+  const lines: string[] = [];
+  const elapsed = state.startedAt === undefined ? 0 : now - state.startedAt;
+  lines.push(chalk.bold(`aic ${state.mode}`) + [
+    state.sessionId ? ` · session ${state.sessionId.slice(0, 8)}` : '',
+    ` · ${formatClock(elapsed)}`,
+    ` · ${state.tokens.toLocaleString()} tokens · ${formatCost(state.cost)}`
+  ].join(''));
+
+  const done = state.specs.filter((spec) => spec.status !== 'pending' && spec.status !== 'in_progress').length;
+  lines.push(chalk.bold(`Specs ${done}/${state.specs.length}`));
+  const specRows = Math.max(3, Math.floor(size.height / 4));
+  lines.push(...windowAround(state.specs.map(formatSpecLine), state.specs.findIndex((spec) => spec.status === 'in_progress'), specRows));
+
+  for (const active of state.active) {
+    lines.push(chalk.bold(`Cycle ${active.cycleNumber} · ${active.specId} · ${formatPhase(active.phase, active.consensus)} (${formatClock(now - active.phaseStartedAt)})`));
+    if (active.lead) {
+      const leadState = active.lead.durationMs === undefined
+        ? `running ${formatClock(now - active.phaseStartedAt)}`
+        : `done ${formatClock(active.lead.durationMs)}${active.lead.tokens ? ` · ${active.lead.tokens.toLocaleString()} tokens` : ''}`;
+      lines.push(`  lead       ${active.lead.tool.padEnd(10)} ${leadState}`);
+    }
+    if (active.phase !== 'lead') {
+      const reported = new Set(active.validators.map((validator) => validator.tool));
+      const waiting = active.phase === 'validating' ? state.validators.filter((tool) => !reported.has(tool)) : [];
+      for (const validator of active.validators) {
+        const status = validator.status === 'PASS' ? chalk.green('PASS') : chalk.red('FAIL');
+        lines.push(`  validator  ${validator.tool.padEnd(10)} ${formatBar(validator.completeness ?? 0)} ${String(validator.completeness ?? 0).padStart(3)}% ${status} ${formatClock(validator.durationMs ?? 0)}`);
+      }
+      for (const tool of waiting) {
+        lines.push(`  validator  ${tool.padEnd(10)} ${chalk.dim(`running ${formatClock(now - active.phaseStartedAt)}`)}`);
+      }
+    }
+  }
+  if (state.active.length === 0) {
+    lines.push(chalk.dim(state.startedAt === undefined ? 'Starting...' : 'No spec running.'));
+  }
+
+  const tools = [...state.tools.entries()].map(([name, tool]) => {
+    const running = tool.runningSince === undefined ? 0 : Math.max(0, now - tool.runningSince);
+    return `${name} ${formatClock(tool.elapsedMs + running)}${tool.tokens > 0 ? ` ${tool.tokens.toLocaleString()} tok ${formatCost(tool.cost)}` : ''}`;
+  });
+  lines.push(`Tools: ${tools.length > 0 ? tools.join(' · ') : '-'}`);
+
+  const log = state.log.filter((line) => line.trim() !== '').slice(-LOG_ROWS);
+  const paneRows = Math.max(1, size.height - lines.length - 1 - (log.length > 0 ? log.length + 1 : 0));
+  const scroll = clampScroll(state, paneRows);
+  const end = state.output.length - scroll;
+  const pane = state.output.slice(Math.max(0, end - paneRows), end);
+  const position = scroll > 0 ? `scrolled ${scroll} lines back · End to follow` : '↑/↓ PgUp/PgDn to scroll';
+  lines.push(chalk.dim(`─ Output${state.outputTool ? ` (${state.outputTool})` : ''} · ${position} `.padEnd(size.width, '─')));
+  lines.push(...pane, ...new Array<string>(paneRows - pane.length).fill(''));
+  if (log.length > 0) {
+    lines.push(chalk.dim('─ Log '.padEnd(size.width, '─')), ...log);
+  }
+  return lines.slice(0, size.height).map((line) => fitLine(line, size.width));
+}
+
+export interface DashboardTerminal {
+  stdout: NodeJS.WriteStream;
+  stdin?: NodeJS.ReadStream;
+}
+
+export function isTerminal(stream: NodeJS.WritableStream): stream is NodeJS.WriteStream {
+  return Boolean((stream as NodeJS.WriteStream).isTTY);
+}
+
+// Full-screen view of `aic run`, drawn on the terminal's alternate screen from coordinator
+// events. It takes over the screen at SessionStarted, so prompts before the run starts (such as
+// the resume question) still show as plain text. Console text written to `output` meanwhile
+// feeds the log pane and is printed in full once the dashboard stops.
+export class RunDashboard {
+  readonly output: Writable;
+  private state = createDashboardState();
+  private active = false;
+  private captured: string[] = [];
+  private renderTimer?: NodeJS.Timeout;
+  private ticker?: NodeJS.Timeout;
+  private readonly restoreOnExit = () => this.restoreTerminal();
+  private readonly onResize = () => this.render();
+  private readonly onKey = (chunk: Buffer) => this.handleKey(chunk.toString('utf8'));
+
+  constructor(private terminal: DashboardTerminal, private prices: PriceTable) {
+    this.output = new Writable({
+      write: (chunk: Buffer | string, _encoding, callback) => {
+        const text = chunk.toString();
+        if (this.active) {
+          this.captured.push(text);
+          appendDashboardLog(this.state, text);
+          this.scheduleRender();
+        } else {
+          terminal.stdout.write(text);
+        }
+        callback();
+      }
+    });
+  }
+
+  attach(events: CoordinatorEventEmitter): void {
+    events.onAny((event) => {
+      if (event.type === 'SessionStarted' && !this.active) {
+        this.start();
+      }
+      applyDashboardEvent(this.state, event, this.prices);
+      this.scheduleRender();
+    });
+  }
+
+  readonly toolOutput = (tool: ToolName, text: string): void => {
+    appendDashboardOutput(this.state, tool, text);
+    this.scheduleRender();
+  };
+
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+    this.restoreTerminal();
+    process.off('exit', this.restoreOnExit);
+    const text = this.captured.join('');
+    this.captured = [];
+    this.terminal.stdout.write(text);
+  }
+
+  private start(): void {
+    this.active = true;
+    const { stdout, stdin } = this.terminal;
+    stdout.write('\x1b[?1049h\x1b[?25l');
+    stdout.on('resize', this.onResize);
+    if (stdin?.isTTY) {
+      stdin.setRawMode(true);
+      stdin.resume();
+      stdin.on('data', this.onKey);
+    }
+    process.on('exit', this.restoreOnExit);
+    this.ticker = setInterval(() => this.render(), 1000);
+    this.ticker.unref();
+  }
+
+  // Safe to call more than once; also runs on process exit so an interrupted run never leaves
+  // the terminal on the alternate screen.
+  private restoreTerminal(): void {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+    clearInterval(this.ticker);
+    clearTimeout(this.renderTimer);
+    const { stdout, stdin } = this.terminal;
+    stdout.off('resize', this.onResize);
+    if (stdin?.isTTY) {
+      stdin.off('data', this.onKey);
+      stdin.setRawMode(false);
+      stdin.pause();
+    }
+    stdout.write('\x1b[?25h\x1b[?1049l');
+  }
+
+  private scheduleRender(): void {
+    if (this.active && !this.renderTimer) {
+      this.renderTimer = setTimeout(() => {
+        this.renderTimer = undefined;
+        this.render();
+      }, 50);
+      this.renderTimer.unref();
+    }
+  }
+
+  private render(): void {
+    if (!this.active) {
+      return;
+    }
+    const { stdout } = this.terminal;
+    const lines = renderDashboard(this.state, { width: stdout.columns || 80, height: stdout.rows || 24 }, Date.now());
+    stdout.write(`\x1b[H${lines.map((line) => `${line}\x1b[K`).join('\n')}\x1b[J`);
+  }
+
+  private handleKey(key: string): void {
+    const page = Math.max(1, (this.terminal.stdout.rows || 24) - 12);
+    if (key === '\u0003') {
+      // Raw mode swallows Ctrl+C; pass it on to the run's interrupt handling.
+      process.kill(process.pid, 'SIGINT');
+      return;
+    }
+    const moves: Record<string, number> = { '\x1b[A': 1, k: 1, '\x1b[B': -1, j: -1, '\x1b[5~': page, '\x1b[6~': -page };
+    if (key in moves) {
+      this.state.scroll = Math.max(0, this.state.scroll + moves[key]);
+    } else if (key === '\x1b[F' || key === '\x1b[4~' || key === 'G') {
+      this.state.scroll = 0;
+    } else {
+      return;
+    }
+    this.render();
+  }
+}
+
+function findSpec(state: DashboardState, file: string): DashboardSpec {
+  let spec = state.specs.find((entry) => entry.file === file);
+  if (!spec) {
+    spec = { file, status: 'pending', cycles: 0 };
+    state.specs.push(spec);
+  }
+  return spec;
+}
+
+function activeCycle(state: DashboardState, specId: string): DashboardCycle | undefined {
+  return state.active.find((entry) => entry.specId === specId);
+}
+
+function startValidation(state: DashboardState, at: number, cycleNumber: number, cycle?: DashboardCycle): void {
+  if (cycle) {
+    cycle.phase = 'validating';
+    cycle.phaseStartedAt = at;
+    cycle.cycleNumber = cycleNumber;
+  }
+  for (const tool of state.validators) {
+    toolEntry(state, tool).runningSince = at;
+  }
+}
+
+function stopClocks(state: DashboardState): void {
+  state.tools.forEach((tool) => {
+    tool.runningSince = undefined;
+  });
+}
+
+// Scrolling stops at the oldest line; the state keeps the clamped value so keys act at once.
+function clampScroll(state: DashboardState, paneRows: number): number {
+  state.scroll = Math.max(0, Math.min(state.scroll, state.output.length - paneRows));
+  return state.scroll;
+}
+
+function toolEntry(state: DashboardState, tool: string): DashboardTool {
+  let entry = state.tools.get(tool);
+  if (!entry) {
+    entry = { elapsedMs: 0, tokens: 0, cost: 0 };
+    state.tools.set(tool, entry);
+  }
+  return entry;
+}
+
+function recordUsage(state: DashboardState, tool: string, durationMs: number, usage: TokenUsage | undefined, prices: PriceTable): number {
+  const entry = toolEntry(state, tool);
+  const tokens = countTokens(usage);
+  const price = prices[tool];
+  const cost = price ? executionCost(usage, price) : 0;
+  entry.elapsedMs += durationMs;
+  entry.runningSince = undefined;
+  entry.tokens += tokens;
+  entry.cost += cost;
+  state.tokens += tokens;
+  state.cost += cost;
+  return tokens;
+}
+
+function appendLines(target: string[], text: string, limit: number): void {
+  const clean = stripControl(text);
+  const parts = clean.split('\n');
+  const last = target.length > 0 && !target[target.length - 1].endsWith('\n') ? target.pop() : undefined;
+  parts[0] = (last ?? '') + parts[0];
+  // A trailing newline marks the last line as finished; the marker is dropped when rendering.
+  const finished = parts.slice(0, -1).map((line) => `${line}\n`);
+  const tail = parts[parts.length - 1];
+  target.push(...finished, ...(tail ? [tail] : []));
+  if (target.length > limit) {
+    target.splice(0, target.length - limit);
+  }
+}
+
+// Tool output can carry colors, cursor movement and carriage-return progress bars; only the
+// text is kept.
+function stripControl(text: string): string {
+  return text
+    .replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, '')
+    .replace(/\x1b\][^\x07]*\x07/g, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/[^\n]*\r/g, '')
+    .replace(/\t/g, '  ')
+    .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '');
+}
+
+function formatSpecLine(spec: DashboardSpec): string {
+  const icons: Record<SpecStatus, string> = {
+    pending: chalk.dim('·'),
+    in_progress: chalk.cyan('▶'),
+    completed: chalk.green('✓'),
+    failed: chalk.red('✗'),
+    skipped: chalk.yellow('-')
+  };
+  const completeness = spec.completeness === undefined ? '' : ` · ${spec.completeness}%`;
+  const cycles = spec.cycles > 0 ? ` · ${spec.cycles} cycle${spec.cycles === 1 ? '' : 's'}` : '';
+  return `  ${icons[spec.status]} ${(spec.specId ?? spec.file).padEnd(28)} ${spec.status.replace('_', ' ')}${cycles}${completeness}`;
+}
+
+function formatPhase(phase: DashboardPhase, consensus?: string): string {
+  switch (phase) {
+    case 'starting':
+      return 'starting';
+    case 'lead':
+      return 'lead implementing';
+    case 'validating':
+      return 'validating';
+    case 'consensus':
+      return `consensus ${consensus ?? ''}`.trim();
+  }
+}
+
+// Keeps the active row visible when the queue is longer than the space for it.
+function windowAround(lines: string[], activeIndex: number, rows: number): string[] {
+  if (lines.length <= rows) {
+    return lines;
+  }
+  const visible = rows - 1;
+  const start = Math.max(0, Math.min(lines.length - visible, (activeIndex === -1 ? 0 : activeIndex) - Math.floor(visible / 2)));
+  return [...lines.slice(start, start + visible), chalk.dim(`  … ${lines.length - visible} more`)];
+}
+
+function formatBar(completeness: number): string {
+  const filled = Math.round((Math.max(0, Math.min(100, completeness)) / 100) * BAR_WIDTH);
+  return `${'█'.repeat(filled)}${chalk.dim('░'.repeat(BAR_WIDTH - filled))}`;
+}
+
+function averageCompleteness(values: number[]): number | undefined {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : undefined;
+}
+
+function formatClock(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const pad2 = (value: number) => String(value).padStart(2, '0');
+  return `${pad2(Math.floor(seconds / 3600))}:${pad2(Math.floor((seconds % 3600) / 60))}:${pad2(seconds % 60)}`;
+}
+
+// Cuts a line to `width` visible columns, keeping color codes intact and dropping the
+// finished-line marker.
+function fitLine(line: string, width: number): string {
+  const text = line.endsWith('\n') ? line.slice(0, -1) : line;
+  const escape = /\x1b\[[0-9;]*m/y;
+  let visible = 0;
+  let result = '';
+  let colored = false;
+  for (let i = 0; i < text.length && visible < width;) {
+    escape.lastIndex = i;
+    const match = escape.exec(text);
+    if (match) {
+      result += match[0];
+      colored = true;
+      i += match[0].length;
+    } else {
+      result += text[i];
+      visible += 1;
+      i += 1;
+    }
+  }
+  return colored && result.length < text.length ? `${result}\x1b[0m` : result;
+}
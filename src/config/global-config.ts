@@ -1,24 +1,149 @@
-import path from 'node:path';
 import { getConfigFile } from './paths.js';
-import { ensureDir, pathExists, readTextFile, writeTextFile } from '../utils/fs.js';
+import { ToolAdapterConfig, parseToolAdapterConfigs } from '../tools/adapters.js';
+import { CommandValidatorConfig, PriceTable } from '../types.js';
+import { parseCommandValidatorConfigs } from '../orchestration/command-validator.js';
+import { parsePriceTable } from '../orchestration/cost.js';
+import { SettingSchema, parseNonEmptyString, parsePositiveInteger, parsePositiveNumber, parseSettingString, parseSettings, parseStringList } from './schema.js';
+import { pathExists, readTextFile, writeTextFileAtomic } from '../utils/fs.js';
+
+// Bumped when the file format changes; older files are migrated when read.
+export const GLOBAL_CONFIG_VERSION = 1;
 
 export interface GlobalConfig {
+  version?: number;
   defaultLead?: string;
   defaultMaxIterations?: number;
   defaultTimeout?: number;
+  tools?: ToolAdapterConfig[];
+  toolModules?: string[];
+  commandValidators?: CommandValidatorConfig[];
+  prices?: PriceTable;
 }
 
-export async function readGlobalConfig(env: NodeJS.ProcessEnv = process.env): Promise<GlobalConfig> {
+export type GlobalConfigKey = Exclude<keyof GlobalConfig, 'version'>;
+
+export const GLOBAL_CONFIG_SCHEMA: Record<GlobalConfigKey, SettingSchema> = {
+  defaultLead: { type: 'string', description: 'Lead tool when --lead is not given', parse: parseNonEmptyString },
+  defaultMaxIterations: { type: 'number', description: 'Total max cycles per spec across all runs', parse: parsePositiveInteger },
+  defaultTimeout: { type: 'number', description: 'Per-cycle timeout in minutes', parse: parsePositiveNumber },
+  tools: { type: 'object', description: 'Custom tool adapters', parse: parseToolAdapterConfigs },
+  toolModules: { type: 'string-list', description: 'Modules exporting tool adapters', parse: parseStringList },
+  commandValidators: {
+    type: 'object',
+    description: 'Shell commands run as validators',
+    parse: (value, field) => parseCommandValidatorConfigs(value, field)
+  },
+  prices: { type: 'object', description: 'Per-tool prices in USD per million tokens', parse: parsePriceTable }
+};
+
+export const GLOBAL_CONFIG_KEYS = Object.keys(GLOBAL_CONFIG_SCHEMA) as GlobalConfigKey[];
+
+// Keys written by `aic config key=value` before it knew the schema, and the keys they meant.
+const LEGACY_KEY_ALIASES: Record<string, GlobalConfigKey> = {
+  lead: 'defaultLead',
+  maxIterations: 'defaultMaxIterations',
+  timeout: 'defaultTimeout'
+};
+
+export interface LoadedGlobalConfig {
+  path: string;
+  exists: boolean;
+  config: GlobalConfig;
+  // What the migration from an older format changed; empty for current files.
+  migrated: string[];
+}
+
+export async function loadGlobalConfig(env: NodeJS.ProcessEnv = process.env): Promise<LoadedGlobalConfig> {
   const configPath = getConfigFile(env);
   if (!(await pathExists(configPath))) {
-    return {};
+    return { path: configPath, exists: false, config: {}, migrated: [] };
   }
   const content = await readTextFile(configPath);
-  return JSON.parse(content) as GlobalConfig;
+  let raw: unknown;
+  try {
+    raw = content.trim() ? JSON.parse(content) : {};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid global config ${configPath}: ${message}. Fix it with aic config edit or remove the file.`);
+  }
+  const { config, migrated } = migrateGlobalConfig(raw, configPath);
+  return { path: configPath, exists: true, config: validateGlobalConfig(config, configPath), migrated };
+}
+
+export async function readGlobalConfig(env: NodeJS.ProcessEnv = process.env): Promise<GlobalConfig> {
+  return (await loadGlobalConfig(env)).config;
 }
 
 export async function writeGlobalConfig(config: GlobalConfig, env: NodeJS.ProcessEnv = process.env): Promise<void> {
   const configPath = getConfigFile(env);
-  await ensureDir(path.dirname(configPath));
-  await writeTextFile(configPath, JSON.stringify(config, null, 2));
+  const settings = validateGlobalConfig(config, configPath);
+  await writeTextFileAtomic(configPath, `${JSON.stringify({ version: GLOBAL_CONFIG_VERSION, ...settings }, null, 2)}\n`);
+}
+
+// The returned config leaves out `version`; writeGlobalConfig stamps the current one.
+export function validateGlobalConfig(raw: unknown, source: string): GlobalConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return parseSettings(raw, GLOBAL_CONFIG_SCHEMA, source) as GlobalConfig;
+  }
+  const { version, ...settings } = raw as Record<string, unknown>;
+  if (version !== undefined && version !== GLOBAL_CONFIG_VERSION) {
+    throw new Error(`${source}: unsupported config version ${String(version)} (expected ${GLOBAL_CONFIG_VERSION})`);
+  }
+  return parseSettings(settings, GLOBAL_CONFIG_SCHEMA, source) as GlobalConfig;
+}
+
+// Brings a config written by an older release up to GLOBAL_CONFIG_VERSION. Files without a
+// version predate the schema: renamed keys are moved, numbers stored as strings are converted
+// and keys the schema never knew are dropped.
+export function migrateGlobalConfig(raw: unknown, source: string): { config: unknown; migrated: string[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { config: raw, migrated: [] };
+  }
+  const record = raw as Record<string, unknown>;
+  if (record.version !== undefined) {
+    if (typeof record.version !== 'number' || record.version > GLOBAL_CONFIG_VERSION) {
+      throw new Error(`${source}: config version ${String(record.version)} is newer than this release supports (${GLOBAL_CONFIG_VERSION})`);
+    }
+    return { config: raw, migrated: [] };
+  }
+  const migrated: string[] = [];
+  const config: Record<string, unknown> = { version: GLOBAL_CONFIG_VERSION };
+  for (const [key, value] of Object.entries(record)) {
+    const target = (key in GLOBAL_CONFIG_SCHEMA ? key : LEGACY_KEY_ALIASES[key]) as GlobalConfigKey | undefined;
+    if (!target) {
+      migrated.push(`dropped unknown key "${key}"`);
+      continue;
+    }
+    if (target !== key) {
+      if (record[target] !== undefined) {
+        migrated.push(`dropped "${key}" (superseded by "${target}")`);
+        continue;
+      }
+      migrated.push(`renamed "${key}" to "${target}"`);
+    }
+    const schema = GLOBAL_CONFIG_SCHEMA[target];
+    if (typeof value === 'string' && schema.type !== 'string') {
+      try {
+        config[target] = parseSettingString(schema, value, target);
+      } catch (error) {
+        throw new Error(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      migrated.push(`converted "${target}" from a string`);
+      continue;
+    }
+    config[target] = value;
+  }
+  return { config, migrated };
+}
+
+export function assertGlobalConfigKey(key: string): asserts key is GlobalConfigKey {
+  if (!(key in GLOBAL_CONFIG_SCHEMA)) {
+    throw new Error(`Unknown config key "${key}". Known keys: ${GLOBAL_CONFIG_KEYS.join(', ')}`);
+  }
+}
+
+// Parses a value given on the command line (`aic config set`), rejecting unknown keys.
+export function parseGlobalConfigValue(key: string, value: string): unknown {
+  assertGlobalConfigKey(key);
+  return parseSettingString(GLOBAL_CONFIG_SCHEMA[key], value, key);
 }
@@ -21,6 +21,10 @@ export function getProjectLogsDir(cwd: string): string {
   return path.join(getProjectStateDir(cwd), 'logs');
 }
 
+export function getProjectPromptsDir(cwd: string): string {
+  return path.join(getProjectStateDir(cwd), 'prompts');
+}
+
 export function getStateDir(env: NodeJS.ProcessEnv = process.env): string {
   if (env.AIC_STATE_DIR && env.AIC_STATE_DIR.trim()) {
     return env.AIC_STATE_DIR.trim();
@@ -0,0 +1,166 @@
+import path from 'node:path';
+import YAML from 'yaml';
+import { CommandValidatorConfig, LowMaturityPolicy, PriceTable, PromptContextMode, PromptFiles } from '../types.js';
+import { PROJECT_STATE_DIR } from './paths.js';
+import { ToolAdapterConfig, parseToolAdapterConfigs } from '../tools/adapters.js';
+import { pathExists, readTextFile } from '../utils/fs.js';
+import { parseConsensusPolicy } from '../orchestration/consensus.js';
+import { parseCommandValidatorConfigs } from '../orchestration/command-validator.js';
+import { parsePromptContextMode } from '../orchestration/prompt-context.js';
+import { parsePriceTable } from '../orchestration/cost.js';
+import { parseLowMaturityPolicy } from '../orchestration/ci.js';
+import { parseReportFormatList } from '../orchestration/report.js';
+import {
+  SettingSchema,
+  parseBoolean,
+  parseNonEmptyString,
+  parseNonNegativeNumber,
+  parsePositiveInteger,
+  parsePositiveNumber,
+  parseSettingString,
+  parseSettings,
+  parseStringList
+} from './schema.js';
+
+// Checked in this order; the first file found is used.
+export const PROJECT_CONFIG_FILES = [
+  'aic.config.json',
+  'aic.config.yaml',
+  'aic.config.yml',
+  path.join(PROJECT_STATE_DIR, 'config.json'),
+  path.join(PROJECT_STATE_DIR, 'config.yaml'),
+  path.join(PROJECT_STATE_DIR, 'config.yml')
+];
+
+export interface ProjectConfig {
+  lead?: string;
+  validators?: string[];
+  maxIterations?: number;
+  maxIterationsPerRun?: number;
+  timeout?: number;
+  consensus?: string;
+  sandbox?: boolean;
+  sandboxImage?: string;
+  toolThrottleMs?: number;
+  prompts?: PromptFiles;
+  promptMode?: PromptContextMode;
+  promptBudget?: number;
+  specs?: string[];
+  exclude?: string[];
+  validatorConcurrency?: number;
+  parallel?: number;
+  commandValidators?: CommandValidatorConfig[];
+  maxTokens?: number;
+  maxCost?: number;
+  maxSpecTokens?: number;
+  maxSpecCost?: number;
+  prices?: PriceTable;
+  lowMaturity?: LowMaturityPolicy;
+  reportDir?: string;
+  reportFormats?: string[];
+  tools?: ToolAdapterConfig[];
+  toolModules?: string[];
+}
+
+export type ProjectConfigKey = keyof ProjectConfig;
+
+export const PROJECT_CONFIG_SCHEMA: Record<ProjectConfigKey, SettingSchema> = {
+  lead: { type: 'string', description: 'Lead tool', parse: parseNonEmptyString },
+  validators: { type: 'string-list', description: 'Validator tools', parse: parseStringList },
+  maxIterations: { type: 'number', description: 'Total max cycles per spec across all runs', parse: parsePositiveInteger },
+  maxIterationsPerRun: { type: 'number', description: 'Max cycles per spec per run', parse: parsePositiveInteger },
+  timeout: { type: 'number', description: 'Per-cycle timeout in minutes', parse: parsePositiveNumber },
+  consensus: { type: 'string', description: 'Consensus policy', parse: parseConsensusValue },
+  sandbox: { type: 'boolean', description: 'Run tools in the Docker sandbox', parse: parseBoolean },
+  sandboxImage: { type: 'string', description: 'Docker image for the sandbox', parse: parseNonEmptyString },
+  toolThrottleMs: { type: 'number', description: 'Minimum delay between tool calls in milliseconds', parse: parseNonNegativeNumber },
+  prompts: { type: 'object', description: 'Extra prompt instruction files ({ lead, validation })', parse: parsePromptFiles },
+  promptMode: { type: 'string', description: 'reference (point at files) or inline (embed them)', parse: parsePromptContextMode },
+  promptBudget: { type: 'number', description: 'Token budget for inlined files', parse: parsePositiveInteger },
+  specs: { type: 'string-list', description: 'Spec globs to include', parse: parseStringList },
+  exclude: { type: 'string-list', description: 'Spec globs to exclude', parse: parseStringList },
+  validatorConcurrency: { type: 'number', description: 'Max validators running at once', parse: parsePositiveInteger },
+  parallel: { type: 'number', description: 'Specs built at once in git worktrees', parse: parsePositiveInteger },
+  commandValidators: {
+    type: 'object',
+    description: 'Shell commands run as validators',
+    parse: (value, field) => parseCommandValidatorConfigs(value, field)
+  },
+  maxTokens: { type: 'number', description: 'Stop the run once the session used this many tokens', parse: parsePositiveInteger },
+  maxCost: { type: 'number', description: 'Stop the run once the session cost this many USD', parse: parsePositiveNumber },
+  maxSpecTokens: { type: 'number', description: 'Skip a spec once it used this many tokens', parse: parsePositiveInteger },
+  maxSpecCost: { type: 'number', description: 'Skip a spec once it cost this many USD', parse: parsePositiveNumber },
+  prices: { type: 'object', description: 'Per-tool prices in USD per million tokens', parse: parsePriceTable },
+  lowMaturity: { type: 'string', description: 'Specs below maturity 3: proceed, skip (for review) or abort', parse: parseLowMaturityPolicy },
+  reportDir: { type: 'string', description: 'Directory for end-of-run session reports', parse: parseNonEmptyString },
+  reportFormats: { type: 'string-list', description: 'Session report formats written after each run', parse: parseReportFormatList },
+  tools: { type: 'object', description: 'Custom tool adapters for this project', parse: parseToolAdapterConfigs },
+  toolModules: { type: 'string-list', description: 'Modules exporting tool adapters, relative to the config file', parse: parseStringList }
+};
+
+export const PROJECT_CONFIG_KEYS = Object.keys(PROJECT_CONFIG_SCHEMA) as ProjectConfigKey[];
+
+export interface LoadedProjectConfig {
+  path: string;
+  config: ProjectConfig;
+}
+
+export async function findProjectConfigFile(cwd: string): Promise<string | undefined> {
+  for (const candidate of PROJECT_CONFIG_FILES) {
+    const fullPath = path.join(cwd, candidate);
+    if (await pathExists(fullPath)) {
+      return fullPath;
+    }
+  }
+  return undefined;
+}
+
+export async function readProjectConfig(cwd: string): Promise<LoadedProjectConfig | undefined> {
+  const configPath = await findProjectConfigFile(cwd);
+  if (!configPath) {
+    return undefined;
+  }
+  const relative = path.relative(cwd, configPath);
+  const content = await readTextFile(configPath);
+  let raw: unknown;
+  try {
+    raw = configPath.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw new Error(`${relative}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return { path: configPath, config: validateProjectConfig(raw ?? {}, relative) };
+}
+
+// Rejects unknown keys and wrongly typed values so a typo fails loudly instead of being ignored.
+export function validateProjectConfig(raw: unknown, source: string): ProjectConfig {
+  return parseSettings(raw, PROJECT_CONFIG_SCHEMA, source) as ProjectConfig;
+}
+
+// Parses a setting from its string form (environment variables, command line).
+export function parseSettingValue(key: ProjectConfigKey, value: string, field: string = key): unknown {
+  return parseSettingString(PROJECT_CONFIG_SCHEMA[key], value, field);
+}
+
+function parseConsensusValue(value: unknown, field: string): string {
+  const policy = parseNonEmptyString(value, field);
+  try {
+    parseConsensusPolicy(policy);
+  } catch (error) {
+    throw new Error(`${field}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return policy;
+}
+
+function parsePromptFiles(value: unknown, field: string): PromptFiles {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${field}: expected an object with "lead" and/or "validation" file paths`);
+  }
+  const prompts: PromptFiles = {};
+  for (const [key, file] of Object.entries(value as Record<string, unknown>)) {
+    if (key !== 'lead' && key !== 'validation') {
+      throw new Error(`${field}: unknown prompt "${key}" (expected "lead" or "validation")`);
+    }
+    prompts[key] = parseNonEmptyString(file, `${field}.${key}`);
+  }
+  return prompts;
+}
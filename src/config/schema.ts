@@ -0,0 +1,99 @@
+export type ValueParser = (value: unknown, field: string) => unknown;
+
+// `type` decides how the string form of a value (environment variables, flags, `aic config set`) is coerced.
+export interface SettingSchema {
+  type: 'string' | 'string-list' | 'number' | 'boolean' | 'object';
+  description: string;
+  parse: ValueParser;
+}
+
+export function parseSettingString(schema: SettingSchema, value: string, field: string): unknown {
+  const trimmed = value.trim();
+  switch (schema.type) {
+    case 'number':
+      return schema.parse(trimmed === '' ? NaN : Number(trimmed), field);
+    case 'boolean':
+      return schema.parse(trimmed === 'true' || trimmed === '1' ? true : trimmed === 'false' || trimmed === '0' ? false : trimmed, field);
+    case 'object': {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch {
+        throw new Error(`${field}: expected JSON`);
+      }
+      return schema.parse(parsed, field);
+    }
+    default:
+      return schema.parse(trimmed, field);
+  }
+}
+
+// Parses each key of a settings object with its schema; unknown keys are errors so typos fail loudly.
+export function parseSettings<Key extends string>(
+  raw: unknown,
+  schema: Record<Key, SettingSchema>,
+  source: string
+): Partial<Record<Key, unknown>> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${source}: expected an object of settings`);
+  }
+  const settings: Partial<Record<Key, unknown>> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const setting = schema[key as Key];
+    if (!setting) {
+      throw new Error(`${source}: unknown key "${key}". Known keys: ${Object.keys(schema).join(', ')}`);
+    }
+    if (value === null || value === undefined) {
+      continue;
+    }
+    try {
+      settings[key as Key] = setting.parse(value, key);
+    } catch (error) {
+      throw new Error(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return settings;
+}
+
+export function parseNonEmptyString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${field}: expected a non-empty string`);
+  }
+  return value.trim();
+}
+
+export function parseStringList(value: unknown, field: string): string[] {
+  const list = typeof value === 'string' ? value.split(',').map((item) => item.trim()).filter(Boolean) : value;
+  if (!Array.isArray(list) || list.length === 0 || list.some((item) => typeof item !== 'string' || !item.trim())) {
+    throw new Error(`${field}: expected a list of strings`);
+  }
+  return list.map((item: string) => item.trim());
+}
+
+export function parsePositiveInteger(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${field}: expected a positive integer`);
+  }
+  return value;
+}
+
+export function parsePositiveNumber(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${field}: expected a positive number`);
+  }
+  return value;
+}
+
+export function parseNonNegativeNumber(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${field}: expected a number of 0 or more`);
+  }
+  return value;
+}
+
+export function parseBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error(`${field}: expected true or false`);
+  }
+  return value;
+}
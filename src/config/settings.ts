@@ -0,0 +1,110 @@
+import { GlobalConfig, readGlobalConfig } from './global-config.js';
+import { PROJECT_CONFIG_KEYS, ProjectConfig, ProjectConfigKey, parseSettingValue, readProjectConfig } from './project-config.js';
+import { mergeCommandValidators } from '../orchestration/command-validator.js';
+
+// Highest precedence first: flags > env > project > global > defaults.
+export type SettingSource = 'flag' | 'env' | 'project' | 'global' | 'default';
+
+export const RUN_SETTING_DEFAULTS = {
+  maxIterations: 15,
+  maxIterationsPerRun: 5,
+  timeout: 10,
+  sandbox: false,
+  sandboxImage: 'node:20',
+  toolThrottleMs: 2000
+} satisfies ProjectConfig;
+
+export const SETTING_ENV_VARS: Partial<Record<ProjectConfigKey, string>> = {
+  lead: 'AIC_LEAD',
+  validators: 'AIC_VALIDATORS',
+  maxIterations: 'AIC_MAX_ITERATIONS',
+  maxIterationsPerRun: 'AIC_MAX_ITERATIONS_PER_RUN',
+  timeout: 'AIC_TIMEOUT',
+  consensus: 'AIC_CONSENSUS',
+  sandboxImage: 'AIC_SANDBOX_IMAGE',
+  toolThrottleMs: 'AIC_TOOL_THROTTLE_MS',
+  promptMode: 'AIC_PROMPT_MODE',
+  promptBudget: 'AIC_PROMPT_BUDGET',
+  maxTokens: 'AIC_MAX_TOKENS',
+  maxCost: 'AIC_MAX_COST',
+  parallel: 'AIC_PARALLEL',
+  lowMaturity: 'AIC_LOW_MATURITY',
+  reportDir: 'AIC_REPORT_DIR',
+  reportFormats: 'AIC_REPORT_FORMATS'
+};
+
+export interface ResolvedSettings {
+  values: ProjectConfig;
+  sources: Partial<Record<ProjectConfigKey, SettingSource>>;
+  // Absolute path of the project config file, when one was found.
+  projectFile?: string;
+}
+
+export interface SettingsInput {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  // Values given explicitly on the command line, already parsed.
+  flags?: ProjectConfig;
+}
+
+export async function resolveSettings(input: SettingsInput): Promise<ResolvedSettings> {
+  const project = await readProjectConfig(input.cwd);
+  const global = await readGlobalConfig(input.env);
+  const layers: Array<[SettingSource, ProjectConfig]> = [
+    ['default', RUN_SETTING_DEFAULTS],
+    ['global', fromGlobalConfig(global)],
+    ['project', project?.config ?? {}],
+    ['env', readEnvSettings(input.env)],
+    ['flag', input.flags ?? {}]
+  ];
+  const values: Record<string, unknown> = {};
+  const sources: ResolvedSettings['sources'] = {};
+  for (const [source, layer] of layers) {
+    for (const key of PROJECT_CONFIG_KEYS) {
+      const value = layer[key];
+      if (value === undefined) {
+        continue;
+      }
+      // Command validators and prices add up across layers; a later layer only replaces entries with the same name.
+      values[key] = key === 'commandValidators'
+        ? mergeCommandValidators(values[key] as ProjectConfig['commandValidators'], value as ProjectConfig['commandValidators'])
+        : key === 'prices'
+          ? { ...(values[key] as ProjectConfig['prices']), ...(value as ProjectConfig['prices']) }
+          : value;
+      sources[key] = source;
+    }
+  }
+  return { values: values as ProjectConfig, sources, projectFile: project?.path };
+}
+
+export function readEnvSettings(env: NodeJS.ProcessEnv): ProjectConfig {
+  const settings: Record<string, unknown> = {};
+  for (const [key, name] of Object.entries(SETTING_ENV_VARS) as Array<[ProjectConfigKey, string]>) {
+    const raw = env[name];
+    if (raw === undefined || !raw.trim()) {
+      continue;
+    }
+    settings[key] = parseSettingValue(key, raw, name);
+  }
+  return settings as ProjectConfig;
+}
+
+function fromGlobalConfig(config: GlobalConfig): ProjectConfig {
+  const settings: ProjectConfig = {};
+  if (config.defaultLead) {
+    settings.lead = config.defaultLead;
+  }
+  if (config.defaultMaxIterations !== undefined) {
+    settings.maxIterations = config.defaultMaxIterations;
+  }
+  if (config.defaultTimeout !== undefined) {
+    settings.timeout = config.defaultTimeout;
+  }
+  if (config.commandValidators) {
+    settings.commandValidators = config.commandValidators;
+  }
+  if (config.prices) {
+    settings.prices = config.prices;
+  }
+  return settings;
+}
@@ -0,0 +1,189 @@
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs/promises';
+import crypto from 'node:crypto';
+import { execa } from 'execa';
+import { FileChange } from '../types.js';
+import { PROJECT_STATE_DIR } from '../config/paths.js';
+import { listFilesRecursive } from '../utils/fs.js';
+
+const EXCLUDED_DIRS = ['node_modules', '.git', PROJECT_STATE_DIR];
+const MAX_TRACKED_CONTENT_BYTES = 1024 * 1024;
+
+interface FileState {
+  hash: string;
+  content?: string;
+}
+
+export type WorkspaceSnapshot =
+  | { kind: 'git'; cwd: string; tree: string }
+  | { kind: 'fs'; cwd: string; files: Map<string, FileState> };
+
+export async function captureWorkspaceSnapshot(cwd: string): Promise<WorkspaceSnapshot> {
+  const tree = await captureGitTree(cwd);
+  if (tree) {
+    return { kind: 'git', cwd, tree };
+  }
+  return { kind: 'fs', cwd, files: await hashWorkspace(cwd) };
+}
+
+export async function diffWorkspaceSnapshots(before: WorkspaceSnapshot, after: WorkspaceSnapshot): Promise<FileChange[]> {
+  if (before.kind === 'git' && after.kind === 'git') {
+    return diffGitTrees(before.cwd, before.tree, after.tree);
+  }
+  if (before.kind === 'fs' && after.kind === 'fs') {
+    return diffFileStates(before.files, after.files);
+  }
+  return [];
+}
+
+export function summarizeFileChanges(changes: FileChange[]): string {
+  const added = changes.filter((change) => change.change === 'added').length;
+  const modified = changes.filter((change) => change.change === 'modified').length;
+  const deleted = changes.filter((change) => change.change === 'deleted').length;
+  const linesAdded = changes.reduce((sum, change) => sum + change.linesAdded, 0);
+  const linesRemoved = changes.reduce((sum, change) => sum + change.linesRemoved, 0);
+  return `${changes.length} files (${added} added, ${modified} modified, ${deleted} deleted; +${linesAdded}/-${linesRemoved})`;
+}
+
+export function formatFileChange(change: FileChange): string {
+  return `${change.change} ${change.path} (+${change.linesAdded}/-${change.linesRemoved})`;
+}
+
+// Writes the working tree (tracked + untracked, honoring .gitignore) into a tree object
+// through a throwaway index so the user's staging area is never touched.
+export async function captureGitTree(cwd: string): Promise<string | null> {
+  let tempIndex: string | null = null;
+  try {
+    const { stdout: inside } = await execa('git', ['rev-parse', '--is-inside-work-tree'], { cwd });
+    if (inside.trim() !== 'true') {
+      return null;
+    }
+    const { stdout: indexPath } = await execa('git', ['rev-parse', '--git-path', 'index'], { cwd });
+    tempIndex = path.join(os.tmpdir(), `aic-index-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await fs.copyFile(path.resolve(cwd, indexPath.trim()), tempIndex).catch(() => undefined);
+    const env = { GIT_INDEX_FILE: tempIndex };
+    await execa('git', ['add', '-A', '--', '.', `:(exclude)${PROJECT_STATE_DIR}`], { cwd, env });
+    const { stdout: tree } = await execa('git', ['write-tree'], { cwd, env });
+    return tree.trim() || null;
+  } catch {
+    return null;
+  } finally {
+    if (tempIndex) {
+      await fs.rm(tempIndex, { force: true });
+    }
+  }
+}
+
+async function diffGitTrees(cwd: string, before: string, after: string): Promise<FileChange[]> {
+  if (before === after) {
+    return [];
+  }
+  try {
+    const [{ stdout: statusOut }, { stdout: numstatOut }] = await Promise.all([
+      execa('git', ['diff', '--name-status', '--no-renames', '--relative', '-z', before, after], { cwd }),
+      execa('git', ['diff', '--numstat', '--no-renames', '--relative', '-z', before, after], { cwd })
+    ]);
+    const counts = new Map<string, { added: number; removed: number }>();
+    const numstatParts = numstatOut.split('\0').filter(Boolean);
+    for (const part of numstatParts) {
+      const [added, removed, ...rest] = part.split('\t');
+      counts.set(rest.join('\t'), {
+        added: added === '-' ? 0 : Number(added),
+        removed: removed === '-' ? 0 : Number(removed)
+      });
+    }
+    const statusParts = statusOut.split('\0').filter(Boolean);
+    const changes: FileChange[] = [];
+    for (let i = 0; i + 1 < statusParts.length; i += 2) {
+      const code = statusParts[i];
+      const filePath = statusParts[i + 1];
+      const count = counts.get(filePath) ?? { added: 0, removed: 0 };
+      changes.push({
+        path: filePath,
+        change: code === 'A' ? 'added' : code === 'D' ? 'deleted' : 'modified',
+        linesAdded: count.added,
+        linesRemoved: count.removed
+      });
+    }
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  } catch {
+    return [];
+  }
+}
+
+async function hashWorkspace(cwd: string): Promise<Map<string, FileState>> {
+  const files = new Map<string, FileState>();
+  const paths = await listFilesRecursive(cwd, { excludeDirs: EXCLUDED_DIRS });
+  for (const fullPath of paths) {
+    try {
+      const buffer = await fs.readFile(fullPath);
+      const hash = crypto.createHash('sha1').update(buffer).digest('hex');
+      const content = buffer.length <= MAX_TRACKED_CONTENT_BYTES && !buffer.includes(0)
+        ? buffer.toString('utf8')
+        : undefined;
+      files.set(path.relative(cwd, fullPath).split(path.sep).join('/'), { hash, content });
+    } catch {
+      // File vanished or is unreadable; treat it as absent.
+    }
+  }
+  return files;
+}
+
+function diffFileStates(before: Map<string, FileState>, after: Map<string, FileState>): FileChange[] {
+  const changes: FileChange[] = [];
+  for (const [filePath, state] of after) {
+    const previous = before.get(filePath);
+    if (!previous) {
+      changes.push({ path: filePath, change: 'added', linesAdded: countLines(state.content), linesRemoved: 0 });
+      continue;
+    }
+    if (previous.hash !== state.hash) {
+      const { added, removed } = countLineDelta(previous.content, state.content);
+      changes.push({ path: filePath, change: 'modified', linesAdded: added, linesRemoved: removed });
+    }
+  }
+  for (const [filePath, state] of before) {
+    if (!after.has(filePath)) {
+      changes.push({ path: filePath, change: 'deleted', linesAdded: 0, linesRemoved: countLines(state.content) });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function splitLines(content?: string): string[] {
+  if (!content) {
+    return [];
+  }
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function countLines(content?: string): number {
+  return splitLines(content).length;
+}
+
+// Multiset line delta: cheap approximation of a unified diff's +/- counts.
+function countLineDelta(before?: string, after?: string): { added: number; removed: number } {
+  const remaining = new Map<string, number>();
+  for (const line of splitLines(before)) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+  let added = 0;
+  for (const line of splitLines(after)) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      added += 1;
+    }
+  }
+  let removed = 0;
+  for (const count of remaining.values()) {
+    removed += count;
+  }
+  return { added, removed };
+}
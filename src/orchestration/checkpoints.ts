@@ -0,0 +1,170 @@
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execa } from 'execa';
+import { Checkpoint, Session, SpecEntry } from '../types.js';
+import { PROJECT_SESSION_FILE, PROJECT_STATE_DIR } from '../config/paths.js';
+import { captureGitTree } from './changes.js';
+import { persistSession } from './session.js';
+import { writeTextFile } from '../utils/fs.js';
+
+export const CHECKPOINT_REF_PREFIX = 'refs/aic/checkpoints';
+
+// Checkpoint commits live on private refs; a fixed identity keeps them independent of user git config.
+const CHECKPOINT_ENV = {
+  GIT_AUTHOR_NAME: 'ai-coord',
+  GIT_AUTHOR_EMAIL: 'ai-coord@localhost',
+  GIT_COMMITTER_NAME: 'ai-coord',
+  GIT_COMMITTER_EMAIL: 'ai-coord@localhost'
+};
+
+export interface CheckpointLabel {
+  sessionId: string;
+  specId: string;
+  cycle: number;
+}
+
+export async function ensureCheckpointSupport(cwd: string): Promise<void> {
+  try {
+    const { stdout } = await execa('git', ['rev-parse', '--is-inside-work-tree'], { cwd });
+    if (stdout.trim() === 'true') {
+      return;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new Error('Checkpoint mode requires the working directory to be a git repository.');
+}
+
+export function buildCheckpointRef(label: CheckpointLabel): string {
+  const safeSpec = label.specId.replace(/[^a-z0-9-_]/gi, '_');
+  return `${CHECKPOINT_REF_PREFIX}/${label.sessionId}/${safeSpec}/cycle-${label.cycle}`;
+}
+
+export async function createCheckpoint(cwd: string, label: CheckpointLabel, parent?: string): Promise<Checkpoint> {
+  const tree = await captureGitTree(cwd);
+  if (!tree) {
+    throw new Error('Unable to write checkpoint tree; is the working directory a git repository?');
+  }
+  const parentCommit = parent ?? await resolveHead(cwd);
+  const message = [
+    `aic checkpoint: ${label.specId} cycle ${label.cycle}`,
+    '',
+    `Session: ${label.sessionId}`,
+    `Spec: ${label.specId}`,
+    `Cycle: ${label.cycle}`
+  ].join('\n');
+  const args = ['commit-tree', tree, ...(parentCommit ? ['-p', parentCommit] : []), '-m', message];
+  const { stdout } = await execa('git', args, { cwd, env: CHECKPOINT_ENV });
+  const commit = stdout.trim();
+  const ref = buildCheckpointRef(label);
+  await execa('git', ['update-ref', ref, commit], { cwd });
+  return { ref, commit, cycle: label.cycle, createdAt: new Date().toISOString() };
+}
+
+export async function restoreCheckpoint(cwd: string, checkpoint: Checkpoint): Promise<void> {
+  const current = await captureGitTree(cwd);
+  if (!current) {
+    throw new Error('Unable to read the working tree; is the working directory a git repository?');
+  }
+  const { stdout } = await execa(
+    'git',
+    ['diff', '--name-only', '--diff-filter=A', '--no-renames', '--relative', '-z', checkpoint.commit, current],
+    { cwd }
+  );
+  const addedSince = stdout.split('\0').filter(Boolean);
+  for (const file of addedSince) {
+    await fs.rm(path.join(cwd, file), { force: true });
+  }
+  await execa('git', ['restore', `--source=${checkpoint.commit}`, '--worktree', '--', '.', `:(exclude)${PROJECT_STATE_DIR}`], { cwd });
+}
+
+export function findSpecEntry(session: Session, spec: string): SpecEntry | undefined {
+  return session.specs.find((entry) => entry.file === spec || entry.meta.id === spec || entry.file === `${spec}.md`);
+}
+
+export interface RollbackResult {
+  spec: SpecEntry;
+  checkpoint: Checkpoint;
+  removedCycles: number;
+  // Other specs whose cycles or completion came after the checkpoint, now pending again.
+  resetSpecs: SpecEntry[];
+}
+
+// Restores the tree to the checkpoint taken after `cycle` (0 = before the first cycle)
+// and trims later cycles so the next run resumes from there. The whole tree is restored, so
+// work other specs did after the checkpoint is undone too: their later cycles are trimmed and
+// they return to pending. A tree that matches no checkpoint holds changes the rollback would
+// lose, and is only restored with `force`.
+export async function rollbackSpec(
+  session: Session,
+  spec: string,
+  cycle?: number,
+  env: NodeJS.ProcessEnv = process.env,
+  force = false
+): Promise<RollbackResult> {
+  const entry = findSpecEntry(session, spec);
+  if (!entry) {
+    throw new Error(`Spec not found in session: ${spec}`);
+  }
+  const target = cycle ?? Math.max(0, entry.cycles.length - 1);
+  if (!Number.isInteger(target) || target < 0 || target > entry.cycles.length) {
+    throw new Error(`Invalid cycle ${cycle} for ${entry.file}; expected 0-${entry.cycles.length}.`);
+  }
+  const checkpoint = target === 0 ? entry.baselineCheckpoint : entry.cycles[target - 1]?.checkpoint;
+  if (!checkpoint) {
+    throw new Error(`No checkpoint recorded for ${entry.file} cycle ${target}. Run with --checkpoint to enable checkpoints.`);
+  }
+  if (!force && !(await matchesCheckpoint(session))) {
+    throw new Error('The working tree has changes not recorded in any checkpoint, and rolling back would discard them. Commit or stash them, or pass --force.');
+  }
+  await restoreCheckpoint(session.workingDirectory, checkpoint);
+  const removedCycles = entry.cycles.length - target;
+  entry.cycles = entry.cycles.slice(0, target);
+  resetSpec(entry);
+  const resetSpecs = session.specs.filter((other) => other !== entry && trimAfter(other, checkpoint.createdAt));
+  resetSpecs.forEach(resetSpec);
+  const specIndex = Math.min(...[entry, ...resetSpecs].map((item) => session.specs.indexOf(item)));
+  session.currentSpecIndex = Math.min(session.currentSpecIndex, specIndex);
+  session.status = 'partial';
+  await persistSession(session, env);
+  await writeTextFile(path.join(session.workingDirectory, PROJECT_SESSION_FILE), session.id);
+  return { spec: entry, checkpoint, removedCycles, resetSpecs };
+}
+
+function resetSpec(entry: SpecEntry): void {
+  entry.status = 'pending';
+  entry.completedAt = undefined;
+  entry.lastError = undefined;
+}
+
+// Drops the cycles a spec started at or after `since`; true when the spec did anything since then.
+function trimAfter(entry: SpecEntry, since: string): boolean {
+  const kept = entry.cycles.filter((cycle) => cycle.startedAt < since);
+  const changed = kept.length < entry.cycles.length || (entry.completedAt !== undefined && entry.completedAt >= since);
+  entry.cycles = kept;
+  if (entry.baselineCheckpoint && entry.baselineCheckpoint.createdAt >= since) {
+    entry.baselineCheckpoint = undefined;
+  }
+  return changed;
+}
+
+async function matchesCheckpoint(session: Session): Promise<boolean> {
+  const commits = session.specs.flatMap((entry) => [entry.baselineCheckpoint, ...entry.cycles.map((item) => item.checkpoint)])
+    .filter((item): item is Checkpoint => Boolean(item))
+    .map((item) => `${item.commit}^{tree}`);
+  const current = await captureGitTree(session.workingDirectory);
+  if (!current) {
+    throw new Error('Unable to read the working tree; is the working directory a git repository?');
+  }
+  const { stdout } = await execa('git', ['rev-parse', ...commits], { cwd: session.workingDirectory });
+  return stdout.split('\n').some((tree) => tree.trim() === current);
+}
+
+async function resolveHead(cwd: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execa('git', ['rev-parse', '--verify', '-q', 'HEAD'], { cwd });
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
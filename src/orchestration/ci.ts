@@ -0,0 +1,62 @@
+import { LowMaturityPolicy, Session, SpecEntry } from '../types.js';
+import { ToolUnavailableError } from '../tools/registry.js';
+
+// Exit codes of `aic run --ci`. An interrupted run still exits 130.
+export const CI_EXIT_CODES = {
+  passed: 0,
+  failed: 1,
+  review: 2,
+  toolUnavailable: 3,
+  budgetExceeded: 4
+} as const;
+
+export type CiOutcome = keyof typeof CI_EXIT_CODES;
+
+export const LOW_MATURITY_POLICIES: LowMaturityPolicy[] = ['proceed', 'skip', 'abort'];
+
+// Specs below this maturity level trigger the low maturity prompt or policy.
+export const MIN_SPEC_MATURITY = 3;
+
+export function parseLowMaturityPolicy(value: unknown, field = 'lowMaturity'): LowMaturityPolicy {
+  if (typeof value !== 'string' || !(LOW_MATURITY_POLICIES as string[]).includes(value.trim())) {
+    throw new Error(`${field}: expected ${LOW_MATURITY_POLICIES.join(', ')}`);
+  }
+  return value.trim() as LowMaturityPolicy;
+}
+
+// A stopped budget outranks everything else: the specs it left unfinished would read as failures.
+// Skipped specs (low maturity, max iterations, blocked dependencies) need a person, not a rerun.
+export function resolveCiOutcome(session: Session, budgetExceeded: boolean): CiOutcome {
+  const specs = session.specs.filter((spec) => !spec.contextOnly);
+  if (budgetExceeded || session.stopReason) {
+    return 'budgetExceeded';
+  }
+  if (specs.some((spec) => spec.status !== 'completed' && spec.status !== 'skipped')) {
+    return 'failed';
+  }
+  return specs.some((spec) => spec.status === 'skipped') ? 'review' : 'passed';
+}
+
+export function ciFailureExitCode(error: unknown): number {
+  return error instanceof ToolUnavailableError ? CI_EXIT_CODES.toolUnavailable : CI_EXIT_CODES.failed;
+}
+
+export function formatCiSummary(session: Session, outcome: CiOutcome, reports: string[]): string {
+  const specs = session.specs.filter((spec) => !spec.contextOnly);
+  const count = (test: (spec: SpecEntry) => boolean) => specs.filter(test).length;
+  const lines = [
+    `CI result: ${outcome} (exit ${CI_EXIT_CODES[outcome]})`,
+    `  ${count((spec) => spec.status === 'completed')} completed, ${count((spec) => spec.status === 'skipped')} skipped for review, ` +
+      `${count((spec) => spec.status === 'failed' || spec.status === 'in_progress')} failed, ${count((spec) => spec.status === 'pending')} not started`
+  ];
+  if (session.stopReason) {
+    lines.push(`  Stopped: ${session.stopReason}`);
+  }
+  for (const spec of specs) {
+    if ((spec.status === 'skipped' || spec.status === 'failed') && spec.lastError) {
+      lines.push(`  ${spec.file} ${spec.status}: ${spec.lastError}`);
+    }
+  }
+  reports.forEach((report) => lines.push(`  Report: ${report}`));
+  return `${lines.join('\n')}\n`;
+}
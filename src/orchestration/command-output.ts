@@ -0,0 +1,219 @@
+import { CommandOutputFormat, Finding, FindingLocation } from '../types.js';
+
+export type ParsedOutputFormat = Exclude<CommandOutputFormat, 'auto'>;
+
+const TSC_DIAGNOSTIC = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/m;
+const TSC_PRETTY_DIAGNOSTIC = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/m;
+
+export interface ParsedCommandOutput {
+  format: ParsedOutputFormat;
+  findings: Finding[];
+  // Test counts, when the format reports them (JUnit, TAP).
+  total?: number;
+  failed?: number;
+}
+
+// Picks a parser from the output itself: a JUnit report wins, then TAP, then tsc diagnostics.
+export function detectOutputFormat(output: string, junitXml?: string): ParsedOutputFormat {
+  if (junitXml || /<testsuites?\b/.test(output)) {
+    return 'junit';
+  }
+  if (/^TAP version \d+/m.test(output) || /^\s*not ok\b/m.test(output)) {
+    return 'tap';
+  }
+  if (TSC_DIAGNOSTIC.test(stripAnsi(output)) || TSC_PRETTY_DIAGNOSTIC.test(stripAnsi(output))) {
+    return 'tsc';
+  }
+  return 'exit-code';
+}
+
+export function parseCommandOutput(output: string, format: CommandOutputFormat = 'auto', junitXml?: string): ParsedCommandOutput {
+  const resolved = format === 'auto' ? detectOutputFormat(output, junitXml) : format;
+  switch (resolved) {
+    case 'junit':
+      return { format: resolved, ...parseJUnitXml(junitXml ?? output) };
+    case 'tap':
+      return { format: resolved, ...parseTap(output) };
+    case 'tsc':
+      return { format: resolved, findings: parseTscDiagnostics(output) };
+    default:
+      return { format: 'exit-code', findings: [] };
+  }
+}
+
+export function parseJUnitXml(xml: string): { findings: Finding[]; total: number; failed: number } {
+  const findings: Finding[] = [];
+  let total = 0;
+  const testcases = xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g);
+  for (const [, rawAttributes, body = ''] of testcases) {
+    if (/<skipped\b/.test(body)) {
+      continue;
+    }
+    total += 1;
+    const failure = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+    if (!failure) {
+      continue;
+    }
+    const attributes = parseXmlAttributes(rawAttributes);
+    const failureAttributes = parseXmlAttributes(failure[2]);
+    const details = decodeXmlEntities(stripCdata(failure[3] ?? '')).trim();
+    const message = failureAttributes.message || details.split('\n')[0] || failure[1];
+    const name = [attributes.classname, attributes.name].filter(Boolean).join(' > ');
+    const finding: Finding = {
+      requirement: `Test ${name || '(unnamed)'} passes`,
+      description: `${failure[1] === 'error' ? 'Test errored' : 'Test failed'}: ${message}`,
+      severity: 'critical'
+    };
+    const location = attributes.file
+      ? toLocation(attributes.file, attributes.line)
+      : findLocation(details);
+    if (location) {
+      finding.location = location;
+    }
+    if (details && details !== message) {
+      finding.originalCode = truncateLines(details, 20);
+    }
+    findings.push(finding);
+  }
+  return { findings, total, failed: findings.length };
+}
+
+// TAP 13/14 as written by node:test, tap and most TAP reporters. Parent tests that only fail
+// because a subtest failed are skipped so each failure is reported once.
+export function parseTap(output: string): { findings: Finding[]; total: number; failed: number } {
+  const lines = output.split(/\r?\n/);
+  const findings: Finding[] = [];
+  let total = 0;
+  let failed = 0;
+  for (let index = 0; index < lines.length; index += 1) {
+    const result = /^(\s*)(not ok|ok)\b\s*\d*\s*(?:-\s*)?(.*?)\s*(?:#\s*(skip|todo)\b.*)?$/i.exec(lines[index]);
+    if (!result) {
+      continue;
+    }
+    if (result[4]) {
+      continue;
+    }
+    const diagnostics = readTapDiagnostics(lines, index + 1, result[1].length);
+    index += diagnostics.consumed;
+    if (/failureType:\s*['"]?subtestsFailed/.test(diagnostics.text)) {
+      continue;
+    }
+    total += 1;
+    if (result[2].toLowerCase() === 'ok') {
+      continue;
+    }
+    failed += 1;
+    const message = readTapField(diagnostics.text, ['message', 'error']);
+    const finding: Finding = {
+      requirement: `Test ${result[3] || '(unnamed)'} passes`,
+      description: `Test failed${message ? `: ${message}` : ''}`,
+      severity: 'critical'
+    };
+    const location = findLocation(/^\s*(?:location|at|file):.*$/m.exec(diagnostics.text)?.[0] ?? '');
+    if (location) {
+      finding.location = location;
+    }
+    findings.push(finding);
+  }
+  return { findings, total, failed };
+}
+
+// Both `file(line,col): error TS1234: ...` and the `--pretty` form `file:line:col - error TS1234: ...`.
+export function parseTscDiagnostics(output: string): Finding[] {
+  const findings: Finding[] = [];
+  for (const line of stripAnsi(output).split(/\r?\n/)) {
+    const match = TSC_DIAGNOSTIC.exec(line) ?? TSC_PRETTY_DIAGNOSTIC.exec(line);
+    if (!match) {
+      continue;
+    }
+    findings.push({
+      requirement: 'Code type-checks',
+      description: `${match[5]}: ${match[6].trim()}`,
+      severity: match[4] === 'error' ? 'critical' : 'minor',
+      location: { file: match[1].trim(), line: Number(match[2]) }
+    });
+  }
+  return findings;
+}
+
+function readTapDiagnostics(lines: string[], start: number, indent: number): { text: string; consumed: number } {
+  if (start >= lines.length || !/^\s*---\s*$/.test(lines[start]) || leadingSpaces(lines[start]) < indent) {
+    return { text: '', consumed: 0 };
+  }
+  const collected: string[] = [];
+  for (let index = start + 1; index < lines.length; index += 1) {
+    if (/^\s*\.\.\.\s*$/.test(lines[index])) {
+      return { text: collected.join('\n'), consumed: index - start + 1 };
+    }
+    collected.push(lines[index]);
+  }
+  return { text: collected.join('\n'), consumed: lines.length - start };
+}
+
+// Reads a scalar from the YAML diagnostics block, following `|-` / `>-` block scalars to their first line.
+function readTapField(text: string, keys: string[]): string | undefined {
+  const lines = text.split('\n');
+  for (let index = 0; index < lines.length; index += 1) {
+    const match = /^\s*([\w-]+):\s*(.*)$/.exec(lines[index]);
+    if (!match || !keys.includes(match[1])) {
+      continue;
+    }
+    const value = /^[|>][-+]?$/.test(match[2]) ? (lines[index + 1] ?? '').trim() : match[2].trim();
+    const unquoted = value.replace(/^(['"])(.*)\1$/, '$2');
+    if (unquoted) {
+      return unquoted;
+    }
+  }
+  return undefined;
+}
+
+function findLocation(text: string): FindingLocation | undefined {
+  const match = /(?:file:\/\/)?((?:[A-Za-z]:)?[^\s'"():]+\.[A-Za-z]+):(\d+)(?::\d+)?/.exec(text);
+  return match ? toLocation(match[1], match[2]) : undefined;
+}
+
+function toLocation(file: string, line?: string): FindingLocation {
+  const location: FindingLocation = { file };
+  const parsed = Number(line);
+  if (Number.isInteger(parsed) && parsed > 0) {
+    location.line = parsed;
+  }
+  return location;
+}
+
+function parseXmlAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, key, doubleQuoted, singleQuoted] of raw.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[key] = decodeXmlEntities(doubleQuoted ?? singleQuoted ?? '');
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function stripCdata(text: string): string {
+  return text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+}
+
+const ANSI_COLOR = new RegExp('\\u001b\\[[0-9;]*m', 'g');
+
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_COLOR, '');
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function truncateLines(text: string, max: number): string {
+  const lines = text.split('\n');
+  return lines.length > max ? [...lines.slice(0, max), `... (${lines.length - max} more lines)`].join('\n') : text;
+}
@@ -0,0 +1,182 @@
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execa } from 'execa';
+import { CommandOutputFormat, CommandValidatorConfig, Finding, Validation, ValidationResult } from '../types.js';
+import { formatFindingGap } from './findings.js';
+import { parseCommandOutput } from './command-output.js';
+import { pathExists, readTextFile } from '../utils/fs.js';
+
+export const COMMAND_OUTPUT_FORMATS: CommandOutputFormat[] = ['auto', 'junit', 'tap', 'tsc', 'exit-code'];
+
+// Command validators appear next to AI validators in cycles and reports under this prefix.
+export const COMMAND_VALIDATOR_PREFIX = 'cmd:';
+
+// Lines of output kept in the finding for a command that failed without parseable diagnostics.
+const OUTPUT_TAIL_LINES = 20;
+
+export interface CommandRunOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  timeoutMs: number;
+}
+
+export function commandValidatorLabel(config: CommandValidatorConfig): string {
+  return `${COMMAND_VALIDATOR_PREFIX}${config.name}`;
+}
+
+// `--check` / `--gate` values: `name=command`, or a bare command named after its first word.
+export function parseCommandValidatorFlag(value: string, gate = false): CommandValidatorConfig {
+  const trimmed = value.trim();
+  const match = /^([A-Za-z0-9_.-]+)=(.*)$/s.exec(trimmed);
+  const command = (match ? match[2] : trimmed).trim();
+  if (!command) {
+    throw new Error(`Invalid command validator "${value}": expected name=command.`);
+  }
+  const name = match ? match[1] : path.basename(command.split(/\s+/)[0]);
+  return gate ? { name, command, gate: true } : { name, command };
+}
+
+export function parseCommandValidatorConfigs(raw: unknown, source: string): CommandValidatorConfig[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error(`Invalid command validators (from ${source}): expected an array`);
+  }
+  return raw.map((item, index) => parseCommandValidatorConfig(item, `${source}, entry ${index + 1}`));
+}
+
+export function parseCommandValidatorConfig(raw: unknown, source: string): CommandValidatorConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid command validator (from ${source}): expected an object`);
+  }
+  const record = raw as Record<string, unknown>;
+  if (typeof record.name !== 'string' || !record.name.trim()) {
+    throw new Error(`Invalid command validator (from ${source}): missing name`);
+  }
+  const name = record.name.trim();
+  if (typeof record.command !== 'string' || !record.command.trim()) {
+    throw new Error(`Invalid command validator ${name} (from ${source}): missing command`);
+  }
+  const config: CommandValidatorConfig = { name, command: record.command.trim() };
+  if (record.format !== undefined) {
+    if (typeof record.format !== 'string' || !(COMMAND_OUTPUT_FORMATS as string[]).includes(record.format)) {
+      throw new Error(`Invalid command validator ${name} (from ${source}): format must be one of ${COMMAND_OUTPUT_FORMATS.join(', ')}`);
+    }
+    config.format = record.format as CommandOutputFormat;
+  }
+  if (record.reportFile !== undefined) {
+    if (typeof record.reportFile !== 'string' || !record.reportFile.trim()) {
+      throw new Error(`Invalid command validator ${name} (from ${source}): reportFile must be a path`);
+    }
+    config.reportFile = record.reportFile.trim();
+  }
+  if (record.gate !== undefined) {
+    if (typeof record.gate !== 'boolean') {
+      throw new Error(`Invalid command validator ${name} (from ${source}): gate must be true or false`);
+    }
+    config.gate = record.gate;
+  }
+  if (record.timeout !== undefined) {
+    if (typeof record.timeout !== 'number' || !(record.timeout > 0)) {
+      throw new Error(`Invalid command validator ${name} (from ${source}): timeout must be a positive number of minutes`);
+    }
+    config.timeout = record.timeout;
+  }
+  return config;
+}
+
+// Later lists replace earlier entries with the same name.
+export function mergeCommandValidators(...lists: Array<CommandValidatorConfig[] | undefined>): CommandValidatorConfig[] {
+  const byName = new Map<string, CommandValidatorConfig>();
+  for (const list of lists) {
+    for (const config of list ?? []) {
+      byName.set(config.name, config);
+    }
+  }
+  return [...byName.values()];
+}
+
+export async function runCommandValidator(config: CommandValidatorConfig, options: CommandRunOptions): Promise<Validation> {
+  const timeoutMs = config.timeout ? config.timeout * 60_000 : options.timeoutMs;
+  const reportPath = config.reportFile ? path.resolve(options.cwd, config.reportFile) : undefined;
+  if (reportPath) {
+    // A report left over from the previous cycle would hide a command that no longer writes one.
+    await fs.rm(reportPath, { force: true });
+  }
+  const startedAt = Date.now();
+  const result = await execa(config.command, {
+    shell: true,
+    cwd: options.cwd,
+    env: options.env,
+    reject: false,
+    all: true,
+    timeout: timeoutMs
+  });
+  const durationMs = Date.now() - startedAt;
+  const output = result.all ?? [result.stdout, result.stderr].filter(Boolean).join('\n');
+  const exitCode = result.exitCode ?? 1;
+  const junitXml = reportPath && (await pathExists(reportPath)) ? await readTextFile(reportPath) : undefined;
+  const parsed = toCommandValidationResult(config, output, exitCode, { junitXml, timedOut: result.timedOut, timeoutMs });
+  return {
+    tool: commandValidatorLabel(config),
+    prompt: config.command,
+    output,
+    parsed,
+    durationMs,
+    exitCode,
+    command: config,
+    ...(config.gate ? { gate: true } : {})
+  };
+}
+
+// A command passes when it exits 0 and its output reports no failures. Completeness is the share of
+// passing tests when the format counts them, otherwise all or nothing.
+export function toCommandValidationResult(
+  config: CommandValidatorConfig,
+  output: string,
+  exitCode: number,
+  options: { junitXml?: string; timedOut?: boolean; timeoutMs?: number } = {}
+): ValidationResult {
+  const report = parseCommandOutput(output, config.format, options.junitXml);
+  const findings: Finding[] = [...report.findings];
+  if (options.timedOut) {
+    findings.unshift({
+      requirement: `\`${config.command}\` completes`,
+      description: `Command timed out after ${Math.round((options.timeoutMs ?? 0) / 1000)}s`,
+      severity: 'critical'
+    });
+  } else if (exitCode !== 0 && findings.length === 0) {
+    const finding: Finding = {
+      requirement: `\`${config.command}\` succeeds`,
+      description: `Command exited with code ${exitCode}`,
+      severity: 'critical'
+    };
+    const tail = tailLines(output, OUTPUT_TAIL_LINES);
+    if (tail) {
+      finding.originalCode = tail;
+    }
+    findings.push(finding);
+  }
+  const passed = exitCode === 0 && !options.timedOut && findings.every((finding) => finding.severity !== 'critical');
+  const completeness = report.total
+    ? Math.round(((report.total - (report.failed ?? 0)) / report.total) * 100)
+    : passed ? 100 : 0;
+  return {
+    completeness,
+    status: passed ? 'PASS' : 'FAIL',
+    gaps: findings.map((finding) => formatFindingGap(finding)),
+    findings,
+    recommendations: []
+  };
+}
+
+export function failedGates(validations: Array<{ tool: string; parsed: ValidationResult; gate?: boolean }>): string[] {
+  return validations
+    .filter((validation) => validation.gate && validation.parsed.status !== 'PASS')
+    .map((validation) => validation.tool);
+}
+
+function tailLines(output: string, count: number): string {
+  return output.trimEnd().split(/\r?\n/).slice(-count).join('\n').trim();
+}
@@ -0,0 +1,250 @@
+import { CommandValidatorConfig, ConsensusDecision, ConsensusPolicy, ValidationResult } from '../types.js';
+import { getFindings } from './findings.js';
+import { failedGates } from './command-validator.js';
+
+export const DEFAULT_COMPLETENESS_THRESHOLD = 90;
+
+export interface ConsensusInput {
+  tool: string;
+  parsed: ValidationResult;
+  gate?: boolean;
+  command?: CommandValidatorConfig;
+}
+
+export interface ConsensusOptions {
+  // The build loop also accepts a cycle in which no validator reported a gap; only the default policy honors this.
+  acceptNoGaps?: boolean;
+}
+
+// Legacy rule: all of 1 or 2 validators, at least 2 of 3+.
+export function hasConsensus(validations: ValidationResult[]): boolean {
+  if (validations.length === 0) {
+    return false;
+  }
+  const passCount = validations.filter((validation) => validation.status === 'PASS').length;
+  return passCount >= defaultRequiredPasses(validations.length);
+}
+
+// Accepts `unanimous`, `majority`, `quorum-<n>`, `weighted:<tool>=<weight>,...`,
+// `completeness-threshold[:<percent>]`, `no-critical-findings` and `default`.
+export function parseConsensusPolicy(value: string): ConsensusPolicy {
+  const trimmed = value.trim();
+  const [head, ...rest] = trimmed.split(':');
+  const argument = rest.join(':').trim();
+  const name = head.trim().toLowerCase();
+  const quorumMatch = /^quorum-(\d+)$/.exec(name);
+  if (quorumMatch) {
+    const quorum = Number(quorumMatch[1]);
+    if (quorum < 1) {
+      throw new Error(`Invalid consensus policy "${value}": quorum must be at least 1.`);
+    }
+    return { name: 'quorum', quorum };
+  }
+  switch (name) {
+    case 'default':
+    case 'unanimous':
+    case 'majority':
+    case 'no-critical-findings':
+      if (argument) {
+        throw new Error(`Invalid consensus policy "${value}": ${name} takes no argument.`);
+      }
+      return { name };
+    case 'weighted':
+      return { name, weights: argument ? parseWeights(argument, value) : {} };
+    case 'completeness-threshold':
+      return { name, threshold: argument ? parseThreshold(argument, value) : DEFAULT_COMPLETENESS_THRESHOLD };
+    default:
+      throw new Error(`Invalid consensus policy "${value}". Expected one of: default, unanimous, majority, quorum-<n>, weighted[:tool=weight,...], completeness-threshold[:percent], no-critical-findings.`);
+  }
+}
+
+// Spec front matter accepts either the string form or `{ policy, quorum?, weights?, threshold? }`.
+export function parseConsensusSetting(value: unknown): ConsensusPolicy | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    return parseConsensusPolicy(value);
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid consensus policy: expected a string or an object with a "policy" field.');
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.policy !== 'string') {
+    throw new Error('Invalid consensus policy: missing "policy" field.');
+  }
+  if (record.policy.trim().toLowerCase() === 'quorum') {
+    const quorum = Number(record.quorum);
+    if (!Number.isInteger(quorum) || quorum < 1) {
+      throw new Error('Invalid consensus policy: quorum requires a positive integer "quorum" count.');
+    }
+    return { name: 'quorum', quorum };
+  }
+  if (record.quorum !== undefined) {
+    throw new Error('Invalid consensus policy: "quorum" requires policy quorum.');
+  }
+  const policy = parseConsensusPolicy(record.policy);
+  if (record.weights !== undefined) {
+    if (policy.name !== 'weighted' || typeof record.weights !== 'object' || record.weights === null) {
+      throw new Error('Invalid consensus policy: "weights" requires policy weighted and a tool-to-weight map.');
+    }
+    policy.weights = {};
+    for (const [tool, weight] of Object.entries(record.weights as Record<string, unknown>)) {
+      policy.weights[tool] = parseWeight(String(weight), tool, record.policy);
+    }
+  }
+  if (record.threshold !== undefined) {
+    if (policy.name !== 'completeness-threshold') {
+      throw new Error('Invalid consensus policy: "threshold" requires policy completeness-threshold.');
+    }
+    policy.threshold = parseThreshold(String(record.threshold), record.policy);
+  }
+  return policy;
+}
+
+export function resolveConsensusPolicy(...candidates: Array<ConsensusPolicy | undefined>): ConsensusPolicy {
+  return candidates.find((candidate) => candidate !== undefined) ?? { name: 'default' };
+}
+
+export function formatConsensusPolicy(policy: ConsensusPolicy): string {
+  switch (policy.name) {
+    case 'quorum':
+      return `quorum-${policy.quorum ?? 1}`;
+    case 'weighted': {
+      const weights = Object.entries(policy.weights ?? {}).map(([tool, weight]) => `${tool}=${weight}`);
+      return weights.length > 0 ? `weighted:${weights.join(',')}` : 'weighted';
+    }
+    case 'completeness-threshold':
+      return `completeness-threshold:${policy.threshold ?? DEFAULT_COMPLETENESS_THRESHOLD}`;
+    default:
+      return policy.name;
+  }
+}
+
+export function evaluateConsensus(
+  policy: ConsensusPolicy,
+  validations: ConsensusInput[],
+  options: ConsensusOptions = {}
+): ConsensusDecision {
+  const label = formatConsensusPolicy(policy);
+  if (validations.length === 0) {
+    return { policy: label, reached: false, reason: 'no validator results' };
+  }
+  const gates = failedGates(validations);
+  if (gates.length > 0) {
+    return { policy: label, reached: false, reason: `hard gate failed: ${gates.join(', ')}` };
+  }
+  // Policies weigh the AI validators' verdicts. Commands and spec expectations are checks: a failing
+  // gate blocks consensus above, and other commands only report findings back to the lead.
+  const checks = validations.filter((validation) => isCheck(validation));
+  const decision = evaluatePolicy(policy, label, validations.filter((validation) => !isCheck(validation)), options);
+  const failedChecks = checks.filter((validation) => validation.parsed.status !== 'PASS').map((validation) => validation.tool);
+  return failedChecks.length > 0
+    ? { ...decision, reason: `${decision.reason}; non-gate checks failed: ${failedChecks.join(', ')}` }
+    : decision;
+}
+
+function isCheck(validation: ConsensusInput): boolean {
+  return Boolean(validation.command || validation.gate);
+}
+
+function evaluatePolicy(
+  policy: ConsensusPolicy,
+  label: string,
+  validations: ConsensusInput[],
+  options: ConsensusOptions
+): ConsensusDecision {
+  const total = validations.length;
+  if (total === 0) {
+    return { policy: label, reached: false, reason: 'no AI validator results' };
+  }
+  const passCount = validations.filter((validation) => validation.parsed.status === 'PASS').length;
+  const passSummary = `${passCount}/${total} validators passed`;
+
+  switch (policy.name) {
+    case 'unanimous':
+      return { policy: label, reached: passCount === total, reason: `${passSummary} (needs all)` };
+    case 'majority': {
+      const required = Math.floor(total / 2) + 1;
+      return { policy: label, reached: passCount >= required, reason: `${passSummary} (needs ${required})` };
+    }
+    case 'quorum': {
+      const required = policy.quorum ?? 1;
+      return { policy: label, reached: passCount >= required, reason: `${passSummary} (needs ${required})` };
+    }
+    case 'weighted': {
+      const weightOf = (tool: string) => policy.weights?.[tool] ?? 1;
+      const totalWeight = validations.reduce((sum, validation) => sum + weightOf(validation.tool), 0);
+      const passWeight = validations
+        .filter((validation) => validation.parsed.status === 'PASS')
+        .reduce((sum, validation) => sum + weightOf(validation.tool), 0);
+      return {
+        policy: label,
+        reached: totalWeight > 0 && passWeight * 2 > totalWeight,
+        reason: `passing weight ${passWeight} of ${totalWeight} (needs more than half)`
+      };
+    }
+    case 'completeness-threshold': {
+      const threshold = policy.threshold ?? DEFAULT_COMPLETENESS_THRESHOLD;
+      const average = Math.round(validations.reduce((sum, validation) => sum + validation.parsed.completeness, 0) / total);
+      return { policy: label, reached: average >= threshold, reason: `average completeness ${average}% (needs ${threshold}%)` };
+    }
+    case 'no-critical-findings': {
+      // Unreadable output carries no findings to judge, so it cannot count as a clean report.
+      const invalid = validations.filter((validation) => validation.parsed.invalidOutput).map((validation) => validation.tool);
+      if (invalid.length > 0) {
+        return { policy: label, reached: false, reason: `validator output invalid (${invalid.join(', ')})` };
+      }
+      const critical = validations
+        .map((validation) => ({ tool: validation.tool, count: getFindings(validation.parsed).filter((finding) => finding.severity === 'critical').length }))
+        .filter((entry) => entry.count > 0);
+      if (critical.length === 0) {
+        return { policy: label, reached: true, reason: `no critical findings from ${total} validators` };
+      }
+      const detail = critical.map((entry) => `${entry.tool}: ${entry.count}`).join(', ');
+      return { policy: label, reached: false, reason: `critical findings reported (${detail})` };
+    }
+    default: {
+      const required = defaultRequiredPasses(total);
+      if (passCount >= required) {
+        return { policy: label, reached: true, reason: `${passSummary} (needs ${required})` };
+      }
+      if (options.acceptNoGaps && validations.every((validation) => getFindings(validation.parsed).length === 0)) {
+        return { policy: label, reached: true, reason: `${passSummary}, but no validator reported gaps` };
+      }
+      return { policy: label, reached: false, reason: `${passSummary} (needs ${required})` };
+    }
+  }
+}
+
+function defaultRequiredPasses(total: number): number {
+  return total <= 2 ? total : 2;
+}
+
+function parseWeights(argument: string, value: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const pair of argument.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const [tool, weight] = pair.split('=').map((item) => item.trim());
+    if (!tool || weight === undefined) {
+      throw new Error(`Invalid consensus policy "${value}": expected tool=weight pairs.`);
+    }
+    weights[tool] = parseWeight(weight, tool, value);
+  }
+  return weights;
+}
+
+function parseWeight(weight: string, tool: string, value: string): number {
+  const parsed = Number(weight);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid consensus policy "${value}": weight for ${tool} must be a non-negative number.`);
+  }
+  return parsed;
+}
+
+function parseThreshold(argument: string, value: string): number {
+  const threshold = Number(argument);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    throw new Error(`Invalid consensus policy "${value}": threshold must be between 0 and 100.`);
+  }
+  return threshold;
+}
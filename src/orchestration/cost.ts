@@ -0,0 +1,175 @@
+import { Cycle, PriceTable, Session, SpecEntry, TokenUsage, ToolPrice, UsageLimits } from '../types.js';
+
+// List prices of the models each CLI uses by default; override them with `prices` in the config
+// when a tool runs another model.
+export const DEFAULT_TOOL_PRICES: PriceTable = {
+  claude: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  codex: { input: 1.25, output: 10, cacheRead: 0.125 },
+  gemini: { input: 1.25, output: 10, cacheRead: 0.31 }
+};
+
+export interface UsageTotals {
+  tokens: number;
+  cost: number;
+  // Tools that reported tokens but have no price; their tokens count, their cost does not.
+  unpriced: string[];
+}
+
+export interface ToolUsage {
+  tool: string;
+  tokens: number;
+  cost: number;
+}
+
+export interface LimitBreach {
+  scope: 'session' | 'spec';
+  message: string;
+}
+
+const PRICE_FIELDS = ['input', 'output', 'cacheRead', 'cacheWrite'];
+
+// Each tool's override is merged over its built-in price, so overriding only `input` and `output`
+// keeps the built-in cache rates.
+export function resolvePriceTable(overrides: PriceTable = {}): PriceTable {
+  const table: PriceTable = { ...DEFAULT_TOOL_PRICES };
+  for (const [tool, price] of Object.entries(overrides)) {
+    table[tool] = { ...DEFAULT_TOOL_PRICES[tool], ...price };
+  }
+  return table;
+}
+
+export function countTokens(usage?: TokenUsage): number {
+  if (!usage) {
+    return 0;
+  }
+  return usage.totalTokens
+    ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0) + (usage.cacheReadTokens ?? 0) + (usage.cacheCreationTokens ?? 0);
+}
+
+// A tool that reports only a total is priced at the input rate.
+export function executionCost(usage: TokenUsage | undefined, price: ToolPrice): number {
+  if (!usage) {
+    return 0;
+  }
+  const split = usage.inputTokens !== undefined || usage.outputTokens !== undefined;
+  if (!split) {
+    return (countTokens(usage) * price.input) / 1_000_000;
+  }
+  return (
+    (usage.inputTokens ?? 0) * price.input
+    + (usage.outputTokens ?? 0) * price.output
+    + (usage.cacheReadTokens ?? 0) * (price.cacheRead ?? price.input)
+    + (usage.cacheCreationTokens ?? 0) * (price.cacheWrite ?? price.input)
+  ) / 1_000_000;
+}
+
+export function summarizeToolUsage(cycles: Cycle[], prices: PriceTable): ToolUsage[] {
+  const byTool = new Map<string, ToolUsage>();
+  const add = (tool: string, usage?: TokenUsage) => {
+    const tokens = countTokens(usage);
+    if (tokens === 0) {
+      return;
+    }
+    const entry = byTool.get(tool) ?? { tool, tokens: 0, cost: 0 };
+    entry.tokens += tokens;
+    const price = prices[tool];
+    entry.cost += price ? executionCost(usage, price) : 0;
+    byTool.set(tool, entry);
+  };
+  for (const cycle of cycles) {
+    add(cycle.leadExecution.tool, cycle.leadExecution.tokenUsage);
+    cycle.validations.forEach((validation) => add(validation.tool, validation.tokenUsage));
+  }
+  return [...byTool.values()];
+}
+
+export function sumCycleUsage(cycles: Cycle[], prices: PriceTable): UsageTotals {
+  const tools = summarizeToolUsage(cycles, prices);
+  return {
+    tokens: tools.reduce((sum, tool) => sum + tool.tokens, 0),
+    cost: tools.reduce((sum, tool) => sum + tool.cost, 0),
+    unpriced: tools.filter((tool) => !prices[tool.tool]).map((tool) => tool.tool)
+  };
+}
+
+// Session files written by hand or by old releases may lack `cycles` on pending specs.
+export function sessionCycles(session: Session): Cycle[] {
+  return session.specs.flatMap((spec) => spec.cycles ?? []);
+}
+
+export function sumSpecUsage(spec: SpecEntry, prices: PriceTable): UsageTotals {
+  return sumCycleUsage(spec.cycles ?? [], prices);
+}
+
+export function sumSessionUsage(session: Session, prices: PriceTable): UsageTotals {
+  return sumCycleUsage(sessionCycles(session), prices);
+}
+
+// Checked before each cycle starts, so a cycle already running always finishes.
+export function checkUsageLimits(session: Session, spec: SpecEntry, limits: UsageLimits, prices: PriceTable): LimitBreach | undefined {
+  const total = sumSessionUsage(session, prices);
+  if (limits.maxTokens !== undefined && total.tokens >= limits.maxTokens) {
+    return { scope: 'session', message: `Session token limit reached (${total.tokens.toLocaleString()}/${limits.maxTokens.toLocaleString()} tokens)` };
+  }
+  if (limits.maxCost !== undefined && total.cost >= limits.maxCost) {
+    return { scope: 'session', message: `Session cost limit reached (${formatCost(total.cost)}/${formatCost(limits.maxCost)})` };
+  }
+  const specTotal = sumSpecUsage(spec, prices);
+  if (limits.maxSpecTokens !== undefined && specTotal.tokens >= limits.maxSpecTokens) {
+    return { scope: 'spec', message: `Spec token limit reached for ${spec.file} (${specTotal.tokens.toLocaleString()}/${limits.maxSpecTokens.toLocaleString()} tokens)` };
+  }
+  if (limits.maxSpecCost !== undefined && specTotal.cost >= limits.maxSpecCost) {
+    return { scope: 'spec', message: `Spec cost limit reached for ${spec.file} (${formatCost(specTotal.cost)}/${formatCost(limits.maxSpecCost)})` };
+  }
+  return undefined;
+}
+
+export function hasUsageLimits(limits: UsageLimits): boolean {
+  return Object.values(limits).some((value) => value !== undefined);
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+export function formatUsageTotals(totals: UsageTotals): string {
+  const unpriced = totals.unpriced.length > 0 ? ` (no price for ${totals.unpriced.join(', ')})` : '';
+  return `${totals.tokens.toLocaleString()} tokens, ${formatCost(totals.cost)}${unpriced}`;
+}
+
+export function formatUsageLimits(limits: UsageLimits): string {
+  const parts = [
+    ...(limits.maxTokens !== undefined ? [`session ${limits.maxTokens.toLocaleString()} tokens`] : []),
+    ...(limits.maxCost !== undefined ? [`session ${formatCost(limits.maxCost)}`] : []),
+    ...(limits.maxSpecTokens !== undefined ? [`spec ${limits.maxSpecTokens.toLocaleString()} tokens`] : []),
+    ...(limits.maxSpecCost !== undefined ? [`spec ${formatCost(limits.maxSpecCost)}`] : [])
+  ];
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+export function parsePriceTable(value: unknown, field: string): PriceTable {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${field}: expected an object of tool prices`);
+  }
+  const table: PriceTable = {};
+  for (const [tool, price] of Object.entries(value as Record<string, unknown>)) {
+    const entry = `${field}.${tool}`;
+    if (!price || typeof price !== 'object' || Array.isArray(price)) {
+      throw new Error(`${entry}: expected an object with input and output prices`);
+    }
+    const record = price as Record<string, unknown>;
+    for (const [key, rate] of Object.entries(record)) {
+      if (!PRICE_FIELDS.includes(key)) {
+        throw new Error(`${entry}: unknown field "${key}" (expected ${PRICE_FIELDS.join(', ')})`);
+      }
+      if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+        throw new Error(`${entry}.${key}: expected a number of 0 or more`);
+      }
+    }
+    if (record.input === undefined || record.output === undefined) {
+      throw new Error(`${entry}: input and output prices are required`);
+    }
+    table[tool] = record as unknown as ToolPrice;
+  }
+  return table;
+}
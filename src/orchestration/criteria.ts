@@ -0,0 +1,98 @@
+import { AcceptanceCriterion, CriterionVerdict, CriterionVerdictValue, ValidationResult } from '../types.js';
+
+export const CRITERION_VERDICTS: CriterionVerdictValue[] = ['met', 'partial', 'unmet'];
+
+export interface CriteriaSource {
+  tool: string;
+  parsed: ValidationResult;
+}
+
+export function parseCriterionVerdict(raw: unknown): CriterionVerdict | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const record = raw as Record<string, unknown>;
+  const id = typeof record.id === 'string' ? record.id.trim().toUpperCase() : '';
+  const verdict = parseVerdictValue(record.verdict ?? record.status);
+  if (!id || !verdict) {
+    return null;
+  }
+  const result: CriterionVerdict = { id, verdict };
+  if (typeof record.evidence === 'string' && record.evidence.trim()) {
+    result.evidence = record.evidence.trim();
+  }
+  return result;
+}
+
+export function parseVerdictValue(value: unknown): CriterionVerdictValue | null {
+  if (typeof value === 'boolean') {
+    return value ? 'met' : 'unmet';
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'met' || normalized === 'pass' || normalized === 'yes' || normalized === 'done') {
+    return 'met';
+  }
+  if (normalized === 'partial' || normalized === 'partially met') {
+    return 'partial';
+  }
+  if (normalized === 'unmet' || normalized === 'fail' || normalized === 'no' || normalized === 'missing' || normalized === 'not met') {
+    return 'unmet';
+  }
+  return null;
+}
+
+// Completeness from verdicts: met counts fully, partial half, and criteria the validator
+// skipped count as unmet.
+export function scoreCriteria(criteria: AcceptanceCriterion[], verdicts: CriterionVerdict[]): number {
+  if (criteria.length === 0) {
+    return 0;
+  }
+  const byId = new Map(verdicts.map((verdict) => [verdict.id, verdict.verdict]));
+  const points = criteria.reduce((sum, criterion) => {
+    const verdict = byId.get(criterion.id);
+    return sum + (verdict === 'met' ? 1 : verdict === 'partial' ? 0.5 : 0);
+  }, 0);
+  return Math.round((points / criteria.length) * 100);
+}
+
+// Replaces the validator's self-reported completeness with the score of its criteria verdicts.
+// Results without verdicts (or specs without criteria) are returned unchanged.
+export function applyCriteriaVerdicts(result: ValidationResult, criteria: AcceptanceCriterion[]): ValidationResult {
+  if (criteria.length === 0 || !result.criteria) {
+    return result;
+  }
+  const known = new Set(criteria.map((criterion) => criterion.id));
+  const verdicts = result.criteria.filter((verdict) => known.has(verdict.id));
+  return {
+    ...result,
+    criteria: verdicts,
+    completeness: scoreCriteria(criteria, verdicts),
+    reportedCompleteness: result.reportedCompleteness ?? result.completeness
+  };
+}
+
+export function formatCriteriaChecklist(criteria: AcceptanceCriterion[]): string[] {
+  return criteria.map((criterion) => `- ${criterion.id}: ${criterion.text}`);
+}
+
+// Markdown table of criteria against each validator's verdict; `-` marks a missing verdict.
+export function formatCriteriaMatrix(criteria: AcceptanceCriterion[], sources: CriteriaSource[]): string[] {
+  const header = ['Criterion', ...sources.map((source) => source.tool)];
+  const lines = [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`
+  ];
+  for (const criterion of criteria) {
+    const cells = sources.map((source) => source.parsed.criteria?.find((verdict) => verdict.id === criterion.id)?.verdict ?? '-');
+    lines.push(`| ${escapeCell(`${criterion.id} ${criterion.text}`)} | ${cells.join(' | ')} |`);
+  }
+  return lines;
+}
+
+function escapeCell(text: string): string {
+  const singleLine = text.replace(/\|/g, '\\|');
+  return singleLine.length > 80 ? `${singleLine.slice(0, 77)}...` : singleLine;
+}
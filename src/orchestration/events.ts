@@ -0,0 +1,181 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { ConsensusDecision, Session, SpecEntry, SpecStatus, TokenUsage, ToolName, Validation } from '../types.js';
+
+export interface ValidatorSummary {
+  tool: ToolName;
+  status: 'PASS' | 'FAIL';
+  completeness: number;
+  findings: number;
+  gate?: boolean;
+}
+
+// Payloads by event type. `cycleNumber` matches the cycle's `number` in the session; preflight
+// validation uses 0.
+export interface CoordinatorEventMap {
+  SessionStarted: { sessionId: string; mode: 'run' | 'validate'; resumed: boolean; lead: ToolName; validators: ToolName[]; specs: string[] };
+  SpecStarted: { sessionId: string; specId: string; file: string; previousCycles: number };
+  LeadStarted: { sessionId: string; specId: string; cycleNumber: number; tool: ToolName };
+  LeadFinished: { sessionId: string; specId: string; cycleNumber: number; tool: ToolName; durationMs: number; exitCode: number; filesChanged: number; tokenUsage?: TokenUsage };
+  ValidatorResult: { sessionId: string; specId: string; cycleNumber: number; durationMs: number; exitCode: number; tokenUsage?: TokenUsage } & ValidatorSummary;
+  ConsensusEvaluated: { sessionId: string; specId: string; cycleNumber: number } & ConsensusDecision;
+  CycleCompleted: { sessionId: string; specId: string; cycleNumber: number; leadDurationMs: number; validationResults: ValidatorSummary[]; consensusReached: boolean };
+  SpecCompleted: { sessionId: string; specId: string; file: string; status: SpecStatus; totalCycles: number; durationMs: number; error?: string };
+  RunFailed: { sessionId?: string; message: string };
+  Interrupted: { sessionId: string; specId?: string };
+  SessionCompleted: { sessionId: string; totalSpecs: number; completedSpecs: number; failedSpecs: number; finalStatus: 'completed' | 'partial' | 'failed'; totalDurationMs: number; stopReason?: string };
+}
+
+export type CoordinatorEventType = keyof CoordinatorEventMap;
+
+export type CoordinatorEvent = {
+  [K in CoordinatorEventType]: { type: K; timestamp: string } & CoordinatorEventMap[K];
+}[CoordinatorEventType];
+
+type Listener<K extends CoordinatorEventType> = (event: Extract<CoordinatorEvent, { type: K }>) => void;
+
+// Typed progress events from the orchestration loop. Listeners run synchronously, in the order
+// the loop reaches each step.
+export class CoordinatorEventEmitter {
+  // Last session seen, so failures raised outside the loop can still name it.
+  sessionId?: string;
+  private listeners = new Map<CoordinatorEventType | '*', Set<(event: CoordinatorEvent) => void>>();
+
+  on<K extends CoordinatorEventType>(type: K, listener: Listener<K>): () => void {
+    return this.add(type, listener as (event: CoordinatorEvent) => void);
+  }
+
+  onAny(listener: (event: CoordinatorEvent) => void): () => void {
+    return this.add('*', listener);
+  }
+
+  emit<K extends CoordinatorEventType>(type: K, payload: CoordinatorEventMap[K]): void {
+    const event = { type, timestamp: new Date().toISOString(), ...payload } as CoordinatorEvent;
+    if ('sessionId' in payload && payload.sessionId) {
+      this.sessionId = payload.sessionId;
+    }
+    for (const listener of [...(this.listeners.get(type) ?? []), ...(this.listeners.get('*') ?? [])]) {
+      listener(event);
+    }
+  }
+
+  private add(key: CoordinatorEventType | '*', listener: (event: CoordinatorEvent) => void): () => void {
+    const set = this.listeners.get(key) ?? new Set();
+    set.add(listener);
+    this.listeners.set(key, set);
+    return () => set.delete(listener);
+  }
+}
+
+export interface EventSink {
+  write(event: CoordinatorEvent): void;
+  close(): void;
+}
+
+// `-` writes to the given stream; anything else is a file path, appended to so resumed runs
+// keep their history. File writes are synchronous so events are on disk before an interrupted
+// run exits.
+export function openEventSink(target: string, cwd: string, stdout: NodeJS.WritableStream): EventSink {
+  if (target === '-') {
+    return { write: (event) => stdout.write(`${JSON.stringify(event)}\n`), close: () => undefined };
+  }
+  const filePath = path.resolve(cwd, target);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const fd = fs.openSync(filePath, 'a');
+  let closed = false;
+  return {
+    write: (event) => {
+      if (!closed) {
+        fs.writeSync(fd, `${JSON.stringify(event)}\n`);
+      }
+    },
+    close: () => {
+      if (!closed) {
+        closed = true;
+        fs.closeSync(fd);
+      }
+    }
+  };
+}
+
+// Follows a file written by an event sink, passing on the lines already there and then each
+// line appended, until the returned function is called. A file that shrinks (cleaned or
+// replaced) is read again from the start.
+export function followEventLog(filePath: string, listener: (event: CoordinatorEvent) => void, intervalMs = 500): () => void {
+  let offset = 0;
+  let partial = '';
+  const read = () => {
+    let size: number;
+    try {
+      size = fs.statSync(filePath).size;
+    } catch {
+      return;
+    }
+    if (size < offset) {
+      offset = 0;
+      partial = '';
+    }
+    if (size === offset) {
+      return;
+    }
+    const buffer = Buffer.alloc(size - offset);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    offset = size;
+    const lines = (partial + buffer.toString('utf8')).split('\n');
+    partial = lines.pop() ?? '';
+    for (const line of lines) {
+      try {
+        listener(JSON.parse(line) as CoordinatorEvent);
+      } catch {
+        // Not an event line; skip it.
+      }
+    }
+  };
+  read();
+  const timer = setInterval(read, intervalMs);
+  return () => clearInterval(timer);
+}
+
+export function summarizeValidation(validation: Validation): ValidatorSummary {
+  return {
+    tool: validation.tool,
+    status: validation.parsed.status,
+    completeness: validation.parsed.completeness,
+    findings: validation.parsed.findings?.length ?? validation.parsed.gaps.length,
+    ...(validation.gate ? { gate: true } : {})
+  };
+}
+
+export function specCompletedPayload(sessionId: string, spec: SpecEntry): CoordinatorEventMap['SpecCompleted'] {
+  const end = spec.completedAt ? Date.parse(spec.completedAt) : Date.now();
+  return {
+    sessionId,
+    specId: spec.meta.id,
+    file: spec.file,
+    status: spec.status,
+    totalCycles: spec.cycles.length,
+    durationMs: spec.startedAt ? Math.max(0, end - Date.parse(spec.startedAt)) : 0,
+    ...(spec.lastError ? { error: spec.lastError } : {})
+  };
+}
+
+// `failed` when nothing completed and something failed; `partial` covers every other unfinished run.
+export function sessionCompletedPayload(session: Session, startedAt: number): CoordinatorEventMap['SessionCompleted'] {
+  const specs = session.specs.filter((spec) => !spec.contextOnly);
+  const completedSpecs = specs.filter((spec) => spec.status === 'completed').length;
+  const failedSpecs = specs.filter((spec) => spec.status === 'failed').length;
+  return {
+    sessionId: session.id,
+    totalSpecs: specs.length,
+    completedSpecs,
+    failedSpecs,
+    finalStatus: session.status === 'completed' ? 'completed' : completedSpecs === 0 && failedSpecs > 0 ? 'failed' : 'partial',
+    totalDurationMs: Date.now() - startedAt,
+    ...(session.stopReason ? { stopReason: session.stopReason } : {})
+  };
+}
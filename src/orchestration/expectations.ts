@@ -0,0 +1,100 @@
+import path from 'node:path';
+import { Finding, SpecExpectations, Validation } from '../types.js';
+import { formatFindingGap } from './findings.js';
+import { pathExists, readTextFile } from '../utils/fs.js';
+
+// Expected files and exports from spec front matter are checked next to the validators under this name.
+export const EXPECTATIONS_VALIDATOR = 'spec:expects';
+
+export interface ExpectationCheck {
+  file: string;
+  // Export name; unset for a plain file-exists check.
+  name?: string;
+  passed: boolean;
+}
+
+export function hasExpectations(expects?: SpecExpectations): expects is SpecExpectations {
+  return Boolean(expects && ((expects.files?.length ?? 0) > 0 || Object.keys(expects.exports ?? {}).length > 0));
+}
+
+export async function checkExpectations(expects: SpecExpectations, cwd: string): Promise<ExpectationCheck[]> {
+  const checks: ExpectationCheck[] = [];
+  for (const file of expects.files ?? []) {
+    checks.push({ file, passed: await pathExists(path.join(cwd, file)) });
+  }
+  for (const [file, names] of Object.entries(expects.exports ?? {})) {
+    const fullPath = path.join(cwd, file);
+    const exported = (await pathExists(fullPath)) ? findExportedNames(await readTextFile(fullPath)) : new Set<string>();
+    for (const name of names) {
+      checks.push({ file, name, passed: exported.has(name) });
+    }
+  }
+  return checks;
+}
+
+// Expectations are a hard gate: a spec is not done while a declared file or export is missing.
+export async function runExpectationsValidator(expects: SpecExpectations, cwd: string): Promise<Validation> {
+  const startedAt = Date.now();
+  const checks = await checkExpectations(expects, cwd);
+  const findings = checks.filter((check) => !check.passed).map((check): Finding => (check.name
+    ? {
+      requirement: `${check.file} exports ${check.name}`,
+      description: `Expected export ${check.name} not found in ${check.file}`,
+      severity: 'critical',
+      location: { file: check.file }
+    }
+    : {
+      requirement: `File ${check.file} exists`,
+      description: `Expected file ${check.file} is missing`,
+      severity: 'critical',
+      location: { file: check.file }
+    }));
+  const passed = checks.length - findings.length;
+  return {
+    tool: EXPECTATIONS_VALIDATOR,
+    prompt: 'Check expected files and exports',
+    output: checks.map((check) => `${check.passed ? 'ok' : 'missing'} ${check.file}${check.name ? `#${check.name}` : ''}`).join('\n'),
+    parsed: {
+      completeness: checks.length > 0 ? Math.round((passed / checks.length) * 100) : 100,
+      status: findings.length === 0 ? 'PASS' : 'FAIL',
+      gaps: findings.map((finding) => formatFindingGap(finding)),
+      findings,
+      recommendations: []
+    },
+    durationMs: Date.now() - startedAt,
+    exitCode: findings.length === 0 ? 0 : 1,
+    gate: true
+  };
+}
+
+// Names exported by a JavaScript or TypeScript module, found by pattern rather than by parsing.
+export function findExportedNames(source: string): Set<string> {
+  const names = new Set<string>();
+  const declaration = /\bexport\s+(?:declare\s+)?(?:default\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|const|let|var|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/g;
+  for (const match of source.matchAll(declaration)) {
+    names.add(match[1]);
+  }
+  if (/\bexport\s+default\b/.test(source)) {
+    names.add('default');
+  }
+  for (const match of source.matchAll(/\bexport\s+(?:type\s+)?\{([^}]*)\}/g)) {
+    for (const part of match[1].split(',')) {
+      const alias = /(?:[\w$]+\s+as\s+)?([\w$]+)\s*$/.exec(part.trim());
+      if (alias) {
+        names.add(alias[1]);
+      }
+    }
+  }
+  for (const match of source.matchAll(/\b(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=/g)) {
+    names.add(match[1]);
+  }
+  for (const match of source.matchAll(/\bmodule\.exports\s*=\s*\{([^}]*)\}/g)) {
+    for (const part of match[1].split(',')) {
+      const key = /^\s*([A-Za-z_$][\w$]*)/.exec(part);
+      if (key) {
+        names.add(key[1]);
+      }
+    }
+  }
+  return names;
+}
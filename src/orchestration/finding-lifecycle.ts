@@ -0,0 +1,114 @@
+import { Cycle, Finding, MergedFinding } from '../types.js';
+import { DEFAULT_SIMILARITY_THRESHOLD, findingSimilarity } from './finding-merge.js';
+
+export interface TrackedFindings {
+  findings: MergedFinding[];
+  resolved: string[];
+}
+
+interface KnownFinding {
+  id: string;
+  finding: Finding;
+  firstSeenCycle: number;
+}
+
+// Matches this cycle's merged findings against every finding seen in earlier cycles of the spec.
+// Matches keep their id and are `persisting` (open last cycle) or `regressed` (resolved before);
+// unmatched findings get a new id; ids open last cycle with no match are `resolved`.
+// `baseline` holds findings reported since the last recorded cycle (the preflight pass); it
+// counts as the latest round, so ids the lead was already given carry over.
+export function trackFindings(
+  previousCycles: Cycle[],
+  merged: MergedFinding[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD,
+  baseline?: MergedFinding[]
+): TrackedFindings {
+  const known = new Map<string, KnownFinding>();
+  const rounds = previousCycles.map((cycle) => cycle.mergedFindings ?? []);
+  if (baseline) {
+    rounds.push(baseline);
+  }
+  rounds.forEach((findings, index) => {
+    for (const item of findings) {
+      if (!item.id) {
+        continue;
+      }
+      const existing = known.get(item.id);
+      known.set(item.id, {
+        id: item.id,
+        finding: item.finding,
+        firstSeenCycle: existing?.firstSeenCycle ?? item.firstSeenCycle ?? index + 1
+      });
+    }
+  });
+  const openLastCycle = new Set((rounds[rounds.length - 1] ?? []).map((item) => item.id).filter(Boolean) as string[]);
+  const currentCycle = previousCycles.length + 1;
+  let nextNumber = Math.max(0, ...[...known.keys()].map((id) => Number(id.replace(/^F/, '')) || 0)) + 1;
+  const matched = new Set<string>();
+
+  const findings = merged.map((item): MergedFinding => {
+    let best: { entry: KnownFinding; score: number } | undefined;
+    for (const entry of known.values()) {
+      if (matched.has(entry.id)) {
+        continue;
+      }
+      const score = findingSimilarity(entry.finding, item.finding);
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { entry, score };
+      }
+    }
+    if (best) {
+      matched.add(best.entry.id);
+      return {
+        ...item,
+        id: best.entry.id,
+        lifecycle: openLastCycle.has(best.entry.id) ? 'persisting' : 'regressed',
+        firstSeenCycle: best.entry.firstSeenCycle
+      };
+    }
+    const id = `F${nextNumber}`;
+    nextNumber += 1;
+    return { ...item, id, lifecycle: 'new', firstSeenCycle: currentCycle };
+  });
+
+  const resolved = [...openLastCycle].filter((id) => !matched.has(id));
+  return { findings, resolved };
+}
+
+export interface ConvergencePoint {
+  cycle: number;
+  open: number;
+  new: number;
+  persisting: number;
+  regressed: number;
+  resolved: number;
+}
+
+export function summarizeConvergence(cycles: Cycle[]): ConvergencePoint[] {
+  return cycles
+    .map((cycle, index) => ({ cycle, index }))
+    .filter(({ cycle }) => cycle.mergedFindings !== undefined)
+    .map(({ cycle, index }) => {
+      const findings = cycle.mergedFindings ?? [];
+      const count = (lifecycle: MergedFinding['lifecycle']) => findings.filter((item) => item.lifecycle === lifecycle).length;
+      return {
+        cycle: index + 1,
+        open: findings.length,
+        new: count('new'),
+        persisting: count('persisting'),
+        regressed: count('regressed'),
+        resolved: cycle.resolvedFindings?.length ?? 0
+      };
+    });
+}
+
+// Text bar chart of open findings per cycle, one line per cycle.
+export function formatConvergenceChart(points: ConvergencePoint[], width = 30): string[] {
+  const max = Math.max(1, ...points.map((point) => point.open));
+  const label = Math.max(...points.map((point) => String(point.cycle).length));
+  return points.map((point) => {
+    const bar = '#'.repeat(Math.round((point.open / max) * width));
+    const detail = `${point.open} open (+${point.new} new, ${point.persisting} persisting, ${point.regressed} regressed, -${point.resolved} resolved)`;
+    return `Cycle ${String(point.cycle).padStart(label)} | ${bar}${bar ? ' ' : ''}${detail}`;
+  });
+}
@@ -0,0 +1,130 @@
+import { Finding, MergedFinding, ValidationResult } from '../types.js';
+import { FINDING_SEVERITIES, compareFindings, getFindings } from './findings.js';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.5;
+
+// Lines this far apart in the same file are still treated as the same place.
+const LINE_PROXIMITY = 10;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'does', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'not', 'of', 'on', 'or', 'should', 'that', 'the', 'this', 'to', 'was', 'when', 'with'
+]);
+
+export interface FindingSource {
+  tool: string;
+  parsed: ValidationResult;
+}
+
+export interface MergeOptions {
+  threshold?: number;
+}
+
+// Scores how likely two findings describe the same issue, from 0 (unrelated) to 1.
+export function findingSimilarity(a: Finding, b: Finding): number {
+  if (a.requirementId && b.requirementId && a.requirementId.toLowerCase() !== b.requirementId.toLowerCase()) {
+    return 0;
+  }
+  let score = textSimilarity(`${a.requirement} ${a.description}`, `${b.requirement} ${b.description}`);
+  if (a.requirementId && b.requirementId) {
+    score += 0.2;
+  }
+  if (a.location && b.location) {
+    if (a.location.file !== b.location.file) {
+      score -= 0.3;
+    } else if (a.location.line === undefined || b.location.line === undefined || Math.abs(a.location.line - b.location.line) <= LINE_PROXIMITY) {
+      score += 0.2;
+    }
+  }
+  return Math.max(0, Math.min(1, score));
+}
+
+// Jaccard overlap of significant words.
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = significantWords(a);
+  const wordsB = significantWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) {
+      shared += 1;
+    }
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+// Clusters near-duplicate findings across validators. Each merged finding keeps the most severe,
+// most detailed member as its representative and lists the validators that reported it; results
+// are ranked by agreement, then severity and location.
+export function mergeFindings(sources: FindingSource[], options: MergeOptions = {}): MergedFinding[] {
+  const threshold = options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const totalValidators = new Set(sources.map((source) => source.tool)).size;
+  const clusters: Array<{ members: Finding[]; validators: string[] }> = [];
+
+  for (const source of sources) {
+    for (const finding of getFindings(source.parsed)) {
+      let best: { cluster: typeof clusters[number]; score: number } | undefined;
+      for (const cluster of clusters) {
+        const score = Math.max(...cluster.members.map((member) => findingSimilarity(member, finding)));
+        if (score >= threshold && (!best || score > best.score)) {
+          best = { cluster, score };
+        }
+      }
+      if (best) {
+        best.cluster.members.push(finding);
+        if (!best.cluster.validators.includes(source.tool)) {
+          best.cluster.validators.push(source.tool);
+        }
+      } else {
+        clusters.push({ members: [finding], validators: [source.tool] });
+      }
+    }
+  }
+
+  const merged = clusters.map((cluster): MergedFinding => ({
+    finding: pickRepresentative(cluster.members),
+    validators: cluster.validators,
+    reports: cluster.members.length,
+    agreement: totalValidators > 0 ? cluster.validators.length / totalValidators : 0
+  }));
+  return merged.sort((a, b) => b.validators.length - a.validators.length || compareFindings(a.finding, b.finding));
+}
+
+export function formatAgreement(merged: MergedFinding, totalValidators: number): string {
+  return `${merged.validators.join(', ')} (${merged.validators.length}/${totalValidators})`;
+}
+
+function pickRepresentative(members: Finding[]): Finding {
+  const ranked = [...members].sort((a, b) => (
+    FINDING_SEVERITIES.indexOf(a.severity) - FINDING_SEVERITIES.indexOf(b.severity)
+    || detailScore(b) - detailScore(a)
+  ));
+  const representative = { ...ranked[0] };
+  // Fill in location, requirement id and diff from other members when the representative lacks them.
+  for (const member of ranked.slice(1)) {
+    representative.location = representative.location ?? member.location;
+    representative.requirementId = representative.requirementId ?? member.requirementId;
+    representative.proposedDiff = representative.proposedDiff ?? member.proposedDiff;
+    representative.originalCode = representative.originalCode ?? member.originalCode;
+  }
+  return representative;
+}
+
+function detailScore(finding: Finding): number {
+  return (finding.location ? 2 : 0)
+    + (finding.proposedDiff ? 2 : 0)
+    + (finding.requirementId ? 1 : 0)
+    + finding.description.length / 1000;
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9_]+/)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+      .map((word) => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word))
+  );
+}
@@ -0,0 +1,191 @@
+import { Finding, FindingLocation, FindingSeverity, ValidationResult } from '../types.js';
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'major', 'minor', 'info'];
+
+// Validators that omit a severity get the middle of the scale so their findings are neither
+// escalated nor buried.
+export const DEFAULT_FINDING_SEVERITY: FindingSeverity = 'major';
+
+export function parseFinding(raw: unknown): Finding | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const record = raw as Record<string, unknown>;
+  const requirement = readString(record.spec_requirement);
+  const description = readString(record.gap_description);
+  if (!requirement && !description) {
+    return null;
+  }
+  const finding: Finding = {
+    requirement,
+    description,
+    severity: parseSeverity(record.severity)
+  };
+  const requirementId = readString(record.requirement_id);
+  if (requirementId) {
+    finding.requirementId = requirementId;
+  }
+  const location = parseLocation(record);
+  if (location) {
+    finding.location = location;
+  }
+  const originalCode = readString(record.original_code);
+  if (originalCode) {
+    finding.originalCode = originalCode;
+  }
+  const proposedDiff = readString(record.proposed_diff);
+  if (proposedDiff) {
+    finding.proposedDiff = proposedDiff;
+  }
+  return finding;
+}
+
+export function parseSeverity(value: unknown): FindingSeverity {
+  if (typeof value !== 'string') {
+    return DEFAULT_FINDING_SEVERITY;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'high' || normalized === 'blocker') {
+    return 'critical';
+  }
+  if (normalized === 'medium') {
+    return 'major';
+  }
+  if (normalized === 'low') {
+    return 'minor';
+  }
+  return (FINDING_SEVERITIES as string[]).includes(normalized) ? normalized as FindingSeverity : DEFAULT_FINDING_SEVERITY;
+}
+
+// Sessions written before findings were structured only carry gap strings.
+export function getFindings(result: ValidationResult): Finding[] {
+  if (result.findings) {
+    return result.findings;
+  }
+  return result.gaps.map((gap) => ({ requirement: '', description: gap, severity: DEFAULT_FINDING_SEVERITY }));
+}
+
+export function compareFindings(a: Finding, b: Finding): number {
+  const severity = FINDING_SEVERITIES.indexOf(a.severity) - FINDING_SEVERITIES.indexOf(b.severity);
+  if (severity !== 0) {
+    return severity;
+  }
+  if (a.location?.file !== b.location?.file) {
+    if (!a.location) {
+      return 1;
+    }
+    if (!b.location) {
+      return -1;
+    }
+    return a.location.file.localeCompare(b.location.file);
+  }
+  return (a.location?.line ?? 0) - (b.location?.line ?? 0);
+}
+
+export function sortFindings<T extends { finding: Finding }>(items: T[]): T[] {
+  return [...items].sort((a, b) => compareFindings(a.finding, b.finding));
+}
+
+export function filterFindingsBySeverity<T extends { finding: Finding }>(items: T[], severities?: FindingSeverity[]): T[] {
+  if (!severities || severities.length === 0) {
+    return items;
+  }
+  return items.filter((item) => severities.includes(item.finding.severity));
+}
+
+export function parseSeverityList(value: string): FindingSeverity[] {
+  const severities = value.split(',').map((item) => item.trim().toLowerCase()).filter(Boolean);
+  const invalid = severities.filter((item) => !(FINDING_SEVERITIES as string[]).includes(item));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown severity: ${invalid.join(', ')}. Expected: ${FINDING_SEVERITIES.join(', ')}`);
+  }
+  return severities as FindingSeverity[];
+}
+
+export function formatFindingLocation(location?: FindingLocation): string {
+  if (!location) {
+    return '';
+  }
+  if (location.line === undefined) {
+    return location.file;
+  }
+  return location.endLine !== undefined && location.endLine !== location.line
+    ? `${location.file}:${location.line}-${location.endLine}`
+    : `${location.file}:${location.line}`;
+}
+
+// One-line form: `[major] src/app.ts:12 (REQ-2) Requirement: ... | Gap: ...`.
+export function formatFindingSummary(finding: Finding): string {
+  const location = formatFindingLocation(finding.location);
+  const parts = [
+    `[${finding.severity}]`,
+    location,
+    finding.requirementId ? `(${finding.requirementId})` : '',
+    [
+      finding.requirement ? `Requirement: ${finding.requirement}` : '',
+      finding.description ? `Gap: ${finding.description}` : ''
+    ].filter(Boolean).join(' | ')
+  ].filter(Boolean);
+  return parts.join(' ');
+}
+
+// Pipe-joined form stored in `ValidationResult.gaps` for readers of older session files.
+export function formatFindingGap(finding: Finding): string {
+  const parts = [
+    finding.requirement ? `Requirement: ${finding.requirement}` : '',
+    finding.description ? `Gap: ${finding.description}` : '',
+    finding.originalCode ? `Original: ${finding.originalCode}` : 'Original: (missing)',
+    finding.proposedDiff ? `Proposed diff: ${finding.proposedDiff}` : 'Proposed diff: (missing)'
+  ].filter(Boolean);
+  return parts.join(' | ');
+}
+
+export function formatFindingDetail(finding: Finding, indent = ''): string[] {
+  const lines = [`${indent}${formatFindingSummary(finding)}`];
+  if (finding.originalCode) {
+    lines.push(`${indent}  Original: ${finding.originalCode}`);
+  }
+  if (finding.proposedDiff) {
+    lines.push(`${indent}  Proposed diff: ${finding.proposedDiff}`);
+  }
+  return lines;
+}
+
+function parseLocation(record: Record<string, unknown>): FindingLocation | undefined {
+  const file = readString(record.file);
+  const line = readLine(record.line);
+  if (file) {
+    const location: FindingLocation = { file };
+    if (line !== undefined) {
+      location.line = line;
+    }
+    const endLine = readLine(record.end_line);
+    if (endLine !== undefined) {
+      location.endLine = endLine;
+    }
+    return location;
+  }
+  // Some validators pack the location into a single `path:line` string.
+  const packed = readString(record.location);
+  const match = /^(.+?)(?::(\d+)(?:-(\d+))?)?$/.exec(packed);
+  if (!packed || !match) {
+    return undefined;
+  }
+  const location: FindingLocation = { file: match[1] };
+  if (match[2]) {
+    location.line = Number(match[2]);
+  }
+  if (match[3]) {
+    location.endLine = Number(match[3]);
+  }
+  return location;
+}
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function readLine(value: unknown): number | undefined {
+  const line = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isInteger(line) && line > 0 ? line : undefined;
+}
@@ -0,0 +1,208 @@
+import { CommandValidatorConfig, Finding, FindingSeverity, Session, SpecEntry, ToolName, ToolRegistry, UsageLimits } from '../types.js';
+import { ToolAdapter } from '../tools/adapters.js';
+import { filterFindingsBySeverity, getFindings, sortFindings } from './findings.js';
+import { resolvePriceTable, sessionCycles, sumSessionUsage, sumSpecUsage, summarizeToolUsage } from './cost.js';
+
+// Bumped only when a field is removed, renamed or changes meaning; new fields keep the version.
+// docs/JSON_OUTPUT.md describes every document.
+export const JSON_OUTPUT_VERSION = 1;
+
+export interface SpecNode {
+  order: number;
+  file: string;
+  id: string;
+  name: string;
+  complexity: SpecEntry['meta']['complexity'];
+  maturity: number;
+  contextOnly: boolean;
+  dependsOn: string[];
+}
+
+export interface SpecProgress {
+  status: SpecEntry['status'] | null;
+  cycles: number;
+  // Average validator completeness in the last cycle; null before the first cycle.
+  completeness: number | null;
+}
+
+export interface ToolsDocument {
+  version: number;
+  command: 'tools';
+  tools: Array<{ name: ToolName; command: string; available: boolean; version: string | null; path: string | null }>;
+}
+
+export interface SpecsDocument {
+  version: number;
+  command: 'specs';
+  sessionId: string | null;
+  specs: Array<SpecNode & SpecProgress & { findings: Array<{ tool: ToolName } & Finding> }>;
+}
+
+export interface DryRunDocument {
+  version: number;
+  command: 'run';
+  dryRun: true;
+  lead: ToolName;
+  validators: ToolName[];
+  commandValidators: Array<{ name: string; command: string; gate: boolean }>;
+  specs: SpecNode[];
+}
+
+export interface SessionHistoryEntry {
+  id: string;
+  status: string;
+  updatedAt: string;
+  workingDirectory: string;
+  activeSpec: string | null;
+  specs: { total: number; completed: number; failed: number; inProgress: number };
+}
+
+export interface StatusDocument {
+  version: number;
+  command: 'status';
+  session: {
+    id: string;
+    status: Session['status'];
+    workingDirectory: string;
+    createdAt: string;
+    updatedAt: string;
+    lead: ToolName;
+    validators: ToolName[];
+    activeSpec: string | null;
+    stopReason: string | null;
+    counts: { total: number; completed: number; failed: number; inProgress: number; pending: number; skipped: number };
+    usage: { tokens: number; cost: number; unpriced: string[]; tools: Array<{ tool: string; tokens: number; cost: number }> };
+    limits: UsageLimits;
+    specs: Array<{ file: string; id: string } & SpecProgress & { tokens: number; cost: number; lastError: string | null }>;
+  } | null;
+  history: SessionHistoryEntry[];
+}
+
+export function formatJson(document: object): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+export function buildToolsDocument(adapters: ToolAdapter[], registry: ToolRegistry): ToolsDocument {
+  return {
+    version: JSON_OUTPUT_VERSION,
+    command: 'tools',
+    tools: adapters.map((adapter) => {
+      const tool = registry.available.get(adapter.name);
+      return {
+        name: adapter.name,
+        command: adapter.command,
+        available: Boolean(tool),
+        version: tool && tool.version !== '-' ? tool.version : null,
+        path: tool?.path ?? null
+      };
+    })
+  };
+}
+
+// `specs` must already be in build order (orderSpecs).
+export function buildSpecsDocument(specs: SpecEntry[], session: Session | null, severities?: FindingSeverity[]): SpecsDocument {
+  const byPath = new Map((session?.specs ?? []).map((entry) => [entry.path, entry]));
+  return {
+    version: JSON_OUTPUT_VERSION,
+    command: 'specs',
+    sessionId: session?.id ?? null,
+    specs: specs.map((spec, index) => {
+      const entry = byPath.get(spec.path);
+      const lastCycle = entry?.cycles?.[entry.cycles.length - 1];
+      const findings = lastCycle
+        ? filterFindingsBySeverity(sortFindings(lastCycle.validations.flatMap((validation) => (
+          getFindings(validation.parsed).map((finding) => ({ tool: validation.tool, finding }))
+        ))), severities)
+        : [];
+      return {
+        ...toSpecNode(spec, index),
+        ...specProgress(entry),
+        findings: findings.map(({ tool, finding }) => ({ tool, ...finding }))
+      };
+    })
+  };
+}
+
+export function buildDryRunDocument(specs: SpecEntry[], lead: ToolName, validators: ToolName[], commandValidators: CommandValidatorConfig[]): DryRunDocument {
+  return {
+    version: JSON_OUTPUT_VERSION,
+    command: 'run',
+    dryRun: true,
+    lead,
+    validators,
+    commandValidators: commandValidators.map((config) => ({ name: config.name, command: config.command, gate: Boolean(config.gate) })),
+    specs: specs.map(toSpecNode)
+  };
+}
+
+export function buildStatusDocument(session: Session | null, history: SessionHistoryEntry[]): StatusDocument {
+  return {
+    version: JSON_OUTPUT_VERSION,
+    command: 'status',
+    session: session ? summarizeSession(session) : null,
+    history
+  };
+}
+
+export function summarizeSession(session: Session): NonNullable<StatusDocument['session']> {
+  const prices = resolvePriceTable(session.config.prices);
+  const usage = sumSessionUsage(session, prices);
+  const count = (status: SpecEntry['status']) => session.specs.filter((spec) => spec.status === status).length;
+  return {
+    id: session.id,
+    status: session.status,
+    workingDirectory: session.workingDirectory,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    lead: session.lead,
+    validators: session.validators,
+    activeSpec: session.specs.find((spec) => spec.status === 'in_progress')?.file ?? null,
+    stopReason: session.stopReason ?? null,
+    counts: {
+      total: session.specs.length,
+      completed: count('completed'),
+      failed: count('failed'),
+      inProgress: count('in_progress'),
+      pending: count('pending'),
+      skipped: count('skipped')
+    },
+    usage: { ...usage, tools: summarizeToolUsage(sessionCycles(session), prices) },
+    limits: session.config.limits ?? {},
+    specs: session.specs.map((spec) => {
+      const specUsage = sumSpecUsage(spec, prices);
+      return {
+        file: spec.file,
+        id: spec.meta?.id ?? spec.file,
+        ...specProgress(spec),
+        tokens: specUsage.tokens,
+        cost: specUsage.cost,
+        lastError: spec.lastError ?? null
+      };
+    })
+  };
+}
+
+function toSpecNode(spec: SpecEntry, index: number): SpecNode {
+  return {
+    order: index + 1,
+    file: spec.file,
+    id: spec.meta.id,
+    name: spec.meta.name,
+    complexity: spec.meta.complexity,
+    maturity: spec.meta.maturity,
+    contextOnly: Boolean(spec.contextOnly),
+    dependsOn: spec.meta.dependsOn ?? []
+  };
+}
+
+function specProgress(entry: SpecEntry | undefined): SpecProgress {
+  const cycles = entry?.cycles ?? [];
+  const lastCycle = cycles[cycles.length - 1];
+  return {
+    status: entry?.status ?? null,
+    cycles: cycles.length,
+    completeness: lastCycle && lastCycle.validations.length > 0
+      ? Math.round(lastCycle.validations.reduce((sum, validation) => sum + validation.parsed.completeness, 0) / lastCycle.validations.length)
+      : null
+  };
+}
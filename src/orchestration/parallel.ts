@@ -0,0 +1,179 @@
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execa } from 'execa';
+import { SpecEntry } from '../types.js';
+import { PROJECT_STATE_DIR, getProjectStateDir } from '../config/paths.js';
+import { pathExists } from '../utils/fs.js';
+
+export interface SpecWorktree {
+  path: string;
+  branch: string;
+}
+
+export type MergeResult = { merged: true; commit: string } | { merged: false; conflicts: string[]; message: string };
+
+export function getWorktreesDir(cwd: string): string {
+  return path.join(getProjectStateDir(cwd), 'worktrees');
+}
+
+export function buildSpecBranch(sessionId: string, specId: string): string {
+  const safeSpec = specId.replace(/[^a-z0-9-_]/gi, '_');
+  return `aic/${sessionId.slice(0, 8)}/${safeSpec}`;
+}
+
+export async function ensureParallelSupport(cwd: string): Promise<void> {
+  try {
+    const { stdout: inside } = await execa('git', ['rev-parse', '--is-inside-work-tree'], { cwd });
+    if (inside.trim() !== 'true') {
+      throw new Error('not a work tree');
+    }
+  } catch {
+    throw new Error('Parallel mode requires the working directory to be a git repository.');
+  }
+  const head = await execa('git', ['rev-parse', '--verify', '-q', 'HEAD'], { cwd, reject: false });
+  if (head.exitCode !== 0) {
+    throw new Error('Parallel mode requires at least one commit to branch spec worktrees from.');
+  }
+  const { stdout: status } = await execa('git', ['status', '--porcelain', '--', '.', `:(exclude)${PROJECT_STATE_DIR}`], { cwd });
+  if (status.trim()) {
+    throw new Error('Parallel mode requires a clean working tree (commit or stash changes, including specs).');
+  }
+}
+
+export async function createSpecWorktree(cwd: string, sessionId: string, specId: string): Promise<SpecWorktree> {
+  const branch = buildSpecBranch(sessionId, specId);
+  const worktreePath = path.join(getWorktreesDir(cwd), branch.replace(/\//g, '-'));
+  if (await pathExists(worktreePath)) {
+    await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd, reject: false });
+    await fs.rm(worktreePath, { recursive: true, force: true });
+    await execa('git', ['worktree', 'prune'], { cwd, reject: false });
+  }
+  const existing = await execa('git', ['rev-parse', '--verify', '-q', `refs/heads/${branch}`], { cwd, reject: false });
+  // Resumed specs continue on their existing branch; new specs branch from the current HEAD.
+  const args = existing.exitCode === 0
+    ? ['worktree', 'add', worktreePath, branch]
+    : ['worktree', 'add', '-b', branch, worktreePath, 'HEAD'];
+  await execa('git', args, { cwd });
+  return { path: worktreePath, branch };
+}
+
+export async function commitSpecWorktree(worktree: SpecWorktree, message: string): Promise<boolean> {
+  await execa('git', ['add', '-A', '--', '.', `:(exclude)${PROJECT_STATE_DIR}`], { cwd: worktree.path });
+  const staged = await execa('git', ['diff', '--cached', '--quiet'], { cwd: worktree.path, reject: false });
+  if (staged.exitCode === 0) {
+    return false;
+  }
+  await execa('git', ['commit', '-q', '-m', message], { cwd: worktree.path, env: await gitIdentityEnv(worktree.path) });
+  return true;
+}
+
+export async function mergeSpecBranch(cwd: string, branch: string, message: string): Promise<MergeResult> {
+  const env = await gitIdentityEnv(cwd);
+  const result = await execa('git', ['merge', '--no-ff', '-m', message, branch], { cwd, env, reject: false });
+  if (result.exitCode === 0) {
+    const { stdout } = await execa('git', ['rev-parse', 'HEAD'], { cwd });
+    return { merged: true, commit: stdout.trim() };
+  }
+  const { stdout: unmerged } = await execa('git', ['diff', '--name-only', '--diff-filter=U'], { cwd, reject: false });
+  await execa('git', ['merge', '--abort'], { cwd, reject: false });
+  const conflicts = unmerged.split('\n').map((line) => line.trim()).filter(Boolean);
+  const output = [result.stdout, result.stderr].filter(Boolean).join('\n').trim();
+  return { merged: false, conflicts, message: output };
+}
+
+export async function removeSpecWorktree(cwd: string, worktree: SpecWorktree): Promise<void> {
+  await execa('git', ['worktree', 'remove', '--force', worktree.path], { cwd, reject: false });
+  await fs.rm(worktree.path, { recursive: true, force: true });
+  await execa('git', ['worktree', 'prune'], { cwd, reject: false });
+}
+
+// Merge commits go on the user's branch, so their git identity is used when configured.
+async function gitIdentityEnv(cwd: string): Promise<Record<string, string>> {
+  const { stdout } = await execa('git', ['config', 'user.email'], { cwd, reject: false });
+  if (stdout.trim()) {
+    return {};
+  }
+  return {
+    GIT_AUTHOR_NAME: 'ai-coord',
+    GIT_AUTHOR_EMAIL: 'ai-coord@localhost',
+    GIT_COMMITTER_NAME: 'ai-coord',
+    GIT_COMMITTER_EMAIL: 'ai-coord@localhost'
+  };
+}
+
+export interface SpecDagOptions {
+  shouldStop: () => boolean;
+  // `reason` completes "Dependency <id> ...": it did not complete, or it is not in the session.
+  onBlocked?: (spec: SpecEntry, dependency: string, reason: string) => void;
+}
+
+// Runs specs whose dependencies have completed, up to `limit` at once. A spec whose dependency
+// finished without completing, or is not one of `specs`, is reported through onBlocked and never started.
+export async function runSpecDag(
+  specs: SpecEntry[],
+  limit: number,
+  runSpec: (spec: SpecEntry) => Promise<void>,
+  options: SpecDagOptions
+): Promise<void> {
+  const byId = new Map(specs.map((spec) => [spec.meta.id, spec]));
+  const pending = specs.filter((spec) => !spec.contextOnly && spec.status !== 'completed' && spec.status !== 'skipped');
+  const finished = new Set(specs.filter((spec) => !pending.includes(spec)).map((spec) => spec.meta.id));
+  const running = new Map<string, Promise<void>>();
+  let firstError: unknown;
+
+  const dependencyState = (spec: SpecEntry): 'ready' | 'waiting' | { blockedBy: string; reason: string } => {
+    for (const dep of spec.meta.dependsOn ?? []) {
+      const depSpec = byId.get(dep);
+      if (!depSpec) {
+        return { blockedBy: dep, reason: 'is not in this session' };
+      }
+      if (!finished.has(dep)) {
+        return 'waiting';
+      }
+      if (depSpec.status !== 'completed') {
+        return { blockedBy: dep, reason: 'did not complete' };
+      }
+    }
+    return 'ready';
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    let progressed = false;
+    if (firstError === undefined && !options.shouldStop()) {
+      for (let index = 0; index < pending.length && running.size < Math.max(1, limit); index += 1) {
+        const spec = pending[index];
+        const state = dependencyState(spec);
+        if (state === 'waiting') {
+          continue;
+        }
+        pending.splice(index, 1);
+        index -= 1;
+        progressed = true;
+        if (typeof state === 'object') {
+          options.onBlocked?.(spec, state.blockedBy, state.reason);
+          finished.add(spec.meta.id);
+          continue;
+        }
+        const id = spec.meta.id;
+        running.set(id, runSpec(spec)
+          .catch((error) => {
+            firstError = firstError ?? error;
+          })
+          .finally(() => {
+            running.delete(id);
+            finished.add(id);
+          }));
+      }
+    }
+    if (running.size === 0) {
+      if (progressed) {
+        continue;
+      }
+      break;
+    }
+    await Promise.race(running.values());
+  }
+  if (firstError !== undefined) {
+    throw firstError;
+  }
+}
@@ -0,0 +1,69 @@
+import { execa } from 'execa';
+
+export type TrackedChild = ReturnType<typeof execa>;
+
+export interface SpawnInfo {
+  child: TrackedChild;
+  command: string;
+  args: string[];
+}
+
+export interface ProcessTrackerOptions {
+  heartbeatSeconds: number;
+  onHeartbeat?: (info: SpawnInfo) => void;
+}
+
+// Tracks every running tool process so SIGINT can stop all of them when validators run concurrently.
+export class ProcessTracker {
+  private processes = new Map<TrackedChild, NodeJS.Timeout | null>();
+  private options: ProcessTrackerOptions;
+
+  constructor(options: ProcessTrackerOptions) {
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.processes.size;
+  }
+
+  track(info: SpawnInfo): void {
+    const timer = this.options.heartbeatSeconds > 0 && this.options.onHeartbeat
+      ? setInterval(() => this.options.onHeartbeat?.(info), this.options.heartbeatSeconds * 1000)
+      : null;
+    this.processes.set(info.child, timer);
+    const release = () => this.release(info.child);
+    if (typeof info.child.once === 'function') {
+      info.child.once('exit', release);
+      info.child.once('error', release);
+    }
+  }
+
+  release(child: TrackedChild): void {
+    const timer = this.processes.get(child);
+    if (timer) {
+      clearInterval(timer);
+    }
+    this.processes.delete(child);
+  }
+
+  killAll(graceMs = 2000): void {
+    for (const child of this.processes.keys()) {
+      child.kill('SIGTERM');
+      setTimeout(() => {
+        if (!child.killed) {
+          child.kill('SIGKILL');
+        }
+      }, graceMs);
+    }
+    this.clearHeartbeats();
+  }
+
+  clearHeartbeats(): void {
+    for (const [child, timer] of this.processes) {
+      if (timer) {
+        clearInterval(timer);
+        this.processes.set(child, null);
+      }
+    }
+  }
+}
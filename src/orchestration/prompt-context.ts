@@ -0,0 +1,167 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { InlinedFile, PromptContextMode, PromptContextRecord, SpecExpectations } from '../types.js';
+import { PROJECT_STATE_DIR } from '../config/paths.js';
+import { readTextFile } from '../utils/fs.js';
+
+export const PROMPT_CONTEXT_MODES: PromptContextMode[] = ['reference', 'inline'];
+
+export const DEFAULT_PROMPT_BUDGET = 32_000;
+
+// A file cut below this many tokens is more noise than help, so it is left out instead.
+const MIN_TRUNCATED_TOKENS = 200;
+// Room kept for the truncation marker line.
+const TRUNCATION_MARKER_TOKENS = 20;
+const MAX_SOURCE_FILES = 40;
+const MAX_SOURCE_BYTES = 512 * 1024;
+
+const MENTIONED_PATH = /(?:^|[\s`'"(\[])((?:\.\/)?(?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[A-Za-z][A-Za-z0-9]{0,9})(?=$|[\s`'"),:;\].])/gm;
+
+export interface InlineCandidate {
+  path: string;
+  kind: InlinedFile['kind'];
+  content: string;
+}
+
+export interface InlineContext {
+  // Ready to append to a prompt.
+  text: string;
+  record: PromptContextRecord;
+}
+
+export interface InlineContextInput {
+  workspace: string;
+  // Relative to the workspace, like every other path below.
+  specPath: string;
+  specContent: string;
+  contextDocs: Array<{ path: string; content: string }>;
+  expects?: SpecExpectations;
+  changedFiles?: string[];
+  budget: number;
+}
+
+export function parsePromptContextMode(value: unknown, field = 'promptMode'): PromptContextMode {
+  if (typeof value !== 'string' || !(PROMPT_CONTEXT_MODES as string[]).includes(value.trim())) {
+    throw new Error(`${field}: expected ${PROMPT_CONTEXT_MODES.join(' or ')}`);
+  }
+  return value.trim() as PromptContextMode;
+}
+
+// Rough count (about four characters per token); good enough to keep prompts under a budget.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// The spec comes first, then context docs, then source files: changed by the lead, expected by
+// the spec's front matter, and mentioned in its body, in that order.
+export async function buildInlineContext(input: InlineContextInput): Promise<InlineContext> {
+  const candidates: InlineCandidate[] = [
+    { path: input.specPath, kind: 'spec', content: input.specContent },
+    ...input.contextDocs.map((doc): InlineCandidate => ({ path: doc.path, kind: 'context', content: doc.content }))
+  ];
+  const sourcePaths = [
+    ...(input.changedFiles ?? []),
+    ...(input.expects?.files ?? []),
+    ...Object.keys(input.expects?.exports ?? {}),
+    ...findMentionedPaths(input.specContent)
+  ];
+  const sources = await readSourceFiles(input.workspace, sourcePaths, new Set(candidates.map((candidate) => candidate.path)));
+  return assembleInlineContext([...candidates, ...sources], input.budget);
+}
+
+export function findMentionedPaths(content: string): string[] {
+  const found = [...content.matchAll(MENTIONED_PATH)].map((match) => match[1].replace(/^\.\//, ''));
+  return [...new Set(found)];
+}
+
+// Files are taken in order while they fit. One that does not fit whole is cut at a line boundary
+// to the budget left, unless too little is left; then it is omitted and smaller files after it
+// may still fit.
+export function assembleInlineContext(candidates: InlineCandidate[], budget: number): InlineContext {
+  const blocks: string[] = [];
+  const files: InlinedFile[] = [];
+  let used = 0;
+  for (const candidate of candidates) {
+    const header = `--- ${candidate.path} (${candidate.kind}) ---`;
+    const originalTokens = estimateTokens(candidate.content);
+    const available = budget - used - estimateTokens(header);
+    if (originalTokens <= available) {
+      blocks.push(`${header}\n${candidate.content}`);
+      used += estimateTokens(header) + originalTokens;
+      files.push({ path: candidate.path, kind: candidate.kind, status: 'full', tokens: originalTokens, originalTokens });
+      continue;
+    }
+    if (available >= MIN_TRUNCATED_TOKENS) {
+      const content = truncateToTokens(candidate.content, available - TRUNCATION_MARKER_TOKENS);
+      const tokens = estimateTokens(content);
+      blocks.push(`${header}\n${content}`);
+      used += estimateTokens(header) + tokens;
+      files.push({ path: candidate.path, kind: candidate.kind, status: 'truncated', tokens, originalTokens });
+      continue;
+    }
+    files.push({ path: candidate.path, kind: candidate.kind, status: 'omitted', tokens: 0, originalTokens });
+  }
+  const omitted = files.filter((file) => file.status === 'omitted').map((file) => file.path);
+  const text = [
+    'INLINED FILES (current contents; rely on these if you cannot read the workspace):',
+    ...blocks,
+    ...(omitted.length > 0 ? [`Left out to stay within the token budget: ${omitted.join(', ')}`] : [])
+  ].join('\n\n');
+  return { text, record: { budgetTokens: budget, usedTokens: used, files } };
+}
+
+export function formatInlineSummary(record: PromptContextRecord): string {
+  const truncated = record.files.filter((file) => file.status === 'truncated').length;
+  const omitted = record.files.filter((file) => file.status === 'omitted').length;
+  return [
+    `${record.files.length - omitted} files, ${record.usedTokens.toLocaleString()}/${record.budgetTokens.toLocaleString()} tokens`,
+    ...(truncated > 0 ? [`${truncated} truncated`] : []),
+    ...(omitted > 0 ? [`${omitted} omitted`] : [])
+  ].join(', ');
+}
+
+function truncateToTokens(content: string, tokens: number): string {
+  const lines = content.split('\n');
+  const maxChars = tokens * 4;
+  const kept: string[] = [];
+  let chars = 0;
+  for (const line of lines) {
+    if (chars + line.length + 1 > maxChars) {
+      break;
+    }
+    kept.push(line);
+    chars += line.length + 1;
+  }
+  if (kept.length === 0) {
+    return `${content.slice(0, maxChars)}\n[... truncated: cut after ${maxChars} characters]`;
+  }
+  return `${kept.join('\n')}\n[... truncated: ${lines.length - kept.length} of ${lines.length} lines left out]`;
+}
+
+// Only text files inside the workspace are read; state and missing paths are skipped quietly
+// since mentioned paths are a guess.
+async function readSourceFiles(workspace: string, candidates: string[], exclude: Set<string>): Promise<InlineCandidate[]> {
+  const seen = new Set(exclude);
+  const sources: InlineCandidate[] = [];
+  for (const candidate of candidates) {
+    if (sources.length >= MAX_SOURCE_FILES) {
+      break;
+    }
+    const fullPath = path.resolve(workspace, candidate);
+    const relative = path.relative(workspace, fullPath).split(path.sep).join('/');
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative) || relative.startsWith(`${PROJECT_STATE_DIR}/`) || seen.has(relative)) {
+      continue;
+    }
+    seen.add(relative);
+    const stats = await fs.stat(fullPath).catch(() => undefined);
+    if (!stats?.isFile() || stats.size > MAX_SOURCE_BYTES) {
+      continue;
+    }
+    const content = await readTextFile(fullPath);
+    if (content.includes('\0')) {
+      continue;
+    }
+    sources.push({ path: relative, kind: 'source', content });
+  }
+  return sources;
+}
@@ -0,0 +1,219 @@
+import crypto from 'node:crypto';
+import path from 'node:path';
+import { getProjectPromptsDir } from '../config/paths.js';
+import { pathExists, readTextFile } from '../utils/fs.js';
+
+export type PromptTemplateName = 'lead' | 'lead-feedback' | 'validation' | 'validation-retry';
+
+export const PROMPT_TEMPLATE_NAMES: PromptTemplateName[] = ['lead', 'lead-feedback', 'validation', 'validation-retry'];
+
+const LEAD_VARIABLES = [
+  'specFile',
+  'specContent',
+  'contextDocs',
+  'contextHint',
+  'feedback',
+  'reportFiles',
+  'reportSection',
+  'instructions',
+  'instructionSection',
+  'inlineContext',
+  'inlineSection'
+];
+
+// `{{name}}` placeholders each template may use. The *Section and *Hint variables are ready-made
+// paragraphs (empty when there is nothing to say); the others are raw values.
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateName, string[]> = {
+  lead: LEAD_VARIABLES,
+  'lead-feedback': LEAD_VARIABLES,
+  validation: [
+    'specFile',
+    'specContent',
+    'contextDocs',
+    'contextHint',
+    'criteria',
+    'criteriaChecklist',
+    'criteriaExample',
+    'criteriaRequirement',
+    'instructions',
+    'instructionSection',
+    'inlineContext',
+    'inlineSection'
+  ],
+  'validation-retry': ['prompt']
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateName, string> = {
+  // First cycle of a spec, or any cycle without validator gaps.
+  lead: `You are implementing a feature defined in the project specs.
+
+Target spec: specs/{{specFile}}
+
+Instructions:
+1. Read the target spec file in the specs directory and any relevant supporting specs (system-*.md, architecture, schema).
+2. Use your file tools (Read, Grep, Glob, etc.) to explore the codebase.
+3. Implement the requirements in that spec end-to-end.
+4. Follow the acceptance criteria precisely.
+5. If there are previous validation reports, read them to avoid repeating known issues.
+6. Explain significant implementation decisions.
+
+{{contextHint}}{{reportSection}}{{instructionSection}}{{inlineSection}}
+
+PREVIOUS VALIDATION FEEDBACK (if any):
+{{feedback}}`,
+  // Cycles that follow validator feedback.
+  'lead-feedback': `You are continuing implementation based on validator feedback.
+
+Target spec: specs/{{specFile}}
+
+Instructions:
+1. Read the target spec file in the specs directory and any relevant supporting specs (system-*.md, architecture, schema).
+2. Use your file tools (Read, Grep, Glob, etc.) to explore and understand the existing codebase.
+3. Resolve each gap listed below using concrete code changes only.
+4. Do not re-implement features that already meet the spec unless required by a gap.
+5. Explain significant implementation decisions.
+
+{{contextHint}}{{reportSection}}{{instructionSection}}{{inlineSection}}
+
+VALIDATOR GAPS TO RESOLVE:
+{{feedback}}`,
+  validation: `You are validating an implementation against its specification.
+
+Target spec: specs/{{specFile}}
+
+Act as a strict reviewer: find edge cases, type holes, exception paths, security issues, and behavior mismatches. Propose a concrete diff for each finding.
+
+Instructions:
+1. Read the target spec file in the specs directory and any relevant supporting specs (system-*.md, architecture, schema).
+2. Use Read, Grep, Glob, and other file tools to explore and understand the codebase thoroughly.
+3. Compare implementation to each requirement in the spec.
+4. Identify gaps, missing features, or deviations.
+5. Rate implementation completeness (0-100%).
+6. Produce findings with exact references and proposed code changes.
+
+{{contextHint}}
+
+{{criteriaChecklist}}{{instructionSection}}{{inlineSection}}IMPORTANT: You have access to the working directory. Use your file reading tools (Read, Grep, Glob, etc.) to examine the codebase.
+
+CRITICAL OUTPUT FORMAT REQUIREMENTS:
+- Return ONLY valid JSON
+- Do NOT include markdown code blocks (no \`\`\`)
+- Do NOT include any explanatory text before or after the JSON
+- Do NOT include any comments within the JSON
+- Your entire response must be EXACTLY this JSON structure:
+
+{
+  "response_block": {
+    "completeness": 85,
+    "status": "FAIL",
+    "findings": [
+      {
+        "spec_requirement": "Example requirement from spec",
+        "gap_description": "Description of what's missing",
+        "original_code": "Current code snippet",
+        "proposed_diff": "Suggested change",
+        "severity": "major",
+        "requirement_id": "REQ-2",
+        "file": "src/example.ts",
+        "line": 42
+      }
+    ],
+    "recommendations": ["First recommendation", "Second recommendation"]{{criteriaExample}}
+  }
+}
+
+FIELD REQUIREMENTS:
+- "completeness": MUST be a number from 0 to 100 (not a string)
+- "status": MUST be exactly "PASS" or "FAIL" (case-sensitive)
+- "findings": MUST be an array (use [] if no findings)
+- "recommendations": MUST be an array (use [] if no recommendations)
+- Each finding MUST have all four fields: spec_requirement, gap_description, original_code, proposed_diff
+- Optional per finding: "severity" ("critical", "major", "minor" or "info"; use "critical" only when core spec behavior is broken or missing), "requirement_id" (the spec's identifier for the requirement, if it has one), "file" (path relative to the working directory) and "line" (1-based number){{criteriaRequirement}}`,
+  // Sent once when a validator's response could not be parsed; {{prompt}} is the rendered validation prompt.
+  'validation-retry': `{{prompt}}
+
+FORMAT RECOVERY REQUIRED: Your previous response was invalid.
+You MUST return ONLY a valid JSON object with NO additional text before or after.
+The JSON must have exactly this structure:
+
+{
+  "response_block": {
+    "completeness": <number from 0 to 100>,
+    "status": "<exactly 'PASS' or 'FAIL'>",
+    "findings": [
+      {
+        "spec_requirement": "<string>",
+        "gap_description": "<string>",
+        "original_code": "<string>",
+        "proposed_diff": "<string>",
+        "severity": "<optional: critical|major|minor|info>",
+        "requirement_id": "<optional string>",
+        "file": "<optional relative path>",
+        "line": <optional number>
+      }
+    ],
+    "recommendations": ["<string>"]
+  }
+}
+
+Do not include markdown code blocks, explanatory text, or any content except the JSON object.`
+};
+
+export interface PromptTemplate {
+  name: PromptTemplateName;
+  content: string;
+  source: 'builtin' | 'project';
+  // Set for project templates.
+  path?: string;
+}
+
+export type PromptTemplates = Record<PromptTemplateName, PromptTemplate>;
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export function getPromptTemplatePath(cwd: string, name: PromptTemplateName): string {
+  return path.join(getProjectPromptsDir(cwd), `${name}.md`);
+}
+
+export function parsePromptTemplateName(value: string): PromptTemplateName {
+  if (!(PROMPT_TEMPLATE_NAMES as string[]).includes(value)) {
+    throw new Error(`Unknown prompt template "${value}". Templates: ${PROMPT_TEMPLATE_NAMES.join(', ')}`);
+  }
+  return value as PromptTemplateName;
+}
+
+// Project templates in .ai-coord/prompts/<name>.md replace the built-in ones; a placeholder the
+// template cannot use is an error here rather than a silently empty gap in the prompt.
+export async function loadPromptTemplates(cwd: string): Promise<PromptTemplates> {
+  const templates = {} as PromptTemplates;
+  for (const name of PROMPT_TEMPLATE_NAMES) {
+    const templatePath = getPromptTemplatePath(cwd, name);
+    if (!(await pathExists(templatePath))) {
+      templates[name] = { name, content: DEFAULT_PROMPT_TEMPLATES[name], source: 'builtin' };
+      continue;
+    }
+    const content = (await readTextFile(templatePath)).trimEnd();
+    const unknown = findTemplateVariables(content).filter((variable) => !PROMPT_TEMPLATE_VARIABLES[name].includes(variable));
+    if (unknown.length > 0) {
+      throw new Error(
+        `${path.relative(cwd, templatePath)}: unknown variable ${unknown.map((variable) => `{{${variable}}}`).join(', ')}. `
+        + `Available: ${PROMPT_TEMPLATE_VARIABLES[name].join(', ')}`
+      );
+    }
+    templates[name] = { name, content, source: 'project', path: templatePath };
+  }
+  return templates;
+}
+
+export function findTemplateVariables(content: string): string[] {
+  return [...new Set([...content.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+}
+
+// Values are inserted as-is in one pass, so braces inside spec content are never expanded.
+export function renderPromptTemplate(template: PromptTemplate, variables: Record<string, string>): string {
+  return template.content.replace(PLACEHOLDER, (_, name: string) => variables[name] ?? '');
+}
+
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
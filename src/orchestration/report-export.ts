@@ -0,0 +1,188 @@
+import path from 'node:path';
+import { FindingLocation, FindingSeverity } from '../types.js';
+import { SPECS_DIR } from '../config/paths.js';
+import { formatFindingDetail } from './findings.js';
+import { formatJson } from './json-output.js';
+import { ReportDocument } from './report.js';
+
+type ReportSpec = ReportDocument['specs'][number];
+type ReportFinding = ReportDocument['specs'][number]['cycles'][number]['mergedFindings'][number];
+
+interface TestCase {
+  name: string;
+  time: number;
+  outcome: { kind: 'passed' } | { kind: 'failure' | 'skipped'; message: string; type?: string; detail?: string };
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<FindingSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  major: 'error',
+  minor: 'warning',
+  info: 'note'
+};
+
+// One suite per spec: a `consensus` case for the spec's outcome and one case per acceptance
+// criterion, which passes when every validator that gave verdicts says `met`. Context-only specs
+// are never built, so they are left out.
+export function renderJunitReport(report: ReportDocument): string {
+  const suites = report.specs.filter((spec) => !spec.contextOnly).map((spec) => ({
+    spec,
+    cases: [specCase(spec), ...spec.criteria.map((criterion) => criterionCase(spec, criterion))]
+  }));
+  const count = (cases: TestCase[], kind: TestCase['outcome']['kind']) => cases.filter((item) => item.outcome.kind === kind).length;
+  const all = suites.flatMap((suite) => suite.cases);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="aic ${xml(report.session.id)}" tests="${all.length}" failures="${count(all, 'failure')}" errors="0" skipped="${count(all, 'skipped')}" time="${seconds(sumTime(all))}">`
+  ];
+  for (const { spec, cases } of suites) {
+    lines.push(`  <testsuite name="${xml(spec.file)}" tests="${cases.length}" failures="${count(cases, 'failure')}" errors="0" skipped="${count(cases, 'skipped')}" time="${seconds(sumTime(cases))}"${spec.startedAt ? ` timestamp="${xml(spec.startedAt)}"` : ''}>`);
+    lines.push('    <properties>');
+    lines.push(`      <property name="status" value="${xml(spec.status)}"/>`);
+    lines.push(`      <property name="cycles" value="${spec.cycles.length}"/>`);
+    if (spec.completeness !== null) {
+      lines.push(`      <property name="completeness" value="${spec.completeness}"/>`);
+    }
+    lines.push('    </properties>');
+    for (const item of cases) {
+      const open = `    <testcase classname="${xml(spec.id)}" name="${xml(item.name)}" time="${seconds(item.time)}"`;
+      const outcome = item.outcome;
+      if (outcome.kind === 'passed') {
+        lines.push(`${open}/>`);
+        continue;
+      }
+      lines.push(`${open}>`);
+      const type = outcome.type ? ` type="${xml(outcome.type)}"` : '';
+      lines.push(outcome.detail
+        ? `      <${outcome.kind} message="${xml(outcome.message)}"${type}>${xml(outcome.detail)}</${outcome.kind}>`
+        : `      <${outcome.kind} message="${xml(outcome.message)}"${type}/>`);
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>', '');
+  return lines.join('\n');
+}
+
+function specCase(spec: ReportSpec): TestCase {
+  const time = spec.durationMs / 1000;
+  const last = spec.cycles[spec.cycles.length - 1];
+  if (spec.status === 'completed') {
+    return { name: 'consensus', time, outcome: { kind: 'passed' } };
+  }
+  if (!last || spec.status === 'pending' || spec.status === 'skipped') {
+    return { name: 'consensus', time, outcome: { kind: 'skipped', message: `Spec ${spec.status}` } };
+  }
+  return {
+    name: 'consensus',
+    time,
+    outcome: {
+      kind: 'failure',
+      message: spec.lastError ?? last.consensus.reason ?? `Consensus not reached after ${spec.cycles.length} cycle(s)`,
+      type: spec.status,
+      detail: last.mergedFindings.flatMap((finding) => formatFindingDetail(finding).map((line, index) => (
+        index === 0 ? `${line} [${finding.validators.join(', ')}]` : line
+      ))).join('\n')
+    }
+  };
+}
+
+function criterionCase(spec: ReportSpec, criterion: ReportSpec['criteria'][number]): TestCase {
+  const name = `${criterion.id} ${criterion.text}`;
+  if (criterion.verdicts.length === 0) {
+    return { name, time: 0, outcome: { kind: 'skipped', message: spec.cycles.length > 0 ? 'No validator verdict' : `Spec ${spec.status}` } };
+  }
+  if (criterion.verdicts.every((verdict) => verdict.verdict === 'met')) {
+    return { name, time: 0, outcome: { kind: 'passed' } };
+  }
+  return {
+    name,
+    time: 0,
+    outcome: {
+      kind: 'failure',
+      message: criterion.verdicts.map((verdict) => `${verdict.tool}: ${verdict.verdict}`).join(', '),
+      type: 'criterion',
+      detail: criterion.verdicts.map((verdict) => `${verdict.tool}: ${verdict.verdict}${verdict.evidence ? ` - ${verdict.evidence}` : ''}`).join('\n')
+    }
+  };
+}
+
+function sumTime(cases: TestCase[]): number {
+  return cases.reduce((sum, item) => sum + item.time, 0);
+}
+
+function seconds(value: number): string {
+  return value.toFixed(3);
+}
+
+// Escapes markup and drops control characters XML 1.0 does not allow.
+function xml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char] ?? char);
+}
+
+// SARIF 2.1.0 with one result per merged finding in each spec's last cycle. Findings without a
+// location point at the spec file. Rules are the spec's requirement ids, so dashboards group
+// alerts by requirement.
+export function renderSarifReport(report: ReportDocument): string {
+  const rules = new Map<string, { id: string; shortDescription: { text: string }; properties: { spec: string } }>();
+  const results = report.specs.filter((spec) => !spec.contextOnly).flatMap((spec) => {
+    const last = spec.cycles[spec.cycles.length - 1];
+    return (last?.mergedFindings ?? []).map((finding) => {
+      const ruleId = `${spec.id}/${finding.requirementId ?? 'finding'}`;
+      if (!rules.has(ruleId)) {
+        rules.set(ruleId, {
+          id: ruleId,
+          shortDescription: { text: finding.requirementId && finding.requirement ? finding.requirement : `Validator finding for ${spec.name}` },
+          properties: { spec: spec.file }
+        });
+      }
+      return {
+        ruleId,
+        level: SARIF_LEVELS[finding.severity] ?? 'warning',
+        message: { text: sarifMessage(finding) },
+        locations: [sarifLocation(report.session.workingDirectory, finding.location ?? { file: path.posix.join(SPECS_DIR, spec.file) })],
+        properties: {
+          severity: finding.severity,
+          spec: spec.file,
+          cycle: last.number,
+          validators: finding.validators,
+          ...(finding.id ? { findingId: finding.id } : {}),
+          ...(finding.lifecycle ? { lifecycle: finding.lifecycle } : {})
+        }
+      };
+    });
+  });
+  return formatJson({
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: 'aic', fullName: 'AI Spec Coordinator', rules: [...rules.values()] } },
+      properties: { sessionId: report.session.id },
+      results
+    }]
+  });
+}
+
+function sarifMessage(finding: ReportFinding): string {
+  const text = [finding.requirement, finding.description].filter(Boolean).join(': ');
+  return `${text || 'Validator finding'} (reported by ${finding.validators.join(', ')})`;
+}
+
+// URIs are relative to the project root with forward slashes, as code-scanning uploads expect.
+// SARIF lines start at 1, so a region with a line below that (or an end before its start) is left
+// out rather than failing the upload.
+function sarifLocation(workingDirectory: string, location: FindingLocation) {
+  const file = path.isAbsolute(location.file) ? path.relative(workingDirectory, location.file) : location.file;
+  const line = location.line !== undefined && location.line >= 1 ? location.line : undefined;
+  const endLine = line !== undefined && location.endLine !== undefined && location.endLine >= line ? location.endLine : undefined;
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file.replace(/\\/g, '/').replace(/^\.\//, '') },
+      ...(line !== undefined ? { region: { startLine: line, ...(endLine !== undefined ? { endLine } : {}) } } : {})
+    }
+  };
+}
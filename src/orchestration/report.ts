@@ -0,0 +1,658 @@
+import { execa } from 'execa';
+import { AcceptanceCriterion, CriterionVerdictValue, Cycle, FileChange, Finding, FindingLifecycle, Session, SpecEntry, TokenUsage, ToolName, Validation, ValidationResult } from '../types.js';
+import { formatConsensusPolicy, resolveConsensusPolicy } from './consensus.js';
+import { FINDING_SEVERITIES, formatFindingDetail, formatFindingLocation, getFindings, sortFindings } from './findings.js';
+import { formatAgreement, mergeFindings } from './finding-merge.js';
+import { formatCost, countTokens, executionCost, formatUsageLimits, formatUsageTotals, resolvePriceTable, sessionCycles, sumCycleUsage, sumSessionUsage, summarizeToolUsage } from './cost.js';
+import { formatInlineSummary } from './prompt-context.js';
+import { formatCriteriaMatrix } from './criteria.js';
+import { ConvergencePoint, formatConvergenceChart, summarizeConvergence } from './finding-lifecycle.js';
+import { formatFileChange, summarizeFileChanges } from './changes.js';
+import { JSON_OUTPUT_VERSION, StatusDocument, formatJson, summarizeSession } from './json-output.js';
+import { renderJunitReport, renderSarifReport } from './report-export.js';
+import { parseStringList } from '../config/schema.js';
+
+export const REPORT_FORMATS = ['html', 'md', 'json', 'junit', 'sarif'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+// Extension of the default output file, `.ai-coord/reports/<session>-report.<ext>`.
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = { html: 'html', md: 'md', json: 'json', junit: 'xml', sarif: 'sarif' };
+
+// Larger diffs are cut so one generated file cannot swamp the report.
+const MAX_DIFF_CHARS = 200_000;
+
+export interface ReportCycle {
+  number: number;
+  startedAt: string;
+  completedAt: string | null;
+  // Wall time when both timestamps are recorded, else lead time plus the slowest validator.
+  durationMs: number;
+  // Average validator completeness.
+  completeness: number | null;
+  consensus: { reached: boolean; policy: string | null; reason: string | null };
+  lead: { tool: ToolName; durationMs: number; exitCode: number; tokens: number; cost: number; promptHash: string | null };
+  validations: Array<{
+    tool: ToolName;
+    status: ValidationResult['status'];
+    completeness: number;
+    durationMs: number;
+    exitCode: number;
+    tokens: number;
+    cost: number;
+    gate: boolean;
+    findings: Finding[];
+  }>;
+  // Findings after merging near-duplicates across validators.
+  mergedFindings: Array<Finding & { id: string | null; lifecycle: FindingLifecycle | null; validators: string[] }>;
+  fileChanges: FileChange[];
+  checkpoint: string | null;
+  // Unified diff of the cycle's checkpoint against the previous one; null without checkpoints.
+  diff: string | null;
+}
+
+export interface ReportDocument {
+  version: number;
+  command: 'report';
+  generatedAt: string;
+  session: NonNullable<StatusDocument['session']> & { consensusPolicy: string };
+  specs: Array<{
+    file: string;
+    id: string;
+    name: string;
+    complexity: SpecEntry['meta']['complexity'];
+    maturity: number;
+    contextOnly: boolean;
+    status: SpecEntry['status'];
+    startedAt: string | null;
+    completedAt: string | null;
+    lastError: string | null;
+    completeness: number | null;
+    durationMs: number;
+    tokens: number;
+    cost: number;
+    convergence: ConvergencePoint[];
+    // Acceptance criteria with each validator's verdict in the last cycle.
+    criteria: Array<AcceptanceCriterion & { verdicts: Array<{ tool: ToolName; verdict: CriterionVerdictValue; evidence: string | null }> }>;
+    cycles: ReportCycle[];
+  }>;
+}
+
+export function parseReportFormat(value: string): ReportFormat {
+  if (!(REPORT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown report format: ${value}. Expected: ${REPORT_FORMATS.join(', ')}`);
+  }
+  return value as ReportFormat;
+}
+
+// The `reportFormats` setting: formats written at the end of every run.
+export function parseReportFormatList(value: unknown, field: string): ReportFormat[] {
+  return parseStringList(value, field).map((format) => {
+    try {
+      return parseReportFormat(format);
+    } catch (error) {
+      throw new Error(`${field}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+export async function renderReport(session: Session, format: ReportFormat): Promise<string> {
+  if (format === 'md') {
+    return renderMarkdownReport(session);
+  }
+  if (format === 'junit' || format === 'sarif') {
+    const document = buildReportDocument(session);
+    return format === 'junit' ? renderJunitReport(document) : renderSarifReport(document);
+  }
+  const document = buildReportDocument(session, await loadCycleDiffs(session));
+  return format === 'json' ? formatJson(document) : renderHtmlReport(document);
+}
+
+// Diffs keyed by `cycleKey`, read from the checkpoint commits of runs made with --checkpoint.
+// Checkpoints that git no longer knows (pruned refs, another clone) are skipped.
+export async function loadCycleDiffs(session: Session): Promise<Map<string, string>> {
+  const diffs = new Map<string, string>();
+  for (const spec of session.specs) {
+    let previous = spec.baselineCheckpoint?.commit;
+    for (const cycle of spec.cycles ?? []) {
+      const commit = cycle.checkpoint?.commit;
+      if (previous && commit) {
+        try {
+          const { stdout } = await execa('git', ['diff', '--no-color', '--no-ext-diff', previous, commit], { cwd: session.workingDirectory });
+          diffs.set(cycleKey(spec, cycle), stdout.length > MAX_DIFF_CHARS
+            ? `${stdout.slice(0, MAX_DIFF_CHARS)}\n... diff truncated at ${MAX_DIFF_CHARS.toLocaleString()} characters`
+            : stdout);
+        } catch {
+          // Leave this cycle without a diff.
+        }
+      }
+      previous = commit ?? previous;
+    }
+  }
+  return diffs;
+}
+
+function cycleKey(spec: SpecEntry, cycle: Cycle): string {
+  return `${spec.file}#${cycle.number}`;
+}
+
+export function buildReportDocument(session: Session, diffs: Map<string, string> = new Map(), now = new Date()): ReportDocument {
+  const prices = resolvePriceTable(session.config.prices);
+  const cost = (tool: ToolName, usage?: TokenUsage) => (prices[tool] ? executionCost(usage, prices[tool]) : 0);
+  return {
+    version: JSON_OUTPUT_VERSION,
+    command: 'report',
+    generatedAt: now.toISOString(),
+    session: { ...summarizeSession(session), consensusPolicy: formatConsensusPolicy(resolveConsensusPolicy(session.config.consensus)) },
+    specs: session.specs.map((spec) => {
+      const cycles: ReportCycle[] = (spec.cycles ?? []).map((cycle) => ({
+        number: cycle.number,
+        startedAt: cycle.startedAt,
+        completedAt: cycle.completedAt ?? null,
+        durationMs: cycleDuration(cycle),
+        completeness: averageCompleteness(cycle.validations),
+        consensus: {
+          reached: cycle.consensusReached,
+          policy: cycle.consensusDecision?.policy ?? null,
+          reason: cycle.consensusDecision?.reason ?? null
+        },
+        lead: {
+          tool: cycle.leadExecution.tool,
+          durationMs: cycle.leadExecution.durationMs,
+          exitCode: cycle.leadExecution.exitCode,
+          tokens: countTokens(cycle.leadExecution.tokenUsage),
+          cost: cost(cycle.leadExecution.tool, cycle.leadExecution.tokenUsage),
+          promptHash: cycle.leadExecution.promptHash ?? null
+        },
+        validations: cycle.validations.map((validation) => ({
+          tool: validation.tool,
+          status: validation.parsed.status,
+          completeness: validation.parsed.completeness,
+          durationMs: validation.durationMs,
+          exitCode: validation.exitCode,
+          tokens: countTokens(validation.tokenUsage),
+          cost: cost(validation.tool, validation.tokenUsage),
+          gate: Boolean(validation.gate),
+          findings: sortFindings(getFindings(validation.parsed).map((finding) => ({ finding }))).map((item) => item.finding)
+        })),
+        mergedFindings: (cycle.mergedFindings ?? mergeFindings(cycle.validations)).map((item) => ({
+          ...item.finding,
+          id: item.id ?? null,
+          lifecycle: item.lifecycle ?? null,
+          validators: item.validators
+        })),
+        fileChanges: cycle.leadExecution.fileChanges ?? [],
+        checkpoint: cycle.checkpoint?.commit ?? null,
+        diff: diffs.get(cycleKey(spec, cycle)) ?? null
+      }));
+      const usage = sumCycleUsage(spec.cycles ?? [], prices);
+      const lastValidations = spec.cycles?.[spec.cycles.length - 1]?.validations ?? [];
+      return {
+        file: spec.file,
+        id: spec.meta?.id ?? spec.file,
+        name: spec.meta?.name ?? spec.file,
+        complexity: spec.meta?.complexity,
+        maturity: spec.meta?.maturity,
+        contextOnly: Boolean(spec.contextOnly),
+        status: spec.status,
+        startedAt: spec.startedAt ?? null,
+        completedAt: spec.completedAt ?? null,
+        lastError: spec.lastError ?? null,
+        completeness: cycles[cycles.length - 1]?.completeness ?? null,
+        durationMs: cycles.reduce((sum, cycle) => sum + cycle.durationMs, 0),
+        tokens: usage.tokens,
+        cost: usage.cost,
+        convergence: summarizeConvergence(spec.cycles ?? []),
+        criteria: (spec.criteria ?? []).map((criterion) => ({
+          ...criterion,
+          verdicts: lastValidations.flatMap((validation) => validation.parsed.criteria
+            ?.filter((verdict) => verdict.id === criterion.id)
+            .map((verdict) => ({ tool: validation.tool, verdict: verdict.verdict, evidence: verdict.evidence ?? null })) ?? [])
+        })),
+        cycles
+      };
+    })
+  };
+}
+
+function cycleDuration(cycle: Cycle): number {
+  if (cycle.completedAt) {
+    const elapsed = Date.parse(cycle.completedAt) - Date.parse(cycle.startedAt);
+    if (Number.isFinite(elapsed) && elapsed >= 0) {
+      return elapsed;
+    }
+  }
+  return cycle.leadExecution.durationMs + Math.max(0, ...cycle.validations.map((validation) => validation.durationMs));
+}
+
+function averageCompleteness(validations: Validation[]): number | null {
+  return validations.length > 0
+    ? Math.round(validations.reduce((sum, validation) => sum + validation.parsed.completeness, 0) / validations.length)
+    : null;
+}
+
+export function renderMarkdownReport(session: Session): string {
+  const lines = [
+    '# AI Spec Coordinator Report',
+    '',
+    `Session: ${session.id}`,
+    `Status: ${session.status}`,
+    `Working Directory: ${session.workingDirectory}`,
+    '',
+    `Lead: ${session.lead}`,
+    `Validators: ${session.validators.join(', ')}`,
+    `Consensus policy: ${formatConsensusPolicy(resolveConsensusPolicy(session.config.consensus))}`,
+    ''
+  ];
+  const prices = resolvePriceTable(session.config.prices);
+  const sessionUsage = sumSessionUsage(session, prices);
+  if (sessionUsage.tokens > 0 || session.config.limits || session.stopReason) {
+    lines.push('## Usage');
+    lines.push(`- Total: ${formatUsageTotals(sessionUsage)}`);
+    for (const tool of summarizeToolUsage(sessionCycles(session), prices)) {
+      lines.push(`- ${tool.tool}: ${tool.tokens.toLocaleString()} tokens, ${prices[tool.tool] ? formatCost(tool.cost) : 'no price'}`);
+    }
+    if (session.config.limits) {
+      lines.push(`- Limits: ${formatUsageLimits(session.config.limits)}`);
+    }
+    if (session.stopReason) {
+      lines.push(`- Stopped: ${session.stopReason}`);
+    }
+    lines.push('');
+  }
+  lines.push('## Specs');
+  for (const spec of session.specs) {
+    const specCycles = spec.cycles ?? [];
+    const cycles = specCycles.length;
+    const lastCycle = cycles > 0 ? specCycles[cycles - 1] : undefined;
+    const completeness = lastCycle ? averageCompleteness(lastCycle.validations) ?? 0 : 0;
+
+    // Calculate total tokens and duration across all cycles
+    let totalLeadTokens = 0;
+    let totalValidatorTokens = 0;
+    let totalDurationMs = 0;
+    for (const cycle of specCycles) {
+      if (cycle.leadExecution.tokenUsage?.totalTokens) {
+        totalLeadTokens += cycle.leadExecution.tokenUsage.totalTokens;
+      }
+      totalDurationMs += cycle.leadExecution.durationMs;
+      for (const validation of cycle.validations) {
+        if (validation.tokenUsage?.totalTokens) {
+          totalValidatorTokens += validation.tokenUsage.totalTokens;
+        }
+        totalDurationMs += validation.durationMs;
+      }
+    }
+
+    lines.push(`### ${spec.meta.name} (${spec.file})`);
+    lines.push(`- Status: ${spec.status}`);
+    lines.push(`- Complexity: ${spec.meta.complexity}`);
+    lines.push(`- Maturity: ${spec.meta.maturity}`);
+    lines.push(`- Cycles to consensus: ${spec.status === 'completed' ? cycles : 'N/A'}`);
+    lines.push(`- Final completeness: ${completeness}%`);
+    lines.push(`- Total duration: ${(totalDurationMs / 1000).toFixed(1)}s`);
+    const decisions = specCycles.flatMap((cycle) => (cycle.consensusDecision ? [{ number: cycle.number, decision: cycle.consensusDecision }] : []));
+    if (decisions.length > 0) {
+      lines.push('- Consensus decisions:');
+      for (const { number, decision } of decisions) {
+        lines.push(`  - Cycle ${number} (${decision.policy}): ${decision.reached ? 'reached' : 'not reached'}, ${decision.reason}`);
+      }
+    }
+    const hashedCycles = specCycles.filter((cycle) => cycle.leadExecution.promptHash || cycle.validations.some((validation) => validation.promptHash));
+    if (hashedCycles.length > 0) {
+      lines.push('- Prompt hashes:');
+      for (const cycle of hashedCycles) {
+        const hashes = [
+          ...(cycle.leadExecution.promptHash ? [`lead ${cycle.leadExecution.promptHash}`] : []),
+          ...cycle.validations.filter((validation) => validation.promptHash).map((validation) => `${validation.tool} ${validation.promptHash}`)
+        ];
+        lines.push(`  - Cycle ${cycle.number}: ${hashes.join(', ')}`);
+      }
+    }
+    const inlinedCycles = specCycles.filter((cycle) => cycle.promptContext);
+    if (inlinedCycles.length > 0) {
+      lines.push('- Inlined prompt context:');
+      for (const cycle of inlinedCycles) {
+        const parts = [
+          ...(cycle.promptContext?.lead ? [`lead ${formatInlineSummary(cycle.promptContext.lead)}`] : []),
+          ...(cycle.promptContext?.validation ? [`validation ${formatInlineSummary(cycle.promptContext.validation)}`] : [])
+        ];
+        lines.push(`  - Cycle ${cycle.number}: ${parts.join('; ')}`);
+      }
+    }
+    if (spec.lastError) {
+      lines.push(`- Last error: ${spec.lastError}`);
+    }
+    if (totalLeadTokens > 0 || totalValidatorTokens > 0) {
+      const totalTokens = totalLeadTokens + totalValidatorTokens;
+      lines.push(`- Total tokens: ${totalTokens.toLocaleString()} (lead: ${totalLeadTokens.toLocaleString()}, validators: ${totalValidatorTokens.toLocaleString()})`);
+    }
+    const specUsage = sumCycleUsage(specCycles, prices);
+    if (specUsage.tokens > 0) {
+      lines.push(`- Total cost: ${formatCost(specUsage.cost)}`);
+      const cycleCosts = specCycles.map((cycle) => `${cycle.number}: ${formatCost(sumCycleUsage([cycle], prices).cost)}`);
+      lines.push(`- Cost per cycle: ${cycleCosts.join(', ')}`);
+    }
+    const changedCycles = specCycles.filter((cycle) => (cycle.leadExecution.fileChanges?.length ?? 0) > 0);
+    if (changedCycles.length > 0) {
+      lines.push('- Files changed:');
+      for (const cycle of changedCycles) {
+        const changes = cycle.leadExecution.fileChanges ?? [];
+        lines.push(`  - Cycle ${cycle.number}: ${summarizeFileChanges(changes)}`);
+        changes.forEach((change) => lines.push(`    - ${formatFileChange(change)}`));
+      }
+    }
+    const convergence = summarizeConvergence(specCycles);
+    if (convergence.length > 0) {
+      lines.push('- Convergence:');
+      lines.push('  ```');
+      formatConvergenceChart(convergence).forEach((line) => lines.push(`  ${line}`));
+      lines.push('  ```');
+    }
+    if (lastCycle && spec.criteria && spec.criteria.length > 0 && lastCycle.validations.some((validation) => validation.parsed.criteria)) {
+      lines.push(`- Acceptance criteria (cycle ${cycles}):`);
+      lines.push('');
+      formatCriteriaMatrix(spec.criteria, lastCycle.validations).forEach((line) => lines.push(`  ${line}`));
+      lines.push('');
+    }
+    if (lastCycle && spec.status !== 'completed') {
+      const merged = lastCycle.mergedFindings ?? mergeFindings(lastCycle.validations);
+      if (merged.length > 0) {
+        const reports = merged.reduce((sum, item) => sum + item.reports, 0);
+        const agreed = merged.filter((item) => item.validators.length > 1).length;
+        lines.push(`- Gap analysis: ${merged.length} distinct findings from ${reports} reports (${agreed} reported by more than one validator)`);
+        for (const severity of FINDING_SEVERITIES) {
+          const group = merged.filter((item) => item.finding.severity === severity);
+          if (group.length > 0) {
+            lines.push(`  - ${severity} (${group.length}):`);
+            group.forEach((item) => lines.push(...formatFindingDetail(item.finding, '    - ').map((line, index) => (
+              index === 0 ? `${item.id ? `${item.id} (${item.lifecycle}) ` : ''}${line} [${formatAgreement(item, lastCycle.validations.length)}]` : line
+            ))));
+          }
+        }
+      }
+    }
+    lines.push('');
+  }
+  const completed = session.specs.filter((spec) => spec.status === 'completed').length;
+  lines.push('## Summary');
+  lines.push(`- Total specs: ${session.specs.length}`);
+  lines.push(`- Completed specs: ${completed}`);
+  lines.push(`- Success rate: ${Math.round((completed / Math.max(session.specs.length, 1)) * 100)}%`);
+  lines.push('');
+  return lines.join('\n');
+}
+
+// One self-contained page: inline styles and SVG, no scripts or external assets, so the file can
+// be mailed around or attached to a ticket.
+export function renderHtmlReport(report: ReportDocument): string {
+  const session = report.session;
+  const tools = session.usage.tools.map((tool) => (
+    `<tr><td>${escapeHtml(tool.tool)}</td><td class="num">${tool.tokens.toLocaleString('en-US')}</td><td class="num">${formatCost(tool.cost)}</td></tr>`
+  ));
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>aic report ${escapeHtml(session.id)}</title>
+<style>
+${REPORT_CSS}
+</style>
+</head>
+<body>
+<h1>aic report</h1>
+<p class="meta">Session <code>${escapeHtml(session.id)}</code> · ${badge(session.status)} · ${escapeHtml(session.workingDirectory)}<br>
+Lead ${escapeHtml(session.lead)} · validators ${escapeHtml(session.validators.join(', ') || 'none')} · consensus ${escapeHtml(session.consensusPolicy)}<br>
+Generated ${escapeHtml(report.generatedAt)}${session.stopReason ? ` · stopped: ${escapeHtml(session.stopReason)}` : ''}</p>
+<div class="cards">
+${card('Specs completed', `${session.counts.completed}/${session.counts.total}`)}
+${card('Failed', String(session.counts.failed))}
+${card('Cycles', String(report.specs.reduce((sum, spec) => sum + spec.cycles.length, 0)))}
+${card('Duration', formatDuration(report.specs.reduce((sum, spec) => sum + spec.durationMs, 0)))}
+${card('Tokens', session.usage.tokens.toLocaleString('en-US'))}
+${card('Cost', formatCost(session.usage.cost))}
+</div>
+${tools.length > 0 ? `<h2>Usage by tool</h2>\n<table><thead><tr><th>Tool</th><th>Tokens</th><th>Cost</th></tr></thead><tbody>${tools.join('')}</tbody></table>` : ''}
+${report.specs.map(renderSpecSection).join('\n')}
+</body>
+</html>
+`;
+}
+
+function renderSpecSection(spec: ReportDocument['specs'][number]): string {
+  const parts = [
+    `<section class="spec" id="${escapeHtml(spec.id)}">`,
+    `<h2>${escapeHtml(spec.name)} <small>${escapeHtml(spec.file)}</small> ${badge(spec.status)}</h2>`,
+    `<p class="meta">${escapeHtml(String(spec.complexity ?? '-'))} · maturity ${escapeHtml(String(spec.maturity ?? '-'))} · ${spec.cycles.length} cycle(s) · `
+      + `completeness ${spec.completeness === null ? '-' : `${spec.completeness}%`} · ${formatDuration(spec.durationMs)} · `
+      + `${spec.tokens.toLocaleString('en-US')} tokens · ${formatCost(spec.cost)}</p>`
+  ];
+  if (spec.lastError) {
+    parts.push(`<p class="error">${escapeHtml(spec.lastError)}</p>`);
+  }
+  if (spec.cycles.length === 0) {
+    parts.push('<p class="muted">No cycles recorded.</p>', '</section>');
+    return parts.join('\n');
+  }
+  parts.push('<h3>Cycle timeline</h3>', renderTimeline(spec.cycles));
+  parts.push('<h3>Completeness trend</h3>', renderCompletenessChart(spec.cycles));
+  parts.push('<h3>Token and duration breakdown</h3>', renderBreakdown(spec.cycles));
+  const last = spec.cycles[spec.cycles.length - 1];
+  parts.push(`<h3>Findings per validator (cycle ${last.number})</h3>`, renderFindings(last));
+  parts.push('<h3>Cycles</h3>', ...spec.cycles.map((cycle) => renderCycle(cycle, cycle === last)));
+  parts.push('</section>');
+  return parts.join('\n');
+}
+
+// One row per cycle; bar lengths share a scale so slow cycles stand out.
+function renderTimeline(cycles: ReportCycle[]): string {
+  const longest = Math.max(1, ...cycles.map((cycle) => cycle.lead.durationMs + validationDuration(cycle)));
+  const rows = cycles.map((cycle) => {
+    const lead = (cycle.lead.durationMs / longest) * 100;
+    const validation = (validationDuration(cycle) / longest) * 100;
+    const verdict = cycle.consensus.reached ? '<span class="ok">consensus</span>' : '<span class="bad">no consensus</span>';
+    return `<div class="row"><span class="label">Cycle ${cycle.number}</span><span class="track">`
+      + `<span class="seg lead" style="width:${lead.toFixed(1)}%" title="lead ${escapeHtml(cycle.lead.tool)} ${formatDuration(cycle.lead.durationMs)}"></span>`
+      + `<span class="seg validate" style="width:${validation.toFixed(1)}%" title="validation ${formatDuration(validationDuration(cycle))}"></span>`
+      + `</span><span class="detail">${formatDuration(cycle.durationMs)} · ${cycle.completeness === null ? '-' : `${cycle.completeness}%`} · ${verdict}`
+      + ` · ${cycle.fileChanges.length} file(s)</span></div>`;
+  });
+  return `<div class="timeline">\n${rows.join('\n')}\n<p class="legend"><span class="key lead"></span>lead <span class="key validate"></span>validation (slowest validator)</p>\n</div>`;
+}
+
+function validationDuration(cycle: ReportCycle): number {
+  return Math.max(0, ...cycle.validations.map((validation) => validation.durationMs));
+}
+
+const SERIES_COLORS = ['#2f6fdf', '#d9822b', '#2b9d5c', '#b83280', '#7a5af8', '#0f9aa8'];
+
+// Completeness per validator across cycles, with the average dashed.
+function renderCompletenessChart(cycles: ReportCycle[]): string {
+  const width = 560;
+  const height = 200;
+  const left = 40;
+  const right = 16;
+  const top = 12;
+  const bottom = 28;
+  const x = (index: number) => (cycles.length === 1 ? left + (width - left - right) / 2 : left + (index * (width - left - right)) / (cycles.length - 1));
+  const y = (value: number) => top + ((100 - value) * (height - top - bottom)) / 100;
+  const validators = [...new Set(cycles.flatMap((cycle) => cycle.validations.map((validation) => validation.tool)))];
+  const series = [
+    ...validators.map((tool, index) => ({
+      label: tool,
+      color: SERIES_COLORS[index % SERIES_COLORS.length],
+      dashed: false,
+      points: cycles.flatMap((cycle, cycleIndex) => {
+        const validation = cycle.validations.find((entry) => entry.tool === tool);
+        return validation ? [[x(cycleIndex), y(validation.completeness)]] : [];
+      })
+    })),
+    {
+      label: 'average',
+      color: '#444',
+      dashed: true,
+      points: cycles.flatMap((cycle, cycleIndex) => (cycle.completeness === null ? [] : [[x(cycleIndex), y(cycle.completeness)]]))
+    }
+  ];
+  const grid = [0, 50, 100].map((value) => (
+    `<line x1="${left}" x2="${width - right}" y1="${y(value)}" y2="${y(value)}" class="grid"/><text x="${left - 6}" y="${y(value) + 4}" text-anchor="end">${value}%</text>`
+  ));
+  const labels = cycles.map((cycle, index) => `<text x="${x(index)}" y="${height - 8}" text-anchor="middle">${cycle.number}</text>`);
+  const lines = series.filter((entry) => entry.points.length > 0).map((entry) => [
+    `<polyline fill="none" stroke="${entry.color}" stroke-width="2"${entry.dashed ? ' stroke-dasharray="5 4"' : ''} points="${entry.points.map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`).join(' ')}"/>`,
+    ...entry.points.map(([px, py]) => `<circle cx="${px.toFixed(1)}" cy="${py.toFixed(1)}" r="3" fill="${entry.color}"/>`)
+  ].join(''));
+  const legend = series.map((entry) => `<span><span class="key" style="background:${entry.color}"></span>${escapeHtml(entry.label)}</span>`);
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" role="img" aria-label="Completeness by cycle">`
+    + `${grid.join('')}${labels.join('')}${lines.join('')}</svg>\n<p class="legend">${legend.join(' ')}</p>`;
+}
+
+function renderBreakdown(cycles: ReportCycle[]): string {
+  const rows = new Map<string, { tool: string; role: string; runs: number; durationMs: number; tokens: number; cost: number }>();
+  const add = (tool: string, role: string, durationMs: number, tokens: number, cost: number) => {
+    const key = `${role}:${tool}`;
+    const row = rows.get(key) ?? { tool, role, runs: 0, durationMs: 0, tokens: 0, cost: 0 };
+    row.runs += 1;
+    row.durationMs += durationMs;
+    row.tokens += tokens;
+    row.cost += cost;
+    rows.set(key, row);
+  };
+  for (const cycle of cycles) {
+    add(cycle.lead.tool, 'lead', cycle.lead.durationMs, cycle.lead.tokens, cycle.lead.cost);
+    cycle.validations.forEach((validation) => add(validation.tool, 'validator', validation.durationMs, validation.tokens, validation.cost));
+  }
+  const body = [...rows.values()].map((row) => (
+    `<tr><td>${escapeHtml(row.tool)}</td><td>${row.role}</td><td class="num">${row.runs}</td><td class="num">${formatDuration(row.durationMs)}</td>`
+      + `<td class="num">${row.tokens.toLocaleString('en-US')}</td><td class="num">${formatCost(row.cost)}</td></tr>`
+  ));
+  return `<table><thead><tr><th>Tool</th><th>Role</th><th>Runs</th><th>Duration</th><th>Tokens</th><th>Cost</th></tr></thead><tbody>${body.join('')}</tbody></table>`;
+}
+
+function renderFindings(cycle: ReportCycle): string {
+  if (cycle.validations.length === 0) {
+    return '<p class="muted">No validations.</p>';
+  }
+  return cycle.validations.map((validation) => {
+    const heading = `<h4>${escapeHtml(validation.tool)} · ${validation.status} · ${validation.completeness}% · ${validation.findings.length} finding(s)${validation.gate ? ' · gate' : ''}</h4>`;
+    if (validation.findings.length === 0) {
+      return heading;
+    }
+    const rows = validation.findings.map((finding) => (
+      `<tr><td><span class="sev ${finding.severity}">${finding.severity}</span></td><td>${escapeHtml(finding.requirementId ?? '')}</td>`
+        + `<td>${escapeHtml(finding.requirement)}</td><td>${escapeHtml(finding.description)}</td><td><code>${escapeHtml(formatFindingLocation(finding.location))}</code></td></tr>`
+    ));
+    return `${heading}\n<table><thead><tr><th>Severity</th><th>Id</th><th>Requirement</th><th>Gap</th><th>Location</th></tr></thead><tbody>${rows.join('')}</tbody></table>`;
+  }).join('\n');
+}
+
+function renderCycle(cycle: ReportCycle, open: boolean): string {
+  const parts = [
+    `<details class="cycle"${open ? ' open' : ''}><summary>Cycle ${cycle.number} · ${escapeHtml(cycle.startedAt)} · ${formatDuration(cycle.durationMs)} · `
+      + `${cycle.consensus.reached ? 'consensus reached' : 'no consensus'}</summary>`
+  ];
+  if (cycle.consensus.reason) {
+    parts.push(`<p class="meta">${escapeHtml(cycle.consensus.policy ?? '')}: ${escapeHtml(cycle.consensus.reason)}</p>`);
+  }
+  const lead = cycle.lead;
+  parts.push(`<p class="meta">Lead ${escapeHtml(lead.tool)} · exit ${lead.exitCode} · ${formatDuration(lead.durationMs)} · ${lead.tokens.toLocaleString('en-US')} tokens · ${formatCost(lead.cost)}`
+    + `${lead.promptHash ? ` · prompt ${escapeHtml(lead.promptHash)}` : ''}${cycle.checkpoint ? ` · checkpoint <code>${escapeHtml(cycle.checkpoint.slice(0, 12))}</code>` : ''}</p>`);
+  const validations = cycle.validations.map((validation) => (
+    `<tr><td>${escapeHtml(validation.tool)}</td><td>${validation.status}</td><td class="num">${validation.completeness}%</td><td class="num">${validation.findings.length}</td>`
+      + `<td class="num">${formatDuration(validation.durationMs)}</td><td class="num">${validation.tokens.toLocaleString('en-US')}</td><td class="num">${formatCost(validation.cost)}</td></tr>`
+  ));
+  if (validations.length > 0) {
+    parts.push(`<table><thead><tr><th>Validator</th><th>Status</th><th>Completeness</th><th>Findings</th><th>Duration</th><th>Tokens</th><th>Cost</th></tr></thead><tbody>${validations.join('')}</tbody></table>`);
+  }
+  if (!open) {
+    parts.push(renderFindings(cycle));
+  }
+  if (cycle.fileChanges.length > 0) {
+    const rows = cycle.fileChanges.map((change) => (
+      `<tr><td>${change.change}</td><td><code>${escapeHtml(change.path)}</code></td><td class="num add">+${change.linesAdded}</td><td class="num del">-${change.linesRemoved}</td></tr>`
+    ));
+    parts.push(`<h4>File changes: ${escapeHtml(summarizeFileChanges(cycle.fileChanges))}</h4>`);
+    parts.push(`<table><thead><tr><th>Change</th><th>Path</th><th>Added</th><th>Removed</th></tr></thead><tbody>${rows.join('')}</tbody></table>`);
+  } else {
+    parts.push('<p class="muted">No file changes recorded.</p>');
+  }
+  if (cycle.diff) {
+    parts.push(`<details class="diff"><summary>Diff</summary><pre>${renderDiff(cycle.diff)}</pre></details>`);
+  } else if (cycle.fileChanges.length > 0) {
+    parts.push('<p class="muted">No diff available; run with --checkpoint to record one.</p>');
+  }
+  parts.push('</details>');
+  return parts.join('\n');
+}
+
+function renderDiff(diff: string): string {
+  return diff.split('\n').map((line) => {
+    const kind = line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ') || line.startsWith('index ')
+      ? 'file'
+      : line.startsWith('@@') ? 'hunk' : line.startsWith('+') ? 'add' : line.startsWith('-') ? 'del' : '';
+    return kind ? `<span class="${kind}">${escapeHtml(line)}</span>` : escapeHtml(line);
+  }).join('\n');
+}
+
+function card(label: string, value: string): string {
+  return `<div class="card"><div class="value">${escapeHtml(value)}</div><div class="label">${escapeHtml(label)}</div></div>`;
+}
+
+function badge(status: string): string {
+  return `<span class="badge ${escapeHtml(status)}">${escapeHtml(status)}</span>`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char);
+}
+
+const REPORT_CSS = `body { font: 14px/1.45 system-ui, sans-serif; margin: 2rem auto; max-width: 72rem; padding: 0 1rem; color: #222; }
+h1 { margin-bottom: 0.2rem; }
+h2 small { font-weight: normal; color: #777; font-size: 0.7em; }
+code, pre { font: 12px/1.4 ui-monospace, monospace; }
+table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+td, th { border-bottom: 1px solid #e2e2e2; padding: 0.25rem 0.7rem; text-align: left; vertical-align: top; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.meta, .muted, .legend { color: #666; }
+.error { color: #b42318; }
+.cards { display: flex; flex-wrap: wrap; gap: 0.8rem; margin: 1rem 0; }
+.card { border: 1px solid #e2e2e2; border-radius: 6px; padding: 0.6rem 1rem; min-width: 8rem; }
+.card .value { font-size: 1.4em; font-weight: 600; }
+.card .label { color: #666; font-size: 0.85em; }
+.badge { border-radius: 4px; padding: 0.05rem 0.4rem; font-size: 0.75em; font-weight: 600; background: #eee; vertical-align: middle; }
+.badge.completed { background: #dcfae6; color: #067647; }
+.badge.failed { background: #fee4e2; color: #b42318; }
+.badge.in_progress, .badge.partial { background: #fef0c7; color: #b54708; }
+.spec { border-top: 2px solid #e2e2e2; margin-top: 2rem; }
+.timeline .row { display: flex; align-items: center; gap: 0.6rem; margin: 0.2rem 0; }
+.timeline .label { width: 5rem; color: #444; }
+.timeline .track { display: flex; flex: 0 0 24rem; height: 0.9rem; background: #f2f2f2; border-radius: 3px; overflow: hidden; }
+.seg.lead, .key.lead { background: #2f6fdf; }
+.seg.validate, .key.validate { background: #d9822b; }
+.key { display: inline-block; width: 0.8rem; height: 0.8rem; border-radius: 2px; margin: 0 0.3rem 0 0.6rem; vertical-align: middle; }
+.ok { color: #067647; }
+.bad { color: #b42318; }
+.chart text { font-size: 11px; fill: #666; }
+.chart .grid { stroke: #e2e2e2; }
+.sev { border-radius: 3px; padding: 0 0.35rem; font-size: 0.8em; background: #eee; }
+.sev.critical { background: #b42318; color: #fff; }
+.sev.major { background: #fee4e2; color: #b42318; }
+.sev.minor { background: #fef0c7; color: #b54708; }
+details.cycle { border: 1px solid #e2e2e2; border-radius: 6px; padding: 0.4rem 0.8rem; margin: 0.5rem 0; }
+details.cycle > summary { cursor: pointer; font-weight: 600; }
+td.add, pre .add { color: #067647; }
+td.del, pre .del { color: #b42318; }
+pre { background: #f8f8f8; padding: 0.6rem; overflow-x: auto; max-height: 40rem; }
+pre .add { background: #ecfdf3; }
+pre .del { background: #fef3f2; }
+pre .hunk { color: #6941c6; }
+pre .file { font-weight: 600; }`;
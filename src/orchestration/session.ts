@@ -2,8 +2,9 @@ import path from 'node:path';
 import fs from 'node:fs/promises';
 import { v4 as uuidv4 } from 'uuid';
 import { Session, SessionConfig, SpecEntry, ToolName } from '../types.js';
-import { ensureDir, pathExists, readTextFile, writeTextFile } from '../utils/fs.js';
+import { ensureDir, pathExists, readTextFile, writeTextFileAtomic } from '../utils/fs.js';
 import { getProjectSessionsDir, PROJECT_SESSION_FILE, SPECS_DIR } from '../config/paths.js';
+import { SessionHistoryEntry } from './json-output.js';
 
 export interface CreateSessionOptions {
   cwd: string;
@@ -40,7 +41,7 @@ export async function persistSession(session: Session, env: NodeJS.ProcessEnv =
   await ensureDir(sessionsDir);
   session.updatedAt = new Date().toISOString();
   const sessionPath = path.join(sessionsDir, `${session.id}.json`);
-  await writeTextFile(sessionPath, JSON.stringify(session, null, 2));
+  await writeTextFileAtomic(sessionPath, JSON.stringify(session, null, 2));
 }
 
 export async function loadSession(cwd: string, env: NodeJS.ProcessEnv = process.env): Promise<Session | null> {
@@ -68,9 +69,79 @@ export async function loadSessionById(
   return JSON.parse(content) as Session;
 }
 
+// The session `aic run --resume` would pick, else the most recently updated one; the session
+// pointer is removed when a run completes, but the finished session is still worth showing.
+export async function loadLatestSession(cwd: string, env: NodeJS.ProcessEnv = process.env): Promise<Session | null> {
+  const current = await loadSession(cwd, env);
+  if (current) {
+    return current;
+  }
+  const [latest] = await loadSessionHistory(cwd);
+  return latest ? loadSessionById(cwd, latest.id, env) : null;
+}
+
+// Accepts a full session id or a prefix that matches exactly one session.
+export async function findSession(cwd: string, ref: string, env: NodeJS.ProcessEnv = process.env): Promise<Session> {
+  const exact = await loadSessionById(cwd, ref, env);
+  if (exact) {
+    return exact;
+  }
+  const matches = (await loadSessionHistory(cwd)).filter((entry) => entry.id.startsWith(ref));
+  if (matches.length === 0) {
+    throw new Error(`Session not found: ${ref}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Session prefix ${ref} matches ${matches.length} sessions: ${matches.map((entry) => entry.id).join(', ')}`);
+  }
+  return (await loadSessionById(cwd, matches[0].id, env)) as Session;
+}
+
 export async function completeSession(session: Session, env: NodeJS.ProcessEnv = process.env): Promise<void> {
   session.status = 'completed';
   await persistSession(session, env);
   const linkPath = path.join(session.workingDirectory, PROJECT_SESSION_FILE);
   await fs.rm(linkPath, { force: true });
 }
+
+// Every session in the project, most recently updated first; `excludeId` drops the current one.
+export async function loadSessionHistory(cwd: string, excludeId?: string): Promise<SessionHistoryEntry[]> {
+  const sessionsDir = getProjectSessionsDir(cwd);
+  if (!(await pathExists(sessionsDir))) {
+    return [];
+  }
+  const entries = await fs.readdir(sessionsDir, { withFileTypes: true });
+  const sessions: SessionHistoryEntry[] = [];
+  for (const entry of entries) {
+    if (!entry.isFile() || !entry.name.endsWith('.json')) {
+      continue;
+    }
+    const sessionId = entry.name.replace(/\.json$/, '');
+    if (excludeId && sessionId === excludeId) {
+      continue;
+    }
+    const content = await fs.readFile(path.join(sessionsDir, entry.name), 'utf8');
+    const parsed = JSON.parse(content) as {
+      id: string;
+      status: string;
+      updatedAt: string;
+      workingDirectory?: string;
+      specs: Array<{ status: string; file?: string }>;
+    };
+    const specs = parsed.specs ?? [];
+    sessions.push({
+      id: parsed.id,
+      status: parsed.status,
+      updatedAt: parsed.updatedAt,
+      workingDirectory: parsed.workingDirectory ?? cwd,
+      activeSpec: specs.find((spec) => spec.status === 'in_progress')?.file ?? null,
+      specs: {
+        total: specs.length,
+        completed: specs.filter((spec) => spec.status === 'completed').length,
+        failed: specs.filter((spec) => spec.status === 'failed').length,
+        inProgress: specs.filter((spec) => spec.status === 'in_progress').length
+      }
+    });
+  }
+  sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  return sessions;
+}
@@ -0,0 +1,288 @@
+import http from 'node:http';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import { Session } from '../types.js';
+import { SPECS_DIR, getProjectReportsDir } from '../config/paths.js';
+import { pathExists } from '../utils/fs.js';
+import { WebSocketConnection, acceptWebSocket } from '../utils/websocket.js';
+import { loadSpecs, orderSpecs } from '../specs/discovery.js';
+import { CoordinatorEvent } from './events.js';
+import { buildSpecsDocument, buildStatusDocument, formatJson } from './json-output.js';
+import { loadLatestSession, loadSessionById, loadSessionHistory } from './session.js';
+
+export const DEFAULT_SERVE_PORT = 7420;
+
+// Only loopback is served; teammates reach it through an SSH tunnel or similar.
+const SERVE_HOST = '127.0.0.1';
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+// Events kept for clients that connect mid-run.
+const EVENT_REPLAY_LIMIT = 500;
+
+export interface StatusServerOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  port: number;
+  // Pins the session served (aic run --serve knows it once the run starts).
+  sessionId?: () => string | undefined;
+}
+
+export interface StatusServer {
+  url: string;
+  port: number;
+  // Forwards an event to every WebSocket client and keeps it for replay.
+  publish(event: CoordinatorEvent): void;
+  close(): Promise<void>;
+}
+
+interface Reply {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+// Read-only view of the project's session state:
+//   GET /                                  dashboard page
+//   GET /api/session                       the `aic status --json` document
+//   GET /api/specs                         the `aic specs --json` document
+//   GET /api/specs/:id                     one spec with its cycles
+//   GET /api/specs/:id/cycles[/:number]    a spec's cycles
+//   GET /api/reports[/:name]               report files in .ai-coord/reports
+//   GET /api/events (WebSocket)            live coordinator events as JSON text frames
+// Every request reads the session file again, so `aic serve` can watch a run in another process.
+export async function startStatusServer(options: StatusServerOptions): Promise<StatusServer> {
+  const clients = new Set<WebSocketConnection>();
+  const replay: string[] = [];
+
+  const server = http.createServer((request, response) => {
+    void handleRequest(request, options).then((reply) => {
+      response.writeHead(reply.status, { 'Content-Type': reply.contentType, 'Cache-Control': 'no-store' });
+      response.end(reply.body);
+    });
+  });
+
+  server.on('upgrade', (request, socket) => {
+    if (!isLocalRequest(request) || requestPath(request) !== '/api/events') {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    // Browsers send Origin on WebSocket handshakes, and the same-origin policy does not apply to
+    // them, so only the dashboard page itself may subscribe.
+    if (!isLocalOrigin(request, (server.address() as AddressInfo).port)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    const connection = acceptWebSocket(request, socket);
+    if (!connection) {
+      return;
+    }
+    clients.add(connection);
+    connection.onClose(() => clients.delete(connection));
+    replay.forEach((message) => connection.send(message));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'EADDRINUSE'
+        ? new Error(`Port ${options.port} is already in use; choose another with --port.`)
+        : error);
+    });
+    server.listen(options.port, SERVE_HOST, resolve);
+  });
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://${SERVE_HOST}:${port}`,
+    port,
+    publish: (event) => {
+      const message = JSON.stringify(event);
+      replay.push(message);
+      if (replay.length > EVENT_REPLAY_LIMIT) {
+        replay.shift();
+      }
+      clients.forEach((client) => client.send(message));
+    },
+    close: async () => {
+      clients.forEach((client) => client.close());
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    }
+  };
+}
+
+async function handleRequest(request: http.IncomingMessage, options: StatusServerOptions): Promise<Reply> {
+  // Rejects other Host names so a web page cannot reach the server through DNS rebinding.
+  if (!isLocalRequest(request)) {
+    return jsonReply(403, { error: 'Only localhost requests are served.' });
+  }
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return jsonReply(405, { error: 'The status server is read-only.' });
+  }
+  try {
+    return await route(requestPath(request), options);
+  } catch (error) {
+    return jsonReply(500, { error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+async function route(pathname: string, options: StatusServerOptions): Promise<Reply> {
+  const parts = pathname.split('/').filter(Boolean).map((part) => decodeURIComponent(part));
+  if (parts.length === 0) {
+    return { status: 200, contentType: 'text/html; charset=utf-8', body: DASHBOARD_HTML };
+  }
+  if (parts[0] !== 'api') {
+    return notFound(pathname);
+  }
+  const [, resource, id, child, number] = parts;
+
+  if (resource === 'session' && parts.length === 2) {
+    const session = await resolveSession(options);
+    return jsonReply(200, buildStatusDocument(session, await loadSessionHistory(options.cwd, session?.id)));
+  }
+
+  if (resource === 'specs') {
+    const session = await resolveSession(options);
+    if (parts.length === 2) {
+      const specs = session
+        ? orderSpecs(session.specs)
+        : orderSpecs((await loadSpecs(path.join(options.cwd, SPECS_DIR))).map((spec) => spec.entry));
+      return jsonReply(200, buildSpecsDocument(specs, session));
+    }
+    const spec = session?.specs.find((entry) => entry.meta?.id === id || entry.file === id);
+    if (!spec) {
+      return notFound(pathname);
+    }
+    const cycles = spec.cycles ?? [];
+    if (parts.length === 3) {
+      return jsonReply(200, spec);
+    }
+    if (child === 'cycles' && parts.length === 4) {
+      return jsonReply(200, cycles);
+    }
+    const cycle = child === 'cycles' && parts.length === 5 ? cycles.find((entry) => String(entry.number) === number) : undefined;
+    return cycle ? jsonReply(200, cycle) : notFound(pathname);
+  }
+
+  if (resource === 'reports') {
+    const reportsDir = getProjectReportsDir(options.cwd);
+    if (parts.length === 2) {
+      return jsonReply(200, await listReports(reportsDir));
+    }
+    // Report names are flat file names; anything that could leave the directory is not found.
+    if (parts.length !== 3 || id !== path.basename(id) || id.startsWith('.')) {
+      return notFound(pathname);
+    }
+    const reportPath = path.join(reportsDir, id);
+    if (!(await pathExists(reportPath))) {
+      return notFound(pathname);
+    }
+    return { status: 200, contentType: 'text/markdown; charset=utf-8', body: await fs.readFile(reportPath, 'utf8') };
+  }
+
+  if (resource === 'events' && parts.length === 2) {
+    return jsonReply(426, { error: 'Connect with a WebSocket to receive events.' });
+  }
+  return notFound(pathname);
+}
+
+// The pinned session, else the current or latest one.
+async function resolveSession(options: StatusServerOptions): Promise<Session | null> {
+  const pinned = options.sessionId?.();
+  return pinned ? loadSessionById(options.cwd, pinned, options.env) : loadLatestSession(options.cwd, options.env);
+}
+
+async function listReports(reportsDir: string): Promise<Array<{ name: string; size: number; updatedAt: string }>> {
+  if (!(await pathExists(reportsDir))) {
+    return [];
+  }
+  const reports: Array<{ name: string; size: number; updatedAt: string }> = [];
+  for (const entry of await fs.readdir(reportsDir, { withFileTypes: true })) {
+    if (entry.isFile()) {
+      const stat = await fs.stat(path.join(reportsDir, entry.name));
+      reports.push({ name: entry.name, size: stat.size, updatedAt: stat.mtime.toISOString() });
+    }
+  }
+  return reports.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt) || a.name.localeCompare(b.name));
+}
+
+function isLocalRequest(request: http.IncomingMessage): boolean {
+  const host = (request.headers.host ?? '').toLowerCase().replace(/:\d+$/, '');
+  return LOCAL_HOSTNAMES.has(host);
+}
+
+// Clients that are not browsers send no Origin and are allowed.
+function isLocalOrigin(request: http.IncomingMessage, port: number): boolean {
+  const origin = request.headers.origin;
+  return origin === undefined || origin === `http://localhost:${port}` || origin === `http://127.0.0.1:${port}`;
+}
+
+function requestPath(request: http.IncomingMessage): string {
+  return new URL(request.url ?? '/', 'http://localhost').pathname;
+}
+
+function jsonReply(status: number, value: unknown): Reply {
+  return { status, contentType: 'application/json; charset=utf-8', body: formatJson(value as object) };
+}
+
+function notFound(pathname: string): Reply {
+  return jsonReply(404, { error: `Not found: ${pathname}` });
+}
+
+const DASHBOARD_HTML = `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>aic status</title>
+<style>
+body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; margin: 1rem 0; }
+td, th { border-bottom: 1px solid #ddd; padding: 0.3rem 0.8rem; text-align: left; }
+#events { font: 12px monospace; max-height: 24rem; overflow-y: auto; background: #f6f6f6; padding: 0.5rem; }
+</style>
+</head>
+<body>
+<h1>aic status</h1>
+<p id="summary">Loading...</p>
+<table><thead><tr><th>#</th><th>Spec</th><th>Status</th><th>Cycles</th><th>Completeness</th><th>Findings</th></tr></thead><tbody id="specs"></tbody></table>
+<h2>Events <small id="feed"></small></h2>
+<div id="events"></div>
+<script>
+const text = (value) => String(value ?? '-').replace(/[&<>]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;' })[c]);
+async function refresh() {
+  const status = await (await fetch('/api/session')).json();
+  const specs = await (await fetch('/api/specs')).json();
+  const session = status.session;
+  document.getElementById('summary').textContent = session
+    ? session.id + ': ' + session.status + ' - ' + session.counts.completed + '/' + session.counts.total + ' completed, '
+      + session.counts.failed + ' failed - ' + session.usage.tokens + ' tokens, $' + session.usage.cost.toFixed(2)
+    : 'No session yet.';
+  document.getElementById('specs').innerHTML = specs.specs.map((spec) => '<tr><td>' + spec.order + '</td><td>' + text(spec.id)
+    + '</td><td>' + text(spec.status) + '</td><td>' + spec.cycles + '</td><td>' + text(spec.completeness)
+    + '</td><td>' + spec.findings.length + '</td></tr>').join('');
+}
+let pending;
+function refreshSoon() {
+  clearTimeout(pending);
+  pending = setTimeout(() => void refresh(), 300);
+}
+function connect() {
+  const socket = new WebSocket('ws://' + location.host + '/api/events');
+  socket.onopen = () => { document.getElementById('feed').textContent = '(live)'; };
+  socket.onclose = () => { document.getElementById('feed').textContent = '(disconnected, retrying)'; setTimeout(connect, 3000); };
+  socket.onmessage = (message) => {
+    const event = JSON.parse(message.data);
+    const line = document.createElement('div');
+    line.textContent = event.timestamp + ' ' + event.type + (event.specId ? ' ' + event.specId : '') + (event.tool ? ' ' + event.tool : '');
+    document.getElementById('events').prepend(line);
+    refreshSoon();
+  };
+}
+void refresh();
+connect();
+</script>
+</body>
+</html>
+`;
@@ -2,8 +2,10 @@ import path from 'node:path';
 import fs from 'node:fs/promises';
 import { Minimatch } from 'minimatch';
 import YAML from 'yaml';
-import { SpecEntry, SpecMetadata } from '../types.js';
+import { AcceptanceCriterion, CommandValidatorConfig, SpecEntry, SpecExpectations, SpecMetadata } from '../types.js';
 import { readTextFile } from '../utils/fs.js';
+import { parseConsensusSetting } from '../orchestration/consensus.js';
+import { parseCommandValidatorConfig } from '../orchestration/command-validator.js';
 
 export interface SpecDiscoveryOptions {
   include?: string[];
@@ -45,11 +47,11 @@ export async function loadSpec(filePath: string): Promise<LoadedSpec | null> {
   if (!frontMatter) {
     return null;
   }
-  const metadata = parseSpecMetadata(frontMatter);
+  const file = path.basename(filePath);
+  const metadata = parseSpecMetadata(frontMatter, file);
   if (!metadata) {
     return null;
   }
-  const file = path.basename(filePath);
   const entry: SpecEntry = {
     file,
     path: filePath,
@@ -57,6 +59,10 @@ export async function loadSpec(filePath: string): Promise<LoadedSpec | null> {
     status: 'pending',
     cycles: []
   };
+  const criteria = extractAcceptanceCriteria(content);
+  if (criteria.length > 0) {
+    entry.criteria = criteria;
+  }
   if (file.startsWith('system-')) {
     entry.contextOnly = true;
   }
@@ -134,6 +140,107 @@ export function orderSpecs(specs: SpecEntry[]): SpecEntry[] {
   return [...systemSpecs, ...ordered];
 }
 
+const CRITERIA_SECTION = /\b(acceptance criteria|functional requirements|requirements|success criteria|definition of done)\b/i;
+const CRITERION_ID = /^(?:\*\*)?((?:AC|FR|NFR|REQ)-\d+(?:\.\d+)*)(?:\*\*)?\s*(?:[:.)\-\u2013\u2014]\s*)?(?:\*\*)?\s*(.*)$/i;
+const CRITERION_LINE = /^(?:\*\*)?((?:AC|FR|NFR|REQ)-\d+(?:\.\d+)*)(?:\*\*)?\s*[:.)\-\u2013\u2014]\s*(?:\*\*)?\s*(.+)$/i;
+const LIST_ITEM = /^( {0,1})(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+
+// Collects checkable requirements from the spec body: top-level list items under an acceptance
+// criteria or requirements heading, headings and lines that start with an explicit id
+// (AC-n, FR-n, NFR-n, REQ-n), and task-list checkboxes anywhere. Items without an explicit id
+// are numbered AC-1, AC-2, ... in document order.
+export function extractAcceptanceCriteria(content: string): AcceptanceCriterion[] {
+  const body = stripFrontMatter(content);
+  const found: Array<{ id?: string; text: string }> = [];
+  let section: { level: number } | undefined;
+  let inFence = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      continue;
+    }
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(rawLine);
+    if (heading) {
+      const level = heading[1].length;
+      if (section && level <= section.level) {
+        section = undefined;
+      }
+      const explicit = CRITERION_ID.exec(heading[2]);
+      if (explicit && explicit[2]) {
+        found.push({ id: explicit[1], text: explicit[2] });
+      } else if (CRITERIA_SECTION.test(heading[2])) {
+        section = { level };
+      }
+      continue;
+    }
+    const item = LIST_ITEM.exec(rawLine);
+    if (item) {
+      const text = item[3].trim();
+      const explicit = CRITERION_ID.exec(text);
+      if (explicit && explicit[2]) {
+        found.push({ id: explicit[1], text: explicit[2] });
+      } else if ((item[2] !== undefined || section) && text) {
+        found.push({ text });
+      }
+      continue;
+    }
+    // Plain lines need a separator after the id so prose that merely mentions FR-2 is not picked up.
+    const labelled = CRITERION_LINE.exec(rawLine.trim());
+    if (labelled) {
+      found.push({ id: labelled[1], text: labelled[2] });
+    }
+  }
+
+  const criteria: AcceptanceCriterion[] = [];
+  const ids = new Set<string>();
+  const texts = new Set<string>();
+  const explicitIds = new Set(found
+    .filter((item): item is { id: string; text: string } => Boolean(item.id))
+    .map((item) => item.id.toUpperCase()));
+  let nextNumber = 1;
+  for (const item of found) {
+    const text = cleanCriterionText(item.text);
+    if (!text || texts.has(text.toLowerCase())) {
+      continue;
+    }
+    let id = item.id?.toUpperCase();
+    if (!id) {
+      while (explicitIds.has(`AC-${nextNumber}`)) {
+        nextNumber += 1;
+      }
+      id = `AC-${nextNumber}`;
+      nextNumber += 1;
+    }
+    if (ids.has(id)) {
+      continue;
+    }
+    ids.add(id);
+    texts.add(text.toLowerCase());
+    criteria.push({ id, text });
+  }
+  return criteria;
+}
+
+function cleanCriterionText(text: string): string {
+  return text.replace(/\*\*|__/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function stripFrontMatter(content: string): string {
+  if (!content.startsWith('---')) {
+    return content;
+  }
+  const endIndex = content.indexOf('\n---', 3);
+  if (endIndex === -1) {
+    return content;
+  }
+  const bodyStart = content.indexOf('\n', endIndex + 4);
+  return bodyStart === -1 ? '' : content.slice(bodyStart + 1);
+}
+
 function extractFrontMatter(content: string): string | null {
   if (!content.startsWith('---')) {
     return null;
@@ -145,33 +252,135 @@ function extractFrontMatter(content: string): string | null {
   return content.slice(3, endIndex).trim();
 }
 
-function parseSpecMetadata(frontMatter: string): SpecMetadata | null {
+function parseSpecMetadata(frontMatter: string, file: string): SpecMetadata | null {
+  let data: Record<string, unknown>;
   try {
-    const data = YAML.parse(frontMatter) as Record<string, unknown>;
-    if (!data || typeof data !== 'object') {
-      return null;
-    }
-    if (!data.specmas || !data.kind || !data.id || !data.name || !data.complexity || !data.maturity) {
-      return null;
-    }
-    const depends = data.depends_on ?? data.dependsOn;
-    let dependsOn: string[] | undefined;
-    if (Array.isArray(depends)) {
-      dependsOn = depends.map((value) => String(value));
-    } else if (typeof depends === 'string') {
-      dependsOn = [depends];
-    }
-    const metadata: SpecMetadata = {
-      id: String(data.id),
-      name: String(data.name),
-      complexity: normalizeComplexity(String(data.complexity)),
-      maturity: Number(data.maturity),
-      dependsOn
-    };
-    return metadata;
+    data = YAML.parse(frontMatter) as Record<string, unknown>;
   } catch {
     return null;
   }
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  if (!data.specmas || !data.kind || !data.id || !data.name || !data.complexity || !data.maturity) {
+    return null;
+  }
+  const depends = data.depends_on ?? data.dependsOn;
+  let dependsOn: string[] | undefined;
+  if (Array.isArray(depends)) {
+    dependsOn = depends.map((value) => String(value));
+  } else if (typeof depends === 'string') {
+    dependsOn = [depends];
+  }
+  const metadata: SpecMetadata = {
+    id: String(data.id),
+    name: String(data.name),
+    complexity: normalizeComplexity(String(data.complexity)),
+    maturity: Number(data.maturity),
+    dependsOn
+  };
+  try {
+    const consensus = parseConsensusSetting(data.consensus);
+    if (consensus) {
+      metadata.consensus = consensus;
+    }
+    const verify = parseVerifyCommands(data.verify);
+    if (verify) {
+      metadata.verify = verify;
+    }
+    const expects = parseExpectations(data.expects);
+    if (expects) {
+      metadata.expects = expects;
+    }
+    if (data.timeout !== undefined) {
+      metadata.timeout = parseSpecTimeout(data.timeout);
+    }
+  } catch (error) {
+    // A typo in the policy or verification settings should stop the run rather than silently
+    // fall back to defaults.
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${file}: ${message}`);
+  }
+  return metadata;
+}
+
+// `verify` takes a command string or a list of strings and command validator objects. Spec
+// verification commands are hard gates unless they set `gate: false`.
+function parseVerifyCommands(value: unknown): CommandValidatorConfig[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : [value];
+  const commands = items.map((item, index): CommandValidatorConfig => {
+    if (typeof item === 'string') {
+      if (!item.trim()) {
+        throw new Error(`verify entry ${index + 1}: command is empty`);
+      }
+      return { name: `verify-${index + 1}`, command: item.trim(), gate: true };
+    }
+    const record = item && typeof item === 'object' && !Array.isArray(item) ? item as Record<string, unknown> : undefined;
+    const named = record && record.name === undefined ? { ...record, name: `verify-${index + 1}` } : item;
+    const config = parseCommandValidatorConfig(named, `verify entry ${index + 1}`);
+    return { ...config, gate: config.gate ?? true };
+  });
+  const names = commands.map((command) => command.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`verify: duplicate command name "${duplicate}"`);
+  }
+  return commands;
+}
+
+function parseExpectations(value: unknown): SpecExpectations | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('expects: expected an object with "files" and/or "exports"');
+  }
+  const record = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(record).filter((key) => key !== 'files' && key !== 'exports');
+  if (unknownKeys.length > 0) {
+    throw new Error(`expects: unknown field ${unknownKeys.map((key) => `"${key}"`).join(', ')} (expected "files" or "exports")`);
+  }
+  const expects: SpecExpectations = {};
+  if (record.files !== undefined) {
+    const files = Array.isArray(record.files) ? record.files : [record.files];
+    expects.files = files.map((file) => parseProjectPath(file, 'expects.files'));
+  }
+  if (record.exports !== undefined) {
+    if (!record.exports || typeof record.exports !== 'object' || Array.isArray(record.exports)) {
+      throw new Error('expects.exports: expected a map of file path to exported names');
+    }
+    expects.exports = {};
+    for (const [file, names] of Object.entries(record.exports as Record<string, unknown>)) {
+      const list = Array.isArray(names) ? names : [names];
+      if (list.length === 0 || list.some((name) => typeof name !== 'string' || !/^[A-Za-z_$][\w$]*$/.test(name))) {
+        throw new Error(`expects.exports.${file}: expected a list of identifiers`);
+      }
+      expects.exports[parseProjectPath(file, 'expects.exports')] = list as string[];
+    }
+  }
+  return expects;
+}
+
+function parseProjectPath(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${field}: expected a file path`);
+  }
+  const normalized = path.posix.normalize(value.trim().replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || normalized.startsWith('../') || normalized === '..') {
+    throw new Error(`${field}: "${value}" must be a path inside the project`);
+  }
+  return normalized;
+}
+
+function parseSpecTimeout(value: unknown): number {
+  const timeout = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw new Error(`timeout: expected a positive number of minutes, got ${JSON.stringify(value)}`);
+  }
+  return timeout;
 }
 
 function normalizeComplexity(value: string): SpecMetadata['complexity'] {
@@ -0,0 +1,262 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { TokenUsage, ToolName } from '../types.js';
+import { TOKEN_USAGE_FORMATS, TokenUsageFormat, parseTokenUsage } from './token-usage.js';
+import { parseBoolean, parseNonEmptyString } from '../config/schema.js';
+
+export interface StructuredOutputOptions {
+  jsonFlag?: string;
+  schemaFlag: string;
+  lastMessageFlag: string;
+  env?: Record<string, string>;
+}
+
+export interface ToolAdapter {
+  name: ToolName;
+  command: string;
+  leadArgs: string[];
+  validatorArgs: string[];
+  // Flag (with value) dropped and retried when the installed CLI rejects it.
+  outputFormatFlag?: string;
+  // Read-only permission flags; rejection falls back to running with the bare prompt.
+  readOnlyFlags?: string[];
+  // CLIs that require a TTY on stdin outside the sandbox.
+  needsTtyStdin?: boolean;
+  // CLIs that accept a JSON schema file and write their final message to a file.
+  structuredOutput?: StructuredOutputOptions;
+  buildLeadPermissionArgs?: (permissions: string[], prompt: string) => string[];
+  extractTokenUsage?: (output: string) => TokenUsage | undefined;
+  isRateLimited?: (output: string) => boolean;
+}
+
+export interface ToolAdapterConfig {
+  name: string;
+  command?: string;
+  leadArgs?: string[];
+  validatorArgs?: string[];
+  outputFormatFlag?: string;
+  readOnlyFlags?: string[];
+  needsTtyStdin?: boolean;
+  leadPermissionsFlag?: string;
+  tokenUsageFormat?: TokenUsageFormat;
+  rateLimitPatterns?: string[];
+}
+
+export interface ToolAdapterSources {
+  tools?: ToolAdapterConfig[];
+  toolModules?: string[];
+}
+
+const TOOL_ADAPTER_STRING_FIELDS = ['name', 'command', 'outputFormatFlag', 'leadPermissionsFlag'];
+const TOOL_ADAPTER_LIST_FIELDS = ['leadArgs', 'validatorArgs', 'readOnlyFlags', 'rateLimitPatterns'];
+
+export const BUILTIN_TOOL_ADAPTERS: ToolAdapter[] = [
+  {
+    name: 'claude',
+    command: 'claude',
+    leadArgs: ['--dangerously-skip-permissions', '-p', '--output-format', 'json'],
+    validatorArgs: ['--allowedTools', 'View,Read,Grep,Glob,LS', '-p', '--output-format', 'json'],
+    outputFormatFlag: '--output-format',
+    readOnlyFlags: ['--allowedTools'],
+    buildLeadPermissionArgs: (permissions, prompt) => [
+      '--allowedTools',
+      permissions.join(','),
+      '-p',
+      prompt,
+      '--output-format',
+      'json'
+    ],
+    extractTokenUsage: (output) => parseTokenUsage('usage', output)
+  },
+  {
+    name: 'codex',
+    command: 'codex',
+    leadArgs: ['exec', '--color', 'never', '--full-auto', '--json'],
+    validatorArgs: ['exec', '--color', 'never', '--json'],
+    needsTtyStdin: true,
+    structuredOutput: {
+      jsonFlag: '--json',
+      schemaFlag: '--output-schema',
+      lastMessageFlag: '--output-last-message',
+      env: { TERM: 'dumb', NO_COLOR: '1', CLICOLOR: '0' }
+    },
+    extractTokenUsage: (output) => parseTokenUsage('events', output)
+  },
+  {
+    name: 'gemini',
+    command: 'gemini',
+    leadArgs: ['--output-format', 'json'],
+    validatorArgs: ['--output-format', 'json', '--allowed-tools', 'View,Read,Grep,Glob,LS'],
+    outputFormatFlag: '--output-format',
+    readOnlyFlags: ['--allowed-tools'],
+    extractTokenUsage: (output) => parseTokenUsage('stats', output)
+  }
+];
+
+const adapters = new Map<ToolName, ToolAdapter>(
+  BUILTIN_TOOL_ADAPTERS.map((adapter) => [adapter.name, adapter])
+);
+
+export function registerToolAdapter(adapter: ToolAdapter): void {
+  assertToolAdapter(adapter);
+  adapters.set(adapter.name, adapter);
+}
+
+export function resetToolAdapters(): void {
+  adapters.clear();
+  for (const adapter of BUILTIN_TOOL_ADAPTERS) {
+    adapters.set(adapter.name, adapter);
+  }
+}
+
+export function listToolAdapters(): ToolAdapter[] {
+  return [...adapters.values()];
+}
+
+export function getToolAdapter(name: ToolName): ToolAdapter {
+  const adapter = adapters.get(name);
+  if (!adapter) {
+    throw new Error(`Unsupported tool: ${name}`);
+  }
+  return adapter;
+}
+
+export function isToolRateLimited(name: ToolName, output: string): boolean {
+  const adapter = adapters.get(name);
+  if (adapter?.isRateLimited) {
+    return adapter.isRateLimited(output);
+  }
+  return isRateLimitMessage(output);
+}
+
+export function isRateLimitMessage(message: string): boolean {
+  const lower = message.toLowerCase();
+  return (
+    lower.includes('limit reached') ||
+    lower.includes('rate limit') ||
+    lower.includes('quota') ||
+    lower.includes('too many requests')
+  );
+}
+
+export function extractToolTokenUsage(name: ToolName, output: string): TokenUsage | undefined {
+  const adapter = adapters.get(name);
+  if (!adapter?.extractTokenUsage) {
+    return undefined;
+  }
+  try {
+    return adapter.extractTokenUsage(output);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function loadToolAdapters(sources: ToolAdapterSources, baseDir: string): Promise<ToolAdapter[]> {
+  const loaded: ToolAdapter[] = [];
+  for (const config of sources.tools ?? []) {
+    loaded.push(adapterFromConfig(config));
+  }
+  for (const modulePath of sources.toolModules ?? []) {
+    const resolved = path.isAbsolute(modulePath) ? modulePath : path.resolve(baseDir, modulePath);
+    let mod: Record<string, unknown>;
+    try {
+      mod = await import(pathToFileURL(resolved).href) as Record<string, unknown>;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load tool module ${modulePath}: ${message}`);
+    }
+    const exported = mod.default ?? mod.adapters ?? mod.adapter;
+    const list = Array.isArray(exported) ? exported : [exported];
+    for (const candidate of list) {
+      assertToolAdapter(candidate, modulePath);
+      loaded.push(candidate);
+    }
+  }
+  for (const adapter of loaded) {
+    registerToolAdapter(adapter);
+  }
+  return loaded;
+}
+
+export function adapterFromConfig(config: ToolAdapterConfig): ToolAdapter {
+  if (!config || typeof config.name !== 'string' || !config.name.trim()) {
+    throw new Error('Tool adapter config requires a name');
+  }
+  const name = config.name.trim();
+  const patterns = (config.rateLimitPatterns ?? []).map((pattern) => pattern.toLowerCase());
+  const permissionsFlag = config.leadPermissionsFlag;
+  const usageFormat = config.tokenUsageFormat;
+  const validatorArgs = config.validatorArgs ?? config.leadArgs ?? [];
+  return {
+    name,
+    command: config.command ?? name,
+    leadArgs: config.leadArgs ?? [],
+    validatorArgs,
+    outputFormatFlag: config.outputFormatFlag,
+    readOnlyFlags: config.readOnlyFlags,
+    needsTtyStdin: config.needsTtyStdin,
+    buildLeadPermissionArgs: permissionsFlag
+      ? (permissions, prompt) => [...(config.leadArgs ?? []), permissionsFlag, permissions.join(','), prompt]
+      : undefined,
+    extractTokenUsage: usageFormat ? (output) => parseTokenUsage(usageFormat, output) : undefined,
+    isRateLimited: patterns.length > 0
+      ? (output) => {
+        const lower = output.toLowerCase();
+        return patterns.some((pattern) => lower.includes(pattern));
+      }
+      : undefined
+  };
+}
+
+// Checks adapter entries from the global or project config, naming the entry and field at fault.
+export function parseToolAdapterConfigs(value: unknown, field: string): ToolAdapterConfig[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${field}: expected an array of tool adapters`);
+  }
+  return value.map((item, index) => {
+    const entry = `${field}[${index}]`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`${entry}: expected an object`);
+    }
+    const record = item as Record<string, unknown>;
+    parseNonEmptyString(record.name, `${entry}.name`);
+    for (const [key, fieldValue] of Object.entries(record)) {
+      if (TOOL_ADAPTER_STRING_FIELDS.includes(key)) {
+        parseNonEmptyString(fieldValue, `${entry}.${key}`);
+      } else if (TOOL_ADAPTER_LIST_FIELDS.includes(key)) {
+        if (!Array.isArray(fieldValue) || fieldValue.some((arg) => typeof arg !== 'string')) {
+          throw new Error(`${entry}.${key}: expected a list of strings`);
+        }
+      } else if (key === 'needsTtyStdin') {
+        parseBoolean(fieldValue, `${entry}.needsTtyStdin`);
+      } else if (key === 'tokenUsageFormat') {
+        if (!(TOKEN_USAGE_FORMATS as unknown[]).includes(fieldValue)) {
+          throw new Error(`${entry}.tokenUsageFormat: expected ${TOKEN_USAGE_FORMATS.map((format) => `"${format}"`).join(', ')}`);
+        }
+      } else {
+        throw new Error(`${entry}: unknown field "${key}"`);
+      }
+    }
+    return record as unknown as ToolAdapterConfig;
+  });
+}
+
+function assertToolAdapter(candidate: unknown, source?: string): asserts candidate is ToolAdapter {
+  const suffix = source ? ` (from ${source})` : '';
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error(`Invalid tool adapter${suffix}: expected an object`);
+  }
+  const record = candidate as Record<string, unknown>;
+  if (typeof record.name !== 'string' || !record.name.trim()) {
+    throw new Error(`Invalid tool adapter${suffix}: missing name`);
+  }
+  if (typeof record.command !== 'string' || !record.command.trim()) {
+    throw new Error(`Invalid tool adapter ${record.name}${suffix}: missing command`);
+  }
+  for (const key of ['leadArgs', 'validatorArgs']) {
+    const value = record[key];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      throw new Error(`Invalid tool adapter ${record.name}${suffix}: ${key} must be a string array`);
+    }
+  }
+}
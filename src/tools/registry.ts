@@ -2,11 +2,23 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import { execa } from 'execa';
 import { ToolInfo, ToolName, ToolRegistry } from '../types.js';
-import { TOOL_DEFINITIONS } from './tool-definitions.js';
+import { listToolAdapters, loadToolAdapters } from './adapters.js';
+import { readGlobalConfig } from '../config/global-config.js';
+import { getConfigFile } from '../config/paths.js';
+import { readProjectConfig } from '../config/project-config.js';
 
-export async function detectTools(env: NodeJS.ProcessEnv = process.env): Promise<ToolRegistry> {
+// A tool the run needs is missing, unauthenticated or rate limited; `aic run --ci` exits 3 on it.
+export class ToolUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolUnavailableError';
+  }
+}
+
+export async function detectTools(env: NodeJS.ProcessEnv = process.env, cwd?: string): Promise<ToolRegistry> {
+  await loadConfiguredToolAdapters(env, cwd);
   const available = new Map<ToolName, ToolInfo>();
-  for (const tool of TOOL_DEFINITIONS) {
+  for (const tool of listToolAdapters()) {
     const resolved = await resolveOnPath(tool.command, env);
     if (!resolved) {
       continue;
@@ -23,7 +35,19 @@ export async function detectTools(env: NodeJS.ProcessEnv = process.env): Promise
 }
 
 export function getDefaultLeadOrder(): ToolName[] {
-  return ['claude', 'codex', 'gemini'];
+  return listToolAdapters().map((adapter) => adapter.name);
+}
+
+// Project adapters are registered after global ones, so a project entry replaces a global one with the same name.
+export async function loadConfiguredToolAdapters(env: NodeJS.ProcessEnv = process.env, cwd?: string): Promise<void> {
+  const config = await readGlobalConfig(env);
+  if (config.tools || config.toolModules) {
+    await loadToolAdapters(config, path.dirname(getConfigFile(env)));
+  }
+  const project = cwd ? await readProjectConfig(cwd) : undefined;
+  if (project && (project.config.tools || project.config.toolModules)) {
+    await loadToolAdapters(project.config, path.dirname(project.path));
+  }
 }
 
 async function resolveOnPath(command: string, env: NodeJS.ProcessEnv): Promise<string | null> {
@@ -1,5 +1,5 @@
 import { ToolName } from '../types.js';
-import { getDefaultLeadOrder } from './registry.js';
+import { ToolUnavailableError, getDefaultLeadOrder } from './registry.js';
 
 export interface RoleAssignment {
   lead: ToolName;
@@ -12,7 +12,7 @@ export function assignRoles(
   requestedValidators?: ToolName[]
 ): RoleAssignment {
   if (availableTools.length < 2) {
-    throw new Error('At least 2 AI tools required');
+    throw new ToolUnavailableError('At least 2 AI tools required');
   }
 
   const uniqueAvailable = new Set(availableTools);
@@ -20,13 +20,13 @@ export function assignRoles(
   let validators: ToolName[] | undefined = requestedValidators;
 
   if (lead && !uniqueAvailable.has(lead)) {
-    throw new Error(`Lead tool not available: ${lead}`);
+    throw new ToolUnavailableError(`Lead tool not available: ${lead}`);
   }
 
   if (validators) {
     for (const validator of validators) {
       if (!uniqueAvailable.has(validator)) {
-        throw new Error(`Validator tool not available: ${validator}`);
+        throw new ToolUnavailableError(`Validator tool not available: ${validator}`);
       }
     }
   }
@@ -37,7 +37,7 @@ export function assignRoles(
   }
 
   if (!lead) {
-    throw new Error('No lead tool available');
+    throw new ToolUnavailableError('No lead tool available');
   }
 
   if (!validators) {
@@ -47,7 +47,7 @@ export function assignRoles(
   validators = validators.filter((tool) => tool !== lead);
 
   if (validators.length === 0) {
-    throw new Error('At least 1 validator required');
+    throw new ToolUnavailableError('At least 1 validator required');
   }
 
   return { lead, validators };
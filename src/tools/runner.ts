@@ -2,8 +2,8 @@ import { execa } from 'execa';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
-import { ExecutionResult, ToolName, ToolRunner, TokenUsage } from '../types.js';
-import { getToolDefinition } from './tool-definitions.js';
+import { ExecutionResult, ToolName, ToolRunner } from '../types.js';
+import { ToolAdapter, extractToolTokenUsage, getToolAdapter } from './adapters.js';
 
 export interface RunnerConfig {
   interactive: boolean;
@@ -20,8 +20,59 @@ export interface RunnerConfig {
     args: string[];
   }) => void;
   onWarning?: (message: string) => void;
+  // Receives every stdout/stderr chunk as it arrives, whether or not verbose output is on.
+  onOutput?: (tool: ToolName, text: string) => void;
 }
 
+const VALIDATION_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    response_block: {
+      type: 'object',
+      properties: {
+        completeness: { type: 'number' },
+        status: { type: 'string', enum: ['PASS', 'FAIL'] },
+        findings: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              spec_requirement: { type: 'string' },
+              gap_description: { type: 'string' },
+              original_code: { type: 'string' },
+              proposed_diff: { type: 'string' },
+              severity: { type: 'string', enum: ['critical', 'major', 'minor', 'info'] },
+              requirement_id: { type: 'string' },
+              file: { type: 'string' },
+              line: { type: 'number' }
+            },
+            required: ['spec_requirement', 'gap_description', 'original_code', 'proposed_diff']
+          }
+        },
+        recommendations: {
+          type: 'array',
+          items: { type: 'string' }
+        },
+        criteria: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              verdict: { type: 'string', enum: ['met', 'partial', 'unmet'] },
+              evidence: { type: 'string' }
+            },
+            required: ['id', 'verdict']
+          }
+        }
+      },
+      required: ['completeness', 'status', 'findings', 'recommendations']
+    }
+  },
+  required: ['response_block'],
+  additionalProperties: false
+};
+
 export class DefaultToolRunner implements ToolRunner {
   private config: RunnerConfig;
 
@@ -30,46 +81,55 @@ export class DefaultToolRunner implements ToolRunner {
   }
 
   async runLead(tool: ToolName, prompt: string, cwd: string, timeoutMs: number): Promise<ExecutionResult> {
-    const definition = getToolDefinition(tool);
-    const args = this.buildLeadArgs(definition, prompt);
-    const result = await this.execute(definition.command, args, cwd, timeoutMs, tool);
-    if (shouldRetryWithoutOutputFormat(definition.name, result.output)) {
+    const adapter = getToolAdapter(tool);
+    const args = this.buildLeadArgs(adapter, prompt);
+    const structured = !this.config.interactive;
+    const result = await this.execute(adapter, args, cwd, timeoutMs, structured);
+    if (shouldRetryWithoutOutputFormat(adapter, result.output)) {
       if (this.config.onWarning) {
-        this.config.onWarning(`${definition.name} does not support --output-format; retrying without JSON output flags.`);
+        this.config.onWarning(`${adapter.name} does not support ${adapter.outputFormatFlag}; retrying without JSON output flags.`);
       }
-      return this.execute(definition.command, stripOutputFormatArgs(args), cwd, timeoutMs, tool);
+      return this.execute(adapter, stripFlagArgs(args, adapter.outputFormatFlag), cwd, timeoutMs, structured);
     }
     return result;
   }
 
   async runValidator(tool: ToolName, prompt: string, cwd: string, timeoutMs: number): Promise<ExecutionResult> {
-    const definition = getToolDefinition(tool);
-    const args = this.buildValidatorArgs(definition, prompt);
-    const result = await this.execute(definition.command, args, cwd, timeoutMs, tool);
-    if (shouldRetryWithoutOutputFormat(definition.name, result.output)) {
+    const adapter = getToolAdapter(tool);
+    const args = this.buildValidatorArgs(adapter, prompt);
+    const structured = !this.config.interactive;
+    const result = await this.execute(adapter, args, cwd, timeoutMs, structured);
+    if (shouldRetryWithoutOutputFormat(adapter, result.output)) {
       if (this.config.onWarning) {
-        this.config.onWarning(`${definition.name} does not support --output-format; retrying without JSON output flags.`);
+        this.config.onWarning(`${adapter.name} does not support ${adapter.outputFormatFlag}; retrying without JSON output flags.`);
       }
-      return this.execute(definition.command, stripOutputFormatArgs(args), cwd, timeoutMs, tool);
+      return this.execute(adapter, stripFlagArgs(args, adapter.outputFormatFlag), cwd, timeoutMs, structured);
     }
     if (result.exitCode === 0 || this.config.interactive) {
       return result;
     }
-    if (!shouldRetryWithoutReadOnly(definition.name, result.output)) {
+    if (!shouldRetryWithoutReadOnly(adapter, result.output)) {
       return result;
     }
     if (this.config.onWarning) {
-      this.config.onWarning(`Validator ${definition.name} did not accept read-only flags; falling back to full permissions.`);
+      this.config.onWarning(`Validator ${adapter.name} did not accept read-only flags; falling back to full permissions.`);
     }
-    return this.execute(definition.command, [prompt], cwd, timeoutMs, tool);
+    return this.execute(adapter, [prompt], cwd, timeoutMs, false);
   }
 
-  private async execute(command: string, args: string[], cwd: string, timeoutMs: number, tool: ToolName): Promise<ExecutionResult> {
+  private async execute(
+    adapter: ToolAdapter,
+    args: string[],
+    cwd: string,
+    timeoutMs: number,
+    structured: boolean
+  ): Promise<ExecutionResult> {
     const startedAt = Date.now();
+    const command = adapter.command;
     let streamed = false;
     try {
-      const isCodexExec = command === 'codex' && args[0] === 'exec';
-      const needsTtyStdin = (command === 'codex' || command === 'cortex')
+      const structuredOutput = structured ? adapter.structuredOutput : undefined;
+      const needsTtyStdin = Boolean(adapter.needsTtyStdin)
         && !this.config.sandbox
         && process.stdin.isTTY;
       const stdinMode = this.config.inheritStdin || needsTtyStdin ? 'inherit' : 'ignore';
@@ -77,49 +137,18 @@ export class DefaultToolRunner implements ToolRunner {
       let outputFile: string | null = null;
       let schemaFile: string | null = null;
       let execArgs = args;
-      if (isCodexExec) {
+      if (structuredOutput) {
         const prompt = args[args.length - 1] ?? '';
-        schemaFile = path.join(os.tmpdir(), `aic-codex-schema-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
-        outputFile = path.join(os.tmpdir(), `aic-codex-output-${Date.now()}-${Math.random().toString(36).slice(2)}.txt`);
+        schemaFile = path.join(os.tmpdir(), `aic-${adapter.name}-schema-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+        outputFile = path.join(os.tmpdir(), `aic-${adapter.name}-output-${Date.now()}-${Math.random().toString(36).slice(2)}.txt`);
         const baseArgs = args.slice(0, -1);
-        const schema = {
-          type: 'object',
-          properties: {
-            response_block: {
-              type: 'object',
-              properties: {
-                completeness: { type: 'number' },
-                status: { type: 'string', enum: ['PASS', 'FAIL'] },
-                findings: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      spec_requirement: { type: 'string' },
-                      gap_description: { type: 'string' },
-                      original_code: { type: 'string' },
-                      proposed_diff: { type: 'string' }
-                    },
-                    required: ['spec_requirement', 'gap_description', 'original_code', 'proposed_diff']
-                  }
-                },
-                recommendations: {
-                  type: 'array',
-                  items: { type: 'string' }
-                }
-              },
-              required: ['completeness', 'status', 'findings', 'recommendations']
-            }
-          },
-          required: ['response_block'],
-          additionalProperties: false
-        };
-        await fs.writeFile(schemaFile, JSON.stringify(schema), 'utf8');
+        await fs.writeFile(schemaFile, JSON.stringify(VALIDATION_OUTPUT_SCHEMA), 'utf8');
+        const jsonFlag = structuredOutput.jsonFlag;
         execArgs = [
           ...baseArgs,
-          ...(baseArgs.includes('--json') ? [] : ['--json']),
-          ...(baseArgs.includes('--output-schema') ? [] : ['--output-schema', schemaFile]),
-          ...(baseArgs.includes('--output-last-message') ? [] : ['--output-last-message', outputFile]),
+          ...(!jsonFlag || baseArgs.includes(jsonFlag) ? [] : [jsonFlag]),
+          ...(baseArgs.includes(structuredOutput.schemaFlag) ? [] : [structuredOutput.schemaFlag, schemaFile]),
+          ...(baseArgs.includes(structuredOutput.lastMessageFlag) ? [] : [structuredOutput.lastMessageFlag, outputFile]),
           prompt
         ];
       }
@@ -145,8 +174,8 @@ export class DefaultToolRunner implements ToolRunner {
       if (toolHome) {
         await fs.mkdir(toolHome, { recursive: true });
       }
-      const baseEnv = isCodexExec
-        ? { ...execEnv, TERM: 'dumb', NO_COLOR: '1', CLICOLOR: '0' }
+      const baseEnv = structuredOutput?.env
+        ? { ...execEnv, ...structuredOutput.env }
         : execEnv;
       const env = toolHome
         ? { ...baseEnv, HOME: toolHome, USERPROFILE: toolHome }
@@ -167,6 +196,7 @@ export class DefaultToolRunner implements ToolRunner {
         subprocess.stdout.on('data', (chunk) => {
           const text = chunk.toString();
           stdout += text;
+          this.config.onOutput?.(adapter.name, text);
           if (this.config.verbose) {
             streamed = true;
             this.config.output.write(text);
@@ -177,6 +207,7 @@ export class DefaultToolRunner implements ToolRunner {
         subprocess.stderr.on('data', (chunk) => {
           const text = chunk.toString();
           stderr += text;
+          this.config.onOutput?.(adapter.name, text);
           if (this.config.verbose) {
             streamed = true;
             this.config.output.write(text);
@@ -186,6 +217,8 @@ export class DefaultToolRunner implements ToolRunner {
       const result = await subprocess;
       const durationMs = Date.now() - startedAt;
       let combined = [stdout || result.stdout, stderr || result.stderr].filter(Boolean).join('\n');
+      // Usage lives in the event stream, not in the last message written to the output file.
+      const tokenUsage = extractToolTokenUsage(adapter.name, combined);
       if (outputFile) {
         try {
           const fileOutput = await fs.readFile(outputFile, 'utf8');
@@ -201,7 +234,6 @@ export class DefaultToolRunner implements ToolRunner {
       if (schemaFile) {
         await fs.rm(schemaFile, { force: true });
       }
-      const tokenUsage = extractTokenUsage(tool, combined);
       return { output: combined, exitCode: result.exitCode ?? 0, durationMs, streamed, tokenUsage };
     } catch (error) {
       const durationMs = Date.now() - startedAt;
@@ -210,65 +242,61 @@ export class DefaultToolRunner implements ToolRunner {
     }
   }
 
-  private buildLeadArgs(definition: ReturnType<typeof getToolDefinition>, prompt: string): string[] {
+  private buildLeadArgs(adapter: ToolAdapter, prompt: string): string[] {
     if (this.config.interactive) {
       return [prompt];
     }
-    if (definition.name === 'claude' && this.config.leadPermissions && this.config.leadPermissions.length > 0) {
-      return [
-        '--allowedTools',
-        this.config.leadPermissions.join(','),
-        '-p',
-        prompt,
-        '--output-format',
-        'json'
-      ];
+    const permissions = this.config.leadPermissions;
+    if (permissions && permissions.length > 0 && adapter.buildLeadPermissionArgs) {
+      return adapter.buildLeadPermissionArgs(permissions, prompt);
     }
-    if (definition.name !== 'claude' && this.config.leadPermissions && this.config.onWarning) {
-      this.config.onWarning(`Lead permissions override is not supported for ${definition.name}; using default permissions.`);
+    if (permissions && this.config.onWarning) {
+      this.config.onWarning(`Lead permissions override is not supported for ${adapter.name}; using default permissions.`);
     }
-    return [...definition.leadArgs, prompt];
+    return [...adapter.leadArgs, prompt];
   }
 
-  private buildValidatorArgs(definition: ReturnType<typeof getToolDefinition>, prompt: string): string[] {
+  private buildValidatorArgs(adapter: ToolAdapter, prompt: string): string[] {
     if (this.config.interactive) {
       return [prompt];
     }
-    return [...definition.validatorArgs, prompt];
+    return [...adapter.validatorArgs, prompt];
   }
 }
 
-function shouldRetryWithoutOutputFormat(tool: ToolName, output: string): boolean {
-  if (tool !== 'claude' && tool !== 'gemini') {
+function isUnknownFlagMessage(lower: string): boolean {
+  return lower.includes('unknown option')
+    || lower.includes('unrecognized option')
+    || lower.includes('invalid option')
+    || lower.includes('unknown flag')
+    || lower.includes('unrecognized flag');
+}
+
+function shouldRetryWithoutOutputFormat(adapter: ToolAdapter, output: string): boolean {
+  if (!adapter.outputFormatFlag) {
     return false;
   }
   const lower = output.toLowerCase();
-  return lower.includes('--output-format')
-    && (lower.includes('unknown option')
-      || lower.includes('unrecognized option')
-      || lower.includes('invalid option')
-      || lower.includes('unknown flag')
-      || lower.includes('unrecognized flag'));
+  return lower.includes(adapter.outputFormatFlag.toLowerCase()) && isUnknownFlagMessage(lower);
 }
 
-function shouldRetryWithoutReadOnly(tool: ToolName, output: string): boolean {
-  if (tool !== 'claude' && tool !== 'gemini') {
+function shouldRetryWithoutReadOnly(adapter: ToolAdapter, output: string): boolean {
+  if (!adapter.readOnlyFlags || adapter.readOnlyFlags.length === 0) {
     return false;
   }
   const lower = output.toLowerCase();
-  return (lower.includes('--allowedtools') || lower.includes('--allowed-tools'))
-    && (lower.includes('unknown option')
-      || lower.includes('unrecognized option')
-      || lower.includes('invalid option')
-      || lower.includes('unknown flag')
-      || lower.includes('unrecognized flag'));
+  return adapter.readOnlyFlags.some((flag) => lower.includes(flag.toLowerCase()))
+    && isUnknownFlagMessage(lower);
 }
 
-function stripOutputFormatArgs(args: string[]): string[] {
+function stripFlagArgs(args: string[], flag?: string): string[] {
+  if (!flag) {
+    return args;
+  }
   const cleaned: string[] = [];
   for (let i = 0; i < args.length; i += 1) {
     const value = args[i];
-    if (value === '--output-format') {
+    if (value === flag) {
       i += 1;
       continue;
     }
@@ -286,69 +314,3 @@ function resolveToolHome(env: NodeJS.ProcessEnv, cwd: string): string | null {
   }
   return null;
 }
-
-function extractTokenUsage(tool: ToolName, output: string): TokenUsage | undefined {
-  try {
-    // First, try to find JSON in the output (use non-greedy match for better performance)
-    const jsonMatch = output.match(/\{[\s\S]*?\}/);
-    if (!jsonMatch) {
-      return undefined;
-    }
-
-    let parsed: Record<string, unknown>;
-    try {
-      parsed = JSON.parse(jsonMatch[0]) as Record<string, unknown>;
-    } catch {
-      // If the first match isn't valid JSON, try to find the last complete JSON object
-      const lastBrace = output.lastIndexOf('}');
-      if (lastBrace === -1) {
-        return undefined;
-      }
-      const firstBrace = output.indexOf('{');
-      if (firstBrace === -1) {
-        return undefined;
-      }
-      parsed = JSON.parse(output.substring(firstBrace, lastBrace + 1)) as Record<string, unknown>;
-    }
-
-    if (tool === 'claude') {
-      // Claude format: { usage: { input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens } }
-      const usage = parsed.usage as Record<string, unknown> | undefined;
-      if (usage) {
-        return {
-          inputTokens: typeof usage.input_tokens === 'number' ? usage.input_tokens : undefined,
-          outputTokens: typeof usage.output_tokens === 'number' ? usage.output_tokens : undefined,
-          totalTokens: (typeof usage.input_tokens === 'number' && typeof usage.output_tokens === 'number')
-            ? usage.input_tokens + usage.output_tokens
-            : undefined,
-          cacheReadTokens: typeof usage.cache_read_input_tokens === 'number' ? usage.cache_read_input_tokens : undefined,
-          cacheCreationTokens: typeof usage.cache_creation_input_tokens === 'number' ? usage.cache_creation_input_tokens : undefined
-        };
-      }
-    } else if (tool === 'codex' || tool === 'gemini') {
-      // Codex/Gemini format: { stats: { models: { "model-name": { tokens: { input, output } } } } }
-      const stats = parsed.stats as Record<string, unknown> | undefined;
-      if (stats && typeof stats.models === 'object' && stats.models) {
-        const models = stats.models as Record<string, Record<string, unknown>>;
-        // Get the first model's tokens
-        const modelData = Object.values(models)[0];
-        if (modelData && typeof modelData.tokens === 'object' && modelData.tokens) {
-          const tokens = modelData.tokens as Record<string, unknown>;
-          const inputTokens = typeof tokens.input === 'number' ? tokens.input : undefined;
-          const outputTokens = typeof tokens.output === 'number' ? tokens.output : undefined;
-          return {
-            inputTokens,
-            outputTokens,
-            totalTokens: (inputTokens !== undefined && outputTokens !== undefined)
-              ? inputTokens + outputTokens
-              : undefined
-          };
-        }
-      }
-    }
-
-    return undefined;
-  } catch {
-    return undefined;
-  }
-}
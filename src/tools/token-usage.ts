@@ -0,0 +1,280 @@
+import { TokenUsage } from '../types.js';
+
+// How a tool reports tokens:
+// - usage: Claude's `usage` / `modelUsage` (one result object, or stream-json events)
+// - stats: Gemini's `stats.models` (one entry per model used)
+// - events: Codex's `exec --json` JSONL (`turn.completed` or legacy `token_count` events)
+export type TokenUsageFormat = 'usage' | 'stats' | 'events';
+
+export const TOKEN_USAGE_FORMATS: TokenUsageFormat[] = ['usage', 'stats', 'events'];
+
+type JsonObject = Record<string, unknown>;
+
+// Folds a tool's output events in order; `result` is undefined when none carried usage.
+interface TokenUsageParser {
+  observe(event: JsonObject): void;
+  result(): TokenUsage | undefined;
+}
+
+function createTokenUsageParser(format: TokenUsageFormat): TokenUsageParser {
+  switch (format) {
+    case 'usage':
+      return createUsageParser();
+    case 'stats':
+      return createStatsParser();
+    case 'events':
+      return createEventsParser();
+  }
+}
+
+export function parseTokenUsage(format: TokenUsageFormat, output: string): TokenUsage | undefined {
+  const parser = createTokenUsageParser(format);
+  for (const event of scanJsonObjects(output)) {
+    parser.observe(event);
+  }
+  return parser.result();
+}
+
+// Finds every top-level JSON object in mixed output: a single pretty-printed document, JSONL
+// events, or either surrounded by log lines. One pass pairs brackets with a stack of open ones,
+// skipping braces inside strings; the outermost pairs that parse are kept, and a pair that does
+// not (a stray `{` in plain text) gives way to the pairs inside it.
+export function scanJsonObjects(output: string): JsonObject[] {
+  const spans: Array<{ start: number; end: number }> = [];
+  const open: Array<{ char: string; index: number }> = [];
+  let inString = false;
+  for (let i = 0; i < output.length; i += 1) {
+    const char = output[i];
+    if (inString) {
+      if (char === '\\') {
+        i += 1;
+      } else if (char === '"') {
+        inString = false;
+      } else if (char === '\n') {
+        // JSON strings cannot span lines, so the quote was plain text.
+        inString = false;
+        open.length = 0;
+      }
+      continue;
+    }
+    if (char === '{' || (char === '[' && open.length > 0)) {
+      open.push({ char, index: i });
+    } else if (open.length === 0) {
+      continue;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '}' || char === ']') {
+      const top = open.pop();
+      if (top?.char !== (char === '}' ? '{' : '[')) {
+        open.length = 0;
+      } else if (char === '}') {
+        spans.push({ start: top.index, end: i });
+      }
+    }
+  }
+
+  const objects: JsonObject[] = [];
+  let coveredUntil = -1;
+  for (const span of spans.sort((a, b) => a.start - b.start)) {
+    if (span.start <= coveredUntil) {
+      continue;
+    }
+    const parsed = parseObject(output.slice(span.start, span.end + 1));
+    if (parsed) {
+      objects.push(parsed);
+      coveredUntil = span.end;
+    }
+  }
+  return objects;
+}
+
+function parseObject(text: string): JsonObject | undefined {
+  try {
+    const value = JSON.parse(text) as unknown;
+    return isObject(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Claude. `-p --output-format json` prints one result whose `modelUsage` covers every model
+// (the main model plus any helper model), while `usage` covers the main model only.
+// stream-json repeats each assistant message's usage once per content block, and ends with a
+// result that totals the run; without that result (an interrupted run) messages are summed by id.
+function createUsageParser(): TokenUsageParser {
+  let final: TokenUsage | undefined;
+  const messages = new Map<string, TokenUsage>();
+  let loose: TokenUsage | undefined;
+  return {
+    observe(event) {
+      if (isObject(event.modelUsage) && Object.keys(event.modelUsage).length > 0) {
+        final = sumUsage(Object.values(event.modelUsage).filter(isObject).map(fromModelUsage));
+        return;
+      }
+      if (isObject(event.usage)) {
+        const usage = fromClaudeUsage(event.usage);
+        if (event.type === 'result') {
+          final = usage;
+        } else {
+          loose = sumUsage([loose, usage]);
+        }
+        return;
+      }
+      const message = event.message;
+      if (isObject(message) && isObject(message.usage)) {
+        const id = typeof message.id === 'string' ? message.id : `message-${messages.size}`;
+        messages.set(id, fromClaudeUsage(message.usage));
+      }
+    },
+    result() {
+      return final ?? (messages.size > 0 ? sumUsage([...messages.values()]) : loose);
+    }
+  };
+}
+
+function fromClaudeUsage(usage: JsonObject): TokenUsage {
+  return withTotal({
+    inputTokens: numberField(usage, 'input_tokens'),
+    outputTokens: numberField(usage, 'output_tokens'),
+    cacheReadTokens: numberField(usage, 'cache_read_input_tokens'),
+    cacheCreationTokens: numberField(usage, 'cache_creation_input_tokens')
+  });
+}
+
+function fromModelUsage(usage: JsonObject): TokenUsage {
+  return withTotal({
+    inputTokens: numberField(usage, 'inputTokens'),
+    outputTokens: numberField(usage, 'outputTokens'),
+    cacheReadTokens: numberField(usage, 'cacheReadInputTokens'),
+    cacheCreationTokens: numberField(usage, 'cacheCreationInputTokens')
+  });
+}
+
+// Gemini. Stats are cumulative for the session, so the last object wins; within it every
+// model is summed. `prompt` includes cached tokens and thoughts are billed as output.
+function createStatsParser(): TokenUsageParser {
+  let last: TokenUsage | undefined;
+  return {
+    observe(event) {
+      const usage = isObject(event.stats) ? fromGeminiStats(event.stats) : undefined;
+      if (usage) {
+        last = usage;
+      }
+    },
+    result() {
+      return last;
+    }
+  };
+}
+
+function fromGeminiStats(stats: JsonObject): TokenUsage | undefined {
+  if (isObject(stats.models)) {
+    const models = Object.values(stats.models)
+      .filter(isObject)
+      .map((model) => (isObject(model.tokens) ? fromGeminiTokens(model.tokens) : undefined));
+    return sumUsage(models);
+  }
+  // stream-json result events carry flat totals.
+  if (numberField(stats, 'input_tokens') !== undefined || numberField(stats, 'output_tokens') !== undefined) {
+    return fromOpenAiUsage(stats);
+  }
+  return undefined;
+}
+
+function fromGeminiTokens(tokens: JsonObject): TokenUsage {
+  const cached = numberField(tokens, 'cached');
+  const thoughts = numberField(tokens, 'thoughts');
+  const prompt = numberField(tokens, 'prompt') ?? numberField(tokens, 'input');
+  const candidates = numberField(tokens, 'candidates') ?? numberField(tokens, 'output');
+  const tool = numberField(tokens, 'tool') ?? 0;
+  return withTotal({
+    inputTokens: prompt === undefined ? undefined : Math.max(0, prompt - (cached ?? 0)) + tool,
+    outputTokens: candidates === undefined && thoughts === undefined ? undefined : (candidates ?? 0) + (thoughts ?? 0),
+    cacheReadTokens: cached || undefined,
+    reasoningTokens: thoughts || undefined
+  });
+}
+
+// Codex. Current releases end each turn with `turn.completed` carrying that turn's usage, so
+// turns are summed. Older releases emit `token_count` events whose `total_token_usage` is
+// already cumulative, so the last one wins. A `stats` object is still read for old wrappers.
+function createEventsParser(): TokenUsageParser {
+  const turns: TokenUsage[] = [];
+  let cumulative: TokenUsage | undefined;
+  const stats = createStatsParser();
+  return {
+    observe(event) {
+      if (event.type === 'turn.completed' && isObject(event.usage)) {
+        turns.push(fromOpenAiUsage(event.usage));
+        return;
+      }
+      const message = isObject(event.msg) ? event.msg : event;
+      if (message.type === 'token_count') {
+        const info = isObject(message.info) ? message.info : undefined;
+        if (info && isObject(info.total_token_usage)) {
+          cumulative = fromOpenAiUsage(info.total_token_usage);
+        } else if (!info && numberField(message, 'input_tokens') !== undefined) {
+          turns.push(fromOpenAiUsage(message));
+        }
+        return;
+      }
+      stats.observe(event);
+    },
+    result() {
+      return cumulative ?? (turns.length > 0 ? sumUsage(turns) : stats.result());
+    }
+  };
+}
+
+// OpenAI-style counts: input includes cached tokens and output includes reasoning tokens.
+function fromOpenAiUsage(usage: JsonObject): TokenUsage {
+  const input = numberField(usage, 'input_tokens');
+  const cached = numberField(usage, 'cached_input_tokens') ?? numberField(usage, 'cached');
+  return withTotal({
+    inputTokens: input === undefined ? undefined : Math.max(0, input - (cached ?? 0)),
+    outputTokens: numberField(usage, 'output_tokens'),
+    cacheReadTokens: cached || undefined,
+    reasoningTokens: numberField(usage, 'reasoning_output_tokens') || undefined
+  });
+}
+
+function sumUsage(parts: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const present = parts.filter((part): part is TokenUsage => part !== undefined);
+  if (present.length === 0) {
+    return undefined;
+  }
+  const add = (key: keyof TokenUsage): number | undefined => {
+    const values = present.map((part) => part[key]).filter((value): value is number => value !== undefined);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : undefined;
+  };
+  return withTotal({
+    inputTokens: add('inputTokens'),
+    outputTokens: add('outputTokens'),
+    cacheReadTokens: add('cacheReadTokens'),
+    cacheCreationTokens: add('cacheCreationTokens'),
+    reasoningTokens: add('reasoningTokens')
+  });
+}
+
+// The total counts fresh input and output; cache tokens are reported (and priced) separately.
+function withTotal(usage: TokenUsage): TokenUsage {
+  const result: TokenUsage = {};
+  for (const [key, value] of Object.entries(usage) as Array<[keyof TokenUsage, number | undefined]>) {
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  if (result.inputTokens !== undefined && result.outputTokens !== undefined) {
+    result.totalTokens = result.inputTokens + result.outputTokens;
+  }
+  return result;
+}
+
+function numberField(record: JsonObject, key: string): number | undefined {
+  const value = record[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
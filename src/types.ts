@@ -1,4 +1,7 @@
-export type ToolName = 'claude' | 'codex' | 'gemini';
+export type BuiltinToolName = 'claude' | 'codex' | 'gemini';
+
+// Custom adapters may register any name; builtins keep editor completion.
+export type ToolName = BuiltinToolName | (string & {});
 
 export interface ToolInfo {
   name: ToolName;
@@ -13,6 +16,39 @@ export interface SpecMetadata {
   complexity: 'EASY' | 'MODERATE' | 'HIGH';
   maturity: number;
   dependsOn?: string[];
+  consensus?: ConsensusPolicy;
+  verify?: CommandValidatorConfig[];
+  expects?: SpecExpectations;
+  // Per-cycle timeout in minutes; overrides --timeout for this spec.
+  timeout?: number;
+}
+
+export interface SpecExpectations {
+  files?: string[];
+  // File path to the names it must export.
+  exports?: Record<string, string[]>;
+}
+
+export type ConsensusPolicyName =
+  | 'default'
+  | 'unanimous'
+  | 'majority'
+  | 'quorum'
+  | 'weighted'
+  | 'completeness-threshold'
+  | 'no-critical-findings';
+
+export interface ConsensusPolicy {
+  name: ConsensusPolicyName;
+  quorum?: number;
+  weights?: Record<string, number>;
+  threshold?: number;
+}
+
+export interface ConsensusDecision {
+  policy: string;
+  reached: boolean;
+  reason: string;
 }
 
 export type SpecStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
@@ -27,6 +63,14 @@ export interface SpecEntry {
   completedAt?: string;
   contextOnly?: boolean;
   lastError?: string;
+  baselineCheckpoint?: Checkpoint;
+  criteria?: AcceptanceCriterion[];
+}
+
+// A checkable requirement extracted from the spec body (acceptance criteria, FR-n items, checklists).
+export interface AcceptanceCriterion {
+  id: string;
+  text: string;
 }
 
 export type SessionStatus = 'pending' | 'in_progress' | 'completed' | 'partial' | 'failed' | 'abandoned';
@@ -43,6 +87,14 @@ export interface SessionConfig {
   preflight: boolean;
   preflightThreshold: number;
   preflightIterations: number;
+  checkpoint?: boolean;
+  validatorConcurrency?: number;
+  parallel?: number;
+  consensus?: ConsensusPolicy;
+  commandValidators?: CommandValidatorConfig[];
+  // Prices and limits in effect for the latest run; status and reports price usage with them.
+  prices?: PriceTable;
+  limits?: UsageLimits;
 }
 
 export interface Session {
@@ -55,6 +107,8 @@ export interface Session {
   status: SessionStatus;
   currentSpecIndex: number;
   specs: SpecEntry[];
+  // Why the last run stopped early because of a token or cost limit.
+  stopReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -67,6 +121,43 @@ export interface Cycle {
   leadExecution: LeadExecution;
   validations: Validation[];
   consensusReached: boolean;
+  consensusDecision?: ConsensusDecision;
+  mergedFindings?: MergedFinding[];
+  resolvedFindings?: string[];
+  checkpoint?: Checkpoint;
+  // Set in inline prompt mode: what was embedded in the lead and validator prompts.
+  promptContext?: {
+    lead?: PromptContextRecord;
+    validation?: PromptContextRecord;
+  };
+}
+
+// `reference` prompts point tools at files in the workspace; `inline` prompts carry the file contents.
+export type PromptContextMode = 'reference' | 'inline';
+
+// What a run does with specs below the recommended maturity (3) instead of asking.
+export type LowMaturityPolicy = 'proceed' | 'skip' | 'abort';
+
+export interface InlinedFile {
+  path: string;
+  kind: 'spec' | 'context' | 'source';
+  status: 'full' | 'truncated' | 'omitted';
+  // Estimated tokens embedded and of the whole file.
+  tokens: number;
+  originalTokens: number;
+}
+
+export interface PromptContextRecord {
+  budgetTokens: number;
+  usedTokens: number;
+  files: InlinedFile[];
+}
+
+export interface Checkpoint {
+  ref: string;
+  commit: string;
+  cycle: number;
+  createdAt: string;
 }
 
 export interface TokenUsage {
@@ -75,13 +166,45 @@ export interface TokenUsage {
   totalTokens?: number;
   cacheReadTokens?: number;
   cacheCreationTokens?: number;
+  // Already included in outputTokens; kept apart to show how much went to thinking.
+  reasoningTokens?: number;
+}
+
+// USD per million tokens. Cache rates fall back to the input rate when unset.
+export interface ToolPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export type PriceTable = Record<string, ToolPrice>;
+
+// Session limits count every cycle of the session, including earlier runs; spec limits count one spec.
+export interface UsageLimits {
+  maxTokens?: number;
+  maxCost?: number;
+  maxSpecTokens?: number;
+  maxSpecCost?: number;
+}
+
+export type FileChangeType = 'added' | 'modified' | 'deleted';
+
+export interface FileChange {
+  path: string;
+  change: FileChangeType;
+  linesAdded: number;
+  linesRemoved: number;
 }
 
 export interface LeadExecution {
   tool: ToolName;
   prompt: string;
+  // Short sha256 of the rendered prompt, to tell which template and inputs produced a cycle.
+  promptHash?: string;
   output: string;
   filesModified: string[];
+  fileChanges?: FileChange[];
   durationMs: number;
   exitCode: number;
   tokenUsage?: TokenUsage;
@@ -90,24 +213,96 @@ export interface LeadExecution {
 export interface Validation {
   tool: ToolName;
   prompt: string;
+  promptHash?: string;
   output: string;
   parsed: ValidationResult;
   durationMs: number;
   exitCode: number;
   tokenUsage?: TokenUsage;
+  // Set when the result came from a command validator rather than an AI tool.
+  command?: CommandValidatorConfig;
+  // A failing gate blocks consensus whatever the policy says.
+  gate?: boolean;
+}
+
+export type CommandOutputFormat = 'auto' | 'junit' | 'tap' | 'tsc' | 'exit-code';
+
+export interface CommandValidatorConfig {
+  name: string;
+  command: string;
+  format?: CommandOutputFormat;
+  // JUnit XML file written by the command, relative to the working directory.
+  reportFile?: string;
+  // A failing gate blocks consensus whatever the policy says.
+  gate?: boolean;
+  // Minutes; defaults to the per-cycle timeout.
+  timeout?: number;
+}
+
+export type FindingSeverity = 'critical' | 'major' | 'minor' | 'info';
+
+export interface FindingLocation {
+  file: string;
+  line?: number;
+  endLine?: number;
+}
+
+export interface Finding {
+  requirement: string;
+  requirementId?: string;
+  description: string;
+  severity: FindingSeverity;
+  location?: FindingLocation;
+  originalCode?: string;
+  proposedDiff?: string;
+}
+
+export type FindingLifecycle = 'new' | 'persisting' | 'resolved' | 'regressed';
+
+// A finding after near-duplicates from different validators were merged.
+export interface MergedFinding {
+  finding: Finding;
+  validators: string[];
+  reports: number;
+  agreement: number;
+  // Stable across the cycles of a spec (`F1`, `F2`, ...).
+  id?: string;
+  lifecycle?: FindingLifecycle;
+  firstSeenCycle?: number;
 }
 
 export interface ValidationResult {
   completeness: number;
   status: 'PASS' | 'FAIL';
+  // One-line rendering of each finding; sessions written before `findings` existed only have this.
   gaps: string[];
+  findings?: Finding[];
   recommendations: string[];
+  criteria?: CriterionVerdict[];
+  // Completeness the validator reported before it was recomputed from criteria verdicts.
+  reportedCompleteness?: number;
+  // Set when the output could not be parsed even after a retry; the verdict above is a placeholder.
+  invalidOutput?: boolean;
+}
+
+export type CriterionVerdictValue = 'met' | 'partial' | 'unmet';
+
+export interface CriterionVerdict {
+  id: string;
+  verdict: CriterionVerdictValue;
+  evidence?: string;
 }
 
 export interface ToolRegistry {
   available: Map<ToolName, ToolInfo>;
 }
 
+export interface PromptFiles {
+  // Paths (relative to the project) of extra instructions added to the lead / validation prompts.
+  lead?: string;
+  validation?: string;
+}
+
 export interface RunOptions {
   specs?: string;
   exclude?: string;
@@ -129,6 +324,40 @@ export interface RunOptions {
   preflightThreshold: number;
   preflightIterations: number;
   startOver: boolean;
+  checkpoint?: boolean;
+  validatorConcurrency?: number;
+  parallel?: number;
+  consensus?: string;
+  check?: string[];
+  gate?: string[];
+  sandboxImage?: string;
+  toolThrottleMs?: number;
+  prompts?: PromptFiles;
+  promptMode?: PromptContextMode;
+  // Token budget for inlined files in inline prompt mode.
+  promptBudget?: number;
+  maxTokens?: number;
+  maxCost?: number;
+  maxSpecTokens?: number;
+  maxSpecCost?: number;
+  // Merged over the built-in price table.
+  prices?: PriceTable;
+  // Resolved from the global and project config; --check / --gate are added on top.
+  commandValidators?: CommandValidatorConfig[];
+  // JSONL event target (a file path or `-` for stdout); opened by the CLI.
+  events?: string;
+  // Set by the global --json flag; only --dry-run has a JSON form.
+  json?: boolean;
+  // Status server port (aic run --serve); started and stopped by the CLI.
+  serve?: number;
+  // Full-screen terminal dashboard (aic run --tui); opened by the CLI.
+  tui?: boolean;
+  // Non-interactive run: no prompts or countdown, and the exit code reflects the outcome.
+  ci?: boolean;
+  lowMaturity?: LowMaturityPolicy;
+  // Where the end-of-run session reports go (default .ai-coord/reports) and in which formats.
+  reportDir?: string;
+  reportFormats?: string;
 }
 
 export interface RunContext {
@@ -0,0 +1,42 @@
+// Maps items with at most `limit` calls in flight, preserving input order in the result.
+// After a failure no new items are started; in-flight calls settle before the first error
+// (in input order) is rethrown.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const errors = new Map<number, unknown>();
+  const width = Math.max(1, Math.min(Number.isFinite(limit) ? Math.floor(limit) : items.length, items.length));
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length && errors.size === 0) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        errors.set(index, error);
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: width }, () => worker()));
+  if (errors.size > 0) {
+    const first = Math.min(...errors.keys());
+    throw errors.get(first);
+  }
+  return results;
+}
+
+// Serializes calls to an async function so concurrent callers run it one after another.
+export function serialize(fn: () => Promise<void>): () => Promise<void> {
+  let chain: Promise<void> = Promise.resolve();
+  return () => {
+    const run = chain.then(fn);
+    chain = run.catch(() => undefined);
+    return run;
+  };
+}
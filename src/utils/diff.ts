@@ -0,0 +1,59 @@
+// Line-based unified diff, enough to show how an edited file departs from its original.
+// Uses a plain LCS table, which is fine for prompt-sized inputs.
+export function formatUnifiedDiff(before: string, after: string, labels: { from: string; to: string }, context = 3): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ kind: ' ' | '-' | '+'; line: string; aIndex: number; bIndex: number }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ kind: ' ', line: a[i], aIndex: i, bIndex: j });
+      i += 1;
+      j += 1;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ kind: '-', line: a[i], aIndex: i, bIndex: j });
+      i += 1;
+    } else {
+      ops.push({ kind: '+', line: b[j], aIndex: i, bIndex: j });
+      j += 1;
+    }
+  }
+
+  const changed = ops.map((op, index) => (op.kind === ' ' ? -1 : index)).filter((index) => index >= 0);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context windows touch into one hunk.
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const lines = [`--- ${labels.from}`, `+++ ${labels.to}`];
+  for (const [start, end] of hunks) {
+    const slice = ops.slice(start, end + 1);
+    const fromCount = slice.filter((op) => op.kind !== '+').length;
+    const toCount = slice.filter((op) => op.kind !== '-').length;
+    const fromStart = fromCount === 0 ? slice[0].aIndex : slice[0].aIndex + 1;
+    const toStart = toCount === 0 ? slice[0].bIndex : slice[0].bIndex + 1;
+    lines.push(`@@ -${fromStart},${fromCount} +${toStart},${toCount} @@`);
+    slice.forEach((op) => lines.push(`${op.kind}${op.line}`));
+  }
+  return `${lines.join('\n')}\n`;
+}
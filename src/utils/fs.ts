@@ -23,6 +23,13 @@ export async function writeTextFile(filePath: string, content: string): Promise<
   await fs.writeFile(filePath, content, 'utf8');
 }
 
+export async function writeTextFileAtomic(filePath: string, content: string): Promise<void> {
+  await ensureDir(path.dirname(filePath));
+  const tempPath = `${filePath}.${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}.tmp`;
+  await fs.writeFile(tempPath, content, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
 export async function listFilesRecursive(root: string, options?: {
   excludeDirs?: string[];
   limit?: number;
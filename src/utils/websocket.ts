@@ -0,0 +1,180 @@
+import crypto from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { Duplex } from 'node:stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+export const OPCODE_TEXT = 0x1;
+export const OPCODE_CLOSE = 0x8;
+export const OPCODE_PING = 0x9;
+export const OPCODE_PONG = 0xa;
+
+// Clients only send control frames, whose payload is at most 125 bytes; anything far larger is
+// refused rather than buffered.
+export const MAX_CLIENT_FRAME_BYTES = 64 * 1024;
+
+const CLOSE_GOING_AWAY = 1001;
+const CLOSE_TOO_BIG = 1009;
+
+export interface WebSocketFrame {
+  opcode: number;
+  payload: Buffer;
+  // Bytes the frame occupied in the buffer it was decoded from.
+  length: number;
+}
+
+export interface WebSocketConnection {
+  send(text: string): void;
+  close(): void;
+  onClose(listener: () => void): void;
+}
+
+// Server side of RFC 6455, enough for a one-way feed: the server sends text frames and only
+// answers pings and close frames. Anything else the client sends is ignored, and fragmented
+// messages are not reassembled. Frames over MAX_CLIENT_FRAME_BYTES close the connection.
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex): WebSocketConnection | undefined {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return undefined;
+  }
+  const accept = crypto.createHash('sha1').update(`${key}${HANDSHAKE_GUID}`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  let open = true;
+  let pending: Buffer = Buffer.alloc(0);
+  const closeListeners: Array<() => void> = [];
+  const finish = () => {
+    if (open) {
+      open = false;
+      closeListeners.forEach((listener) => listener());
+    }
+  };
+  const close = (code = CLOSE_GOING_AWAY) => {
+    if (open) {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code);
+      socket.write(encodeFrame(OPCODE_CLOSE, payload));
+      socket.end();
+      finish();
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    if (!open) {
+      return;
+    }
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    // The frame header gives its size up front, so an oversized frame is refused before it is buffered.
+    if ((readFrameHeader(pending)?.length ?? 0) > MAX_CLIENT_FRAME_BYTES) {
+      pending = Buffer.alloc(0);
+      close(CLOSE_TOO_BIG);
+      return;
+    }
+    let frame = decodeFrame(pending);
+    while (frame) {
+      pending = pending.subarray(frame.length);
+      if (frame.opcode === OPCODE_CLOSE) {
+        close();
+        return;
+      }
+      if (frame.opcode === OPCODE_PING && open) {
+        socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+      }
+      frame = decodeFrame(pending);
+    }
+  });
+  socket.on('close', finish);
+  socket.on('error', () => socket.destroy());
+
+  return {
+    send: (text) => {
+      if (open) {
+        socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+      }
+    },
+    close: () => close(),
+    onClose: (listener) => {
+      closeListeners.push(listener);
+    }
+  };
+}
+
+// Servers send unmasked frames.
+export function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+interface FrameHeader {
+  opcode: number;
+  maskOffset?: number;
+  payloadOffset: number;
+  payloadLength: number;
+  // Bytes of the whole frame, header included.
+  length: number;
+}
+
+// Returns undefined until the buffer holds the frame header.
+function readFrameHeader(buffer: Buffer): FrameHeader | undefined {
+  if (buffer.length < 2) {
+    return undefined;
+  }
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+  if (payloadLength === 126) {
+    if (buffer.length < 4) {
+      return undefined;
+    }
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) {
+      return undefined;
+    }
+    payloadLength = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const maskOffset = masked ? offset : undefined;
+  const payloadOffset = masked ? offset + 4 : offset;
+  return { opcode, maskOffset, payloadOffset, payloadLength, length: payloadOffset + payloadLength };
+}
+
+// Returns undefined until the buffer holds a whole frame. Client frames are masked; server
+// frames (as read back in tests) are not.
+export function decodeFrame(buffer: Buffer): WebSocketFrame | undefined {
+  const header = readFrameHeader(buffer);
+  if (!header || buffer.length < header.length) {
+    return undefined;
+  }
+  const { maskOffset, payloadOffset } = header;
+  const payload = Buffer.from(buffer.subarray(payloadOffset, header.length));
+  if (maskOffset !== undefined) {
+    for (let i = 0; i < payload.length; i += 1) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+  return { opcode: header.opcode, payload, length: header.length };
+}
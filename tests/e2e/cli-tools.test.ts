@@ -27,4 +27,26 @@ describe('cli tools', () => {
     expect(out.output).toContain('claude');
     expect(out.output).toContain('codex');
   });
+
+  it('describes the tool registry as JSON', async () => {
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ \"$1\" = \"--version\" ]; then\n  echo \"tool 1.0.0\"\n  exit 0\nfi\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+
+    const out = createOutputBuffer();
+    await runCli({
+      argv: ['tools', '--json'],
+      stdout: out.stream,
+      stderr: createOutputBuffer().stream,
+      env: { ...process.env, PATH: binDir }
+    });
+
+    const document = JSON.parse(out.output);
+    expect(document).toMatchObject({ version: 1, command: 'tools' });
+    expect(document.tools).toEqual([
+      { name: 'claude', command: 'claude', available: true, version: 'tool 1.0.0', path: path.join(binDir, 'claude') },
+      { name: 'codex', command: 'codex', available: false, version: null, path: null },
+      { name: 'gemini', command: 'gemini', available: false, version: null, path: null }
+    ]);
+  });
 });
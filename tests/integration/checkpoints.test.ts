@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execa } from 'execa';
+import { createCheckpoint, ensureCheckpointSupport, rollbackSpec } from '../../src/orchestration/checkpoints';
+import { Session } from '../../src/types';
+import { createTempDir } from '../helpers';
+
+function buildSession(projectDir: string): Session {
+  return {
+    id: 'session-cp',
+    workingDirectory: projectDir,
+    specsDirectory: path.join(projectDir, 'specs'),
+    lead: 'claude',
+    validators: ['codex'],
+    config: {
+      maxIterations: 5,
+      maxIterationsPerRun: 5,
+      timeoutPerCycle: 10,
+      sandbox: false,
+      stopOnFailure: false,
+      verbose: false,
+      quiet: true,
+      preflight: false,
+      preflightThreshold: 70,
+      preflightIterations: 2,
+      checkpoint: true
+    },
+    status: 'completed',
+    currentSpecIndex: 0,
+    specs: [
+      {
+        file: 'feat-core.md',
+        path: path.join(projectDir, 'specs', 'feat-core.md'),
+        meta: { id: 'feat-core', name: 'Core', complexity: 'EASY', maturity: 3 },
+        status: 'completed',
+        cycles: []
+      }
+    ],
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+function buildCycle(number: number, specId = 'feat-core') {
+  return {
+    number,
+    specId,
+    startedAt: new Date().toISOString(),
+    leadExecution: { tool: 'claude', prompt: '', output: '', filesModified: [], durationMs: 0, exitCode: 0 },
+    validations: [],
+    consensusReached: false
+  };
+}
+
+describe('cycle checkpoints', () => {
+  it('requires a git repository', async () => {
+    const dir = await createTempDir('aic-cp-nogit-');
+    await expect(ensureCheckpointSupport(dir)).rejects.toThrow('git repository');
+  });
+
+  it('restores a checkpoint and trims later cycles', async () => {
+    const projectDir = await createTempDir('aic-cp-');
+    await execa('git', ['init', '-q'], { cwd: projectDir });
+    await fs.writeFile(path.join(projectDir, 'app.txt'), 'v0\n', 'utf8');
+
+    const session = buildSession(projectDir);
+    const spec = session.specs[0];
+    spec.baselineCheckpoint = await createCheckpoint(projectDir, { sessionId: session.id, specId: 'feat-core', cycle: 0 });
+
+    await fs.writeFile(path.join(projectDir, 'app.txt'), 'v1\n', 'utf8');
+    const cycle1 = { ...buildCycle(1), checkpoint: await createCheckpoint(projectDir, { sessionId: session.id, specId: 'feat-core', cycle: 1 }, spec.baselineCheckpoint.commit) };
+    spec.cycles.push(cycle1);
+
+    await fs.writeFile(path.join(projectDir, 'app.txt'), 'v2\n', 'utf8');
+    await fs.writeFile(path.join(projectDir, 'extra.txt'), 'new\n', 'utf8');
+    spec.cycles.push({ ...buildCycle(2), checkpoint: await createCheckpoint(projectDir, { sessionId: session.id, specId: 'feat-core', cycle: 2 }, cycle1.checkpoint.commit) });
+
+    const { stdout: refs } = await execa('git', ['for-each-ref', '--format=%(refname)', 'refs/aic'], { cwd: projectDir });
+    expect(refs.split('\n')).toEqual([
+      'refs/aic/checkpoints/session-cp/feat-core/cycle-0',
+      'refs/aic/checkpoints/session-cp/feat-core/cycle-1',
+      'refs/aic/checkpoints/session-cp/feat-core/cycle-2'
+    ]);
+
+    const result = await rollbackSpec(session, 'feat-core');
+    expect(result.removedCycles).toBe(1);
+    expect(await fs.readFile(path.join(projectDir, 'app.txt'), 'utf8')).toBe('v1\n');
+    await expect(fs.access(path.join(projectDir, 'extra.txt'))).rejects.toThrow();
+    expect(spec.cycles).toHaveLength(1);
+    expect(spec.status).toBe('pending');
+    expect(session.status).toBe('partial');
+    expect((await fs.readFile(path.join(projectDir, '.ai-coord', 'session'), 'utf8')).trim()).toBe(session.id);
+
+    await rollbackSpec(session, 'feat-core.md', 0);
+    expect(await fs.readFile(path.join(projectDir, 'app.txt'), 'utf8')).toBe('v0\n');
+    expect(spec.cycles).toHaveLength(0);
+    await expect(rollbackSpec(session, 'feat-core', 3)).rejects.toThrow('Invalid cycle');
+  });
+
+  it('resets specs worked on after the checkpoint and refuses to discard unrecorded changes', async () => {
+    const projectDir = await createTempDir('aic-cp-later-');
+    await execa('git', ['init', '-q'], { cwd: projectDir });
+    await fs.writeFile(path.join(projectDir, 'app.txt'), 'v0\n', 'utf8');
+
+    const session = buildSession(projectDir);
+    const core = session.specs[0];
+    core.baselineCheckpoint = await createCheckpoint(projectDir, { sessionId: session.id, specId: 'feat-core', cycle: 0 });
+    await fs.writeFile(path.join(projectDir, 'app.txt'), 'v1\n', 'utf8');
+    core.cycles.push({ ...buildCycle(1), checkpoint: await createCheckpoint(projectDir, { sessionId: session.id, specId: 'feat-core', cycle: 1 }, core.baselineCheckpoint.commit) });
+    core.completedAt = new Date().toISOString();
+
+    const api = {
+      file: 'feat-api.md',
+      path: path.join(projectDir, 'specs', 'feat-api.md'),
+      meta: { id: 'feat-api', name: 'API', complexity: 'EASY' as const, maturity: 3 },
+      status: 'completed' as const,
+      cycles: [buildCycle(1, 'feat-api')],
+      baselineCheckpoint: await createCheckpoint(projectDir, { sessionId: session.id, specId: 'feat-api', cycle: 0 })
+    };
+    await fs.writeFile(path.join(projectDir, 'api.txt'), 'api\n', 'utf8');
+    api.cycles[0] = { ...api.cycles[0], checkpoint: await createCheckpoint(projectDir, { sessionId: session.id, specId: 'feat-api', cycle: 1 }, api.baselineCheckpoint.commit) };
+    session.specs.push(api);
+    session.currentSpecIndex = 2;
+
+    await fs.writeFile(path.join(projectDir, 'notes.txt'), 'unsaved\n', 'utf8');
+    await expect(rollbackSpec(session, 'feat-core', 1)).rejects.toThrow('changes not recorded in any checkpoint');
+    expect(await fs.readFile(path.join(projectDir, 'notes.txt'), 'utf8')).toBe('unsaved\n');
+
+    const result = await rollbackSpec(session, 'feat-core', 1, process.env, true);
+    expect(result.resetSpecs.map((entry) => entry.file)).toEqual(['feat-api.md']);
+    await expect(fs.access(path.join(projectDir, 'api.txt'))).rejects.toThrow();
+    expect(core.cycles).toHaveLength(1);
+    expect(api.status).toBe('pending');
+    expect(api.cycles).toHaveLength(0);
+    expect(api.baselineCheckpoint).toBeUndefined();
+    expect(session.currentSpecIndex).toBe(0);
+  });
+});
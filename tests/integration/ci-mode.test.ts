@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { runCoordinator } from '../../src/orchestration/run';
+import { runCli } from '../../src/cli/cli';
+import { createOutputBuffer, createTempDir, makeExecutable } from '../helpers';
+import { RunOptions, Session } from '../../src/types';
+
+const spec = (id: string, maturity = 3) => `---\nspecmas: v3\nkind: FeatureSpec\nid: ${id}\nname: ${id}\nversion: 1.0.0\ncomplexity: EASY\nmaturity: ${maturity}\n---\n# ${id}`;
+
+// Validators pass once `passing` is set; every lead run reports 1,500 tokens.
+class SwitchRunner {
+  constructor(public passing: boolean) {}
+
+  async runLead() {
+    return { output: 'done', exitCode: 0, durationMs: 5, streamed: false, tokenUsage: { inputTokens: 1000, outputTokens: 500, totalTokens: 1500 } };
+  }
+
+  async runValidator() {
+    return {
+      output: JSON.stringify({
+        response_block: {
+          completeness: this.passing ? 100 : 40,
+          status: this.passing ? 'PASS' : 'FAIL',
+          findings: this.passing ? [] : [{ spec_requirement: 'R1', gap_description: 'Missing', original_code: '', proposed_diff: '' }],
+          recommendations: []
+        }
+      }),
+      exitCode: 0,
+      durationMs: 5,
+      streamed: false
+    };
+  }
+}
+
+const fakeTool = `#!/bin/sh\nif [ "$1" = "--version" ]; then\n  echo "tool 1.0.0"\n  exit 0\nfi\nexit 0\n`;
+
+async function createProject(specs: Record<string, string>) {
+  const projectDir = await createTempDir('aic-ci-');
+  await fs.mkdir(path.join(projectDir, 'specs'), { recursive: true });
+  for (const [file, content] of Object.entries(specs)) {
+    await fs.writeFile(path.join(projectDir, 'specs', file), content, 'utf8');
+  }
+  const binDir = await createTempDir('aic-bin-');
+  await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+  await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+  // AIC_TEST_MODE=0 keeps the prompts live, so a run that asked would wait on stdin.
+  const env = { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-'), AIC_TEST_MODE: '0' };
+  return { projectDir, binDir, env };
+}
+
+async function runCi(project: Awaited<ReturnType<typeof createProject>>, runner: SwitchRunner, overrides: Partial<RunOptions> = {}) {
+  const output = createOutputBuffer();
+  await runCoordinator({
+    specs: undefined,
+    exclude: undefined,
+    lead: 'claude',
+    validators: 'codex',
+    maxIterations: 4,
+    maxIterationsPerRun: 1,
+    timeout: 1,
+    resume: false,
+    stopOnFailure: false,
+    leadPermissions: undefined,
+    sandbox: false,
+    interactive: false,
+    verbose: false,
+    heartbeat: 0,
+    quiet: false,
+    dryRun: false,
+    preflight: false,
+    preflightThreshold: 70,
+    preflightIterations: 2,
+    startOver: false,
+    ci: true,
+    ...overrides
+  }, { cwd: project.projectDir, output: output.stream, errorOutput: createOutputBuffer().stream, env: project.env }, { runner });
+  return { output: output.output, exitCode: process.exitCode };
+}
+
+describe('aic run --ci', () => {
+  afterEach(() => {
+    process.exitCode = 0;
+  });
+
+  it('skips low maturity specs for review without prompting and writes reports to the configured directory', async () => {
+    const project = await createProject({ 'feat-core.md': spec('feat-core'), 'feat-draft.md': spec('feat-draft', 2) });
+
+    const result = await runCi(project, new SwitchRunner(true), { reportDir: 'ci-reports', reportFormats: 'junit,md' });
+
+    expect(result.exitCode).toBe(2);
+    expect(result.output).not.toContain('Starting in');
+    expect(result.output).toContain('Skipping feat-draft.md: Spec maturity 2 is below the recommended minimum (3). Skipped for review.');
+    expect(result.output).toContain('CI result: review (exit 2)\n  1 completed, 1 skipped for review, 0 failed, 0 not started\n');
+    const sessionsDir = path.join(project.projectDir, '.ai-coord', 'sessions');
+    const [sessionFile] = await fs.readdir(sessionsDir);
+    const session = JSON.parse(await fs.readFile(path.join(sessionsDir, sessionFile), 'utf8')) as Session;
+    expect(session.specs.map((entry) => entry.status)).toEqual(['completed', 'skipped']);
+    const junitPath = path.join('ci-reports', `${session.id}-report.xml`);
+    expect(result.output).toContain(`  Report: ${junitPath}\n  Report: ${path.join('ci-reports', `${session.id}-report.md`)}\n`);
+    const junit = await fs.readFile(path.join(project.projectDir, junitPath), 'utf8');
+    expect(junit).toContain('<testcase classname="feat-draft" name="consensus" time="0.000">\n      <skipped message="Spec skipped"/>');
+  });
+
+  it('exits 1 while specs are unfinished, then resumes the session without asking and exits 0', async () => {
+    const project = await createProject({ 'feat-core.md': spec('feat-core') });
+
+    const failed = await runCi(project, new SwitchRunner(false));
+    expect(failed.exitCode).toBe(1);
+    expect(failed.output).toContain('CI result: failed (exit 1)\n  0 completed, 0 skipped for review, 1 failed, 0 not started\n');
+
+    const passed = await runCi(project, new SwitchRunner(true));
+    expect(passed.output).toMatch(/Resuming unfinished session \S+ \(pass --start-over to discard it\)\./);
+    expect(passed.output).toContain('CI result: passed (exit 0)');
+    expect(passed.exitCode).toBe(0);
+  });
+
+  it('exits 4 when a token budget stops the run and honors --low-maturity abort', async () => {
+    const project = await createProject({ 'feat-a.md': spec('feat-a'), 'feat-b.md': spec('feat-b') });
+
+    const stopped = await runCi(project, new SwitchRunner(false), { maxIterationsPerRun: 3, maxTokens: 2000 });
+    expect(stopped.exitCode).toBe(4);
+    expect(stopped.output).toContain('CI result: budgetExceeded (exit 4)');
+    expect(stopped.output).toContain('  Stopped: Session token limit reached (3,000/2,000 tokens)\n  feat-a.md failed: Session token limit reached');
+
+    const draft = await createProject({ 'feat-draft.md': spec('feat-draft', 1) });
+    await expect(runCi(draft, new SwitchRunner(true), { lowMaturity: 'abort' })).rejects.toThrow('Aborted due to low spec maturity.');
+  });
+
+  it('exits 3 when the tools a run needs are not available', async () => {
+    const project = await createProject({ 'feat-core.md': spec('feat-core') });
+    await fs.rm(path.join(project.binDir, 'codex'));
+    const stderr = createOutputBuffer();
+
+    await runCli({ argv: ['run', '--ci', '--lead', 'claude', '--validators', 'codex'], cwd: project.projectDir, stdout: createOutputBuffer().stream, stderr: stderr.stream, env: { ...project.env, PATH: project.binDir } });
+    expect(stderr.output).toContain('At least 2 AI tools required');
+    expect(process.exitCode).toBe(3);
+
+    await runCli({ argv: ['run', '--quiet', '--lead', 'claude'], cwd: project.projectDir, stdout: createOutputBuffer().stream, stderr: createOutputBuffer().stream, env: { ...project.env, PATH: project.binDir } });
+    expect(process.exitCode).toBe(1);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { runCoordinator } from '../../src/orchestration/run';
+import { createOutputBuffer, createTempDir, makeExecutable } from '../helpers';
+import { RunOptions } from '../../src/types';
+
+const specContent = `---\nspecmas: v3\nkind: FeatureSpec\nid: feat-core\nname: Core\nversion: 1.0.0\ncomplexity: EASY\nmaturity: 3\n---\n# Core`;
+
+async function setupProject() {
+  const projectDir = await createTempDir('aic-command-');
+  await fs.mkdir(path.join(projectDir, 'specs'), { recursive: true });
+  await fs.writeFile(path.join(projectDir, 'specs', 'feat-core.md'), specContent, 'utf8');
+  const binDir = await createTempDir('aic-bin-');
+  const fakeTool = `#!/bin/sh\nif [ "$1" = "--version" ]; then\n  echo "tool 1.0.0"\n  exit 0\nfi\nexit 0\n`;
+  for (const tool of ['claude', 'codex']) {
+    await makeExecutable(path.join(binDir, tool), fakeTool);
+  }
+  return {
+    projectDir,
+    env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+  };
+}
+
+function runOptions(overrides: Partial<RunOptions>): RunOptions {
+  return {
+    specs: undefined,
+    exclude: undefined,
+    lead: 'claude',
+    validators: 'codex',
+    maxIterations: 2,
+    maxIterationsPerRun: 2,
+    timeout: 1,
+    resume: false,
+    stopOnFailure: false,
+    leadPermissions: undefined,
+    sandbox: false,
+    interactive: false,
+    verbose: false,
+    heartbeat: 0,
+    quiet: true,
+    dryRun: false,
+    preflight: false,
+    preflightThreshold: 70,
+    preflightIterations: 2,
+    startOver: false,
+    ...overrides
+  };
+}
+
+async function readSession(projectDir: string) {
+  const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+  const [sessionFile] = await fs.readdir(sessionsDir);
+  return JSON.parse(await fs.readFile(path.join(sessionsDir, sessionFile), 'utf8'));
+}
+
+function createRunner(leadPrompts: string[]) {
+  return {
+    async runLead(_tool: string, prompt: string) {
+      leadPrompts.push(prompt);
+      return { output: 'done', exitCode: 0, durationMs: 5, streamed: false };
+    },
+    async runValidator() {
+      return {
+        output: JSON.stringify({ response_block: { completeness: 100, status: 'PASS', findings: [], recommendations: [] } }),
+        exitCode: 0,
+        durationMs: 5,
+        streamed: false
+      };
+    }
+  };
+}
+
+describe('command validators', () => {
+  it('blocks consensus while a hard-gate command fails and feeds its failures to the lead', async () => {
+    const { projectDir, env } = await setupProject();
+    const leadPrompts: string[] = [];
+    const tap = `printf 'TAP version 13\\nok 1 - boots\\nnot ok 2 - logs startup\\n1..2\\n'; exit 1`;
+    await runCoordinator(runOptions({ gate: [`test=${tap}`] }), {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env
+    }, { runner: createRunner(leadPrompts) });
+
+    const session = await readSession(projectDir);
+    const spec = session.specs[0];
+    expect(spec.status).not.toBe('completed');
+    expect(spec.cycles).toHaveLength(2);
+    const [aiValidation, commandValidation] = spec.cycles[0].validations;
+    expect(aiValidation.tool).toBe('codex');
+    expect(commandValidation).toMatchObject({ tool: 'cmd:test', exitCode: 1, parsed: { status: 'FAIL', completeness: 50 } });
+    expect(spec.cycles[0].consensusDecision.reason).toBe('hard gate failed: cmd:test');
+    expect(leadPrompts[1]).toContain('Test logs startup passes');
+  });
+
+  it('reaches consensus once the command passes', async () => {
+    const { projectDir, env } = await setupProject();
+    await runCoordinator(runOptions({ check: ['lint=true'], gate: ['types=echo ok'] }), {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env
+    }, { runner: createRunner([]) });
+
+    const session = await readSession(projectDir);
+    expect(session.config.commandValidators).toEqual([
+      { name: 'lint', command: 'true' },
+      { name: 'types', command: 'echo ok', gate: true }
+    ]);
+    expect(session.specs[0].status).toBe('completed');
+    expect(session.specs[0].cycles[0].validations.map((validation: { tool: string }) => validation.tool)).toEqual(['codex', 'cmd:lint', 'cmd:types']);
+  });
+
+  it('runs spec-declared verification each validation pass and uses the spec timeout', async () => {
+    const { projectDir, env } = await setupProject();
+    const frontMatter = 'verify: test -f src/core.ts\nexpects:\n  exports:\n    src/core.ts: [boot]\ntimeout: 2\n';
+    await fs.writeFile(path.join(projectDir, 'specs', 'feat-core.md'), specContent.replace('maturity: 3\n', `maturity: 3\n${frontMatter}`), 'utf8');
+    const timeouts: number[] = [];
+    const runner = createRunner([]);
+    await runCoordinator(runOptions({}), {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env
+    }, {
+      runner: {
+        ...runner,
+        async runLead(tool: string, prompt: string, cwd: string, timeoutMs: number) {
+          timeouts.push(timeoutMs);
+          // The second cycle implements the expected export.
+          if (timeouts.length === 2) {
+            await fs.mkdir(path.join(cwd, 'src'), { recursive: true });
+            await fs.writeFile(path.join(cwd, 'src', 'core.ts'), 'export function boot() {}\n', 'utf8');
+          }
+          return runner.runLead(tool, prompt);
+        }
+      }
+    });
+
+    expect(timeouts).toEqual([120_000, 120_000]);
+    const spec = (await readSession(projectDir)).specs[0];
+    expect(spec.cycles[0].validations.map((validation: { tool: string; parsed: { status: string } }) => [validation.tool, validation.parsed.status])).toEqual([
+      ['codex', 'PASS'],
+      ['cmd:verify-1', 'FAIL'],
+      ['spec:expects', 'FAIL']
+    ]);
+    expect(spec.cycles[0].consensusDecision.reason).toBe('hard gate failed: cmd:verify-1, spec:expects');
+    expect(spec.cycles[1].consensusReached).toBe(true);
+    expect(spec.status).toBe('completed');
+  });
+});
+
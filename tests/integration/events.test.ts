@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { runCoordinator } from '../../src/orchestration/run';
+import { CoordinatorEvent, CoordinatorEventEmitter, openEventSink } from '../../src/orchestration/events';
+import { createOutputBuffer, createTempDir, makeExecutable } from '../helpers';
+
+const spec = `---\nspecmas: v3\nkind: FeatureSpec\nid: feat-events\nname: Events\nversion: 1.0.0\ncomplexity: EASY\nmaturity: 3\n---\n# Events`;
+
+// Validators fail the first cycle and pass the second.
+class TwoCycleRunner {
+  private validations = 0;
+
+  async runLead() {
+    return { output: 'done', exitCode: 0, durationMs: 12, streamed: false, tokenUsage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 } };
+  }
+
+  async runValidator() {
+    this.validations += 1;
+    const passed = this.validations > 1;
+    return {
+      output: JSON.stringify({
+        response_block: {
+          completeness: passed ? 100 : 40,
+          status: passed ? 'PASS' : 'FAIL',
+          findings: passed ? [] : [{ spec_requirement: 'R1', gap_description: 'Missing', original_code: '', proposed_diff: '' }],
+          recommendations: []
+        }
+      }),
+      exitCode: 0,
+      durationMs: 7,
+      streamed: false
+    };
+  }
+}
+
+describe('coordinator events', () => {
+  it('emits typed progress events in loop order and writes them as JSON lines', async () => {
+    const projectDir = await createTempDir('aic-events-');
+    await fs.mkdir(path.join(projectDir, 'specs'), { recursive: true });
+    await fs.writeFile(path.join(projectDir, 'specs', 'feat-events.md'), spec, 'utf8');
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ "$1" = "--version" ]; then\n  echo "tool 1.0.0"\n  exit 0\nfi\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+    await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+
+    const events = new CoordinatorEventEmitter();
+    const seen: CoordinatorEvent[] = [];
+    events.onAny((event) => seen.push(event));
+    const consensus: boolean[] = [];
+    events.on('ConsensusEvaluated', (event) => consensus.push(event.reached));
+    const sink = openEventSink('logs/events.jsonl', projectDir, createOutputBuffer().stream);
+    events.onAny(sink.write);
+
+    await runCoordinator({
+      specs: undefined,
+      exclude: undefined,
+      lead: 'claude',
+      validators: 'codex',
+      maxIterations: 5,
+      maxIterationsPerRun: 3,
+      timeout: 1,
+      resume: false,
+      stopOnFailure: false,
+      leadPermissions: undefined,
+      sandbox: false,
+      interactive: false,
+      verbose: false,
+      heartbeat: 0,
+      quiet: true,
+      dryRun: false,
+      preflight: false,
+      preflightThreshold: 70,
+      preflightIterations: 2,
+      startOver: false
+    }, {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+    }, { runner: new TwoCycleRunner(), events });
+    sink.close();
+
+    const cycleEvents = ['LeadStarted', 'LeadFinished', 'ValidatorResult', 'ConsensusEvaluated', 'CycleCompleted'];
+    expect(seen.map((event) => event.type)).toEqual([
+      'SessionStarted',
+      'SpecStarted',
+      ...cycleEvents,
+      ...cycleEvents,
+      'SpecCompleted',
+      'SessionCompleted'
+    ]);
+    expect(consensus).toEqual([false, true]);
+    const sessionId = seen[0].sessionId;
+    expect(seen.every((event) => event.sessionId === sessionId && !Number.isNaN(Date.parse(event.timestamp)))).toBe(true);
+    expect(seen[0]).toMatchObject({ mode: 'run', resumed: false, lead: 'claude', validators: ['codex'], specs: ['feat-events.md'] });
+    expect(seen.find((event) => event.type === 'LeadFinished')).toMatchObject({
+      specId: 'feat-events',
+      cycleNumber: 1,
+      tool: 'claude',
+      durationMs: 12,
+      tokenUsage: { totalTokens: 120 }
+    });
+    expect(seen.find((event) => event.type === 'ValidatorResult')).toMatchObject({ tool: 'codex', status: 'FAIL', completeness: 40, findings: 1 });
+    expect(seen.filter((event) => event.type === 'CycleCompleted').at(-1)).toMatchObject({
+      cycleNumber: 2,
+      leadDurationMs: 12,
+      consensusReached: true,
+      validationResults: [{ tool: 'codex', status: 'PASS', completeness: 100, findings: 0 }]
+    });
+    expect(seen.at(-2)).toMatchObject({ type: 'SpecCompleted', status: 'completed', totalCycles: 2 });
+    expect(seen.at(-1)).toMatchObject({ type: 'SessionCompleted', totalSpecs: 1, completedSpecs: 1, failedSpecs: 0, finalStatus: 'completed' });
+
+    const lines = (await fs.readFile(path.join(projectDir, 'logs', 'events.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toEqual(seen);
+  });
+});
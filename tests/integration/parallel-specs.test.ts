@@ -0,0 +1,274 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execa } from 'execa';
+import { runCoordinator } from '../../src/orchestration/run';
+import { runSpecDag } from '../../src/orchestration/parallel';
+import { RunOptions, SpecEntry } from '../../src/types';
+import { createOutputBuffer, createTempDir, makeExecutable } from '../helpers';
+
+const gitEnv = {
+  GIT_AUTHOR_NAME: 'test',
+  GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'test',
+  GIT_COMMITTER_EMAIL: 'test@example.com'
+};
+
+function specContent(id: string, dependsOn?: string) {
+  const deps = dependsOn ? `depends_on: [${dependsOn}]\n` : '';
+  return `---\nspecmas: v3\nkind: FeatureSpec\nid: ${id}\nname: ${id}\nversion: 1.0.0\ncomplexity: EASY\nmaturity: 3\n${deps}---\n# ${id}`;
+}
+
+const passOutput = JSON.stringify({
+  response_block: { completeness: 100, status: 'PASS', findings: [], recommendations: [] }
+});
+
+const options: RunOptions = {
+  specs: undefined,
+  exclude: undefined,
+  lead: 'claude',
+  validators: 'codex',
+  maxIterations: 1,
+  maxIterationsPerRun: 1,
+  timeout: 1,
+  resume: false,
+  stopOnFailure: false,
+  leadPermissions: undefined,
+  sandbox: false,
+  interactive: false,
+  verbose: false,
+  quiet: true,
+  dryRun: false,
+  preflight: false,
+  preflightThreshold: 70,
+  preflightIterations: 2,
+  startOver: false,
+  parallel: 2
+};
+
+async function setupProject(specs: Record<string, string>) {
+  const projectDir = await createTempDir('aic-parallel-specs-');
+  await fs.mkdir(path.join(projectDir, 'specs'), { recursive: true });
+  for (const [file, content] of Object.entries(specs)) {
+    await fs.writeFile(path.join(projectDir, 'specs', file), content, 'utf8');
+  }
+  await fs.writeFile(path.join(projectDir, '.gitignore'), '.ai-coord/\n', 'utf8');
+  await execa('git', ['init', '-q'], { cwd: projectDir });
+  await execa('git', ['add', '-A'], { cwd: projectDir });
+  await execa('git', ['commit', '-q', '-m', 'specs'], { cwd: projectDir, env: gitEnv });
+
+  const binDir = await createTempDir('aic-bin-');
+  const fakeTool = `#!/bin/sh\nif [ "$1" = "--version" ]; then\n  echo "tool 1.0.0"\n  exit 0\nfi\nexit 0\n`;
+  await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+  await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+  const env = { ...process.env, ...gitEnv, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') };
+  return { projectDir, env };
+}
+
+async function readSession(projectDir: string) {
+  const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+  const [sessionFile] = await fs.readdir(sessionsDir);
+  return JSON.parse(await fs.readFile(path.join(sessionsDir, sessionFile), 'utf8'));
+}
+
+function specIdFromPrompt(prompt: string): string {
+  return /Target spec: specs\/([^\s]+)\.md/.exec(prompt)?.[1] ?? 'unknown';
+}
+
+describe('parallel spec execution', () => {
+  it('builds independent specs concurrently in worktrees and merges them', async () => {
+    const { projectDir, env } = await setupProject({
+      'feat-a.md': specContent('feat-a'),
+      'feat-b.md': specContent('feat-b'),
+      'feat-c.md': specContent('feat-c', 'feat-a')
+    });
+    let running = 0;
+    let peak = 0;
+    const leadDirs: string[] = [];
+
+    await runCoordinator(options, { cwd: projectDir, output: createOutputBuffer().stream, errorOutput: createOutputBuffer().stream, env }, {
+      runner: {
+        async runLead(_tool, prompt, cwd) {
+          running += 1;
+          peak = Math.max(peak, running);
+          leadDirs.push(cwd);
+          const specId = specIdFromPrompt(prompt);
+          if (specId === 'feat-c') {
+            expect(await fs.readFile(path.join(cwd, 'feat-a.txt'), 'utf8')).toBe('feat-a\n');
+          }
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          await fs.writeFile(path.join(cwd, `${specId}.txt`), `${specId}\n`, 'utf8');
+          running -= 1;
+          return { output: 'done', exitCode: 0, durationMs: 30, streamed: false };
+        },
+        async runValidator() {
+          return { output: passOutput, exitCode: 0, durationMs: 1, streamed: false };
+        }
+      }
+    });
+
+    expect(peak).toBe(2);
+    expect(leadDirs.every((dir) => dir.startsWith(path.join(projectDir, '.ai-coord', 'worktrees')))).toBe(true);
+    for (const id of ['feat-a', 'feat-b', 'feat-c']) {
+      expect(await fs.readFile(path.join(projectDir, `${id}.txt`), 'utf8')).toBe(`${id}\n`);
+    }
+    const session = await readSession(projectDir);
+    expect(session.status).toBe('completed');
+    expect(session.config.parallel).toBe(2);
+    const { stdout: worktrees } = await execa('git', ['worktree', 'list', '--porcelain'], { cwd: projectDir });
+    expect(worktrees.split('\n').filter((line) => line.startsWith('worktree '))).toHaveLength(1);
+    const { stdout: merges } = await execa('git', ['log', '--merges', '--format=%s'], { cwd: projectDir });
+    expect(merges.split('\n').sort()).toEqual(['aic: merge feat-a', 'aic: merge feat-b', 'aic: merge feat-c']);
+  });
+
+  it('marks a spec failed and keeps its branch when the merge conflicts', async () => {
+    const { projectDir, env } = await setupProject({
+      'feat-a.md': specContent('feat-a'),
+      'feat-b.md': specContent('feat-b')
+    });
+
+    await runCoordinator(options, { cwd: projectDir, output: createOutputBuffer().stream, errorOutput: createOutputBuffer().stream, env }, {
+      runner: {
+        async runLead(_tool, prompt, cwd) {
+          await fs.writeFile(path.join(cwd, 'shared.txt'), `${specIdFromPrompt(prompt)}\n`, 'utf8');
+          return { output: 'done', exitCode: 0, durationMs: 1, streamed: false };
+        },
+        async runValidator() {
+          return { output: passOutput, exitCode: 0, durationMs: 1, streamed: false };
+        }
+      }
+    });
+
+    const session = await readSession(projectDir);
+    const statuses = session.specs.map((spec: SpecEntry) => spec.status).sort();
+    expect(statuses).toEqual(['completed', 'failed']);
+    const failed = session.specs.find((spec: SpecEntry) => spec.status === 'failed');
+    expect(failed.lastError).toContain('Merge conflict');
+    expect(failed.lastError).toContain('shared.txt');
+    const { stdout: status } = await execa('git', ['status', '--porcelain'], { cwd: projectDir });
+    expect(status).toBe('');
+    const { stdout: branches } = await execa('git', ['branch', '--list', `aic/*/${failed.meta.id}`], { cwd: projectDir });
+    expect(branches.trim()).not.toBe('');
+  });
+
+  it('keeps a rate-limited lead switch to the spec it happened in', async () => {
+    const { projectDir, env } = await setupProject({
+      'feat-a.md': specContent('feat-a'),
+      'feat-b.md': specContent('feat-b')
+    });
+    const calls: string[] = [];
+
+    await runCoordinator(options, { cwd: projectDir, output: createOutputBuffer().stream, errorOutput: createOutputBuffer().stream, env }, {
+      runner: {
+        async runLead(tool, prompt) {
+          const specId = specIdFromPrompt(prompt);
+          calls.push(`lead ${specId} ${tool}`);
+          if (specId === 'feat-a' && tool === 'claude') {
+            return { output: 'Rate limit reached', exitCode: 1, durationMs: 1, streamed: false };
+          }
+          // feat-b's validators run after feat-a switched its lead.
+          await new Promise((resolve) => setTimeout(resolve, specId === 'feat-b' ? 50 : 1));
+          return { output: 'done', exitCode: 0, durationMs: 1, streamed: false };
+        },
+        async runValidator(tool, _prompt, cwd) {
+          calls.push(`validator ${path.basename(cwd).replace(/^.*-(feat-[ab])$/, '$1')} ${tool}`);
+          return { output: passOutput, exitCode: 0, durationMs: 1, streamed: false };
+        }
+      }
+    });
+
+    expect(calls.filter((call) => call.includes('feat-a'))).toEqual(['lead feat-a claude', 'lead feat-a codex', 'validator feat-a claude']);
+    expect(calls.filter((call) => call.includes('feat-b'))).toEqual(['lead feat-b claude', 'validator feat-b codex']);
+    const session = await readSession(projectDir);
+    expect(session.specs.map((spec: SpecEntry) => spec.status)).toEqual(['completed', 'completed']);
+    expect(session.currentSpecIndex).toBe(2);
+  });
+
+  it('builds a spec blocked by a failed dependency once a resumed run completes it', async () => {
+    const { projectDir, env } = await setupProject({
+      'feat-a.md': specContent('feat-a'),
+      'feat-b.md': specContent('feat-b', 'feat-a')
+    });
+    const failOutput = JSON.stringify({
+      response_block: { completeness: 40, status: 'FAIL', findings: [{ spec_requirement: 'R1', gap_description: 'Missing', original_code: '', proposed_diff: '' }], recommendations: [] }
+    });
+    let passing = false;
+    const built: string[] = [];
+    const runner = {
+      async runLead(_tool: string, prompt: string, cwd: string) {
+        const specId = specIdFromPrompt(prompt);
+        built.push(specId);
+        await fs.writeFile(path.join(cwd, `${specId}.txt`), `${specId}\n`, 'utf8');
+        return { output: 'done', exitCode: 0, durationMs: 1, streamed: false };
+      },
+      async runValidator() {
+        return { output: passing ? passOutput : failOutput, exitCode: 0, durationMs: 1, streamed: false };
+      }
+    };
+    const context = { cwd: projectDir, output: createOutputBuffer().stream, errorOutput: createOutputBuffer().stream, env };
+
+    await runCoordinator({ ...options, maxIterations: 2 }, context, { runner });
+    const first = await readSession(projectDir);
+    expect(first.specs.map((spec: SpecEntry) => spec.status)).toEqual(['failed', 'pending']);
+    expect(first.specs[1].lastError).toBe('Dependency feat-a did not complete');
+    expect(built).toEqual(['feat-a']);
+
+    passing = true;
+    await runCoordinator({ ...options, maxIterations: 2, resume: true }, context, { runner });
+    const second = await readSession(projectDir);
+    expect(second.specs.map((spec: SpecEntry) => spec.status)).toEqual(['completed', 'completed']);
+    expect(second.status).toBe('completed');
+    expect(second.specs[1].lastError).toBeUndefined();
+    expect(built).toEqual(['feat-a', 'feat-a', 'feat-b']);
+    expect(await fs.readFile(path.join(projectDir, 'feat-b.txt'), 'utf8')).toBe('feat-b\n');
+  });
+
+  it('rejects a dirty working tree', async () => {
+    const { projectDir, env } = await setupProject({ 'feat-a.md': specContent('feat-a') });
+    await fs.writeFile(path.join(projectDir, 'wip.txt'), 'wip\n', 'utf8');
+    await expect(runCoordinator(options, { cwd: projectDir, output: createOutputBuffer().stream, errorOutput: createOutputBuffer().stream, env }))
+      .rejects.toThrow('clean working tree');
+  });
+});
+
+describe('runSpecDag', () => {
+  function entry(id: string, dependsOn?: string[]): SpecEntry {
+    return { file: `${id}.md`, path: `/specs/${id}.md`, meta: { id, name: id, complexity: 'EASY', maturity: 3, dependsOn }, status: 'pending', cycles: [] };
+  }
+
+  it('skips transitive dependents of a spec that did not complete', async () => {
+    const specs = [entry('a'), entry('b', ['a']), entry('c', ['b']), entry('d')];
+    const started: string[] = [];
+    const blocked: string[] = [];
+    await runSpecDag(specs, 4, async (spec) => {
+      started.push(spec.meta.id);
+      spec.status = spec.meta.id === 'a' ? 'failed' : 'completed';
+    }, {
+      shouldStop: () => false,
+      onBlocked: (spec, dependency) => {
+        spec.status = 'skipped';
+        blocked.push(`${spec.meta.id}<-${dependency}`);
+      }
+    });
+    expect(started.sort()).toEqual(['a', 'd']);
+    expect(blocked).toEqual(['b<-a', 'c<-b']);
+  });
+
+  it('blocks a spec whose dependency is not among the specs instead of waiting on it', async () => {
+    const specs = [entry('a', ['missing']), entry('b')];
+    const started: string[] = [];
+    const blocked: string[] = [];
+    await runSpecDag(specs, 2, async (spec) => {
+      started.push(spec.meta.id);
+      spec.status = 'completed';
+    }, {
+      shouldStop: () => false,
+      onBlocked: (spec, dependency, reason) => {
+        spec.status = 'skipped';
+        blocked.push(`${spec.meta.id}<-${dependency} ${reason}`);
+      }
+    });
+    expect(started).toEqual(['b']);
+    expect(blocked).toEqual(['a<-missing is not in this session']);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { runValidationOnly } from '../../src/orchestration/run';
+import { createOutputBuffer, createTempDir, makeExecutable } from '../helpers';
+
+const specContent = `---\nspecmas: v3\nkind: FeatureSpec\nid: feat-core\nname: Core\nversion: 1.0.0\ncomplexity: EASY\nmaturity: 3\n---\n# Core`;
+
+function passOutput(completeness: number) {
+  return JSON.stringify({
+    response_block: { completeness, status: 'PASS', findings: [], recommendations: [] }
+  });
+}
+
+async function setupProject() {
+  const projectDir = await createTempDir('aic-parallel-');
+  await fs.mkdir(path.join(projectDir, 'specs'), { recursive: true });
+  await fs.writeFile(path.join(projectDir, 'specs', 'feat-core.md'), specContent, 'utf8');
+  const binDir = await createTempDir('aic-bin-');
+  const fakeTool = `#!/bin/sh\nif [ "$1" = "--version" ]; then\n  echo "tool 1.0.0"\n  exit 0\nfi\nexit 0\n`;
+  for (const tool of ['claude', 'codex', 'gemini']) {
+    await makeExecutable(path.join(binDir, tool), fakeTool);
+  }
+  return { projectDir, env: { ...process.env, PATH: `${binDir}:${process.env.PATH}` } };
+}
+
+describe('parallel validators', () => {
+  it('runs validators concurrently and keeps configured order', async () => {
+    const { projectDir, env } = await setupProject();
+    const delays: Record<string, number> = { claude: 60, codex: 30, gemini: 1 };
+    let running = 0;
+    let peak = 0;
+    const finished: string[] = [];
+    await runValidationOnly({
+      validators: 'claude,codex,gemini',
+      timeout: 1,
+      verbose: false,
+      heartbeat: 0,
+      quiet: true
+    }, { cwd: projectDir, output: createOutputBuffer().stream, errorOutput: createOutputBuffer().stream, env }, {
+      runner: {
+        async runLead() {
+          return { output: 'n/a', exitCode: 0, durationMs: 0, streamed: false };
+        },
+        async runValidator(tool: string) {
+          running += 1;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, delays[tool]));
+          running -= 1;
+          finished.push(tool);
+          return { output: passOutput(delays[tool]), exitCode: 0, durationMs: delays[tool], streamed: false };
+        }
+      }
+    });
+
+    expect(peak).toBe(3);
+    expect(finished).toEqual(['gemini', 'codex', 'claude']);
+    const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+    const [sessionFile] = await fs.readdir(sessionsDir);
+    const session = JSON.parse(await fs.readFile(path.join(sessionsDir, sessionFile), 'utf8'));
+    const tools = session.specs[0].cycles[0].validations.map((validation: { tool: string }) => validation.tool);
+    expect(tools).toEqual(['claude', 'codex', 'gemini']);
+  });
+
+  it('honors the concurrency limit', async () => {
+    const { projectDir, env } = await setupProject();
+    let running = 0;
+    let peak = 0;
+    await runValidationOnly({
+      validators: 'claude,codex,gemini',
+      timeout: 1,
+      verbose: false,
+      heartbeat: 0,
+      quiet: true,
+      validatorConcurrency: 1
+    }, { cwd: projectDir, output: createOutputBuffer().stream, errorOutput: createOutputBuffer().stream, env }, {
+      runner: {
+        async runLead() {
+          return { output: 'n/a', exitCode: 0, durationMs: 0, streamed: false };
+        },
+        async runValidator() {
+          running += 1;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running -= 1;
+          return { output: passOutput(100), exitCode: 0, durationMs: 5, streamed: false };
+        }
+      }
+    });
+    expect(peak).toBe(1);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execa } from 'execa';
+import { runCli } from '../../src/cli/cli';
+import { createCheckpoint } from '../../src/orchestration/checkpoints';
+import { Cycle, Session } from '../../src/types';
+import { createOutputBuffer, createTempDir } from '../helpers';
+
+function buildCycle(number: number, completeness: [number, number], extra: Partial<Cycle> = {}): Cycle {
+  const startedAt = new Date(Date.parse('2026-01-01T10:00:00.000Z') + number * 600_000);
+  return {
+    number,
+    specId: 'feat-core',
+    startedAt: startedAt.toISOString(),
+    completedAt: new Date(startedAt.getTime() + 90_000).toISOString(),
+    leadExecution: {
+      tool: 'claude',
+      prompt: '',
+      output: '',
+      filesModified: ['app.txt'],
+      fileChanges: [{ path: 'app.txt', change: 'modified', linesAdded: 1, linesRemoved: 1 }],
+      durationMs: 60_000,
+      exitCode: 0,
+      tokenUsage: { inputTokens: 1000, outputTokens: 200, totalTokens: 1200 }
+    },
+    validations: [
+      {
+        tool: 'codex',
+        prompt: '',
+        output: '',
+        durationMs: 20_000,
+        exitCode: 0,
+        parsed: {
+          completeness: completeness[0],
+          status: completeness[0] === 100 ? 'PASS' : 'FAIL',
+          gaps: [],
+          recommendations: [],
+          findings: completeness[0] === 100 ? [] : [{ requirement: 'R1', description: 'Missing <b>retry</b>', severity: 'major', location: { file: 'app.txt', line: 1 } }]
+        }
+      },
+      {
+        tool: 'gemini',
+        prompt: '',
+        output: '',
+        durationMs: 25_000,
+        exitCode: 0,
+        parsed: { completeness: completeness[1], status: 'PASS', gaps: [], recommendations: [] }
+      }
+    ],
+    consensusReached: completeness[0] === 100,
+    consensusDecision: { policy: 'all', reached: completeness[0] === 100, reason: completeness[0] === 100 ? 'all validators passed' : 'codex failed' },
+    ...extra
+  } as Cycle;
+}
+
+async function writeSession(projectDir: string): Promise<Session> {
+  await execa('git', ['init', '-q'], { cwd: projectDir });
+  await fs.writeFile(path.join(projectDir, 'app.txt'), 'v0\n', 'utf8');
+  const baseline = await createCheckpoint(projectDir, { sessionId: 'session-report', specId: 'feat-core', cycle: 0 });
+  await fs.writeFile(path.join(projectDir, 'app.txt'), 'v1\n', 'utf8');
+  const first = await createCheckpoint(projectDir, { sessionId: 'session-report', specId: 'feat-core', cycle: 1 }, baseline.commit);
+  await fs.writeFile(path.join(projectDir, 'app.txt'), 'v2\n', 'utf8');
+  const second = await createCheckpoint(projectDir, { sessionId: 'session-report', specId: 'feat-core', cycle: 2 }, first.commit);
+
+  const now = new Date().toISOString();
+  const session = {
+    id: 'session-report',
+    workingDirectory: projectDir,
+    specsDirectory: path.join(projectDir, 'specs'),
+    lead: 'claude',
+    validators: ['codex', 'gemini'],
+    config: { checkpoint: true },
+    status: 'completed',
+    currentSpecIndex: 1,
+    specs: [{
+      file: 'feat-core.md',
+      path: path.join(projectDir, 'specs', 'feat-core.md'),
+      meta: { id: 'feat-core', name: 'Core', complexity: 'EASY', maturity: 3 },
+      status: 'completed',
+      baselineCheckpoint: baseline,
+      cycles: [buildCycle(1, [60, 80], { checkpoint: first }), buildCycle(2, [100, 100], { checkpoint: second })]
+    }],
+    createdAt: now,
+    updatedAt: now
+  } as unknown as Session;
+  const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+  await fs.mkdir(sessionsDir, { recursive: true });
+  await fs.writeFile(path.join(sessionsDir, 'session-report.json'), JSON.stringify(session), 'utf8');
+  return session;
+}
+
+describe('aic report', () => {
+  it('writes a self-contained HTML report with timeline, trend chart, findings and cycle diffs', async () => {
+    const projectDir = await createTempDir('aic-report-');
+    await writeSession(projectDir);
+    const stdout = createOutputBuffer();
+
+    await runCli({ argv: ['report'], cwd: projectDir, stdout: stdout.stream, stderr: createOutputBuffer().stream, env: process.env });
+
+    const reportPath = path.join('.ai-coord', 'reports', 'session-report-report.html');
+    expect(stdout.output).toBe(`Wrote html report to ${reportPath}\n`);
+    const html = await fs.readFile(path.join(projectDir, reportPath), 'utf8');
+    expect(html).toContain('<title>aic report session-report</title>');
+    expect(html).not.toMatch(/<script|<link|src="http/);
+    expect(html.match(/<span class="label">Cycle \d<\/span>/g)).toEqual(['<span class="label">Cycle 1</span>', '<span class="label">Cycle 2</span>']);
+    expect(html).toContain('<svg class="chart"');
+    expect(html).toMatch(/<polyline[^>]*points="[\d.]+,[\d.]+ [\d.]+,[\d.]+"/);
+    expect(html).toContain('Missing &lt;b&gt;retry&lt;/b&gt;');
+    expect(html).toContain('<td>claude</td><td>lead</td><td class="num">2</td><td class="num">2m 0s</td><td class="num">2,400</td>');
+    expect(html).toContain('<span class="del">-v1</span>\n<span class="add">+v2</span>');
+  });
+
+  it('prints JSON and markdown reports and resolves sessions by prefix', async () => {
+    const projectDir = await createTempDir('aic-report-json-');
+    await writeSession(projectDir);
+    const stdout = createOutputBuffer();
+
+    await runCli({ argv: ['--json', 'report', 'session-r'], cwd: projectDir, stdout: stdout.stream, stderr: createOutputBuffer().stream, env: process.env });
+    const report = JSON.parse(stdout.output);
+    expect(report).toMatchObject({ version: 1, command: 'report', session: { id: 'session-report', consensusPolicy: expect.any(String) } });
+    expect(report.specs[0]).toMatchObject({ id: 'feat-core', status: 'completed', completeness: 100, durationMs: 180_000, tokens: 2400 });
+    expect(report.specs[0].cycles.map((cycle: { completeness: number; diff: string }) => [cycle.completeness, cycle.diff.split('\n').filter((line) => /^[-+]v/.test(line))])).toEqual([
+      [70, ['-v0', '+v1']],
+      [100, ['-v1', '+v2']]
+    ]);
+    expect(report.specs[0].cycles[0].validations[0]).toMatchObject({ tool: 'codex', status: 'FAIL', findings: [{ requirement: 'R1', severity: 'major' }] });
+
+    const markdown = createOutputBuffer();
+    await runCli({ argv: ['report', '--format', 'md', '--output', '-'], cwd: projectDir, stdout: markdown.stream, stderr: createOutputBuffer().stream, env: process.env });
+    expect(markdown.output).toContain('# AI Spec Coordinator Report');
+    expect(markdown.output).toContain('  - Cycle 2: 1 files (0 added, 1 modified, 0 deleted; +1/-1)');
+
+    const stderr = createOutputBuffer();
+    await runCli({ argv: ['report', 'missing'], cwd: projectDir, stdout: createOutputBuffer().stream, stderr: stderr.stream, env: process.env });
+    expect(stderr.output).toContain('Session not found: missing');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('exports JUnit test cases per spec and criterion and SARIF findings with locations', async () => {
+    const projectDir = await createTempDir('aic-report-ci-');
+    const session = await writeSession(projectDir);
+    const spec = session.specs[0];
+    spec.status = 'in_progress';
+    spec.criteria = [{ id: 'AC-1', text: 'Retries requests' }, { id: 'AC-2', text: 'Logs errors' }];
+    const [codex, gemini] = spec.cycles[1].validations;
+    codex.parsed = {
+      completeness: 75,
+      status: 'FAIL',
+      gaps: [],
+      recommendations: [],
+      findings: [
+        { requirement: 'Logs errors', requirementId: 'AC-2', description: 'No logging on retry', severity: 'critical', location: { file: path.join(projectDir, 'src', 'app.ts'), line: 4, endLine: 6 } },
+        { requirement: 'Retries requests', requirementId: 'AC-1', description: 'Retry count off by one', severity: 'minor', location: { file: 'src/retry.ts', line: 0 } },
+        { requirement: '', description: 'Consider & document', severity: 'info' }
+      ],
+      criteria: [{ id: 'AC-1', verdict: 'met' }, { id: 'AC-2', verdict: 'partial', evidence: 'logs only the "first" failure' }]
+    };
+    gemini.parsed = { ...gemini.parsed, criteria: [{ id: 'AC-1', verdict: 'met' }, { id: 'AC-2', verdict: 'met' }] };
+    spec.cycles[1].consensusReached = false;
+    spec.cycles[1].consensusDecision = { policy: 'all', reached: false, reason: 'codex failed' };
+    session.specs.push({ ...spec, file: 'feat-api.md', meta: { ...spec.meta, id: 'feat-api', name: 'API' }, status: 'pending', cycles: [], criteria: undefined });
+    await fs.writeFile(path.join(projectDir, '.ai-coord', 'sessions', 'session-report.json'), JSON.stringify(session), 'utf8');
+
+    const stdout = createOutputBuffer();
+    await runCli({ argv: ['report', '--format', 'junit'], cwd: projectDir, stdout: stdout.stream, stderr: createOutputBuffer().stream, env: process.env });
+    expect(stdout.output).toBe(`Wrote junit report to ${path.join('.ai-coord', 'reports', 'session-report-report.xml')}\n`);
+    const junit = await fs.readFile(path.join(projectDir, '.ai-coord', 'reports', 'session-report-report.xml'), 'utf8');
+    expect(junit).toContain('<testsuites name="aic session-report" tests="4" failures="2" errors="0" skipped="1" time="180.000">');
+    expect(junit).toContain('<testsuite name="feat-core.md" tests="3" failures="2" errors="0" skipped="0" time="180.000"');
+    expect(junit).toContain('<testcase classname="feat-core" name="consensus" time="180.000">\n      <failure message="codex failed" type="in_progress">');
+    expect(junit).toContain('src/app.ts:4-6 (AC-2) Requirement: Logs errors | Gap: No logging on retry [codex]');
+    expect(junit).toContain('Gap: Consider &amp; document [codex]');
+    expect(junit).toContain('<testcase classname="feat-core" name="AC-1 Retries requests" time="0.000"/>');
+    expect(junit).toContain('<failure message="codex: partial, gemini: met" type="criterion">codex: partial - logs only the &quot;first&quot; failure\ngemini: met</failure>');
+    expect(junit).toContain('<testcase classname="feat-api" name="consensus" time="0.000">\n      <skipped message="Spec pending"/>');
+
+    const sarifOutput = createOutputBuffer();
+    await runCli({ argv: ['report', '--format', 'sarif', '--output', '-'], cwd: projectDir, stdout: sarifOutput.stream, stderr: createOutputBuffer().stream, env: process.env });
+    const sarif = JSON.parse(sarifOutput.output);
+    expect(sarif).toMatchObject({ version: '2.1.0', runs: [{ tool: { driver: { name: 'aic' } } }] });
+    expect(sarif.runs[0].tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['feat-core/AC-2', 'feat-core/AC-1', 'feat-core/finding']);
+    expect(sarif.runs[0].results).toEqual([
+      {
+        ruleId: 'feat-core/AC-2',
+        level: 'error',
+        message: { text: 'Logs errors: No logging on retry (reported by codex)' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/app.ts' }, region: { startLine: 4, endLine: 6 } } }],
+        properties: { severity: 'critical', spec: 'feat-core.md', cycle: 2, validators: ['codex'] }
+      },
+      expect.objectContaining({
+        ruleId: 'feat-core/AC-1',
+        level: 'warning',
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/retry.ts' } } }]
+      }),
+      expect.objectContaining({
+        ruleId: 'feat-core/finding',
+        level: 'note',
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'specs/feat-core.md' } } }]
+      })
+    ]);
+  });
+});
@@ -2,7 +2,8 @@ import { describe, it, expect } from 'vitest';
 import path from 'node:path';
 import fs from 'node:fs/promises';
 import { runCoordinator } from '../../src/orchestration/run';
-import { createTempDir, makeExecutable } from '../helpers';
+import { hashPrompt } from '../../src/orchestration/prompts';
+import { createOutputBuffer, createTempDir, makeExecutable } from '../helpers';
 import { RunOptions } from '../../src/types';
 
 const specContent = `---\nspecmas: v3\nkind: FeatureSpec\nid: feat-core\nname: Core\nversion: 1.0.0\ncomplexity: EASY\nmaturity: 3\n---\n# Core`;
@@ -580,4 +581,390 @@ describe('runCoordinator integration', () => {
     expect(parsed.specs[0]?.status).toBe('skipped');
     expect(parsed.specs[0]?.lastError).toContain('Manual review required');
   });
+
+  it('tells the lead which findings it failed to fix and charts convergence', async () => {
+    const projectDir = await createTempDir('aic-project-');
+    const specsDir = path.join(projectDir, 'specs');
+    await fs.mkdir(specsDir, { recursive: true });
+    await fs.writeFile(path.join(specsDir, 'feat-core.md'), specContent, 'utf8');
+
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ \"$1\" = \"--version\" ]; then\n  echo \"tool 1.0.0\"\n  exit 0\nfi\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+    await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+
+    const options: RunOptions = {
+      specs: undefined,
+      exclude: undefined,
+      lead: 'claude',
+      validators: 'codex',
+      maxIterations: 3,
+      maxIterationsPerRun: 3,
+      timeout: 1,
+      resume: false,
+      stopOnFailure: false,
+      leadPermissions: undefined,
+      sandbox: false,
+      interactive: false,
+      verbose: false,
+      quiet: true,
+      dryRun: false,
+      preflight: false,
+      preflightThreshold: 70,
+      preflightIterations: 2,
+      startOver: false
+    };
+
+    const leadPrompts: string[] = [];
+    const runner = {
+      async runLead(_tool: string, prompt: string) {
+        leadPrompts.push(prompt);
+        return { output: 'done', exitCode: 0, durationMs: 5, streamed: false };
+      },
+      async runValidator() {
+        return {
+          output: JSON.stringify({
+            response_block: {
+              completeness: 60,
+              status: 'FAIL',
+              findings: [{
+                spec_requirement: 'Core handles errors',
+                gap_description: 'Errors are swallowed in the core loop',
+                original_code: 'catch {}',
+                proposed_diff: '- catch {}',
+                severity: 'major',
+                file: 'src/core.ts',
+                line: 3
+              }],
+              recommendations: []
+            }
+          }),
+          exitCode: 0,
+          durationMs: 5,
+          streamed: false
+        };
+      }
+    };
+
+    await runCoordinator(options, {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+    }, { runner });
+
+    expect(leadPrompts).toHaveLength(3);
+    expect(leadPrompts[1]).toContain('1. F1 new: [major] src/core.ts:3');
+    expect(leadPrompts[2]).toContain('PREVIOUSLY REPORTED AND STILL NOT FIXED: F1 (since cycle 1)');
+
+    const reportsDir = path.join(projectDir, '.ai-coord', 'reports');
+    const reportFile = (await fs.readdir(reportsDir)).find((file) => file.endsWith('-report.md'));
+    const report = await fs.readFile(path.join(reportsDir, reportFile ?? ''), 'utf8');
+    expect(report).toContain('- Convergence:');
+    expect(report).toContain('Cycle 3 | ');
+    expect(report).toContain('1 open (+0 new, 1 persisting, 0 regressed, -0 resolved)');
+  });
+
+  it('sends acceptance criteria to validators and scores completeness from their verdicts', async () => {
+    const projectDir = await createTempDir('aic-project-');
+    const specsDir = path.join(projectDir, 'specs');
+    await fs.mkdir(specsDir, { recursive: true });
+    await fs.writeFile(
+      path.join(specsDir, 'feat-core.md'),
+      `${specContent}\n\n## Functional Requirements\n- FR-1: Core boots\n- FR-2: Core logs startup\n`,
+      'utf8'
+    );
+
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ \"$1\" = \"--version\" ]; then\n  echo \"tool 1.0.0\"\n  exit 0\nfi\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+    await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+
+    const options: RunOptions = {
+      specs: undefined,
+      exclude: undefined,
+      lead: 'claude',
+      validators: 'codex',
+      maxIterations: 1,
+      maxIterationsPerRun: 1,
+      timeout: 1,
+      resume: false,
+      stopOnFailure: false,
+      leadPermissions: undefined,
+      sandbox: false,
+      interactive: false,
+      verbose: false,
+      quiet: true,
+      dryRun: false,
+      preflight: false,
+      preflightThreshold: 70,
+      preflightIterations: 2,
+      startOver: false
+    };
+
+    const validatorPrompts: string[] = [];
+    const runner = {
+      async runLead() {
+        return { output: 'done', exitCode: 0, durationMs: 5, streamed: false };
+      },
+      async runValidator(_tool: string, prompt: string) {
+        validatorPrompts.push(prompt);
+        return {
+          output: JSON.stringify({
+            response_block: {
+              completeness: 100,
+              status: 'FAIL',
+              findings: [],
+              recommendations: [],
+              criteria: [
+                { id: 'FR-1', verdict: 'met', evidence: 'src/core.ts boots' },
+                { id: 'FR-2', verdict: 'unmet' }
+              ]
+            }
+          }),
+          exitCode: 0,
+          durationMs: 5,
+          streamed: false
+        };
+      }
+    };
+
+    await runCoordinator(options, {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+    }, { runner });
+
+    expect(validatorPrompts[0]).toContain('ACCEPTANCE CRITERIA CHECKLIST');
+    expect(validatorPrompts[0]).toContain('- FR-2: Core logs startup');
+
+    const reportsDir = path.join(projectDir, '.ai-coord', 'reports');
+    const reportFile = (await fs.readdir(reportsDir)).find((file) => file.endsWith('-report.md'));
+    const report = await fs.readFile(path.join(reportsDir, reportFile ?? ''), 'utf8');
+    expect(report).toContain('- Final completeness: 50%');
+    expect(report).toContain('| Criterion | codex |');
+    expect(report).toContain('| FR-1 Core boots | met |');
+    expect(report).toContain('| FR-2 Core logs startup | unmet |');
+  });
+
+  it('adds project prompt instructions to lead and validator prompts', async () => {
+    const projectDir = await createTempDir('aic-project-');
+    const specsDir = path.join(projectDir, 'specs');
+    await fs.mkdir(specsDir, { recursive: true });
+    await fs.writeFile(path.join(specsDir, 'feat-core.md'), specContent, 'utf8');
+    await fs.mkdir(path.join(projectDir, 'docs'), { recursive: true });
+    await fs.writeFile(path.join(projectDir, 'docs', 'lead-rules.md'), 'Use tabs for indentation.\n', 'utf8');
+    await fs.writeFile(path.join(projectDir, 'docs', 'review-rules.md'), 'Reject any use of eval.\n', 'utf8');
+
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ \"$1\" = \"--version\" ]; then\n  echo \"tool 1.0.0\"\n  exit 0\nfi\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+    await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+
+    const options: RunOptions = {
+      specs: undefined,
+      exclude: undefined,
+      lead: 'claude',
+      validators: 'codex',
+      maxIterations: 1,
+      maxIterationsPerRun: 1,
+      timeout: 1,
+      resume: false,
+      stopOnFailure: false,
+      leadPermissions: undefined,
+      sandbox: false,
+      interactive: false,
+      verbose: false,
+      quiet: true,
+      dryRun: false,
+      preflight: false,
+      preflightThreshold: 70,
+      preflightIterations: 2,
+      startOver: false,
+      prompts: { lead: 'docs/lead-rules.md', validation: 'docs/review-rules.md' }
+    };
+
+    const leadPrompts: string[] = [];
+    const validatorPrompts: string[] = [];
+    const mock = new MockRunner();
+    const runner = {
+      async runLead(tool: string, prompt: string, cwd: string, timeoutMs: number) {
+        leadPrompts.push(prompt);
+        return mock.runLead(tool, prompt, cwd, timeoutMs);
+      },
+      async runValidator(tool: string, prompt: string, cwd: string, timeoutMs: number) {
+        validatorPrompts.push(prompt);
+        return mock.runValidator(tool, prompt, cwd, timeoutMs);
+      }
+    };
+
+    await runCoordinator(options, {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+    }, { runner });
+
+    expect(leadPrompts[0]).toContain('PROJECT INSTRUCTIONS:\nUse tabs for indentation.');
+    expect(leadPrompts[0]).not.toContain('Reject any use of eval.');
+    expect(validatorPrompts[0]).toContain('PROJECT INSTRUCTIONS:\nReject any use of eval.');
+
+    await expect(runCoordinator({ ...options, prompts: { lead: 'docs/missing.md' } }, {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+    }, { runner })).rejects.toThrow('Prompt file for lead not found: docs/missing.md');
+  });
+
+  it('renders project prompt templates and records prompt hashes per cycle', async () => {
+    const projectDir = await createTempDir('aic-project-');
+    const specsDir = path.join(projectDir, 'specs');
+    await fs.mkdir(specsDir, { recursive: true });
+    await fs.writeFile(path.join(specsDir, 'feat-core.md'), specContent, 'utf8');
+    const promptsDir = path.join(projectDir, '.ai-coord', 'prompts');
+    await fs.mkdir(promptsDir, { recursive: true });
+    await fs.writeFile(path.join(promptsDir, 'lead.md'), 'Build specs/{{specFile}} and nothing else.\n', 'utf8');
+
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ \"$1\" = \"--version\" ]; then\n  echo \"tool 1.0.0\"\n  exit 0\nfi\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+    await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+
+    const leadPrompts: string[] = [];
+    const validatorPrompts: string[] = [];
+    const mock = new MockRunner();
+    const runner = {
+      async runLead(tool: string, prompt: string, cwd: string, timeoutMs: number) {
+        leadPrompts.push(prompt);
+        return mock.runLead(tool, prompt, cwd, timeoutMs);
+      },
+      async runValidator(tool: string, prompt: string, cwd: string, timeoutMs: number) {
+        validatorPrompts.push(prompt);
+        return mock.runValidator(tool, prompt, cwd, timeoutMs);
+      }
+    };
+
+    await runCoordinator({
+      specs: undefined,
+      exclude: undefined,
+      lead: 'claude',
+      validators: 'codex',
+      maxIterations: 1,
+      maxIterationsPerRun: 1,
+      timeout: 1,
+      resume: false,
+      stopOnFailure: false,
+      leadPermissions: undefined,
+      sandbox: false,
+      interactive: false,
+      verbose: false,
+      quiet: true,
+      dryRun: false,
+      preflight: false,
+      preflightThreshold: 70,
+      preflightIterations: 2,
+      startOver: false
+    }, {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+    }, { runner });
+
+    expect(leadPrompts[0]).toBe('Build specs/feat-core.md and nothing else.');
+    expect(validatorPrompts[0]).toContain('Target spec: specs/feat-core.md');
+
+    const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+    const [sessionFile] = (await fs.readdir(sessionsDir)).filter((file) => file.endsWith('.json'));
+    const parsed = JSON.parse(await fs.readFile(path.join(sessionsDir, sessionFile), 'utf8')) as {
+      specs: Array<{ cycles: Array<{ leadExecution: { promptHash?: string }; validations: Array<{ promptHash?: string }> }> }>;
+    };
+    const cycle = parsed.specs[0].cycles[0];
+    expect(cycle.leadExecution.promptHash).toBe(hashPrompt(leadPrompts[0]));
+    expect(cycle.validations[0].promptHash).toBe(hashPrompt(validatorPrompts[0]));
+  });
+
+  it('inlines the spec, context docs and mentioned sources in inline prompt mode', async () => {
+    const projectDir = await createTempDir('aic-project-');
+    const specsDir = path.join(projectDir, 'specs');
+    await fs.mkdir(specsDir, { recursive: true });
+    await fs.writeFile(path.join(specsDir, 'feat-core.md'), `${specContent}\n\nExtend src/core.ts.`, 'utf8');
+    await fs.writeFile(
+      path.join(specsDir, 'system-arch.md'),
+      `---\nspecmas: v3\nkind: SystemSpec\nid: sys-arch\nname: Arch\nversion: 1.0.0\ncomplexity: EASY\nmaturity: 3\n---\n# Arch\nLayered.`,
+      'utf8'
+    );
+    await fs.mkdir(path.join(projectDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(projectDir, 'src', 'core.ts'), 'export const core = 1;\n', 'utf8');
+
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ \"$1\" = \"--version\" ]; then\n  echo \"tool 1.0.0\"\n  exit 0\nfi\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+    await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+
+    const leadPrompts: string[] = [];
+    const validatorPrompts: string[] = [];
+    const mock = new MockRunner();
+    const runner = {
+      async runLead(tool: string, prompt: string, cwd: string, timeoutMs: number) {
+        leadPrompts.push(prompt);
+        return mock.runLead(tool, prompt, cwd, timeoutMs);
+      },
+      async runValidator(tool: string, prompt: string, cwd: string, timeoutMs: number) {
+        validatorPrompts.push(prompt);
+        return mock.runValidator(tool, prompt, cwd, timeoutMs);
+      }
+    };
+
+    await runCoordinator({
+      specs: 'feat-core.md,system-arch.md',
+      exclude: undefined,
+      lead: 'claude',
+      validators: 'codex',
+      maxIterations: 1,
+      maxIterationsPerRun: 1,
+      timeout: 1,
+      resume: false,
+      stopOnFailure: false,
+      leadPermissions: undefined,
+      sandbox: false,
+      interactive: false,
+      verbose: false,
+      quiet: true,
+      dryRun: false,
+      preflight: false,
+      preflightThreshold: 70,
+      preflightIterations: 2,
+      startOver: false,
+      promptMode: 'inline',
+      promptBudget: 5000
+    }, {
+      cwd: projectDir,
+      output: createOutputBuffer().stream,
+      errorOutput: createOutputBuffer().stream,
+      env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+    }, { runner });
+
+    for (const prompt of [leadPrompts[0], validatorPrompts[0]]) {
+      expect(prompt).toContain('INLINED FILES');
+      expect(prompt).toContain('--- specs/feat-core.md (spec) ---');
+      expect(prompt).toContain('--- specs/system-arch.md (context) ---');
+      expect(prompt).toContain('--- src/core.ts (source) ---\nexport const core = 1;');
+    }
+
+    const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+    const [sessionFile] = (await fs.readdir(sessionsDir)).filter((file) => file.endsWith('.json'));
+    const parsed = JSON.parse(await fs.readFile(path.join(sessionsDir, sessionFile), 'utf8')) as {
+      specs: Array<{ file: string; cycles: Array<{ promptContext?: { lead?: { budgetTokens: number; files: Array<{ path: string; status: string }> } } }> }>;
+    };
+    const lead = parsed.specs.find((spec) => spec.file === 'feat-core.md')?.cycles[0].promptContext?.lead;
+    expect(lead?.budgetTokens).toBe(5000);
+    expect(lead?.files.map((file) => `${file.path}:${file.status}`)).toEqual([
+      'specs/feat-core.md:full',
+      'specs/system-arch.md:full',
+      'src/core.ts:full'
+    ]);
+  });
 });
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import http from 'node:http';
+import crypto from 'node:crypto';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { Duplex } from 'node:stream';
+import { startStatusServer } from '../../src/orchestration/status-server';
+import { CoordinatorEvent, followEventLog } from '../../src/orchestration/events';
+import { OPCODE_CLOSE, OPCODE_TEXT, decodeFrame } from '../../src/utils/websocket';
+import { createTempDir } from '../helpers';
+
+function event(type: string, extra: Record<string, unknown> = {}): CoordinatorEvent {
+  return { type, timestamp: new Date().toISOString(), sessionId: 'session-serve', ...extra } as CoordinatorEvent;
+}
+
+function request(url: string, options: { method?: string; host?: string } = {}): Promise<{ status: number; type: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method: options.method ?? 'GET', headers: options.host ? { Host: options.host } : {} }, (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => {
+        body += chunk;
+      });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, type: String(res.headers['content-type']), body }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+// Frames the server wrote along with the handshake arrive in `head`; they are pushed back so
+// readers see them as socket data.
+function openSocket(url: string, headers: Record<string, string> = {}): Promise<Duplex> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(`${url}/api/events`, {
+      headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Version': '13', 'Sec-WebSocket-Key': crypto.randomBytes(16).toString('base64'), ...headers }
+    });
+    req.on('upgrade', (_res, socket, head) => {
+      if (head.length > 0) {
+        socket.unshift(head);
+      }
+      resolve(socket);
+    });
+    req.on('response', (response) => reject(new Error(`Handshake refused with ${response.statusCode}`)));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+// Collects text frames until `count` have arrived.
+function readMessages(socket: Duplex, count: number): Promise<unknown[]> {
+  return new Promise((resolve) => {
+    let buffer = Buffer.alloc(0);
+    const messages: unknown[] = [];
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let frame = decodeFrame(buffer);
+      while (frame) {
+        buffer = buffer.subarray(frame.length);
+        if (frame.opcode === OPCODE_TEXT) {
+          messages.push(JSON.parse(frame.payload.toString('utf8')));
+        }
+        frame = decodeFrame(buffer);
+      }
+      if (messages.length >= count) {
+        resolve(messages);
+      }
+    });
+  });
+}
+
+describe('status server', () => {
+  it('serves session, specs, cycles and reports read-only on localhost', async () => {
+    const projectDir = await createTempDir('aic-serve-');
+    const now = new Date().toISOString();
+    const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+    const reportsDir = path.join(projectDir, '.ai-coord', 'reports');
+    await fs.mkdir(sessionsDir, { recursive: true });
+    await fs.mkdir(reportsDir, { recursive: true });
+    await fs.writeFile(path.join(sessionsDir, 'session-serve.json'), JSON.stringify({
+      id: 'session-serve',
+      workingDirectory: projectDir,
+      specsDirectory: path.join(projectDir, 'specs'),
+      specs: [{
+        status: 'completed',
+        file: 'feat-core.md',
+        path: path.join(projectDir, 'specs', 'feat-core.md'),
+        meta: { id: 'feat-core', name: 'Core', complexity: 'EASY', maturity: 3 },
+        cycles: [{
+          number: 1,
+          specId: 'feat-core',
+          startedAt: now,
+          leadExecution: { tool: 'claude', prompt: 'p', output: 'o', filesModified: [], durationMs: 1, exitCode: 0 },
+          validations: [{ tool: 'codex', prompt: 'p', output: 'o', durationMs: 1, parsed: { completeness: 100, status: 'PASS', gaps: [], recommendations: [] } }],
+          consensusReached: true
+        }]
+      }],
+      lead: 'claude',
+      validators: ['codex'],
+      config: {},
+      status: 'completed',
+      currentSpecIndex: 1,
+      createdAt: now,
+      updatedAt: now
+    }), 'utf8');
+    await fs.writeFile(path.join(reportsDir, 'session-serve-report.md'), '# Report\n', 'utf8');
+
+    const server = await startStatusServer({ cwd: projectDir, env: process.env, port: 0 });
+    try {
+      expect(server.url).toBe(`http://127.0.0.1:${server.port}`);
+
+      // The session pointer is gone once a run completes; the latest session is served instead.
+      const status = await request(`${server.url}/api/session`);
+      expect(status.type).toContain('application/json');
+      expect(JSON.parse(status.body)).toMatchObject({ version: 1, command: 'status', session: { id: 'session-serve', status: 'completed' } });
+
+      const specs = JSON.parse((await request(`${server.url}/api/specs`)).body);
+      expect(specs.specs).toEqual([expect.objectContaining({ id: 'feat-core', status: 'completed', cycles: 1, completeness: 100 })]);
+      expect(JSON.parse((await request(`${server.url}/api/specs/feat-core/cycles/1`)).body)).toMatchObject({ number: 1, consensusReached: true });
+      expect((await request(`${server.url}/api/specs/feat-core/cycles/2`)).status).toBe(404);
+
+      expect(JSON.parse((await request(`${server.url}/api/reports`)).body)).toEqual([
+        expect.objectContaining({ name: 'session-serve-report.md', size: 9 })
+      ]);
+      expect((await request(`${server.url}/api/reports/session-serve-report.md`)).body).toBe('# Report\n');
+      expect((await request(`${server.url}/api/reports/..%2Fsessions%2Fsession-serve.json`)).status).toBe(404);
+
+      expect((await request(`${server.url}/`)).body).toContain('<title>aic status</title>');
+      expect((await request(`${server.url}/api/session`, { method: 'POST' })).status).toBe(405);
+      expect((await request(`${server.url}/api/session`, { host: 'attacker.example' })).status).toBe(403);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('replays earlier events to new WebSocket clients and streams new ones', async () => {
+    const server = await startStatusServer({ cwd: await createTempDir('aic-serve-ws-'), env: process.env, port: 0 });
+    try {
+      server.publish(event('SessionStarted'));
+      const socket = await openSocket(server.url);
+      const messages = readMessages(socket, 2);
+      server.publish(event('SpecStarted', { specId: 'feat-core' }));
+
+      expect((await messages).map((message) => (message as CoordinatorEvent).type)).toEqual(['SessionStarted', 'SpecStarted']);
+      socket.destroy();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('refuses WebSocket handshakes from other origins', async () => {
+    const server = await startStatusServer({ cwd: await createTempDir('aic-serve-origin-'), env: process.env, port: 0 });
+    try {
+      await expect(openSocket(server.url, { Origin: 'http://attacker.example' })).rejects.toThrow('Handshake refused with 403');
+      await expect(openSocket(server.url, { Origin: 'http://localhost:1' })).rejects.toThrow('Handshake refused with 403');
+      const socket = await openSocket(server.url, { Origin: `http://localhost:${server.port}` });
+      socket.destroy();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('closes the connection when a client sends an oversized frame', async () => {
+    const server = await startStatusServer({ cwd: await createTempDir('aic-serve-big-'), env: process.env, port: 0 });
+    try {
+      const socket = await openSocket(server.url);
+      const closed = new Promise<Buffer | undefined>((resolve) => {
+        socket.on('data', (chunk: Buffer) => resolve(decodeFrame(chunk)?.payload));
+      });
+      // Only the header of a 1 MiB masked text frame is sent; the server refuses it on sight.
+      const header = Buffer.alloc(14);
+      header[0] = 0x80 | OPCODE_TEXT;
+      header[1] = 0x80 | 127;
+      header.writeBigUInt64BE(BigInt(1024 * 1024), 2);
+      socket.write(header);
+      expect((await closed)?.readUInt16BE(0)).toBe(1009);
+      socket.destroy();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('sends a close frame to connected clients when it stops', async () => {
+    const server = await startStatusServer({ cwd: await createTempDir('aic-serve-close-'), env: process.env, port: 0 });
+    const socket = await openSocket(server.url);
+    const closed = new Promise<number | undefined>((resolve) => {
+      socket.on('data', (chunk: Buffer) => resolve(decodeFrame(chunk)?.opcode));
+    });
+    await server.close();
+    expect(await closed).toBe(OPCODE_CLOSE);
+  });
+
+  it('follows an events file written by another run', async () => {
+    const dir = await createTempDir('aic-follow-');
+    const filePath = path.join(dir, 'events.jsonl');
+    await fs.writeFile(filePath, `${JSON.stringify(event('SessionStarted'))}\n`, 'utf8');
+    const seen: string[] = [];
+    const stop = followEventLog(filePath, (followed) => seen.push(followed.type), 20);
+    try {
+      await fs.appendFile(filePath, `not json\n${JSON.stringify(event('SpecStarted'))}\n{"type":"Cyc`, 'utf8');
+      await expect.poll(() => seen).toEqual(['SessionStarted', 'SpecStarted']);
+      await fs.appendFile(filePath, 'leCompleted"}\n', 'utf8');
+      await expect.poll(() => seen).toEqual(['SessionStarted', 'SpecStarted', 'CycleCompleted']);
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { runCoordinator } from '../../src/orchestration/run';
+import { createOutputBuffer, createTempDir, makeExecutable } from '../helpers';
+import { RunOptions, Session } from '../../src/types';
+
+const spec = (id: string) => `---\nspecmas: v3\nkind: FeatureSpec\nid: ${id}\nname: ${id}\nversion: 1.0.0\ncomplexity: EASY\nmaturity: 3\n---\n# ${id}`;
+
+// Every lead run reports 1,500 tokens; validators never agree, so cycles keep coming.
+class CostlyRunner {
+  async runLead() {
+    return { output: 'done', exitCode: 0, durationMs: 5, streamed: false, tokenUsage: { inputTokens: 1000, outputTokens: 500, totalTokens: 1500 } };
+  }
+  async runValidator() {
+    return {
+      output: JSON.stringify({
+        response_block: {
+          completeness: 40,
+          status: 'FAIL',
+          findings: [{ spec_requirement: 'R1', gap_description: 'Missing', original_code: '', proposed_diff: '' }],
+          recommendations: []
+        }
+      }),
+      exitCode: 0,
+      durationMs: 5,
+      streamed: false
+    };
+  }
+}
+
+async function runWithLimits(limits: Partial<RunOptions>) {
+  const projectDir = await createTempDir('aic-limits-');
+  const specsDir = path.join(projectDir, 'specs');
+  await fs.mkdir(specsDir, { recursive: true });
+  await fs.writeFile(path.join(specsDir, 'feat-a.md'), spec('feat-a'), 'utf8');
+  await fs.writeFile(path.join(specsDir, 'feat-b.md'), spec('feat-b'), 'utf8');
+  const binDir = await createTempDir('aic-bin-');
+  const fakeTool = `#!/bin/sh\nif [ "$1" = "--version" ]; then\n  echo "tool 1.0.0"\n  exit 0\nfi\nexit 0\n`;
+  await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+  await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+  const output = createOutputBuffer();
+
+  await runCoordinator({
+    specs: undefined,
+    exclude: undefined,
+    lead: 'claude',
+    validators: 'codex',
+    maxIterations: 5,
+    maxIterationsPerRun: 3,
+    timeout: 1,
+    resume: false,
+    stopOnFailure: false,
+    leadPermissions: undefined,
+    sandbox: false,
+    interactive: false,
+    verbose: false,
+    heartbeat: 0,
+    quiet: true,
+    dryRun: false,
+    preflight: false,
+    preflightThreshold: 70,
+    preflightIterations: 2,
+    startOver: false,
+    ...limits
+  }, {
+    cwd: projectDir,
+    output: output.stream,
+    errorOutput: createOutputBuffer().stream,
+    env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') }
+  }, { runner: new CostlyRunner() });
+
+  const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+  const [sessionFile] = (await fs.readdir(sessionsDir)).filter((file) => file.endsWith('.json'));
+  const session = JSON.parse(await fs.readFile(path.join(sessionsDir, sessionFile), 'utf8')) as Session;
+  const reportsDir = path.join(projectDir, '.ai-coord', 'reports');
+  const [reportFile] = (await fs.readdir(reportsDir)).filter((file) => file.endsWith('-report.md'));
+  return { session, output: output.output, report: await fs.readFile(path.join(reportsDir, reportFile), 'utf8') };
+}
+
+describe('usage limits', () => {
+  it('stops the run when the session token limit is reached and leaves later specs pending', async () => {
+    const { session, output, report } = await runWithLimits({ maxTokens: 2000 });
+
+    expect(session.specs.map((entry) => [entry.file, entry.status, entry.cycles.length])).toEqual([
+      ['feat-a.md', 'failed', 2],
+      ['feat-b.md', 'pending', 0]
+    ]);
+    expect(session.status).toBe('partial');
+    expect(session.stopReason).toBe('Session token limit reached (3,000/2,000 tokens)');
+    expect(session.config.limits).toEqual({ maxTokens: 2000 });
+    expect(output).toContain('Session token limit reached (3,000/2,000 tokens). Stopping the run.');
+    expect(report).toContain('## Usage');
+    expect(report).toContain('- Total: 3,000 tokens, $0.0210');
+    expect(report).toContain('- Stopped: Session token limit reached');
+    expect(report).toContain('- Cost per cycle: 1: $0.0105, 2: $0.0105');
+  });
+
+  it('skips a spec over its cost limit and moves on to the next one', async () => {
+    const { session } = await runWithLimits({ maxSpecCost: 0.02 });
+
+    expect(session.specs.map((entry) => [entry.file, entry.status, entry.cycles.length])).toEqual([
+      ['feat-a.md', 'skipped', 2],
+      ['feat-b.md', 'skipped', 2]
+    ]);
+    expect(session.specs[0].lastError).toBe('Spec cost limit reached for feat-a.md ($0.0210/$0.0200)');
+    expect(session.stopReason).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { execa } from 'execa';
+import { captureWorkspaceSnapshot, diffWorkspaceSnapshots, summarizeFileChanges } from '../../src/orchestration/changes';
+import { createTempDir } from '../helpers';
+
+async function mutateWorkspace(dir: string): Promise<void> {
+  await fs.writeFile(path.join(dir, 'keep.txt'), 'one\ntwo-changed\nthree\nfour\n', 'utf8');
+  await fs.rm(path.join(dir, 'remove.txt'));
+  await fs.mkdir(path.join(dir, 'src'), { recursive: true });
+  await fs.writeFile(path.join(dir, 'src', 'new.ts'), 'export const a = 1;\nexport const b = 2;\n', 'utf8');
+  await fs.mkdir(path.join(dir, '.ai-coord'), { recursive: true });
+  await fs.writeFile(path.join(dir, '.ai-coord', 'report.md'), 'ignored', 'utf8');
+}
+
+async function seedWorkspace(dir: string): Promise<void> {
+  await fs.writeFile(path.join(dir, 'keep.txt'), 'one\ntwo\nthree\n', 'utf8');
+  await fs.writeFile(path.join(dir, 'remove.txt'), 'a\nb\n', 'utf8');
+}
+
+const expected = [
+  { path: 'keep.txt', change: 'modified', linesAdded: 2, linesRemoved: 1 },
+  { path: 'remove.txt', change: 'deleted', linesAdded: 0, linesRemoved: 2 },
+  { path: 'src/new.ts', change: 'added', linesAdded: 2, linesRemoved: 0 }
+];
+
+describe('workspace change tracking', () => {
+  it('diffs a plain directory by content hash', async () => {
+    const dir = await createTempDir('aic-changes-fs-');
+    await seedWorkspace(dir);
+    const before = await captureWorkspaceSnapshot(dir);
+    expect(before.kind).toBe('fs');
+    await mutateWorkspace(dir);
+    const changes = await diffWorkspaceSnapshots(before, await captureWorkspaceSnapshot(dir));
+    expect(changes).toEqual(expected);
+    expect(summarizeFileChanges(changes)).toBe('3 files (1 added, 1 modified, 1 deleted; +4/-3)');
+  });
+
+  it('diffs a git repository without touching the index', async () => {
+    const dir = await createTempDir('aic-changes-git-');
+    await execa('git', ['init', '-q'], { cwd: dir });
+    await seedWorkspace(dir);
+    await execa('git', ['add', 'keep.txt'], { cwd: dir });
+    const before = await captureWorkspaceSnapshot(dir);
+    expect(before.kind).toBe('git');
+    await mutateWorkspace(dir);
+    const changes = await diffWorkspaceSnapshots(before, await captureWorkspaceSnapshot(dir));
+    expect(changes).toEqual(expected);
+    const { stdout } = await execa('git', ['diff', '--cached', '--name-only'], { cwd: dir });
+    expect(stdout.trim()).toBe('keep.txt');
+  });
+});
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import path from 'node:path';
 import fs from 'node:fs/promises';
 import { runCli } from '../../src/cli/cli';
-import { createOutputBuffer, createTempDir } from '../helpers';
+import { createOutputBuffer, createTempDir, makeExecutable } from '../helpers';
 
 const specContent = `---\nspecmas: v3\nkind: FeatureSpec\nid: feat-core\nname: Core\nversion: 1.0.0\ncomplexity: EASY\nmaturity: 3\n---\n# Core`;
 
@@ -141,6 +141,75 @@ describe('cli commands', () => {
     expect(stdout.output).toContain('Requirement: X');
   });
 
+  it('sorts and filters structured findings by severity', async () => {
+    const projectDir = await createTempDir('aic-cli-specs-findings-');
+    const specsDir = path.join(projectDir, 'specs');
+    await fs.mkdir(specsDir, { recursive: true });
+    await fs.writeFile(path.join(specsDir, 'feat-core.md'), specContent, 'utf8');
+    const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+    await fs.mkdir(sessionsDir, { recursive: true });
+    const now = new Date().toISOString();
+    const validation = (tool: string, findings: unknown[]) => ({
+      tool,
+      prompt: '',
+      output: '',
+      parsed: { completeness: 60, status: 'FAIL', gaps: [], findings, recommendations: [] },
+      durationMs: 0,
+      exitCode: 0
+    });
+    await fs.writeFile(
+      path.join(sessionsDir, 'session-findings.json'),
+      JSON.stringify({
+        id: 'session-findings',
+        workingDirectory: projectDir,
+        specsDirectory: specsDir,
+        specs: [{
+          file: 'feat-core.md',
+          path: path.join(specsDir, 'feat-core.md'),
+          status: 'failed',
+          cycles: [{
+            number: 1,
+            specId: 'feat-core',
+            startedAt: now,
+            leadExecution: { tool: 'claude', prompt: '', output: '', filesModified: [], durationMs: 0, exitCode: 0 },
+            validations: [
+              validation('codex', [{ requirement: 'Docs', description: 'Typo in help', severity: 'minor' }]),
+              validation('gemini', [{
+                requirement: 'Auth',
+                requirementId: 'REQ-1',
+                description: 'Token is never verified',
+                severity: 'critical',
+                location: { file: 'src/auth.ts', line: 12 },
+                proposedDiff: '+ verify(token)'
+              }])
+            ],
+            consensusReached: false
+          }]
+        }],
+        lead: 'claude',
+        validators: ['codex', 'gemini'],
+        config: {},
+        status: 'partial',
+        currentSpecIndex: 0,
+        createdAt: now,
+        updatedAt: now
+      }),
+      'utf8'
+    );
+    await fs.writeFile(path.join(projectDir, '.ai-coord', 'session'), 'session-findings', 'utf8');
+
+    const stdout = createOutputBuffer();
+    await runCli({ argv: ['specs', '--status', '--detailed'], cwd: projectDir, stdout: stdout.stream, stderr: createOutputBuffer().stream, env: process.env });
+    expect(stdout.output).toContain('severity: 1 critical, 1 minor');
+    expect(stdout.output.indexOf('[critical] src/auth.ts:12 (REQ-1)')).toBeLessThan(stdout.output.indexOf('[minor]'));
+    expect(stdout.output).toContain('Proposed diff: + verify(token)');
+
+    const filtered = createOutputBuffer();
+    await runCli({ argv: ['specs', '--status', '--severity', 'minor'], cwd: projectDir, stdout: filtered.stream, stderr: createOutputBuffer().stream, env: process.env });
+    expect(filtered.output).toContain('gaps (1):');
+    expect(filtered.output).not.toContain('[critical]');
+  });
+
   it('rejects detailed without status', async () => {
     const projectDir = await createTempDir('aic-cli-specs-detail-error-');
     const specsDir = path.join(projectDir, 'specs');
@@ -160,6 +229,20 @@ describe('cli commands', () => {
     expect(stderr.output).toContain('--detailed requires --status');
   });
 
+  it('reports invalid spec front matter as an error', async () => {
+    const projectDir = await createTempDir('aic-cli-specs-invalid-');
+    const specsDir = path.join(projectDir, 'specs');
+    await fs.mkdir(specsDir, { recursive: true });
+    await fs.writeFile(path.join(specsDir, 'feat-core.md'), specContent.replace('maturity: 3', 'maturity: 3\ntimeout: soon'), 'utf8');
+
+    const stderr = createOutputBuffer();
+    await runCli({ argv: ['specs'], cwd: projectDir, stdout: createOutputBuffer().stream, stderr: stderr.stream, env: process.env });
+
+    expect(stderr.output).toContain('feat-core.md: timeout: expected a positive number of minutes, got "soon"');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
   it('shows status summary and history', async () => {
     const projectDir = await createTempDir('aic-cli-status-');
     const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
@@ -306,6 +389,151 @@ describe('cli commands', () => {
     expect(stdout.output).toContain('feat-core.md');
   });
 
+  it('shows token and cost usage in status', async () => {
+    const projectDir = await createTempDir('aic-cli-status-cost-');
+    const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+    await fs.mkdir(sessionsDir, { recursive: true });
+    const now = new Date().toISOString();
+    const cycle = {
+      number: 1,
+      specId: 'feat-core',
+      startedAt: now,
+      leadExecution: {
+        tool: 'claude', prompt: 'p', output: 'o', filesModified: [], durationMs: 1, exitCode: 0,
+        tokenUsage: { inputTokens: 100_000, outputTokens: 20_000 }
+      },
+      validations: [{
+        tool: 'codex', prompt: 'p', output: 'o', durationMs: 1,
+        parsed: { completeness: 80, status: 'FAIL', gaps: [], recommendations: [] },
+        tokenUsage: { totalTokens: 40_000 }
+      }],
+      consensusReached: false
+    };
+    await fs.writeFile(
+      path.join(sessionsDir, 'session-cost.json'),
+      JSON.stringify({
+        id: 'session-cost',
+        workingDirectory: projectDir,
+        specsDirectory: path.join(projectDir, 'specs'),
+        specs: [{ status: 'failed', file: 'feat-core.md', path: 'specs/feat-core.md', cycles: [cycle] }],
+        lead: 'claude',
+        validators: ['codex'],
+        config: { prices: { claude: { input: 3, output: 15 }, codex: { input: 1, output: 10 } }, limits: { maxCost: 1 } },
+        stopReason: 'Session cost limit reached ($1.0000/$1.00)',
+        status: 'partial',
+        currentSpecIndex: 0,
+        createdAt: now,
+        updatedAt: now
+      }),
+      'utf8'
+    );
+    await fs.writeFile(path.join(projectDir, '.ai-coord', 'session'), 'session-cost', 'utf8');
+
+    const run = async (argv: string[]) => {
+      const stdout = createOutputBuffer();
+      await runCli({ argv, cwd: projectDir, stdout: stdout.stream, stderr: createOutputBuffer().stream, env: process.env });
+      return stdout.output;
+    };
+
+    const summary = await run(['status']);
+    expect(summary).toContain('Usage: 160,000 tokens, $0.6400');
+    expect(summary).toContain('Limits: session $1.00');
+    expect(summary).toContain('Stopped: Session cost limit reached');
+
+    const full = await run(['status', '--full']);
+    expect(full).toContain('Cost by tool:');
+    expect(full).toMatch(/claude\s*│\s*120,000\s*│\s*\$0\.6000/);
+    expect(full).toContain('1. feat-core.md - failed (cycles: 1, completeness: 80%, 160,000 tokens, $0.6400)');
+  });
+
+  it('prints specs and status as versioned JSON documents', async () => {
+    const projectDir = await createTempDir('aic-cli-json-');
+    const specsDir = path.join(projectDir, 'specs');
+    await fs.mkdir(specsDir, { recursive: true });
+    await fs.writeFile(path.join(specsDir, 'feat-core.md'), specContent, 'utf8');
+    await fs.writeFile(
+      path.join(specsDir, 'feat-api.md'),
+      specContent.replace('id: feat-core', 'id: feat-api\ndepends_on: [feat-core]').replace('name: Core', 'name: API'),
+      'utf8'
+    );
+    const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
+    await fs.mkdir(sessionsDir, { recursive: true });
+    const now = new Date().toISOString();
+    const findings = [
+      { requirement: 'R1', description: 'Missing endpoint', severity: 'major' },
+      { requirement: 'R2', description: 'Typo in message', severity: 'minor' }
+    ];
+    await fs.writeFile(
+      path.join(sessionsDir, 'session-json.json'),
+      JSON.stringify({
+        id: 'session-json',
+        workingDirectory: projectDir,
+        specsDirectory: specsDir,
+        specs: [{
+          status: 'in_progress',
+          file: 'feat-core.md',
+          path: path.join(specsDir, 'feat-core.md'),
+          meta: { id: 'feat-core' },
+          cycles: [{
+            number: 1,
+            specId: 'feat-core',
+            startedAt: now,
+            leadExecution: { tool: 'claude', prompt: 'p', output: 'o', filesModified: [], durationMs: 1, exitCode: 0, tokenUsage: { inputTokens: 1000, outputTokens: 100 } },
+            validations: [
+              { tool: 'codex', prompt: 'p', output: 'o', durationMs: 1, parsed: { completeness: 70, status: 'FAIL', gaps: [], findings, recommendations: [] } },
+              { tool: 'gemini', prompt: 'p', output: 'o', durationMs: 1, parsed: { completeness: 90, status: 'PASS', gaps: [], findings: [], recommendations: [] } }
+            ],
+            consensusReached: false
+          }]
+        }, { status: 'pending', file: 'feat-api.md', path: path.join(specsDir, 'feat-api.md'), meta: { id: 'feat-api' }, cycles: [] }],
+        lead: 'claude',
+        validators: ['codex', 'gemini'],
+        config: {},
+        status: 'in_progress',
+        currentSpecIndex: 0,
+        createdAt: now,
+        updatedAt: now
+      }),
+      'utf8'
+    );
+    await fs.writeFile(path.join(projectDir, '.ai-coord', 'session'), 'session-json', 'utf8');
+    const run = async (argv: string[]) => {
+      const stdout = createOutputBuffer();
+      await runCli({ argv, cwd: projectDir, stdout: stdout.stream, stderr: createOutputBuffer().stream, env: process.env });
+      return JSON.parse(stdout.output);
+    };
+
+    const specs = await run(['specs', '--json', '--severity', 'major']);
+    expect(specs).toMatchObject({ version: 1, command: 'specs', sessionId: 'session-json' });
+    expect(specs.specs).toEqual([
+      {
+        order: 1, file: 'feat-core.md', id: 'feat-core', name: 'Core', complexity: 'EASY', maturity: 3, contextOnly: false, dependsOn: [],
+        status: 'in_progress', cycles: 1, completeness: 80,
+        findings: [{ tool: 'codex', requirement: 'R1', description: 'Missing endpoint', severity: 'major' }]
+      },
+      {
+        order: 2, file: 'feat-api.md', id: 'feat-api', name: 'API', complexity: 'EASY', maturity: 3, contextOnly: false, dependsOn: ['feat-core'],
+        status: 'pending', cycles: 0, completeness: null, findings: []
+      }
+    ]);
+
+    const status = await run(['--json', 'status']);
+    expect(status).toMatchObject({ version: 1, command: 'status', history: [] });
+    expect(status.session).toMatchObject({
+      id: 'session-json',
+      status: 'in_progress',
+      activeSpec: 'feat-core.md',
+      stopReason: null,
+      counts: { total: 2, completed: 0, failed: 0, inProgress: 1, pending: 1, skipped: 0 },
+      usage: { tokens: 1100, unpriced: [], tools: [{ tool: 'claude', tokens: 1100 }] },
+      limits: {}
+    });
+    expect(status.session.specs.map((spec: { file: string; completeness: number | null }) => [spec.file, spec.completeness])).toEqual([
+      ['feat-core.md', 80],
+      ['feat-api.md', null]
+    ]);
+  });
+
   it('reads and writes global config', async () => {
     const projectDir = await createTempDir('aic-cli-config-');
     const stateDir = await createTempDir('aic-state-');
@@ -343,6 +571,94 @@ describe('cli commands', () => {
     expect(verifyOut.output).toContain('7');
   });
 
+  it('gets, sets, unsets, lists and validates global config keys', async () => {
+    const projectDir = await createTempDir('aic-cli-config-keys-');
+    const stateDir = await createTempDir('aic-state-');
+    const env = { ...process.env, AIC_STATE_DIR: stateDir };
+    const run = async (...argv: string[]) => {
+      const stdout = createOutputBuffer();
+      const stderr = createOutputBuffer();
+      await runCli({ argv: ['config', ...argv], cwd: projectDir, stdout: stdout.stream, stderr: stderr.stream, env });
+      const exitCode = process.exitCode;
+      process.exitCode = 0;
+      return { stdout: stdout.output, stderr: stderr.output, exitCode };
+    };
+
+    expect((await run('set', 'defaultTimeout', '12')).stdout).toContain('Updated config');
+    expect((await run('set', 'commandValidators', '[{"name":"lint","command":"a=b npm run lint"}]')).exitCode).toBe(0);
+    expect((await run('get', 'defaultTimeout')).stdout).toBe('12\n');
+    expect((await run('get', 'commandValidators')).stdout).toContain('"command": "a=b npm run lint"');
+
+    const list = await run('list');
+    expect(list.stdout).toContain(`Config file: ${path.join(stateDir, 'config.json')}`);
+    expect(list.stdout).toMatch(/defaultTimeout\s*│\s*12/);
+    expect(list.stdout).toMatch(/defaultLead\s*│\s*-/);
+
+    const badValue = await run('set', 'defaultMaxIterations', 'many');
+    expect(badValue.stderr).toContain('defaultMaxIterations: expected a positive integer');
+    expect(badValue.exitCode).toBe(1);
+    const unknown = await run('set', 'theme', 'dark');
+    expect(unknown.stderr).toContain('Unknown config key "theme"');
+    expect(unknown.exitCode).toBe(1);
+
+    expect((await run('unset', 'defaultTimeout')).stdout).toContain('Updated config');
+    const missing = await run('get', 'defaultTimeout');
+    expect(missing.stderr).toContain('defaultTimeout is not set');
+    expect(missing.exitCode).toBe(1);
+
+    await fs.writeFile(path.join(stateDir, 'config.json'), JSON.stringify({ lead: 'codex', theme: 'dark' }), 'utf8');
+    const validate = await run('validate');
+    expect(validate.stdout).toContain('Config is valid');
+    expect(validate.stdout).toContain('- renamed "lead" to "defaultLead"');
+    expect(validate.stdout).toContain('- dropped unknown key "theme"');
+
+    await fs.writeFile(path.join(stateDir, 'config.json'), '{ broken', 'utf8');
+    const corrupt = await run('validate');
+    expect(corrupt.stderr).toContain('Invalid global config');
+    expect(corrupt.exitCode).toBe(1);
+  });
+
+  it('reports a broken global config or session file from tools and status', async () => {
+    const projectDir = await createTempDir('aic-cli-broken-');
+    const stateDir = await createTempDir('aic-state-');
+    const env = { ...process.env, AIC_STATE_DIR: stateDir };
+    await fs.writeFile(path.join(stateDir, 'config.json'), JSON.stringify({ tools: 5 }), 'utf8');
+    const tools = createOutputBuffer();
+    await runCli({ argv: ['tools'], cwd: projectDir, stdout: createOutputBuffer().stream, stderr: tools.stream, env });
+    expect(tools.output).toContain('config.json: tools: expected an array of tool adapters');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+
+    await fs.mkdir(path.join(projectDir, '.ai-coord', 'sessions'), { recursive: true });
+    await fs.writeFile(path.join(projectDir, '.ai-coord', 'session'), 'session-broken', 'utf8');
+    await fs.writeFile(path.join(projectDir, '.ai-coord', 'sessions', 'session-broken.json'), '{ broken', 'utf8');
+    const status = createOutputBuffer();
+    await runCli({ argv: ['status'], cwd: projectDir, stdout: createOutputBuffer().stream, stderr: status.stream, env });
+    expect(status.output).toContain('JSON');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('validates the global config after editing it', async () => {
+    const projectDir = await createTempDir('aic-cli-config-edit-');
+    const stateDir = await createTempDir('aic-state-');
+    const binDir = await createTempDir('aic-editor-');
+    const editor = path.join(binDir, 'editor.sh');
+    await makeExecutable(editor, '#!/bin/sh\nprintf \'{ "version": 1, "defaultLead": "gemini" }\' > "$1"\n');
+    const stdout = createOutputBuffer();
+
+    await runCli({
+      argv: ['config', 'edit'],
+      cwd: projectDir,
+      stdout: stdout.stream,
+      stderr: createOutputBuffer().stream,
+      env: { ...process.env, AIC_STATE_DIR: stateDir, VISUAL: '', EDITOR: editor }
+    });
+
+    expect(stdout.output).toContain('Config is valid');
+    expect(JSON.parse(await fs.readFile(path.join(stateDir, 'config.json'), 'utf8'))).toEqual({ version: 1, defaultLead: 'gemini' });
+  });
+
   it('cleans sessions and logs', async () => {
     const projectDir = await createTempDir('aic-cli-clean-');
     const sessionsDir = path.join(projectDir, '.ai-coord', 'sessions');
@@ -368,6 +684,212 @@ describe('cli commands', () => {
     await expect(fs.access(path.join(projectDir, '.ai-coord'))).rejects.toBeDefined();
   });
 
+  it('keeps a project config in the state directory when cleaning', async () => {
+    const projectDir = await createTempDir('aic-cli-clean-config-');
+    const stateDir = path.join(projectDir, '.ai-coord');
+    await fs.mkdir(path.join(stateDir, 'logs'), { recursive: true });
+    await fs.writeFile(path.join(stateDir, 'config.yaml'), 'lead: claude\n', 'utf8');
+    await fs.mkdir(path.join(stateDir, 'prompts'), { recursive: true });
+    await fs.writeFile(path.join(stateDir, 'prompts', 'lead.md'), 'Implement {{specFile}}', 'utf8');
+
+    await runCli({
+      argv: ['clean'],
+      cwd: projectDir,
+      stdout: createOutputBuffer().stream,
+      stderr: createOutputBuffer().stream,
+      env: process.env
+    });
+
+    expect((await fs.readdir(stateDir)).sort()).toEqual(['config.yaml', 'prompts']);
+  });
+
+  it('shows effective project settings with their sources', async () => {
+    const projectDir = await createTempDir('aic-cli-config-project-');
+    const stateDir = await createTempDir('aic-state-');
+    await fs.writeFile(path.join(stateDir, 'config.json'), JSON.stringify({ defaultTimeout: 20 }), 'utf8');
+    await fs.writeFile(path.join(projectDir, 'aic.config.yml'), 'lead: codex\nexclude: [system-*.md]\n', 'utf8');
+    const stdout = createOutputBuffer();
+
+    await runCli({
+      argv: ['config', '--project'],
+      cwd: projectDir,
+      stdout: stdout.stream,
+      stderr: createOutputBuffer().stream,
+      env: { AIC_STATE_DIR: stateDir, AIC_MAX_ITERATIONS: '4' }
+    });
+
+    const rows = stdout.output.split('\n');
+    const row = (key: string) => rows.find((line) => line.includes(` ${key} `)) ?? '';
+    expect(stdout.output).toContain('Project config: aic.config.yml');
+    expect(row('lead')).toMatch(/codex.*project/);
+    expect(row('exclude')).toMatch(/system-\*\.md.*project/);
+    expect(row('timeout')).toMatch(/20.*global/);
+    expect(row('maxIterations')).toMatch(/4.*env/);
+    expect(row('maxIterationsPerRun')).toMatch(/5.*default/);
+  });
+
+  it('rejects an invalid project config', async () => {
+    const projectDir = await createTempDir('aic-cli-config-invalid-');
+    await fs.writeFile(path.join(projectDir, 'aic.config.json'), JSON.stringify({ leadTool: 'codex' }), 'utf8');
+    const stderr = createOutputBuffer();
+
+    await runCli({
+      argv: ['config', '--project'],
+      cwd: projectDir,
+      stdout: createOutputBuffer().stream,
+      stderr: stderr.stream,
+      env: process.env
+    });
+
+    expect(stderr.output).toContain('aic.config.json: unknown key "leadTool"');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('exports, shows and diffs prompt templates', async () => {
+    const projectDir = await createTempDir('aic-cli-prompts-');
+    const run = async (argv: string[]) => {
+      const stdout = createOutputBuffer();
+      const stderr = createOutputBuffer();
+      await runCli({ argv, cwd: projectDir, stdout: stdout.stream, stderr: stderr.stream, env: process.env });
+      return { stdout: stdout.output, stderr: stderr.output };
+    };
+
+    expect((await run(['prompts', 'diff'])).stdout).toBe('No prompt overrides.\n');
+    expect((await run(['prompts', 'export', 'lead'])).stdout).toContain(`Wrote ${path.join('.ai-coord', 'prompts', 'lead.md')}`);
+
+    const leadPath = path.join(projectDir, '.ai-coord', 'prompts', 'lead.md');
+    const exported = await fs.readFile(leadPath, 'utf8');
+    expect(exported).toContain('Target spec: specs/{{specFile}}');
+    expect((await run(['prompts', 'diff', 'lead'])).stdout).toBe('lead: same as built-in\n');
+
+    await fs.writeFile(leadPath, exported.replace('6. Explain significant implementation decisions.', '6. Keep commits small.'), 'utf8');
+    expect((await run(['prompts', 'export', 'lead'])).stdout).toContain('exists; use --force to overwrite');
+    expect((await run(['prompts', 'show', 'lead'])).stdout).toContain('6. Keep commits small.');
+    expect((await run(['prompts', 'show', 'lead', '--default'])).stdout).toContain('6. Explain significant implementation decisions.');
+
+    const diff = (await run(['prompts', 'diff'])).stdout;
+    expect(diff).toContain('--- builtin/lead.md');
+    expect(diff).toContain(`+++ ${path.join('.ai-coord', 'prompts', 'lead.md')}`);
+    expect(diff).toContain('-6. Explain significant implementation decisions.\n+6. Keep commits small.');
+
+    expect((await run(['prompts', 'show', 'retry'])).stderr).toContain('Unknown prompt template "retry"');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('writes events to stdout and moves console text to stderr with --events -', async () => {
+    const projectDir = await createTempDir('aic-cli-events-');
+    const binDir = await createTempDir('aic-bin-');
+    const stdout = createOutputBuffer();
+    const stderr = createOutputBuffer();
+
+    await runCli({
+      argv: ['run', '--events', '-'],
+      cwd: projectDir,
+      stdout: stdout.stream,
+      stderr: stderr.stream,
+      env: { ...process.env, PATH: binDir, AIC_STATE_DIR: await createTempDir('aic-state-') }
+    });
+
+    const lines = stdout.output.trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toEqual([expect.objectContaining({ type: 'RunFailed', message: expect.stringContaining('No AI tools found') })]);
+    expect(stderr.output).toContain('No AI tools found');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('starts a status server for the run and stops it when the run fails', async () => {
+    const projectDir = await createTempDir('aic-cli-serve-');
+    const stdout = createOutputBuffer();
+    const stderr = createOutputBuffer();
+
+    await runCli({
+      argv: ['run', '--serve', '0'],
+      cwd: projectDir,
+      stdout: stdout.stream,
+      stderr: stderr.stream,
+      env: { ...process.env, PATH: await createTempDir('aic-bin-'), AIC_STATE_DIR: await createTempDir('aic-state-') }
+    });
+
+    expect(stdout.output).toMatch(/Serving session status on http:\/\/127\.0\.0\.1:\d+/);
+    expect(stderr.output).toContain('No AI tools found');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('falls back to plain output for --tui when stdout is not a terminal', async () => {
+    const projectDir = await createTempDir('aic-cli-tui-');
+    const env = { ...process.env, PATH: await createTempDir('aic-bin-'), AIC_STATE_DIR: await createTempDir('aic-state-') };
+    const stderr = createOutputBuffer();
+
+    await runCli({ argv: ['run', '--tui'], cwd: projectDir, stdout: createOutputBuffer().stream, stderr: stderr.stream, env });
+    expect(stderr.output).toContain('stdout is not a terminal; --tui falls back to plain output.');
+    expect(stderr.output).toContain('No AI tools found');
+
+    const conflict = createOutputBuffer();
+    await runCli({ argv: ['run', '--tui', '--events', '-'], cwd: projectDir, stdout: createOutputBuffer().stream, stderr: conflict.stream, env });
+    expect(conflict.output).toContain('--tui cannot be combined with --interactive or --events -.');
+    expect(process.exitCode).toBe(1);
+
+    // The status server is only started once the dashboard flags check out, so nothing is left listening.
+    const served = createOutputBuffer();
+    await runCli({ argv: ['run', '--serve', '0', '--tui', '--interactive'], cwd: projectDir, stdout: served.stream, stderr: createOutputBuffer().stream, env });
+    expect(served.output).not.toContain('Serving session status');
+    process.exitCode = 0;
+  });
+
+  it('prints the dry-run plan as JSON and rejects --json for a real run', async () => {
+    const projectDir = await createTempDir('aic-cli-dry-json-');
+    await fs.mkdir(path.join(projectDir, 'specs'), { recursive: true });
+    await fs.writeFile(path.join(projectDir, 'specs', 'feat-core.md'), specContent, 'utf8');
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ "$1" = "--version" ]; then\n  echo "tool 1.0.0"\n  exit 0\nfi\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+    await makeExecutable(path.join(binDir, 'codex'), fakeTool);
+    const env = { ...process.env, PATH: `${binDir}:${process.env.PATH}`, AIC_STATE_DIR: await createTempDir('aic-state-') };
+
+    const stdout = createOutputBuffer();
+    await runCli({ argv: ['--json', 'run', '--dry-run'], cwd: projectDir, stdout: stdout.stream, stderr: createOutputBuffer().stream, env });
+    expect(JSON.parse(stdout.output)).toEqual({
+      version: 1,
+      command: 'run',
+      dryRun: true,
+      lead: 'claude',
+      validators: ['codex'],
+      commandValidators: [],
+      specs: [{ order: 1, file: 'feat-core.md', id: 'feat-core', name: 'Core', complexity: 'EASY', maturity: 3, contextOnly: false, dependsOn: [] }]
+    });
+
+    const stderr = createOutputBuffer();
+    await runCli({ argv: ['run', '--json'], cwd: projectDir, stdout: createOutputBuffer().stream, stderr: stderr.stream, env });
+    expect(stderr.output).toContain('--json is only supported with --dry-run');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('rejects --json for commands that only print text', async () => {
+    const projectDir = await createTempDir('aic-cli-text-json-');
+    const env = { ...process.env, AIC_STATE_DIR: await createTempDir('aic-state-') };
+    const cases: Array<[string[], string]> = [
+      [['validate', '--json'], 'validate'],
+      [['--json', 'config', 'list'], 'config list'],
+      [['config', 'get', 'defaultLead', '--json'], 'config get'],
+      [['--json', 'rollback', 'feat-core'], 'rollback'],
+      [['--json', 'prompts', 'show', 'lead'], 'prompts show'],
+      [['--json', 'serve'], 'serve']
+    ];
+    for (const [argv, command] of cases) {
+      const stdout = createOutputBuffer();
+      const stderr = createOutputBuffer();
+      await runCli({ argv, cwd: projectDir, stdout: stdout.stream, stderr: stderr.stream, env });
+      expect(stderr.output).toContain(`--json is not supported for aic ${command}`);
+      expect(stdout.output).toBe('');
+      expect(process.exitCode).toBe(1);
+      process.exitCode = 0;
+    }
+  });
+
   it('invokes validate command', async () => {
     const projectDir = await createTempDir('aic-cli-validate-');
     const specsDir = path.join(projectDir, 'specs');
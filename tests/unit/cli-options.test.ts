@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
 import { createOutputBuffer, createTempDir } from '../helpers';
 
 const runCoordinator = vi.fn();
@@ -129,4 +131,34 @@ describe('cli run options', () => {
       quiet: true
     });
   });
+
+  it('fills unset run flags from the project config', async () => {
+    const { runCli } = await import('../../src/cli/cli');
+    const cwd = await createTempDir('aic-cli-project-');
+    const stateDir = await createTempDir('aic-cli-project-state-');
+    await fs.writeFile(
+      path.join(cwd, 'aic.config.json'),
+      JSON.stringify({ lead: 'codex', validators: ['claude', 'gemini'], timeout: 25, maxIterations: 6, sandboxImage: 'node:22' }),
+      'utf8'
+    );
+
+    await runCli({
+      argv: ['run', '--timeout', '3'],
+      cwd,
+      stdout: createOutputBuffer().stream,
+      stderr: createOutputBuffer().stream,
+      env: { AIC_STATE_DIR: stateDir }
+    });
+
+    const [options] = runCoordinator.mock.calls[0];
+    expect(options).toMatchObject({
+      lead: 'codex',
+      validators: 'claude,gemini',
+      timeout: 3,
+      maxIterations: 6,
+      maxIterationsPerRun: 5,
+      sandbox: false,
+      sandboxImage: 'node:22'
+    });
+  });
 });
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { detectOutputFormat, parseCommandOutput, parseJUnitXml, parseTap, parseTscDiagnostics } from '../../src/orchestration/command-output';
+
+const junit = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="4" failures="1" errors="1">
+  <testsuite name="auth" tests="4">
+    <testcase classname="auth.login" name="accepts valid passwords" time="0.01"/>
+    <testcase classname="auth.login" name="rejects bad passwords" file="tests/login.test.ts" line="12">
+      <failure message="expected 401 to be 403" type="AssertionError"><![CDATA[AssertionError: expected 401 to be 403
+    at tests/login.test.ts:14:5]]></failure>
+    </testcase>
+    <testcase classname="auth.session" name="expires &amp; refreshes">
+      <error message="TypeError: cannot read &quot;token&quot;">TypeError: cannot read "token"
+    at src/session.ts:40:11</error>
+    </testcase>
+    <testcase classname="auth.session" name="pending"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+const nodeTap = `TAP version 13
+# Subtest: auth
+    # Subtest: rejects bad passwords
+    not ok 1 - rejects bad passwords
+      ---
+      duration_ms: 1.2
+      location: '/repo/tests/login.test.js:12:3'
+      failureType: 'testCodeFailure'
+      error: |-
+        Expected values to be strictly equal:
+      code: 'ERR_ASSERTION'
+      ...
+    ok 2 - accepts valid passwords
+    ok 3 - later # SKIP not ready
+    1..3
+not ok 1 - auth
+  ---
+  duration_ms: 3.1
+  failureType: 'subtestsFailed'
+  error: '1 subtest failed'
+  ...
+ok 2 - health check
+1..2
+`;
+
+describe('command output parsing', () => {
+  it('reads failures and errors from JUnit XML and skips skipped tests', () => {
+    const parsed = parseJUnitXml(junit);
+    expect(parsed.total).toBe(3);
+    expect(parsed.failed).toBe(2);
+    expect(parsed.findings[0]).toMatchObject({
+      requirement: 'Test auth.login > rejects bad passwords passes',
+      description: 'Test failed: expected 401 to be 403',
+      severity: 'critical',
+      location: { file: 'tests/login.test.ts', line: 12 }
+    });
+    expect(parsed.findings[1]).toMatchObject({
+      requirement: 'Test auth.session > expires & refreshes passes',
+      description: 'Test errored: TypeError: cannot read "token"',
+      location: { file: 'src/session.ts', line: 40 }
+    });
+  });
+
+  it('reports each failing TAP test once, without the parent that only failed through its subtest', () => {
+    const parsed = parseTap(nodeTap);
+    expect(parsed.total).toBe(3);
+    expect(parsed.failed).toBe(1);
+    expect(parsed.findings).toEqual([{
+      requirement: 'Test rejects bad passwords passes',
+      description: 'Test failed: Expected values to be strictly equal:',
+      severity: 'critical',
+      location: { file: '/repo/tests/login.test.js', line: 12 }
+    }]);
+  });
+
+  it('parses plain and pretty tsc diagnostics', () => {
+    const output = [
+      'src/app.ts(3,7): error TS2322: Type \'string\' is not assignable to type \'number\'.',
+      '\u001b[96msrc/util.ts\u001b[0m:\u001b[93m10\u001b[0m:\u001b[93m1\u001b[0m - \u001b[91merror\u001b[0m\u001b[90m TS2304: \u001b[0mCannot find name \'foo\'.',
+      'Found 2 errors.'
+    ].join('\n');
+    expect(parseTscDiagnostics(output)).toEqual([
+      { requirement: 'Code type-checks', description: 'TS2322: Type \'string\' is not assignable to type \'number\'.', severity: 'critical', location: { file: 'src/app.ts', line: 3 } },
+      { requirement: 'Code type-checks', description: 'TS2304: Cannot find name \'foo\'.', severity: 'critical', location: { file: 'src/util.ts', line: 10 } }
+    ]);
+  });
+
+  it('detects the format from the output', () => {
+    expect(detectOutputFormat(junit)).toBe('junit');
+    expect(detectOutputFormat('', '<testsuite/>')).toBe('junit');
+    expect(detectOutputFormat(nodeTap)).toBe('tap');
+    expect(detectOutputFormat('src/a.ts(1,1): error TS1005: \';\' expected.')).toBe('tsc');
+    expect(detectOutputFormat('lint failed')).toBe('exit-code');
+    expect(parseCommandOutput('not ok 1 - x', 'exit-code')).toEqual({ format: 'exit-code', findings: [] });
+  });
+});
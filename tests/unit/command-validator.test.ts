@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import {
+  mergeCommandValidators,
+  parseCommandValidatorConfigs,
+  parseCommandValidatorFlag,
+  runCommandValidator,
+  toCommandValidationResult
+} from '../../src/orchestration/command-validator';
+import { createTempDir } from '../helpers';
+
+describe('command validators', () => {
+  it('parses --check and --gate values', () => {
+    expect(parseCommandValidatorFlag('test=npm test -- --reporter=tap')).toEqual({ name: 'test', command: 'npm test -- --reporter=tap' });
+    expect(parseCommandValidatorFlag('npx tsc --noEmit', true)).toEqual({ name: 'npx', command: 'npx tsc --noEmit', gate: true });
+    expect(() => parseCommandValidatorFlag('lint=  ')).toThrow('expected name=command');
+  });
+
+  it('validates configured entries', () => {
+    expect(parseCommandValidatorConfigs([{ name: 'types', command: 'tsc --noEmit', format: 'tsc', gate: true, timeout: 5 }], 'config.json')).toEqual([
+      { name: 'types', command: 'tsc --noEmit', format: 'tsc', gate: true, timeout: 5 }
+    ]);
+    expect(parseCommandValidatorConfigs(undefined, 'config.json')).toEqual([]);
+    expect(() => parseCommandValidatorConfigs({ name: 'x' }, 'config.json')).toThrow('expected an array');
+    expect(() => parseCommandValidatorConfigs([{ name: 'types' }], 'config.json')).toThrow('Invalid command validator types (from config.json, entry 1): missing command');
+    expect(() => parseCommandValidatorConfigs([{ name: 'types', command: 'tsc', format: 'xml' }], 'config.json')).toThrow('format must be one of');
+  });
+
+  it('lets later sources replace validators with the same name', () => {
+    const merged = mergeCommandValidators(
+      [{ name: 'test', command: 'npm test' }, { name: 'lint', command: 'npm run lint' }],
+      [{ name: 'test', command: 'npm test -- --ci', gate: true }]
+    );
+    expect(merged).toEqual([
+      { name: 'test', command: 'npm test -- --ci', gate: true },
+      { name: 'lint', command: 'npm run lint' }
+    ]);
+  });
+
+  it('turns exit codes into results', () => {
+    const config = { name: 'lint', command: 'npm run lint' };
+    expect(toCommandValidationResult(config, 'all good', 0)).toMatchObject({ status: 'PASS', completeness: 100, findings: [] });
+    const failed = toCommandValidationResult(config, 'line 1\nsrc/a.ts: unused variable', 1);
+    expect(failed).toMatchObject({ status: 'FAIL', completeness: 0 });
+    expect(failed.findings).toEqual([{
+      requirement: '`npm run lint` succeeds',
+      description: 'Command exited with code 1',
+      severity: 'critical',
+      originalCode: 'line 1\nsrc/a.ts: unused variable'
+    }]);
+  });
+
+  it('scores test commands by the share of passing tests', () => {
+    const tap = 'TAP version 13\nok 1 - a\nok 2 - b\nok 3 - c\nnot ok 4 - d\n1..4\n';
+    const parsed = toCommandValidationResult({ name: 'test', command: 'node --test' }, tap, 1);
+    expect(parsed.status).toBe('FAIL');
+    expect(parsed.completeness).toBe(75);
+    expect(parsed.findings?.map((finding) => finding.requirement)).toEqual(['Test d passes']);
+  });
+
+  it('runs the command in the workspace and reads its JUnit report', async () => {
+    const dir = await createTempDir('aic-command-');
+    await fs.writeFile(path.join(dir, 'junit.xml'), '<testsuite><testcase name="stale"><failure message="old"/></testcase></testsuite>', 'utf8');
+    const command = `printf '<testsuite><testcase name="adds"/><testcase name="divides"><failure message="division by zero"/></testcase></testsuite>' > junit.xml; exit 1`;
+    const validation = await runCommandValidator({ name: 'test', command, reportFile: 'junit.xml', gate: true }, { cwd: dir, env: process.env, timeoutMs: 10_000 });
+    expect(validation.tool).toBe('cmd:test');
+    expect(validation.exitCode).toBe(1);
+    expect(validation.gate).toBe(true);
+    expect(validation.parsed.completeness).toBe(50);
+    expect(validation.parsed.findings?.map((finding) => finding.description)).toEqual(['Test failed: division by zero']);
+  });
+});
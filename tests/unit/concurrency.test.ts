@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency, serialize } from '../../src/utils/concurrency';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('concurrency helpers', () => {
+  it('preserves input order and respects the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await delay(ms);
+      running -= 1;
+      return `${index}:${ms}`;
+    });
+    expect(results).toEqual(['0:30', '1:10', '2:20', '3:5']);
+    expect(peak).toBe(2);
+  });
+
+  it('waits for in-flight calls and rethrows the first failure in input order', async () => {
+    const settled: number[] = [];
+    await expect(mapWithConcurrency([0, 1, 2, 3], 3, async (value) => {
+      await delay(value === 0 ? 20 : 1);
+      settled.push(value);
+      if (value === 0 || value === 1) {
+        throw new Error(`failed ${value}`);
+      }
+      return value;
+    })).rejects.toThrow('failed 0');
+    expect(settled.sort()).toEqual([0, 1, 2]);
+  });
+
+  it('serializes concurrent callers', async () => {
+    const order: string[] = [];
+    let count = 0;
+    const run = serialize(async () => {
+      const id = count;
+      count += 1;
+      order.push(`start-${id}`);
+      await delay(5);
+      order.push(`end-${id}`);
+    });
+    await Promise.all([run(), run()]);
+    expect(order).toEqual(['start-0', 'end-0', 'start-1', 'end-1']);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateConsensus, parseConsensusPolicy, parseConsensusSetting } from '../../src/orchestration/consensus';
+import { parseValidationOutput } from '../../src/orchestration/run';
+import { ValidationResult } from '../../src/types';
+
+function result(status: 'PASS' | 'FAIL', completeness: number, extra: Partial<ValidationResult> = {}): ValidationResult {
+  return { completeness, status, gaps: status === 'PASS' ? [] : ['gap'], recommendations: [], ...extra };
+}
+
+const pass = (tool: string, completeness = 100) => ({ tool, parsed: result('PASS', completeness) });
+const fail = (tool: string, completeness = 50) => ({ tool, parsed: result('FAIL', completeness) });
+
+describe('consensus policies', () => {
+  it('parses policy strings', () => {
+    expect(parseConsensusPolicy('unanimous')).toEqual({ name: 'unanimous' });
+    expect(parseConsensusPolicy('quorum-2')).toEqual({ name: 'quorum', quorum: 2 });
+    expect(parseConsensusPolicy('weighted:claude=2,codex=0.5')).toEqual({ name: 'weighted', weights: { claude: 2, codex: 0.5 } });
+    expect(parseConsensusPolicy('completeness-threshold')).toEqual({ name: 'completeness-threshold', threshold: 90 });
+    expect(parseConsensusPolicy('completeness-threshold:80')).toEqual({ name: 'completeness-threshold', threshold: 80 });
+    expect(() => parseConsensusPolicy('mostly')).toThrow('Invalid consensus policy');
+    expect(() => parseConsensusPolicy('quorum-0')).toThrow('at least 1');
+    expect(() => parseConsensusPolicy('completeness-threshold:120')).toThrow('between 0 and 100');
+  });
+
+  it('parses front matter objects', () => {
+    expect(parseConsensusSetting({ policy: 'quorum', quorum: 3 })).toEqual({ name: 'quorum', quorum: 3 });
+    expect(parseConsensusSetting({ policy: 'weighted', weights: { gemini: 3 } })).toEqual({ name: 'weighted', weights: { gemini: 3 } });
+    expect(parseConsensusSetting(undefined)).toBeUndefined();
+    expect(() => parseConsensusSetting({ policy: 'majority', threshold: 80 })).toThrow('completeness-threshold');
+    expect(() => parseConsensusSetting(['majority'])).toThrow('expected a string');
+  });
+
+  it('keeps the legacy rules as the default policy', () => {
+    expect(evaluateConsensus({ name: 'default' }, [pass('claude'), fail('codex')]).reached).toBe(false);
+    expect(evaluateConsensus({ name: 'default' }, [pass('claude'), fail('codex'), pass('gemini')]).reached).toBe(true);
+    const noGaps = [pass('claude'), { tool: 'codex', parsed: { ...result('FAIL', 90), gaps: [] } }];
+    expect(evaluateConsensus({ name: 'default' }, noGaps).reached).toBe(false);
+    const decision = evaluateConsensus({ name: 'default' }, noGaps, { acceptNoGaps: true });
+    expect(decision).toEqual({ policy: 'default', reached: true, reason: '1/2 validators passed, but no validator reported gaps' });
+    expect(evaluateConsensus({ name: 'unanimous' }, noGaps, { acceptNoGaps: true }).reached).toBe(false);
+  });
+
+  it('evaluates each policy and explains the decision', () => {
+    const three = [pass('claude'), fail('codex'), pass('gemini')];
+    expect(evaluateConsensus({ name: 'unanimous' }, three)).toEqual({ policy: 'unanimous', reached: false, reason: '2/3 validators passed (needs all)' });
+    expect(evaluateConsensus({ name: 'majority' }, three).reached).toBe(true);
+    expect(evaluateConsensus({ name: 'quorum', quorum: 3 }, three).reason).toBe('2/3 validators passed (needs 3)');
+    expect(evaluateConsensus({ name: 'weighted', weights: { codex: 3 } }, three)).toEqual({
+      policy: 'weighted:codex=3',
+      reached: false,
+      reason: 'passing weight 2 of 5 (needs more than half)'
+    });
+    expect(evaluateConsensus({ name: 'completeness-threshold', threshold: 80 }, [pass('claude', 90), fail('codex', 75)])).toEqual({
+      policy: 'completeness-threshold:80',
+      reached: true,
+      reason: 'average completeness 83% (needs 80%)'
+    });
+    expect(evaluateConsensus({ name: 'majority' }, []).reached).toBe(false);
+  });
+
+  it('fails no-critical-findings when a validator reports a critical finding', () => {
+    const output = JSON.stringify({
+      response_block: {
+        completeness: 95,
+        status: 'PASS',
+        findings: [
+          { spec_requirement: 'Auth', gap_description: 'Token not verified', original_code: '', proposed_diff: '', severity: 'critical' },
+          { spec_requirement: 'Docs', gap_description: 'Typo', original_code: '', proposed_diff: '', severity: 'minor' }
+        ],
+        recommendations: []
+      }
+    });
+    const parsed = parseValidationOutput(output);
+    const decision = evaluateConsensus({ name: 'no-critical-findings' }, [{ tool: 'codex', parsed }, fail('claude')]);
+    expect(decision).toEqual({ policy: 'no-critical-findings', reached: false, reason: 'critical findings reported (codex: 1)' });
+    expect(evaluateConsensus({ name: 'no-critical-findings' }, [fail('claude')]).reached).toBe(true);
+  });
+
+  it('fails no-critical-findings when a validator output could not be parsed', () => {
+    const invalid = { tool: 'codex', parsed: result('FAIL', 0, { findings: [{ requirement: 'Validator output format', description: 'invalid', severity: 'major' }], invalidOutput: true }) };
+    expect(evaluateConsensus({ name: 'no-critical-findings' }, [invalid])).toEqual({
+      policy: 'no-critical-findings',
+      reached: false,
+      reason: 'validator output invalid (codex)'
+    });
+    expect(evaluateConsensus({ name: 'no-critical-findings' }, [pass('claude'), invalid]).reached).toBe(false);
+  });
+
+  it('never reaches consensus while a hard-gate command fails', () => {
+    const failingGate = { tool: 'cmd:test', parsed: result('FAIL', 80), gate: true, command: { name: 'test', command: 'npm test', gate: true } };
+    expect(evaluateConsensus({ name: 'majority' }, [pass('claude'), pass('codex'), failingGate])).toEqual({
+      policy: 'majority',
+      reached: false,
+      reason: 'hard gate failed: cmd:test'
+    });
+    const failingCheck = { tool: 'cmd:lint', parsed: result('FAIL', 0), command: { name: 'lint', command: 'npm run lint' } };
+    expect(evaluateConsensus({ name: 'majority' }, [pass('claude'), pass('codex'), failingCheck])).toEqual({
+      policy: 'majority',
+      reached: true,
+      reason: '2/2 validators passed (needs 2); non-gate checks failed: cmd:lint'
+    });
+  });
+
+  it('applies the policy to AI validators only', () => {
+    const passingCheck = { tool: 'cmd:lint', parsed: result('PASS', 100), command: { name: 'lint', command: 'npm run lint' } };
+    expect(evaluateConsensus({ name: 'default' }, [pass('claude'), fail('codex'), passingCheck])).toEqual({
+      policy: 'default',
+      reached: false,
+      reason: '1/2 validators passed (needs 2)'
+    });
+    expect(evaluateConsensus({ name: 'completeness-threshold', threshold: 80 }, [pass('claude', 90), fail('codex', 60), passingCheck]).reason)
+      .toBe('average completeness 75% (needs 80%)');
+    expect(evaluateConsensus({ name: 'majority' }, [passingCheck])).toEqual({ policy: 'majority', reached: false, reason: 'no AI validator results' });
+  });
+});
+
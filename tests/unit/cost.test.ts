@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { checkUsageLimits, countTokens, executionCost, formatCost, parsePriceTable, resolvePriceTable, sumSessionUsage } from '../../src/orchestration/cost';
+import { Cycle, Session, SpecEntry, TokenUsage } from '../../src/types';
+
+function cycle(number: number, lead: TokenUsage, validators: Array<[string, TokenUsage | undefined]>): Cycle {
+  return {
+    number,
+    specId: 'feat',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    leadExecution: { tool: 'claude', prompt: 'p', output: 'o', filesModified: [], durationMs: 1, exitCode: 0, tokenUsage: lead },
+    validations: validators.map(([tool, tokenUsage]) => ({
+      tool,
+      prompt: 'p',
+      output: 'o',
+      parsed: { completeness: 50, status: 'FAIL', gaps: [], recommendations: [] },
+      durationMs: 1,
+      tokenUsage
+    })),
+    consensusReached: false
+  } as Cycle;
+}
+
+function spec(file: string, cycles: Cycle[]): SpecEntry {
+  return { file, path: `/specs/${file}`, meta: { id: file, name: file } as SpecEntry['meta'], status: 'in_progress', cycles };
+}
+
+describe('cost accounting', () => {
+  it('prices input, output and cache tokens per million', () => {
+    const price = { input: 3, output: 15, cacheRead: 0.3 };
+
+    expect(executionCost({ inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 2_000_000, cacheCreationTokens: 1_000_000 }, price))
+      .toBeCloseTo(3 + 1.5 + 0.6 + 3);
+    expect(executionCost({ totalTokens: 500_000 }, price)).toBeCloseTo(1.5);
+    expect(countTokens({ inputTokens: 10, outputTokens: 5, cacheReadTokens: 20 })).toBe(35);
+    expect(countTokens({ totalTokens: 7, inputTokens: 10 })).toBe(7);
+    expect(formatCost(0.01234)).toBe('$0.0123');
+    expect(formatCost(12.5)).toBe('$12.50');
+  });
+
+  it('validates price tables and merges them over the defaults', () => {
+    expect(parsePriceTable({ aider: { input: 1, output: 2 } }, 'prices')).toEqual({ aider: { input: 1, output: 2 } });
+    expect(() => parsePriceTable({ aider: { input: 1 } }, 'prices')).toThrow('prices.aider: input and output prices are required');
+    expect(() => parsePriceTable({ aider: { input: 1, output: 2, batch: 1 } }, 'prices')).toThrow('unknown field "batch"');
+    expect(() => parsePriceTable({ aider: { input: -1, output: 2 } }, 'prices')).toThrow('prices.aider.input: expected a number of 0 or more');
+    expect(resolvePriceTable({ claude: { input: 15, output: 75 } }).claude).toEqual({ input: 15, output: 75, cacheRead: 0.3, cacheWrite: 3.75 });
+    expect(resolvePriceTable({ aider: { input: 1, output: 2 } }).aider).toEqual({ input: 1, output: 2 });
+    expect(resolvePriceTable().codex.input).toBeGreaterThan(0);
+  });
+
+  it('sums usage across specs and reports the first limit reached', () => {
+    const prices = { claude: { input: 10, output: 10 }, codex: { input: 10, output: 10 } };
+    const first = spec('a.md', [cycle(1, { inputTokens: 40_000, outputTokens: 10_000 }, [['codex', { totalTokens: 50_000 }], ['cmd:test', undefined]])]);
+    const second = spec('b.md', [cycle(1, { inputTokens: 10_000, outputTokens: 0 }, [['aider', { totalTokens: 5_000 }]])]);
+    const session = { specs: [first, second] } as Session;
+
+    expect(sumSessionUsage(session, prices)).toEqual({ tokens: 115_000, cost: 1.1, unpriced: ['aider'] });
+    expect(checkUsageLimits(session, second, {}, prices)).toBeUndefined();
+    expect(checkUsageLimits(session, second, { maxTokens: 100_000 }, prices))
+      .toEqual({ scope: 'session', message: 'Session token limit reached (115,000/100,000 tokens)' });
+    expect(checkUsageLimits(session, second, { maxCost: 2, maxSpecCost: 0.1 }, prices))
+      .toEqual({ scope: 'spec', message: 'Spec cost limit reached for b.md ($0.1000/$0.1000)' });
+    expect(checkUsageLimits(session, first, { maxSpecTokens: 200_000 }, prices)).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { applyCriteriaVerdicts, formatCriteriaMatrix, parseCriterionVerdict, scoreCriteria } from '../../src/orchestration/criteria';
+import { AcceptanceCriterion, ValidationResult } from '../../src/types';
+
+const criteria: AcceptanceCriterion[] = [
+  { id: 'FR-1', text: 'Users log in' },
+  { id: 'FR-2', text: 'Sessions expire' },
+  { id: 'AC-1', text: 'Errors | are shown' }
+];
+
+function result(overrides: Partial<ValidationResult> = {}): ValidationResult {
+  return { completeness: 95, status: 'FAIL', gaps: [], findings: [], recommendations: [], ...overrides };
+}
+
+describe('acceptance criteria verdicts', () => {
+  it('normalizes verdict spellings and ids', () => {
+    expect(parseCriterionVerdict({ id: 'fr-1', verdict: 'PASS', evidence: ' src/login.ts ' })).toEqual({ id: 'FR-1', verdict: 'met', evidence: 'src/login.ts' });
+    expect(parseCriterionVerdict({ id: 'FR-2', status: 'not met' })).toEqual({ id: 'FR-2', verdict: 'unmet' });
+    expect(parseCriterionVerdict({ id: 'FR-2', verdict: 'maybe' })).toBeNull();
+  });
+
+  it('computes completeness from verdicts and counts missing ones as unmet', () => {
+    expect(scoreCriteria(criteria, [{ id: 'FR-1', verdict: 'met' }, { id: 'FR-2', verdict: 'partial' }])).toBe(50);
+
+    const applied = applyCriteriaVerdicts(result({
+      criteria: [{ id: 'FR-1', verdict: 'met' }, { id: 'FR-2', verdict: 'met' }, { id: 'AC-1', verdict: 'partial' }, { id: 'X-1', verdict: 'met' }]
+    }), criteria);
+    expect(applied.completeness).toBe(83);
+    expect(applied.reportedCompleteness).toBe(95);
+    expect(applied.criteria?.map((verdict) => verdict.id)).toEqual(['FR-1', 'FR-2', 'AC-1']);
+  });
+
+  it('leaves results without verdicts unchanged', () => {
+    const original = result();
+    expect(applyCriteriaVerdicts(original, criteria)).toBe(original);
+    expect(applyCriteriaVerdicts(result({ criteria: [] }), []).completeness).toBe(95);
+  });
+
+  it('renders a matrix of criteria against validators', () => {
+    const lines = formatCriteriaMatrix(criteria, [
+      { tool: 'claude', parsed: result({ criteria: [{ id: 'FR-1', verdict: 'met' }] }) },
+      { tool: 'gemini', parsed: result({ criteria: [{ id: 'FR-1', verdict: 'partial' }, { id: 'AC-1', verdict: 'unmet' }] }) }
+    ]);
+    expect(lines).toEqual([
+      '| Criterion | claude | gemini |',
+      '| --- | --- | --- |',
+      '| FR-1 Users log in | met | partial |',
+      '| FR-2 Sessions expire | - | - |',
+      '| AC-1 Errors \\| are shown | - | unmet |'
+    ]);
+  });
+});
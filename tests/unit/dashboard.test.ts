@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Writable } from 'node:stream';
+import { RunDashboard, appendDashboardOutput, applyDashboardEvent, createDashboardState, renderDashboard } from '../../src/cli/dashboard';
+import { CoordinatorEvent, CoordinatorEventEmitter } from '../../src/orchestration/events';
+import { resolvePriceTable } from '../../src/orchestration/cost';
+
+const start = Date.parse('2026-01-01T10:00:00.000Z');
+
+function at(seconds: number): string {
+  return new Date(start + seconds * 1000).toISOString();
+}
+
+const events = [
+  { type: 'SessionStarted', timestamp: at(0), sessionId: 'session-dashboard', mode: 'run', resumed: false, lead: 'claude', validators: ['codex', 'gemini'], specs: ['feat-core.md', 'feat-api.md'] },
+  { type: 'SpecStarted', timestamp: at(1), sessionId: 'session-dashboard', specId: 'feat-core', file: 'feat-core.md', previousCycles: 0 },
+  { type: 'LeadStarted', timestamp: at(2), sessionId: 'session-dashboard', specId: 'feat-core', cycleNumber: 1, tool: 'claude' },
+  { type: 'LeadFinished', timestamp: at(62), sessionId: 'session-dashboard', specId: 'feat-core', cycleNumber: 1, tool: 'claude', durationMs: 60_000, exitCode: 0, filesChanged: 2, tokenUsage: { inputTokens: 1000, outputTokens: 500, totalTokens: 1500 } },
+  { type: 'ValidatorResult', timestamp: at(92), sessionId: 'session-dashboard', specId: 'feat-core', cycleNumber: 1, tool: 'codex', status: 'FAIL', completeness: 80, findings: 1, durationMs: 30_000, exitCode: 0 }
+] as CoordinatorEvent[];
+
+describe('run dashboard', () => {
+  it('shows the spec queue, current cycle, validator bars, totals and streamed output', () => {
+    const state = createDashboardState();
+    events.forEach((event) => applyDashboardEvent(state, event, resolvePriceTable()));
+    appendDashboardOutput(state, 'codex', 'checking \x1b[32mR1\x1b[0m\nprogress 10%\rprogress 100%\npartial');
+
+    const lines = renderDashboard(state, { width: 100, height: 24 }, start + 100_000);
+
+    expect(lines).toHaveLength(24);
+    expect(lines[0]).toBe('aic run · session session- · 00:01:40 · 1,500 tokens · $0.0105');
+    expect(lines).toContain('Specs 0/2');
+    expect(lines.find((line) => line.includes('feat-core'))).toContain('▶ feat-core');
+    expect(lines.find((line) => line.includes('feat-api'))).toContain('pending');
+    expect(lines).toContain('Cycle 1 · feat-core · validating (00:00:38)');
+    expect(lines).toContain('  lead       claude     done 00:01:00 · 1,500 tokens');
+    expect(lines).toContain(`  validator  codex      ${'█'.repeat(16)}${'░'.repeat(4)}  80% FAIL 00:00:30`);
+    expect(lines).toContain('  validator  gemini     running 00:00:38');
+    expect(lines.find((line) => line.startsWith('Tools:'))).toBe('Tools: claude 00:01:00 1,500 tok $0.0105 · codex 00:00:30 · gemini 00:00:38');
+    const pane = lines.findIndex((line) => line.startsWith('─ Output (codex)'));
+    expect(lines.slice(pane + 1, pane + 6)).toEqual(['── codex ──', 'checking R1', 'progress 100%', 'partial', '']);
+  });
+
+  it('keeps a cycle panel per spec when specs run in parallel', () => {
+    const state = createDashboardState();
+    [
+      ...events.slice(0, 3),
+      { type: 'SpecStarted', timestamp: at(3), sessionId: 'session-dashboard', specId: 'feat-api', file: 'feat-api.md', previousCycles: 0 },
+      { type: 'LeadStarted', timestamp: at(4), sessionId: 'session-dashboard', specId: 'feat-api', cycleNumber: 1, tool: 'codex' },
+      ...events.slice(3)
+    ].forEach((event) => applyDashboardEvent(state, event as CoordinatorEvent, resolvePriceTable()));
+    const size = { width: 100, height: 30 };
+
+    const both = renderDashboard(state, size, start + 100_000);
+    expect(both).toContain('Cycle 1 · feat-core · validating (00:00:38)');
+    expect(both).toContain(`  validator  codex      ${'█'.repeat(16)}${'░'.repeat(4)}  80% FAIL 00:00:30`);
+    expect(both).toContain('Cycle 1 · feat-api · lead implementing (00:01:36)');
+    expect(both).toContain('  lead       codex      running 00:01:36');
+
+    applyDashboardEvent(state, { type: 'SpecCompleted', timestamp: at(95), sessionId: 'session-dashboard', specId: 'feat-core', file: 'feat-core.md', status: 'completed', totalCycles: 1, durationMs: 94_000 }, resolvePriceTable());
+    const one = renderDashboard(state, size, start + 100_000);
+    expect(one.some((line) => line.startsWith('Cycle 1 · feat-core'))).toBe(false);
+    expect(one).toContain('Cycle 1 · feat-api · lead implementing (00:01:36)');
+  });
+
+  it('scrolls the output pane back and clamps at the oldest line', () => {
+    const state = createDashboardState();
+    appendDashboardOutput(state, 'claude', Array.from({ length: 50 }, (_, index) => `line ${index + 1}`).join('\n'));
+    const size = { width: 60, height: 16 };
+
+    expect(renderDashboard(state, size, start).at(-1)).toBe('line 50');
+    state.scroll = 5;
+    const scrolled = renderDashboard(state, size, start);
+    expect(scrolled.at(-1)).toBe('line 45');
+    expect(scrolled).not.toContain('line 46');
+    expect(scrolled.find((line) => line.startsWith('─ Output'))).toContain('scrolled 5 lines back');
+    state.scroll = 1000;
+    renderDashboard(state, size, start);
+    expect(state.scroll).toBeLessThan(51);
+  });
+
+  it('takes over the terminal at session start and prints the captured console text when it stops', () => {
+    let written = '';
+    const stdout = new Writable({
+      write(chunk, _encoding, callback) {
+        written += chunk.toString();
+        callback();
+      }
+    }) as unknown as NodeJS.WriteStream;
+    Object.assign(stdout, { isTTY: true, columns: 80, rows: 24 });
+    const dashboard = new RunDashboard({ stdout }, resolvePriceTable());
+    const emitter = new CoordinatorEventEmitter();
+    dashboard.attach(emitter);
+
+    dashboard.output.write('Resume previous session? ');
+    expect(written).toBe('Resume previous session? ');
+
+    emitter.emit('SessionStarted', { sessionId: 'session-tui', mode: 'run', resumed: false, lead: 'claude', validators: ['codex'], specs: ['feat-core.md'] });
+    expect(written).toContain('\x1b[?1049h');
+    dashboard.output.write('Starting in 3 seconds...\n');
+    expect(written).not.toContain('Starting in 3 seconds');
+
+    dashboard.stop();
+    expect(written).toContain('\x1b[?1049l');
+    expect(written.endsWith('Starting in 3 seconds...\n')).toBe(true);
+  });
+});
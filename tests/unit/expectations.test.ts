@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { findExportedNames, runExpectationsValidator } from '../../src/orchestration/expectations';
+import { createTempDir } from '../helpers';
+
+describe('spec expectations', () => {
+  it('finds exported names in ES and CommonJS modules', () => {
+    const source = [
+      'export async function boot() {}',
+      'export const VERSION = 1;',
+      'export default class App {}',
+      'export interface Options {}',
+      'const a = 1; const b = 2;',
+      'export { a, b as renamed };',
+      'exports.legacy = () => {};',
+      'module.exports = { shutdown, restart: () => {} };'
+    ].join('\n');
+    expect([...findExportedNames(source)].sort()).toEqual(
+      ['App', 'Options', 'VERSION', 'a', 'boot', 'default', 'legacy', 'renamed', 'restart', 'shutdown'].sort()
+    );
+  });
+
+  it('reports missing files and exports as a failing gate', async () => {
+    const dir = await createTempDir('aic-expects-');
+    await fs.mkdir(path.join(dir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'src', 'core.ts'), 'export function boot() {}\n', 'utf8');
+
+    const validation = await runExpectationsValidator({
+      files: ['src/core.ts', 'src/index.ts'],
+      exports: { 'src/core.ts': ['boot', 'shutdown'] }
+    }, dir);
+
+    expect(validation).toMatchObject({ tool: 'spec:expects', gate: true, exitCode: 1 });
+    expect(validation.parsed).toMatchObject({ status: 'FAIL', completeness: 50 });
+    expect(validation.parsed.findings?.map((finding) => finding.description)).toEqual([
+      'Expected file src/index.ts is missing',
+      'Expected export shutdown not found in src/core.ts'
+    ]);
+    expect(validation.output).toBe('ok src/core.ts\nmissing src/index.ts\nok src/core.ts#boot\nmissing src/core.ts#shutdown');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { formatConvergenceChart, summarizeConvergence, trackFindings } from '../../src/orchestration/finding-lifecycle';
+import { Cycle, Finding, MergedFinding } from '../../src/types';
+
+const expiry: Finding = { requirement: 'Sessions expire', description: 'Session expiry is never checked', severity: 'critical', location: { file: 'src/session.ts', line: 10 } };
+const audit: Finding = { requirement: 'Audit log', description: 'Login does not write an audit entry', severity: 'minor' };
+const rateLimit: Finding = { requirement: 'Rate limiting', description: 'Login attempts are not rate limited', severity: 'major' };
+
+function merged(finding: Finding): MergedFinding {
+  return { finding, validators: ['claude'], reports: 1, agreement: 1 };
+}
+
+function cycle(number: number, tracked: { findings: MergedFinding[]; resolved: string[] }): Cycle {
+  return {
+    number,
+    specId: 'feat-auth',
+    startedAt: new Date().toISOString(),
+    leadExecution: { tool: 'claude', prompt: '', output: '', filesModified: [], durationMs: 0, exitCode: 0 },
+    validations: [],
+    consensusReached: false,
+    mergedFindings: tracked.findings,
+    resolvedFindings: tracked.resolved
+  };
+}
+
+describe('finding lifecycle', () => {
+  it('continues from the findings a preflight pass reported before the first cycle', () => {
+    const preflight = trackFindings([], [merged(expiry), merged(audit)]);
+    const first = trackFindings([], [merged(audit), merged(rateLimit)], undefined, preflight.findings);
+    expect(first.findings.map((item) => [item.id, item.lifecycle])).toEqual([['F2', 'persisting'], ['F3', 'new']]);
+    expect(first.resolved).toEqual(['F1']);
+  });
+
+  it('assigns stable ids and tracks new, persisting, resolved and regressed findings', () => {
+    const cycles: Cycle[] = [];
+    const first = trackFindings(cycles, [merged(expiry), merged(audit)]);
+    expect(first.findings.map((item) => [item.id, item.lifecycle])).toEqual([['F1', 'new'], ['F2', 'new']]);
+    cycles.push(cycle(1, first));
+
+    const second = trackFindings(cycles, [merged({ ...expiry, description: 'Expiry of the session is never checked' }), merged(rateLimit)]);
+    expect(second.findings.map((item) => [item.id, item.lifecycle, item.firstSeenCycle])).toEqual([['F1', 'persisting', 1], ['F3', 'new', 2]]);
+    expect(second.resolved).toEqual(['F2']);
+    cycles.push(cycle(2, second));
+
+    const third = trackFindings(cycles, [merged(audit)]);
+    expect(third.findings.map((item) => [item.id, item.lifecycle, item.firstSeenCycle])).toEqual([['F2', 'regressed', 1]]);
+    expect(third.resolved).toEqual(['F1', 'F3']);
+    cycles.push(cycle(3, third));
+
+    const points = summarizeConvergence(cycles);
+    expect(points).toEqual([
+      { cycle: 1, open: 2, new: 2, persisting: 0, regressed: 0, resolved: 0 },
+      { cycle: 2, open: 2, new: 1, persisting: 1, regressed: 0, resolved: 1 },
+      { cycle: 3, open: 1, new: 0, persisting: 0, regressed: 1, resolved: 2 }
+    ]);
+    expect(formatConvergenceChart(points, 4)).toEqual([
+      'Cycle 1 | #### 2 open (+2 new, 0 persisting, 0 regressed, -0 resolved)',
+      'Cycle 2 | #### 2 open (+1 new, 1 persisting, 0 regressed, -1 resolved)',
+      'Cycle 3 | ## 1 open (+0 new, 0 persisting, 1 regressed, -2 resolved)'
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { findingSimilarity, mergeFindings } from '../../src/orchestration/finding-merge';
+import { Finding, ValidationResult } from '../../src/types';
+
+function source(tool: string, findings: Finding[]): { tool: string; parsed: ValidationResult } {
+  return { tool, parsed: { completeness: 60, status: 'FAIL', gaps: [], findings, recommendations: [] } };
+}
+
+const expiryClaude: Finding = {
+  requirement: 'Sessions expire after 30 minutes',
+  description: 'Session expiry is not checked when loading a session',
+  severity: 'major',
+  location: { file: 'src/session.ts', line: 40 }
+};
+const expiryGemini: Finding = {
+  requirement: 'Sessions expire after 30 minutes',
+  description: 'Loading a session never checks expiry',
+  severity: 'critical',
+  location: { file: 'src/session.ts', line: 44 },
+  proposedDiff: '+ if (isExpired(session)) throw new Error()'
+};
+const logging: Finding = {
+  requirement: 'Audit log on login',
+  description: 'Login does not write an audit entry',
+  severity: 'minor'
+};
+
+describe('finding merge', () => {
+  it('clusters near-duplicates across validators and ranks by agreement', () => {
+    const merged = mergeFindings([
+      source('claude', [logging, expiryClaude]),
+      source('gemini', [expiryGemini]),
+      source('codex', [])
+    ]);
+    expect(merged).toHaveLength(2);
+    expect(merged[0].validators).toEqual(['claude', 'gemini']);
+    expect(merged[0].reports).toBe(2);
+    expect(merged[0].agreement).toBeCloseTo(2 / 3);
+    expect(merged[0].finding.severity).toBe('critical');
+    expect(merged[0].finding.proposedDiff).toContain('isExpired');
+    expect(merged[1].validators).toEqual(['claude']);
+    expect(merged[1].finding.description).toBe('Login does not write an audit entry');
+  });
+
+  it('keeps findings apart when requirement ids or files differ', () => {
+    expect(findingSimilarity({ ...expiryClaude, requirementId: 'REQ-1' }, { ...expiryGemini, requirementId: 'REQ-2' })).toBe(0);
+    const otherFile = { ...expiryGemini, location: { file: 'src/other.ts', line: 44 } };
+    expect(findingSimilarity(expiryClaude, otherFile)).toBeLessThan(findingSimilarity(expiryClaude, expiryGemini));
+    expect(mergeFindings([source('claude', [expiryClaude]), source('gemini', [logging])])).toHaveLength(2);
+  });
+});
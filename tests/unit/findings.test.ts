@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { compareFindings, formatFindingSummary, getFindings, parseFinding, parseSeverityList } from '../../src/orchestration/findings';
+import { parseValidationOutput } from '../../src/orchestration/run';
+
+describe('structured findings', () => {
+  it('parses severity, location and requirement id from validator output', () => {
+    const parsed = parseValidationOutput(JSON.stringify({
+      response_block: {
+        completeness: 70,
+        status: 'FAIL',
+        findings: [
+          {
+            spec_requirement: 'Sessions expire',
+            gap_description: 'No expiry check',
+            original_code: 'return session;',
+            proposed_diff: '+ if (expired) throw',
+            severity: 'High',
+            requirement_id: 'REQ-4',
+            file: 'src/session.ts',
+            line: '18'
+          },
+          { spec_requirement: 'Logging', gap_description: 'Missing log', original_code: '', proposed_diff: '', location: 'src/log.ts:3-5' }
+        ],
+        recommendations: []
+      }
+    }));
+    expect(parsed.findings).toEqual([
+      {
+        requirement: 'Sessions expire',
+        requirementId: 'REQ-4',
+        description: 'No expiry check',
+        severity: 'critical',
+        location: { file: 'src/session.ts', line: 18 },
+        originalCode: 'return session;',
+        proposedDiff: '+ if (expired) throw'
+      },
+      {
+        requirement: 'Logging',
+        description: 'Missing log',
+        severity: 'major',
+        location: { file: 'src/log.ts', line: 3, endLine: 5 }
+      }
+    ]);
+    expect(parsed.gaps[0]).toBe('Requirement: Sessions expire | Gap: No expiry check | Original: return session; | Proposed diff: + if (expired) throw');
+    expect(formatFindingSummary(parsed.findings![1])).toBe('[major] src/log.ts:3-5 Requirement: Logging | Gap: Missing log');
+  });
+
+  it('falls back to gap strings for older sessions', () => {
+    expect(getFindings({ completeness: 50, status: 'FAIL', gaps: ['Requirement: X | Gap: Y'], recommendations: [] })).toEqual([
+      { requirement: '', description: 'Requirement: X | Gap: Y', severity: 'major' }
+    ]);
+  });
+
+  it('orders by severity then location', () => {
+    const findings = [
+      parseFinding({ gap_description: 'c', severity: 'minor', file: 'a.ts' }),
+      parseFinding({ gap_description: 'b', severity: 'critical' }),
+      parseFinding({ gap_description: 'a', severity: 'critical', file: 'z.ts', line: 2 })
+    ].filter((finding) => finding !== null);
+    expect(findings.sort(compareFindings).map((finding) => finding.description)).toEqual(['a', 'b', 'c']);
+    expect(parseFinding({ original_code: 'x' })).toBeNull();
+  });
+
+  it('validates severity filters', () => {
+    expect(parseSeverityList('critical, major')).toEqual(['critical', 'major']);
+    expect(() => parseSeverityList('urgent')).toThrow('Unknown severity: urgent');
+  });
+});
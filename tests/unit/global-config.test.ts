@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { loadGlobalConfig, migrateGlobalConfig, parseGlobalConfigValue, validateGlobalConfig, writeGlobalConfig } from '../../src/config/global-config';
+import { createTempDir } from '../helpers';
+
+describe('global config', () => {
+  it('coerces values per key and rejects unknown keys', () => {
+    expect(parseGlobalConfigValue('defaultMaxIterations', '7')).toBe(7);
+    expect(parseGlobalConfigValue('toolModules', './a.mjs, ./b.mjs')).toEqual(['./a.mjs', './b.mjs']);
+    expect(parseGlobalConfigValue('commandValidators', '[{"name":"test","command":"npm test"}]'))
+      .toEqual([{ name: 'test', command: 'npm test' }]);
+    expect(() => parseGlobalConfigValue('defaultTimeout', 'soon')).toThrow('defaultTimeout: expected a positive number');
+    expect(() => parseGlobalConfigValue('defaultLeed', 'claude')).toThrow('Unknown config key "defaultLeed". Known keys: defaultLead');
+  });
+
+  it('validates tool adapters and the config version', () => {
+    expect(() => validateGlobalConfig({ tools: [{ name: 'aider', leadArgs: '--yes' }] }, 'config.json'))
+      .toThrow('config.json: tools[0].leadArgs: expected a list of strings');
+    expect(() => validateGlobalConfig({ tools: [{ name: 'aider', model: 'x' }] }, 'config.json'))
+      .toThrow('tools[0]: unknown field "model"');
+    expect(() => validateGlobalConfig({ version: 1, extra: true }, 'config.json')).toThrow('unknown key "extra"');
+    expect(validateGlobalConfig({ version: 1, defaultLead: 'codex' }, 'config.json')).toEqual({ defaultLead: 'codex' });
+  });
+
+  it('migrates unversioned config files', () => {
+    const { config, migrated } = migrateGlobalConfig(
+      { lead: 'codex', defaultTimeout: '12', toolModules: './tools.mjs', theme: 'dark' },
+      'config.json'
+    );
+
+    expect(config).toEqual({ version: 1, defaultLead: 'codex', defaultTimeout: 12, toolModules: ['./tools.mjs'] });
+    expect(migrated).toEqual([
+      'renamed "lead" to "defaultLead"',
+      'converted "defaultTimeout" from a string',
+      'converted "toolModules" from a string',
+      'dropped unknown key "theme"'
+    ]);
+    expect(() => migrateGlobalConfig({ version: 2 }, 'config.json')).toThrow('newer than this release supports');
+  });
+
+  it('reports corrupt files clearly and writes atomically with a version', async () => {
+    const stateDir = await createTempDir('aic-global-config-');
+    const env = { AIC_STATE_DIR: stateDir };
+    const configPath = path.join(stateDir, 'config.json');
+    await fs.writeFile(configPath, '{ "defaultLead": ', 'utf8');
+
+    await expect(loadGlobalConfig(env)).rejects.toThrow(`Invalid global config ${configPath}:`);
+
+    await writeGlobalConfig({ defaultLead: 'claude' }, env);
+
+    expect(JSON.parse(await fs.readFile(configPath, 'utf8'))).toEqual({ version: 1, defaultLead: 'claude' });
+    expect(await fs.readdir(stateDir)).toEqual(['config.json']);
+    await expect(writeGlobalConfig({ defaultTimeout: -1 }, env)).rejects.toThrow('defaultTimeout: expected a positive number');
+  });
+});
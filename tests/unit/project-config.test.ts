@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { parseSettingValue, readProjectConfig, validateProjectConfig } from '../../src/config/project-config';
+import { readEnvSettings, resolveSettings } from '../../src/config/settings';
+import { createTempDir } from '../helpers';
+
+describe('project config', () => {
+  it('reads the first config file found, JSON or YAML', async () => {
+    const projectDir = await createTempDir('aic-project-config-');
+    await fs.mkdir(path.join(projectDir, '.ai-coord'), { recursive: true });
+    await fs.writeFile(path.join(projectDir, '.ai-coord', 'config.json'), JSON.stringify({ lead: 'codex' }), 'utf8');
+    await fs.writeFile(
+      path.join(projectDir, 'aic.config.yaml'),
+      'lead: claude\nvalidators: [codex, gemini]\nmaxIterations: 8\nexclude:\n  - system-*.md\nprompts:\n  lead: docs/house-rules.md\n',
+      'utf8'
+    );
+
+    const loaded = await readProjectConfig(projectDir);
+
+    expect(loaded?.path).toBe(path.join(projectDir, 'aic.config.yaml'));
+    expect(loaded?.config).toEqual({
+      lead: 'claude',
+      validators: ['codex', 'gemini'],
+      maxIterations: 8,
+      exclude: ['system-*.md'],
+      prompts: { lead: 'docs/house-rules.md' }
+    });
+  });
+
+  it('rejects unknown keys and wrongly typed values', () => {
+    expect(() => validateProjectConfig({ maxIteration: 3 }, 'aic.config.json'))
+      .toThrow('aic.config.json: unknown key "maxIteration". Known keys: lead, validators, maxIterations');
+    expect(() => validateProjectConfig({ timeout: '10' }, 'aic.config.json'))
+      .toThrow('aic.config.json: timeout: expected a positive number');
+    expect(() => validateProjectConfig({ consensus: 'most' }, 'aic.config.json'))
+      .toThrow('aic.config.json: consensus:');
+    expect(() => validateProjectConfig({ prompts: { retry: 'x.md' } }, 'aic.config.json'))
+      .toThrow('unknown prompt "retry"');
+    expect(() => validateProjectConfig(['lead'], 'aic.config.json')).toThrow('expected an object of settings');
+  });
+
+  it('reports parse errors with the config file name', async () => {
+    const projectDir = await createTempDir('aic-project-config-bad-');
+    await fs.writeFile(path.join(projectDir, 'aic.config.json'), '{ "lead": ', 'utf8');
+
+    await expect(readProjectConfig(projectDir)).rejects.toThrow(/^aic\.config\.json: /);
+  });
+
+  it('coerces settings from their string form', () => {
+    expect(parseSettingValue('validators', 'codex, gemini')).toEqual(['codex', 'gemini']);
+    expect(parseSettingValue('maxIterations', '4')).toBe(4);
+    expect(parseSettingValue('sandbox', 'true')).toBe(true);
+    expect(parseSettingValue('prompts', '{"validation":"rules.md"}')).toEqual({ validation: 'rules.md' });
+    expect(parseSettingValue('promptMode', 'inline')).toBe('inline');
+    expect(() => parseSettingValue('promptMode', 'embed', 'AIC_PROMPT_MODE')).toThrow('AIC_PROMPT_MODE: expected reference or inline');
+    expect(() => parseSettingValue('maxIterations', 'four', 'AIC_MAX_ITERATIONS'))
+      .toThrow('AIC_MAX_ITERATIONS: expected a positive integer');
+    expect(parseSettingValue('reportFormats', 'junit, sarif')).toEqual(['junit', 'sarif']);
+    expect(() => parseSettingValue('reportFormats', 'md,pdf', 'AIC_REPORT_FORMATS'))
+      .toThrow('AIC_REPORT_FORMATS: Unknown report format: pdf. Expected: html, md, json, junit, sarif');
+    expect(() => parseSettingValue('lowMaturity', 'ask', 'AIC_LOW_MATURITY')).toThrow('AIC_LOW_MATURITY: expected proceed, skip, abort');
+  });
+
+  it('reads settings from AIC_* environment variables', () => {
+    expect(readEnvSettings({ AIC_LEAD: 'gemini', AIC_TIMEOUT: '2.5', AIC_SANDBOX_IMAGE: ' ', AIC_TOOL_THROTTLE_MS: '0' }))
+      .toEqual({ lead: 'gemini', timeout: 2.5, toolThrottleMs: 0 });
+  });
+
+  it('resolves settings as flags > env > project > global > defaults', async () => {
+    const projectDir = await createTempDir('aic-settings-');
+    const stateDir = await createTempDir('aic-settings-state-');
+    await fs.writeFile(
+      path.join(stateDir, 'config.json'),
+      JSON.stringify({
+        defaultLead: 'gemini',
+        defaultTimeout: 20,
+        defaultMaxIterations: 9,
+        commandValidators: [{ name: 'lint', command: 'npm run lint' }, { name: 'test', command: 'npm test' }]
+      }),
+      'utf8'
+    );
+    await fs.writeFile(
+      path.join(projectDir, 'aic.config.json'),
+      JSON.stringify({
+        lead: 'codex',
+        timeout: 30,
+        consensus: 'majority',
+        commandValidators: [{ name: 'test', command: 'npx vitest run', gate: true }]
+      }),
+      'utf8'
+    );
+
+    const settings = await resolveSettings({
+      cwd: projectDir,
+      env: { AIC_STATE_DIR: stateDir, AIC_TIMEOUT: '40', AIC_CONSENSUS: 'unanimous' },
+      flags: { consensus: 'quorum-2' }
+    });
+
+    expect(settings.projectFile).toBe(path.join(projectDir, 'aic.config.json'));
+    expect(settings.values).toMatchObject({
+      lead: 'codex',
+      timeout: 40,
+      consensus: 'quorum-2',
+      maxIterations: 9,
+      maxIterationsPerRun: 5,
+      commandValidators: [
+        { name: 'lint', command: 'npm run lint' },
+        { name: 'test', command: 'npx vitest run', gate: true }
+      ]
+    });
+    expect(settings.sources).toMatchObject({
+      lead: 'project',
+      timeout: 'env',
+      consensus: 'flag',
+      maxIterations: 'global',
+      maxIterationsPerRun: 'default',
+      commandValidators: 'project'
+    });
+    expect(settings.sources.validators).toBeUndefined();
+  });
+});
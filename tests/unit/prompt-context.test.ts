@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { assembleInlineContext, buildInlineContext, estimateTokens, findMentionedPaths } from '../../src/orchestration/prompt-context';
+import { createTempDir } from '../helpers';
+
+describe('inline prompt context', () => {
+  it('finds file paths mentioned in a spec', () => {
+    const spec = 'Update `src/app.ts` and ./docs/api.md (see src/routes/users.ts). Version 1.0 ships in v2.';
+
+    expect(findMentionedPaths(spec)).toEqual(['src/app.ts', 'docs/api.md', 'src/routes/users.ts']);
+  });
+
+  it('fills the budget in order, truncating or omitting what does not fit', () => {
+    const long = Array.from({ length: 400 }, (_, index) => `line ${index} of a long source file`).join('\n');
+    const context = assembleInlineContext([
+      { path: 'specs/feat.md', kind: 'spec', content: 'Build it.' },
+      { path: 'src/long.ts', kind: 'source', content: long },
+      { path: 'src/huge.ts', kind: 'source', content: 'x'.repeat(4000) },
+      { path: 'src/small.ts', kind: 'source', content: 'export const a = 1;' }
+    ], 1000);
+
+    expect(context.record.files.map((file) => [file.path, file.status])).toEqual([
+      ['specs/feat.md', 'full'],
+      ['src/long.ts', 'truncated'],
+      ['src/huge.ts', 'omitted'],
+      ['src/small.ts', 'full']
+    ]);
+    expect(context.record.usedTokens).toBeLessThanOrEqual(1000);
+    expect(context.record.files[1].originalTokens).toBe(estimateTokens(long));
+    expect(context.text).toContain('--- specs/feat.md (spec) ---\nBuild it.');
+    expect(context.text).toMatch(/\[\.\.\. truncated: \d+ of 400 lines left out\]/);
+    expect(context.text).toContain('Left out to stay within the token budget: src/huge.ts');
+  });
+
+  it('reads changed, expected and mentioned files from the workspace only', async () => {
+    const workspace = await createTempDir('aic-inline-');
+    await fs.mkdir(path.join(workspace, 'src'), { recursive: true });
+    await fs.writeFile(path.join(workspace, 'src', 'app.ts'), 'export const app = 1;\n', 'utf8');
+    await fs.writeFile(path.join(workspace, 'src', 'db.ts'), 'export const db = 1;\n', 'utf8');
+    await fs.writeFile(path.join(workspace, 'logo.png'), Buffer.from([0x89, 0x50, 0x00, 0x47]));
+
+    const context = await buildInlineContext({
+      workspace,
+      specPath: 'specs/feat.md',
+      specContent: 'Touch src/db.ts, ../secret.txt, logo.png and src/missing.ts.',
+      contextDocs: [{ path: 'specs/system-arch.md', content: 'Layers.' }],
+      expects: { files: ['src/app.ts'] },
+      changedFiles: ['src/app.ts'],
+      budget: 10_000
+    });
+
+    expect(context.record.files.map((file) => `${file.kind}:${file.path}`)).toEqual([
+      'spec:specs/feat.md',
+      'context:specs/system-arch.md',
+      'source:src/app.ts',
+      'source:src/db.ts'
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { DEFAULT_PROMPT_TEMPLATES, PROMPT_TEMPLATE_NAMES, PROMPT_TEMPLATE_VARIABLES, findTemplateVariables, hashPrompt, loadPromptTemplates, renderPromptTemplate } from '../../src/orchestration/prompts';
+import { formatUnifiedDiff } from '../../src/utils/diff';
+import { createTempDir } from '../helpers';
+
+describe('prompt templates', () => {
+  it('only uses documented variables in the built-in templates', () => {
+    for (const name of PROMPT_TEMPLATE_NAMES) {
+      const variables = findTemplateVariables(DEFAULT_PROMPT_TEMPLATES[name]);
+      expect(variables.filter((variable) => !PROMPT_TEMPLATE_VARIABLES[name].includes(variable))).toEqual([]);
+    }
+  });
+
+  it('renders variables in one pass', () => {
+    const template = { name: 'lead' as const, content: 'Spec {{ specFile }}: {{specContent}}{{feedback}}', source: 'builtin' as const };
+
+    expect(renderPromptTemplate(template, { specFile: 'a.md', specContent: 'uses {{feedback}} literally' }))
+      .toBe('Spec a.md: uses {{feedback}} literally');
+  });
+
+  it('loads project overrides and rejects unknown variables', async () => {
+    const projectDir = await createTempDir('aic-prompts-');
+    const promptsDir = path.join(projectDir, '.ai-coord', 'prompts');
+    await fs.mkdir(promptsDir, { recursive: true });
+    await fs.writeFile(path.join(promptsDir, 'validation.md'), 'Review {{specFile}}\n\n', 'utf8');
+
+    const templates = await loadPromptTemplates(projectDir);
+
+    expect(templates.validation).toEqual({
+      name: 'validation',
+      content: 'Review {{specFile}}',
+      source: 'project',
+      path: path.join(promptsDir, 'validation.md')
+    });
+    expect(templates.lead.source).toBe('builtin');
+
+    await fs.writeFile(path.join(promptsDir, 'lead.md'), 'Fix {{criteria}} in {{specFile}}', 'utf8');
+    await expect(loadPromptTemplates(projectDir))
+      .rejects.toThrow(`${path.join('.ai-coord', 'prompts', 'lead.md')}: unknown variable {{criteria}}. Available: specFile`);
+  });
+
+  it('hashes prompts stably and diffs edited templates', () => {
+    expect(hashPrompt('prompt')).toMatch(/^[0-9a-f]{16}$/);
+    expect(hashPrompt('prompt')).toBe(hashPrompt('prompt'));
+    expect(hashPrompt('prompt')).not.toBe(hashPrompt('prompt '));
+
+    expect(formatUnifiedDiff('a\nb\nc', 'a\nb\nc', { from: 'x', to: 'y' })).toBe('');
+    expect(formatUnifiedDiff('a\nb\nc\nd\ne\nf\ng\nh', 'a\nb\nc\nd\nE\nf\ng\nh', { from: 'x', to: 'y' }))
+      .toBe('--- x\n+++ y\n@@ -2,7 +2,7 @@\n b\n c\n d\n-e\n+E\n f\n g\n h\n');
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import path from 'node:path';
 import fs from 'node:fs/promises';
-import { loadSpec, orderSpecs } from '../../src/specs/discovery';
+import { extractAcceptanceCriteria, loadSpec, orderSpecs } from '../../src/specs/discovery';
 import { createTempDir } from '../helpers';
 import { SpecEntry } from '../../src/types';
 
@@ -45,6 +45,60 @@ describe('spec discovery', () => {
     expect(invalidLoaded).toBeNull();
   });
 
+  it('reads the consensus policy from front matter', async () => {
+    const dir = await createTempDir('specs-');
+    const file = path.join(dir, 'feat-core.md');
+    await fs.writeFile(file, coreSpec.replace('maturity: 3\n', 'maturity: 3\nconsensus: quorum-2\n'), 'utf8');
+    expect((await loadSpec(file))?.entry.meta.consensus).toEqual({ name: 'quorum', quorum: 2 });
+
+    await fs.writeFile(file, coreSpec.replace('maturity: 3\n', 'maturity: 3\nconsensus: mostly\n'), 'utf8');
+    await expect(loadSpec(file)).rejects.toThrow('feat-core.md: Invalid consensus policy "mostly"');
+  });
+
+  it('reads verification commands, expectations and timeout from front matter', async () => {
+    const dir = await createTempDir('specs-');
+    const file = path.join(dir, 'feat-core.md');
+    const frontMatter = [
+      'verify:',
+      '  - npm test -- tests/core.test.ts',
+      '  - name: types',
+      '    command: npx tsc --noEmit',
+      '    format: tsc',
+      '    gate: false',
+      'expects:',
+      '  files: [src/core.ts, ./src/index.ts]',
+      '  exports:',
+      '    src/core.ts: [boot, shutdown]',
+      'timeout: 20',
+      ''
+    ].join('\n');
+    await fs.writeFile(file, coreSpec.replace('maturity: 3\n', `maturity: 3\n${frontMatter}`), 'utf8');
+    const meta = (await loadSpec(file))?.entry.meta;
+    expect(meta?.verify).toEqual([
+      { name: 'verify-1', command: 'npm test -- tests/core.test.ts', gate: true },
+      { name: 'types', command: 'npx tsc --noEmit', format: 'tsc', gate: false }
+    ]);
+    expect(meta?.expects).toEqual({ files: ['src/core.ts', 'src/index.ts'], exports: { 'src/core.ts': ['boot', 'shutdown'] } });
+    expect(meta?.timeout).toBe(20);
+  });
+
+  it('rejects invalid verification settings with the spec file name', async () => {
+    const dir = await createTempDir('specs-');
+    const file = path.join(dir, 'feat-core.md');
+    const cases: Array<[string, string]> = [
+      ['verify:\n  - name: types\n', 'feat-core.md: Invalid command validator types (from verify entry 1): missing command'],
+      ['verify: ["npm test", ""]\n', 'feat-core.md: verify entry 2: command is empty'],
+      ['expects:\n  file: src/core.ts\n', 'feat-core.md: expects: unknown field "file"'],
+      ['expects:\n  files: [../outside.ts]\n', 'feat-core.md: expects.files: "../outside.ts" must be a path inside the project'],
+      ['expects:\n  exports:\n    src/core.ts: [not-a-name]\n', 'feat-core.md: expects.exports.src/core.ts: expected a list of identifiers'],
+      ['timeout: soon\n', 'feat-core.md: timeout: expected a positive number of minutes, got "soon"']
+    ];
+    for (const [frontMatter, message] of cases) {
+      await fs.writeFile(file, coreSpec.replace('maturity: 3\n', `maturity: 3\n${frontMatter}`), 'utf8');
+      await expect(loadSpec(file)).rejects.toThrow(message);
+    }
+  });
+
   it('orders specs by dependencies', () => {
     const specs: SpecEntry[] = [
       {
@@ -89,3 +143,58 @@ describe('spec discovery', () => {
     expect(ordered[0].file).toBe('system-architecture.md');
   });
 });
+
+describe('acceptance criteria extraction', () => {
+  it('collects criteria sections, FR ids and checklists', () => {
+    const content = `---
+specmas: v3
+id: feat-auth
+---
+# Auth
+
+Intro mentions FR-9 in passing.
+
+## Functional Requirements
+
+### FR-1: Users log in with email and password
+Details about login.
+
+### FR-2: Sessions expire after 30 minutes
+
+## Acceptance Criteria
+- Invalid passwords show an error
+  - nested detail is not a criterion
+- **AC-7:** Locked accounts cannot log in
+
+## Tasks
+- [ ] Audit log records every login
+- [x] Invalid passwords show an error
+- Plain bullet outside a criteria section
+
+\`\`\`
+- [ ] inside a code block
+\`\`\`
+
+NFR-1: Login responds within 200ms
+`;
+    expect(extractAcceptanceCriteria(content)).toEqual([
+      { id: 'FR-1', text: 'Users log in with email and password' },
+      { id: 'FR-2', text: 'Sessions expire after 30 minutes' },
+      { id: 'AC-1', text: 'Invalid passwords show an error' },
+      { id: 'AC-7', text: 'Locked accounts cannot log in' },
+      { id: 'AC-2', text: 'Audit log records every login' },
+      { id: 'NFR-1', text: 'Login responds within 200ms' }
+    ]);
+  });
+
+  it('attaches criteria to loaded specs', async () => {
+    const dir = await createTempDir('specs-');
+    const file = path.join(dir, 'feat-core.md');
+    await fs.writeFile(file, `${coreSpec}\n\n## Acceptance Criteria\n1. Core boots\n2. Core logs startup\n`, 'utf8');
+    const loaded = await loadSpec(file);
+    expect(loaded?.entry.criteria).toEqual([
+      { id: 'AC-1', text: 'Core boots' },
+      { id: 'AC-2', text: 'Core logs startup' }
+    ]);
+  });
+});
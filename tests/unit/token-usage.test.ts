@@ -1,114 +1,89 @@
 import { describe, it, expect } from 'vitest';
-import { DefaultToolRunner } from '../../src/tools/runner';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { parseTokenUsage, scanJsonObjects } from '../../src/tools/token-usage';
+import { adapterFromConfig, extractToolTokenUsage } from '../../src/tools/adapters';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+function fixture(name: string): Promise<string> {
+  return fs.readFile(path.join(here, '..', 'fixtures', 'token-usage', name), 'utf8');
+}
 
 describe('token usage extraction', () => {
-  it('extracts token usage from claude JSON output', () => {
-    const runner = new DefaultToolRunner({ interactive: false });
-    const output = JSON.stringify({
-      type: 'result',
-      result: 'Implementation complete',
-      usage: {
-        input_tokens: 1500,
-        output_tokens: 500,
-        cache_read_input_tokens: 200,
-        cache_creation_input_tokens: 100
-      }
+  it('sums every model in claude JSON output', async () => {
+    expect(extractToolTokenUsage('claude', await fixture('claude-json.json'))).toEqual({
+      inputTokens: 1338,
+      outputTokens: 1921,
+      cacheReadTokens: 95112,
+      cacheCreationTokens: 10234,
+      totalTokens: 3259
     });
+  });
 
-    // Access the private execute method for testing via type assertion
-    const extractFn = (runner as any).constructor.prototype.constructor.extractTokenUsage || extractTokenUsage;
+  it('reads claude stream-json from the result or, when interrupted, from its messages', async () => {
+    const stream = await fixture('claude-stream.jsonl');
+    const expected = { inputTokens: 15, outputTokens: 256, cacheReadTokens: 49860, cacheCreationTokens: 6850, totalTokens: 271 };
+    expect(extractToolTokenUsage('claude', stream)).toEqual(expected);
 
-    // Since we can't directly test the private function, we'll verify the integration
-    // by checking that the result structure includes tokenUsage when it should
-    expect(output).toContain('usage');
-    expect(output).toContain('input_tokens');
-    expect(output).toContain('output_tokens');
+    const interrupted = stream.split('\n').filter((line) => !line.startsWith('{"type":"result"')).join('\n');
+    expect(extractToolTokenUsage('claude', interrupted)).toEqual(expected);
   });
 
-  it('extracts token usage from gemini JSON output', () => {
-    const output = JSON.stringify({
-      session_id: 'test-session',
-      stats: {
-        models: {
-          'gemini-2.5-flash-lite': {
-            tokens: {
-              input: 13261,
-              output: 2847
-            }
-          }
-        }
-      }
+  it('sums codex exec --json turns and splits out cached input', async () => {
+    expect(extractToolTokenUsage('codex', await fixture('codex-exec.jsonl'))).toEqual({
+      inputTokens: 1337,
+      outputTokens: 1432,
+      cacheReadTokens: 49536,
+      totalTokens: 2769
     });
-
-    expect(output).toContain('stats');
-    expect(output).toContain('tokens');
-    expect(output).toContain('input');
-    expect(output).toContain('output');
   });
 
-  it('handles missing token usage gracefully', () => {
-    const output = JSON.stringify({
-      result: 'done'
+  it('takes the last cumulative token_count from legacy codex events', async () => {
+    expect(extractToolTokenUsage('codex', await fixture('codex-exec-legacy.jsonl'))).toEqual({
+      inputTokens: 6142,
+      outputTokens: 733,
+      cacheReadTokens: 11264,
+      reasoningTokens: 448,
+      totalTokens: 6875
     });
-
-    expect(output).toBeDefined();
-    expect(output).not.toContain('usage');
-    expect(output).not.toContain('tokens');
   });
 
-  it('handles malformed JSON gracefully', () => {
-    const output = 'Not JSON output';
-
-    expect(output).toBeDefined();
-    expect(() => JSON.parse(output)).toThrow();
+  it('sums every model in gemini stats and counts thoughts as output', async () => {
+    expect(extractToolTokenUsage('gemini', await fixture('gemini-json.txt'))).toEqual({
+      inputTokens: 20149,
+      outputTokens: 1732,
+      cacheReadTokens: 8910,
+      reasoningTokens: 1362,
+      totalTokens: 21881
+    });
+    const streamResult = '{"type":"result","status":"success","stats":{"total_tokens":130,"input_tokens":100,"output_tokens":30,"duration_ms":900,"tool_calls":0}}';
+    expect(parseTokenUsage('stats', streamResult)).toEqual({ inputTokens: 100, outputTokens: 30, totalTokens: 130 });
   });
-});
 
-// Helper function to simulate the extraction (since the actual function is private in the module)
-function extractTokenUsage(tool: string, output: string): any {
-  try {
-    const jsonMatch = output.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return undefined;
-    }
+  it('finds objects among log lines and skips stray braces and braces in strings', () => {
+    const output = [
+      'warning: unknown option {color}',
+      '{"note":"a } inside a string","usage":{"input_tokens":10,"output_tokens":2}}',
+      'done {'
+    ].join('\n');
 
-    const parsed = JSON.parse(jsonMatch[0]) as Record<string, unknown>;
+    expect(scanJsonObjects(output)).toEqual([{ note: 'a } inside a string', usage: { input_tokens: 10, output_tokens: 2 } }]);
+    expect(parseTokenUsage('usage', output)).toEqual({ inputTokens: 10, outputTokens: 2, totalTokens: 12 });
+    expect(parseTokenUsage('events', 'Not JSON output')).toBeUndefined();
+    expect(parseTokenUsage('stats', '{"response":"done"}')).toBeUndefined();
+  });
 
-    if (tool === 'claude') {
-      const usage = parsed.usage as Record<string, unknown> | undefined;
-      if (usage) {
-        return {
-          inputTokens: typeof usage.input_tokens === 'number' ? usage.input_tokens : undefined,
-          outputTokens: typeof usage.output_tokens === 'number' ? usage.output_tokens : undefined,
-          totalTokens: (typeof usage.input_tokens === 'number' && typeof usage.output_tokens === 'number')
-            ? usage.input_tokens + usage.output_tokens
-            : undefined,
-          cacheReadTokens: typeof usage.cache_read_input_tokens === 'number' ? usage.cache_read_input_tokens : undefined,
-          cacheCreationTokens: typeof usage.cache_creation_input_tokens === 'number' ? usage.cache_creation_input_tokens : undefined
-        };
-      }
-    } else if (tool === 'codex' || tool === 'gemini') {
-      const stats = parsed.stats as Record<string, unknown> | undefined;
-      if (stats && typeof stats.models === 'object' && stats.models) {
-        const models = stats.models as Record<string, Record<string, unknown>>;
-        const modelData = Object.values(models)[0];
-        if (modelData && typeof modelData.tokens === 'object' && modelData.tokens) {
-          const tokens = modelData.tokens as Record<string, unknown>;
-          const inputTokens = typeof tokens.input === 'number' ? tokens.input : undefined;
-          const outputTokens = typeof tokens.output === 'number' ? tokens.output : undefined;
-          return {
-            inputTokens,
-            outputTokens,
-            totalTokens: (inputTokens !== undefined && outputTokens !== undefined)
-              ? inputTokens + outputTokens
-              : undefined
-          };
-        }
-      }
-    }
+  it('scans output full of unmatched braces and stray quotes in one pass', () => {
+    const event = '{"type":"result","usage":{"input_tokens":5,"output_tokens":1}}';
+    expect(scanJsonObjects(`progress { 10% "starting\n${event}`)).toEqual([JSON.parse(event)]);
+    expect(scanJsonObjects(`${'{'.repeat(200_000)}\n${event}`)).toEqual([JSON.parse(event)]);
+  });
 
-    return undefined;
-  } catch {
-    return undefined;
-  }
-}
+  it('lets config adapters pick a format', async () => {
+    const adapter = adapterFromConfig({ name: 'wrapped-codex', tokenUsageFormat: 'events' });
+    expect(adapter.extractTokenUsage?.(await fixture('codex-exec.jsonl'))).toMatchObject({ totalTokens: 2769 });
+    expect(adapterFromConfig({ name: 'plain' }).extractTokenUsage).toBeUndefined();
+  });
+});
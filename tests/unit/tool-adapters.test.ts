@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import {
+  adapterFromConfig,
+  extractToolTokenUsage,
+  getToolAdapter,
+  isToolRateLimited,
+  loadToolAdapters,
+  parseToolAdapterConfigs,
+  registerToolAdapter,
+  resetToolAdapters
+} from '../../src/tools/adapters';
+import { detectTools, getDefaultLeadOrder } from '../../src/tools/registry';
+import { assignRoles } from '../../src/tools/roles';
+import { DefaultToolRunner } from '../../src/tools/runner';
+import { createTempDir, makeExecutable } from '../helpers';
+
+describe('tool adapters', () => {
+  afterEach(() => {
+    resetToolAdapters();
+  });
+
+  it('extracts token usage through builtin adapters', () => {
+    const claude = extractToolTokenUsage('claude', JSON.stringify({
+      usage: { input_tokens: 1500, output_tokens: 500, cache_read_input_tokens: 200 }
+    }));
+    expect(claude).toMatchObject({ inputTokens: 1500, outputTokens: 500, totalTokens: 2000, cacheReadTokens: 200 });
+
+    const gemini = extractToolTokenUsage('gemini', JSON.stringify({
+      stats: { models: { 'gemini-2.5-flash': { tokens: { input: 10, output: 5 } } } }
+    }));
+    expect(gemini).toMatchObject({ inputTokens: 10, outputTokens: 5, totalTokens: 15 });
+    expect(extractToolTokenUsage('claude', 'Not JSON output')).toBeUndefined();
+  });
+
+  it('registers config adapters and uses them for detection and roles', async () => {
+    const binDir = await createTempDir('aic-bin-');
+    const fakeTool = `#!/bin/sh\nif [ "$1" = "--version" ]; then\n  echo "aider 0.1"\n  exit 0\nfi\necho "aider:$@"\nexit 0\n`;
+    await makeExecutable(path.join(binDir, 'aider'), fakeTool);
+    await makeExecutable(path.join(binDir, 'claude'), fakeTool);
+    const stateDir = await createTempDir('aic-state-');
+    await fs.writeFile(path.join(stateDir, 'config.json'), JSON.stringify({
+      tools: [
+        {
+          name: 'aider',
+          leadArgs: ['--yes', '--message'],
+          validatorArgs: ['--dry-run', '--message'],
+          rateLimitPatterns: ['slow down']
+        }
+      ]
+    }), 'utf8');
+
+    const registry = await detectTools({ PATH: binDir, AIC_STATE_DIR: stateDir });
+    expect(registry.available.get('aider')?.version).toBe('aider 0.1');
+    expect(getDefaultLeadOrder()).toEqual(['claude', 'codex', 'gemini', 'aider']);
+
+    const roles = assignRoles([...registry.available.keys()]);
+    expect(roles).toEqual({ lead: 'claude', validators: ['aider'] });
+    expect(isToolRateLimited('aider', 'Please SLOW DOWN')).toBe(true);
+    expect(isToolRateLimited('aider', 'rate limit')).toBe(false);
+
+    const runner = new DefaultToolRunner({
+      interactive: false,
+      sandbox: false,
+      sandboxImage: 'node:20',
+      verbose: false,
+      output: process.stdout,
+      inheritStdin: false,
+      env: { ...process.env, PATH: `${binDir}:${process.env.PATH}` }
+    });
+    const result = await runner.runValidator('aider', 'review', binDir, 5000);
+    expect(result.output).toContain('aider:--dry-run --message review');
+  });
+
+  it('loads adapters from a local module', async () => {
+    const dir = await createTempDir('aic-adapters-');
+    await fs.writeFile(path.join(dir, 'opencode.mjs'), `export default {\n  name: 'opencode',\n  command: 'opencode',\n  leadArgs: ['run'],\n  validatorArgs: ['run', '--read-only'],\n  extractTokenUsage: () => ({ totalTokens: 7 })\n};\n`, 'utf8');
+
+    const loaded = await loadToolAdapters({ toolModules: ['./opencode.mjs'] }, dir);
+    expect(loaded.map((adapter) => adapter.name)).toEqual(['opencode']);
+    expect(getToolAdapter('opencode').validatorArgs).toEqual(['run', '--read-only']);
+    expect(extractToolTokenUsage('opencode', '')).toEqual({ totalTokens: 7 });
+  });
+
+  it('registers adapters from the project config over global ones', async () => {
+    const binDir = await createTempDir('aic-bin-');
+    await makeExecutable(path.join(binDir, 'cortex'), '#!/bin/sh\necho "cortex 2.0"\n');
+    await makeExecutable(path.join(binDir, 'in-house'), '#!/bin/sh\necho "in-house 1.0"\n');
+    const stateDir = await createTempDir('aic-state-');
+    await fs.writeFile(path.join(stateDir, 'config.json'), JSON.stringify({
+      tools: [{ name: 'cortex', leadArgs: ['--global'] }]
+    }), 'utf8');
+    const projectDir = await createTempDir('aic-project-');
+    await fs.mkdir(path.join(projectDir, 'adapters'));
+    await fs.writeFile(path.join(projectDir, 'adapters', 'in-house.mjs'), `export default { name: 'in-house', command: 'in-house', leadArgs: ['build'], validatorArgs: ['review'] };\n`, 'utf8');
+    await fs.writeFile(path.join(projectDir, 'aic.config.json'), JSON.stringify({
+      tools: [{ name: 'cortex', leadArgs: ['--project'], needsTtyStdin: true }],
+      toolModules: ['./adapters/in-house.mjs']
+    }), 'utf8');
+
+    const registry = await detectTools({ PATH: binDir, AIC_STATE_DIR: stateDir }, projectDir);
+    expect([...registry.available.keys()]).toEqual(['cortex', 'in-house']);
+    expect(getToolAdapter('cortex')).toMatchObject({ leadArgs: ['--project'], needsTtyStdin: true });
+    expect(getToolAdapter('in-house').validatorArgs).toEqual(['review']);
+  });
+
+  it('rejects invalid adapter config entries', () => {
+    expect(() => parseToolAdapterConfigs([{ name: 'cortex', needsTtyStdin: 'yes' }], 'tools')).toThrow('tools[0].needsTtyStdin: expected true or false');
+    expect(() => parseToolAdapterConfigs([{ name: 'cortex', shell: true }], 'tools')).toThrow('tools[0]: unknown field "shell"');
+  });
+
+  it('rejects invalid adapters', () => {
+    expect(() => adapterFromConfig({ name: '' })).toThrow('requires a name');
+    expect(() => registerToolAdapter({ name: 'x', command: 'x', leadArgs: 'bad' } as never)).toThrow('leadArgs must be a string array');
+    expect(() => getToolAdapter('missing')).toThrow('Unsupported tool: missing');
+  });
+});